@@ -20,6 +20,12 @@ const {
   helmetConfig 
 } = require('./middleware/security');
 const { globalErrorHandler } = require('./middleware/errorHandler');
+const { resolveMentions, notifyMentions } = require('./services/mentionService');
+const { parseHistoryQuery, getMessageHistory } = require('./services/messageHistoryService');
+const { emitAndRecord } = require('./services/syncService');
+const { startScheduler, stopScheduler } = require('./services/scheduledMessageService');
+const { startRecurrenceScheduler, stopRecurrenceScheduler } = require('./services/recurrenceService');
+const { ensureDefaultRoles } = require('./services/permissionService');
 
 const app = express();
 const server = http.createServer(app);
@@ -36,6 +42,14 @@ const broadcastsRoutes = require('./routes/broadcasts');
 const tasksRoutes = require('./routes/tasks');
 const teamsRoutes = require('./routes/teams');
 const callHistoryRoutes = require('./routes/callHistory');
+const syncRoutes = require('./routes/sync');
+const scheduledMessagesRoutes = require('./routes/scheduledMessages');
+const trashRoutes = require('./routes/trash');
+const calendarRoutes = require('./routes/calendar');
+const timeEntriesRoutes = require('./routes/timeEntries');
+const taskViewsRoutes = require('./routes/taskViews');
+const securityRoutes = require('./routes/security');
+const rolesRoutes = require('./routes/roles');
 
 // Enhanced security middleware
 app.use(helmetConfig);
@@ -61,7 +75,7 @@ const corsOptions = {
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Authorization', 'Content-Type', 'X-Requested-With']
+  allowedHeaders: ['Authorization', 'Content-Type', 'X-Requested-With', 'Idempotency-Key']
 };
 
 app.use(cors(corsOptions));
@@ -111,7 +125,8 @@ app.get('/api/health', (req, res) => {
 const { User, PendingUser, Chat, Message, UserSettings, CallHistory } = require('./models');
 
 // Import middleware functions
-const { authenticateToken, requireManager } = require('./middleware/auth');
+const { authenticateToken, requirePermission, verifyAccessToken } = require('./middleware/auth');
+const { isSessionActive } = require('./services/sessionService');
 
 // Pass io object to routes that need it
 app.use((req, res, next) => {
@@ -133,11 +148,20 @@ app.use('/api/broadcasts', broadcastsRoutes);
 app.use('/api/tasks', tasksRoutes);
 app.use('/api/teams', teamsRoutes);
 app.use('/api/calls', callHistoryRoutes);
+app.use('/api/sync', syncRoutes);
+app.use('/api/scheduled-messages', scheduledMessagesRoutes);
+app.use('/api/trash', trashRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/time-entries', timeEntriesRoutes);
+app.use('/api/task-views', taskViewsRoutes);
+app.use('/api/security', securityRoutes);
+app.use('/api/roles', rolesRoutes);
 
 // Additional routes that frontend expects
-app.get('/api/pending-users', authenticateToken, requireManager, async (req, res) => {
+app.get('/api/pending-users', authenticateToken, requirePermission('users.approve'), async (req, res) => {
   try {
-    const pendingUsers = await PendingUser.find({ status: 'pending' })
+    // Same as /api/users/pending/list: unconfirmed sign-ups stay hidden until they click the email link
+    const pendingUsers = await PendingUser.find({ status: 'pending', emailVerified: { $ne: false } })
       .select('-password')
       .sort({ createdAt: -1 });
     
@@ -151,7 +175,7 @@ app.get('/api/pending-users', authenticateToken, requireManager, async (req, res
   }
 });
 
-app.post('/api/pending-users/:id/approve', authenticateToken, requireManager, async (req, res) => {
+app.post('/api/pending-users/:id/approve', authenticateToken, requirePermission('users.approve'), async (req, res) => {
   try {
     const { id } = req.params;
     
@@ -159,6 +183,9 @@ app.post('/api/pending-users/:id/approve', authenticateToken, requireManager, as
     if (!pendingUser) {
       return res.status(404).json({ error: 'Pending user not found' });
     }
+    if (pendingUser.emailVerified === false) {
+      return res.status(400).json({ success: false, error: 'This person has not confirmed their email address yet' });
+    }
 
     const newUser = new User({
       name: pendingUser.name,
@@ -184,7 +211,7 @@ app.post('/api/pending-users/:id/approve', authenticateToken, requireManager, as
   }
 });
 
-app.post('/api/pending-users/:id/reject', authenticateToken, requireManager, async (req, res) => {
+app.post('/api/pending-users/:id/reject', authenticateToken, requirePermission('users.approve'), async (req, res) => {
   try {
     const { id } = req.params;
     
@@ -206,14 +233,15 @@ app.post('/api/pending-users/:id/reject', authenticateToken, requireManager, asy
 app.get('/api/messages/:chatId', authenticateToken, async (req, res) => {
   try {
     const { chatId } = req.params;
-    const { page = 1, limit = 50 } = req.query;
+    const options = parseHistoryQuery(req.query);
+    if (!options) {
+      return res.status(400).json({ success: false, error: 'Invalid pagination cursor' });
+    }
     
-    const messages = await Message.find({ chatId })
-      .sort({ createdAt: -1 })
-      .limit(limit * 1)
-      .skip((page - 1) * limit);
+    // Legacy endpoint: returns the bare message array, use /api/chats/:id/messages for pagination info
+    const history = await getMessageHistory({ chatId, threadId: null }, options);
     
-    res.json(messages.reverse());
+    res.json(history ? history.messages : []);
   } catch (error) {
     logger.error('Get messages error', { error: error.message, chatId: req.params.chatId, requesterId: req.user.userId });
     res.status(500).json({ 
@@ -225,13 +253,20 @@ app.get('/api/messages/:chatId', authenticateToken, async (req, res) => {
 
 app.post('/api/messages', authenticateToken, async (req, res) => {
   try {
-    const { chatId, content, type = 'text', replyTo } = req.body;
+    const { chatId, content, type = 'text', replyTo, mentions: mentionIds } = req.body;
     
     const user = await User.findById(req.user.userId);
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
 
+    const chat = await Chat.findById(chatId);
+    if (!chat) {
+      return res.status(404).json({ error: 'Chat not found' });
+    }
+
+    const { mentions, broadcastMention } = await resolveMentions(chat, content, mentionIds, req.user);
+
     const message = new Message({
       chatId,
       senderId: req.user.userId,
@@ -239,6 +274,8 @@ app.post('/api/messages', authenticateToken, async (req, res) => {
       content,
       type,
       replyTo,
+      mentions,
+      broadcastMention,
       reactions: [],
       readBy: [{
         userId: req.user.userId,
@@ -260,11 +297,13 @@ app.post('/api/messages', authenticateToken, async (req, res) => {
       replyTo: message.replyTo,
       reactions: message.reactions,
       readBy: message.readBy,
+      mentions: message.mentions,
+      broadcastMention: message.broadcastMention,
       isDeleted: false
     };
 
     // Emit to all users in the chat
-    req.io.to(chatId).emit('receive-message', messageData);
+    await emitAndRecord(req.io, chatId, 'receive-message', messageData);
     
     // Also emit to general room for notifications
     req.io.emit('new-message', {
@@ -272,6 +311,8 @@ app.post('/api/messages', authenticateToken, async (req, res) => {
       message: messageData
     });
 
+    await notifyMentions(req.io, chat, messageData);
+
     res.json(messageData);
   } catch (error) {
     logger.error('Send message error', { error: error.message, chatId: req.body.chatId, requesterId: req.user.userId });
@@ -302,7 +343,7 @@ app.get('/api/user-settings', authenticateToken, async (req, res) => {
 });
 
 // Socket.IO connection handling with authentication
-io.use((socket, next) => {
+io.use(async (socket, next) => {
   try {
     const token = socket.handshake.auth.token || socket.handshake.headers.authorization?.split(' ')[1];
     
@@ -310,19 +351,22 @@ io.use((socket, next) => {
       return next(new Error('Authentication error: No token provided'));
     }
     
-    const jwt = require('jsonwebtoken');
-    const JWT_SECRET = process.env.JWT_SECRET || require('crypto').randomBytes(64).toString('hex');
+    let decoded;
+    try {
+      decoded = verifyAccessToken(token);
+    } catch (err) {
+      return next(new Error('Authentication error: Invalid token'));
+    }
+    if (!(await isSessionActive(decoded.sid, decoded.userId))) {
+      return next(new Error('Authentication error: Session ended'));
+    }
     
-    jwt.verify(token, JWT_SECRET, (err, decoded) => {
-      if (err) {
-        return next(new Error('Authentication error: Invalid token'));
-      }
-      
-      socket.userId = decoded.userId;
-      socket.userName = decoded.name;
-      socket.userRole = decoded.role;
-      next();
-    });
+    socket.userId = decoded.userId;
+    socket.userName = decoded.name;
+    socket.userRole = decoded.role;
+    socket.sessionId = decoded.sid;
+    socket.tokenExpiresAt = decoded.exp * 1000;
+    next();
   } catch (error) {
     next(new Error('Authentication error'));
   }
@@ -338,6 +382,44 @@ io.on('connection', (socket) => {
   // Join user to global tasks room for real-time task synchronization
   socket.join('tasks');
   logger.socket(`User joined tasks room`, { userId: socket.userId });
+
+  // Signing a session out disconnects every socket in its room
+  socket.join(`session:${socket.sessionId}`);
+
+  // Events are refused once the access token runs out, until the client sends a fresh one
+  socket.use(([event], next) => {
+    if (event === 'reauthenticate' || Date.now() < socket.tokenExpiresAt) {
+      return next();
+    }
+    next(new Error('Authentication error: Token expired'));
+  });
+
+  socket.on('error', (error) => {
+    if (error.message === 'Authentication error: Token expired') {
+      socket.emit('auth:expired');
+    } else {
+      logger.error('Socket error', { error: error.message, userId: socket.userId });
+    }
+  });
+
+  socket.on('reauthenticate', async ({ token } = {}, callback) => {
+    const reply = typeof callback === 'function' ? callback : () => {};
+    try {
+      const decoded = verifyAccessToken(token);
+      // A token for another session (the user signed in again) needs a new connection instead
+      if (String(decoded.userId) !== String(socket.userId) || String(decoded.sid) !== String(socket.sessionId)) {
+        return reply({ success: false, error: 'Token belongs to a different session' });
+      }
+      if (!(await isSessionActive(decoded.sid, decoded.userId))) {
+        return reply({ success: false, error: 'Session has ended' });
+      }
+      socket.tokenExpiresAt = decoded.exp * 1000;
+      socket.userRole = decoded.role;
+      reply({ success: true });
+    } catch (error) {
+      reply({ success: false, error: 'Invalid or expired token' });
+    }
+  });
   
   socket.on('join-user', (userId) => {
     // Validate that user can only join their own room
@@ -606,6 +688,7 @@ async function createDefaultChats() {
 
 async function initializeApp() {
   try {
+    await ensureDefaultRoles();
     await createDefaultAdmin();
     await createDefaultChats();
     logger.info('App initialized successfully');
@@ -621,6 +704,9 @@ async function startServer() {
   try {
     await connectDB();
     await initializeApp();
+    // Scheduled messages live in the database, so pending ones resume after a restart
+    startScheduler(io);
+    startRecurrenceScheduler(io);
   } catch (error) {
     logger.warn('Starting server without database connection', { error: error.message });
     // Set flag to indicate MongoDB is not available
@@ -645,6 +731,8 @@ startServer();
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  stopScheduler();
+  stopRecurrenceScheduler();
   server.close(() => {
     logger.info('Server closed');
     mongoose.connection.close();
@@ -654,6 +742,8 @@ process.on('SIGTERM', async () => {
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
+  stopScheduler();
+  stopRecurrenceScheduler();
   server.close(() => {
     logger.info('Server closed');
     mongoose.connection.close();
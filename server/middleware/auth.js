@@ -1,6 +1,8 @@
 const jwt = require('jsonwebtoken');
 const crypto = require('crypto');
 const { User } = require('../models');
+const { isSessionActive } = require('../services/sessionService');
+const { getRolePermissions } = require('../services/permissionService');
 const logger = require('../utils/logger');
 
 // Generate a secure JWT secret if not provided
@@ -12,6 +14,48 @@ const JWT_SECRET = process.env.JWT_SECRET || (() => {
   return crypto.randomBytes(64).toString('hex');
 })();
 
+// Access tokens are short-lived; the refresh cookie (see sessionService) renews them
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+
+// `sid` ties the token to its session, so signing a device out takes effect before the token expires
+const signAccessToken = (user, sessionId) => jwt.sign(
+  {
+    userId: user._id,
+    email: user.email,
+    role: user.role,
+    sid: sessionId
+  },
+  JWT_SECRET,
+  { expiresIn: ACCESS_TOKEN_TTL }
+);
+
+// Throws like jwt.verify when the token is invalid or expired
+const verifyAccessToken = (token) => {
+  const decoded = jwt.verify(token, JWT_SECRET);
+  if (decoded.purpose) {
+    throw new jwt.JsonWebTokenError('Not an access token');
+  }
+  return decoded;
+};
+
+// When login needs a second factor, the password step returns one of these instead of an access
+// token. `purpose` is '2fa' (enter a code) or '2fa-setup' (enrol first), and is checked on use.
+const CHALLENGE_TOKEN_TTL = '5m';
+
+const signChallengeToken = (user, purpose) => jwt.sign(
+  { userId: user._id, purpose },
+  JWT_SECRET,
+  { expiresIn: CHALLENGE_TOKEN_TTL }
+);
+
+const verifyChallengeToken = (token, purpose) => {
+  const decoded = jwt.verify(token, JWT_SECRET);
+  if (decoded.purpose !== purpose) {
+    throw new jwt.JsonWebTokenError('Wrong challenge token');
+  }
+  return decoded;
+};
+
 const authenticateToken = async (req, res, next) => {
   try {
     const authHeader = req.headers['authorization'];
@@ -29,53 +73,72 @@ const authenticateToken = async (req, res, next) => {
       });
     }
 
-    jwt.verify(token, JWT_SECRET, async (err, decoded) => {
-      if (err) {
-        logger.warn('Authentication failed: Invalid token', {
-          error: err.message,
+    let decoded;
+    try {
+      decoded = verifyAccessToken(token);
+    } catch (err) {
+      logger.warn('Authentication failed: Invalid token', {
+        error: err.message,
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+        url: req.url
+      });
+      // 401 rather than 403 so the client knows to refresh and retry
+      return res.status(401).json({ 
+        success: false,
+        error: 'Invalid or expired token',
+        code: err.name === 'TokenExpiredError' ? 'TOKEN_EXPIRED' : 'TOKEN_INVALID'
+      });
+    }
+
+    // Verify the session is still signed in and the user still exists and is approved
+    try {
+      if (!(await isSessionActive(decoded.sid, decoded.userId))) {
+        logger.warn('Authentication failed: Session ended', {
+          userId: decoded.userId,
+          sessionId: decoded.sid,
           ip: req.ip,
-          userAgent: req.get('User-Agent'),
           url: req.url
         });
-        return res.status(403).json({ 
+        return res.status(401).json({ 
           success: false,
-          error: 'Invalid or expired token' 
+          error: 'Session has ended',
+          code: 'SESSION_ENDED'
         });
       }
-      
-      // Verify user still exists and is approved
-      try {
-        const user = await User.findById(decoded.userId).select('-password');
-        if (!user || !user.isApproved) {
-          logger.warn('Authentication failed: User not found or not approved', {
-            userId: decoded.userId,
-            ip: req.ip,
-            url: req.url
-          });
-          return res.status(403).json({ 
-            success: false,
-            error: 'User account not found or not approved' 
-          });
-        }
-        
-        req.user = {
-          userId: user._id,
-          email: user.email,
-          role: user.role,
-          name: user.name
-        };
-        next();
-      } catch (dbError) {
-        logger.error('Database error during authentication', {
-          error: dbError.message,
-          userId: decoded.userId
+
+      const user = await User.findById(decoded.userId).select('-password');
+      if (!user || !user.isApproved) {
+        logger.warn('Authentication failed: User not found or not approved', {
+          userId: decoded.userId,
+          ip: req.ip,
+          url: req.url
         });
-        return res.status(500).json({ 
+        return res.status(403).json({ 
           success: false,
-          error: 'Internal server error' 
+          error: 'User account not found or not approved' 
         });
       }
-    });
+      
+      req.user = {
+        userId: user._id,
+        email: user.email,
+        role: user.role,
+        permissions: await getRolePermissions(user.role),
+        name: user.name,
+        sessionId: decoded.sid
+      };
+      next();
+    } catch (dbError) {
+      logger.error('Database error during authentication', {
+        error: dbError.message,
+        userId: decoded.userId
+      });
+      return res.status(500).json({ 
+        success: false,
+        error: 'Internal server error' 
+      });
+    }
   } catch (error) {
     logger.error('Authentication middleware error', {
       error: error.message,
@@ -119,11 +182,45 @@ const requireRole = (role) => {
   };
 };
 
-const requireManager = requireRole('manager');
+// Allows the request when the user's role grants the permission (see permissionService)
+const requirePermission = (permission) => {
+  return (req, res, next) => {
+    if (!req.user) {
+      logger.warn('Authorization failed: No user in request', {
+        ip: req.ip,
+        url: req.url
+      });
+      return res.status(401).json({ 
+        success: false,
+        error: 'Authentication required' 
+      });
+    }
+
+    if (!req.user.permissions?.includes(permission)) {
+      logger.warn('Authorization failed: Missing permission', {
+        userId: req.user.userId,
+        userRole: req.user.role,
+        requiredPermission: permission,
+        ip: req.ip,
+        url: req.url
+      });
+      return res.status(403).json({ 
+        success: false,
+        error: 'Insufficient permissions' 
+      });
+    }
+
+    next();
+  };
+};
 
 module.exports = {
   authenticateToken,
   requireRole,
-  requireManager
+  requirePermission,
+  signAccessToken,
+  verifyAccessToken,
+  signChallengeToken,
+  verifyChallengeToken
   // JWT_SECRET is not exported for security
 };
\ No newline at end of file
@@ -61,6 +61,30 @@ const validateLogin = [
   handleValidationErrors
 ];
 
+// Forgot password and resending the confirmation email
+const validateEmailRequest = [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please enter a valid email address'),
+  
+  handleValidationErrors
+];
+
+// Choosing a new password from a reset link
+const validatePasswordReset = [
+  body('token')
+    .isString()
+    .notEmpty()
+    .withMessage('Reset link is missing its token'),
+  
+  body('password')
+    .isLength({ min: 6, max: 100 })
+    .withMessage('Password must be at least 6 characters'),
+  
+  handleValidationErrors
+];
+
 // Message validation
 const validateMessage = [
   body('content')
@@ -73,6 +97,60 @@ const validateMessage = [
     .isIn(['text', 'file', 'announcement'])
     .withMessage('Invalid message type'),
   
+  body('mentions')
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage('Mentions must be an array of user IDs'),
+  
+  handleValidationErrors
+];
+
+// Scheduled message validation
+const validateScheduledMessage = [
+  body('chatId')
+    .custom((value) => mongoose.Types.ObjectId.isValid(value))
+    .withMessage('Invalid chat ID'),
+
+  body('content')
+    .trim()
+    .isLength({ min: 1, max: 5000 })
+    .withMessage('Message content must be between 1 and 5000 characters'),
+
+  body('type')
+    .optional()
+    .isIn(['text', 'announcement'])
+    .withMessage('Invalid message type'),
+
+  body('mentions')
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage('Mentions must be an array of user IDs'),
+
+  body('scheduledFor')
+    .isISO8601()
+    .withMessage('Invalid scheduled time format'),
+
+  handleValidationErrors
+];
+
+// Scheduled message update validation (chat and type are fixed once scheduled)
+const validateScheduledMessageUpdate = [
+  body('content')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 5000 })
+    .withMessage('Message content must be between 1 and 5000 characters'),
+
+  body('mentions')
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage('Mentions must be an array of user IDs'),
+
+  body('scheduledFor')
+    .optional()
+    .isISO8601()
+    .withMessage('Invalid scheduled time format'),
+
   handleValidationErrors
 ];
 
@@ -184,7 +262,11 @@ module.exports = {
   validateObjectId,
   validateRegistration,
   validateLogin,
+  validateEmailRequest,
+  validatePasswordReset,
   validateMessage,
+  validateScheduledMessage,
+  validateScheduledMessageUpdate,
   validateChat,
   validateUserSettings,
   validateTask,
@@ -11,7 +11,23 @@ const auditLogSchema = new mongoose.Schema({
     required: true,
     enum: [
       'user.login',
+      'session.revoked',
+      'auth.login_failed',
+      'auth.account_locked',
+      'auth.account_unlocked',
+      'auth.new_device_login',
+      'auth.password_reset_requested',
+      'auth.password_reset',
+      'twofactor.enabled',
+      'twofactor.disabled',
+      'twofactor.recovery_used',
+      'twofactor.recovery_codes.regenerated',
+      'twofactor.reset',
+      'security.policy.updated',
       'user.role.updated',
+      'role.created',
+      'role.updated',
+      'role.deleted',
       'user.deleted',
       'user.approved',
       'user.rejected',
@@ -20,7 +36,11 @@ const auditLogSchema = new mongoose.Schema({
       'chat.cleared',
       'broadcast.sent',
       'message.sent',
-      'message.deleted'
+      'message.deleted',
+      'message.pinned',
+      'message.unpinned',
+      'trash.restored',
+      'trash.purged'
     ],
   },
   targetId: {
@@ -31,6 +31,22 @@ const chatSchema = new mongoose.Schema({
   createdBy: {
     type: String
   },
+  // Newest first; the pinned bar cycles through these
+  pinnedMessages: [{
+    _id: false,
+    messageId: {
+      type: String,
+      required: true
+    },
+    pinnedBy: {
+      type: String,
+      required: true
+    },
+    pinnedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
   isArchived: {
     type: Boolean,
     default: false
@@ -0,0 +1,47 @@
+const mongoose = require('mongoose');
+
+// A single-use link sent by email: a password reset for a user, or confirming the address
+// on a registration request. Only the hash of the token in the link is stored.
+const emailTokenSchema = new mongoose.Schema({
+  purpose: {
+    type: String,
+    enum: ['password-reset', 'email-verification'],
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // The address the link was sent to; the token stops working if the account's address changes
+  email: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  pendingUserId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PendingUser',
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+emailTokenSchema.index({ purpose: 1, email: 1 }); // Replacing earlier links to the same address
+emailTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // Removed once the link has expired
+
+module.exports = mongoose.model('EmailToken', emailTokenSchema);
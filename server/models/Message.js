@@ -23,7 +23,7 @@ const messageSchema = new mongoose.Schema({
   },
   type: { 
     type: String, 
-    enum: ['text', 'file', 'announcement', 'general'], 
+    enum: ['text', 'file', 'announcement', 'general', 'task'], 
     default: 'text' 
   },
   fileUrl: {
@@ -74,6 +74,58 @@ const messageSchema = new mongoose.Schema({
     type: String,
     default: null
   },
+  // Thread replies point at their root message and stay out of the main timeline
+  threadId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Message',
+    default: null
+  },
+  threadReplyCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  threadLastReplyAt: {
+    type: Date,
+    default: null
+  },
+  threadParticipants: [{
+    type: String
+  }],
+  // Mentioned user ids, resolved from the composer's autocomplete selections
+  mentions: [{
+    type: String
+  }],
+  broadcastMention: {
+    type: String,
+    enum: ['channel', 'here', null],
+    default: null
+  },
+  // Idempotency key from the sender's outbox, used to drop duplicate retries
+  clientMessageId: {
+    type: String,
+    default: null
+  },
+  // Task messages carry a summary of their task, kept current as the task changes
+  taskCard: {
+    type: {
+      _id: false,
+      taskId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Task'
+      },
+      title: String,
+      status: String,
+      priority: String,
+      dueDate: Date,
+      assigneeName: String,
+      isDeleted: {
+        type: Boolean,
+        default: false
+      }
+    },
+    default: null
+  },
   isDeleted: {
     type: Boolean,
     default: false
@@ -82,6 +134,18 @@ const messageSchema = new mongoose.Schema({
     type: Date,
     default: null
   },
+  // Earlier versions of the content, oldest first; the current version is `content`
+  revisions: [{
+    _id: false,
+    content: {
+      type: String,
+      required: true
+    },
+    createdAt: {
+      type: Date,
+      required: true
+    }
+  }],
   readBy: [{
     userId: String,
     readAt: { type: Date, default: Date.now }
@@ -90,9 +154,12 @@ const messageSchema = new mongoose.Schema({
 }, {
   timestamps: true,
   toJSON: {
+    virtuals: true,
     transform: function(doc, ret) {
       ret.id = ret._id.toString();
       ret.timestamp = ret.createdAt;
+      // Served separately by the revisions endpoint
+      delete ret.revisions;
       delete ret._id;
       delete ret.__v;
       return ret;
@@ -101,19 +168,30 @@ const messageSchema = new mongoose.Schema({
 });
 
 // Indexes for better performance
-messageSchema.index({ chatId: 1, createdAt: -1 }); // Primary query pattern
+messageSchema.index({ chatId: 1, createdAt: -1, _id: -1 }); // Primary query pattern (cursor pagination)
 messageSchema.index({ senderId: 1, createdAt: -1 }); // User message history
 messageSchema.index({ type: 1, chatId: 1 }); // Filter by type within chat
 messageSchema.index({ content: 'text' }); // Text search
 messageSchema.index({ isDeleted: 1, chatId: 1 }); // Filter deleted messages
 messageSchema.index({ replyTo: 1 }); // For reply threads
+messageSchema.index({ threadId: 1, createdAt: 1 }); // Thread replies in order
+messageSchema.index({ 'taskCard.taskId': 1 }, { sparse: true }); // Task cards to refresh
+messageSchema.index(
+  { senderId: 1, clientMessageId: 1 },
+  { unique: true, partialFilterExpression: { clientMessageId: { $type: 'string' } } }
+); // Idempotent sends
 
 // Virtual for timestamp compatibility
 messageSchema.virtual('timestamp').get(function() {
   return this.createdAt;
 });
 
-// Ensure virtuals are included in JSON
-messageSchema.set('toJSON', { virtuals: true });
+// Instance method to soft delete: the earlier versions go too, so the deleted text can't be read back
+messageSchema.methods.softDelete = function() {
+  this.isDeleted = true;
+  this.content = 'This message was deleted.';
+  this.revisions = [];
+  return this.save();
+};
 
 module.exports = mongoose.model('Message', messageSchema);
\ No newline at end of file
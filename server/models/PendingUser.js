@@ -31,6 +31,15 @@ const pendingUserSchema = new mongoose.Schema({
     type: String, 
     enum: ['pending', 'approved', 'rejected'], 
     default: 'pending' 
+  },
+  // Managers only see the request once the link sent to the address has been opened
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
+  emailVerifiedAt: {
+    type: Date,
+    default: null
   }
 }, {
   timestamps: true,
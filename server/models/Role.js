@@ -0,0 +1,45 @@
+const mongoose = require('mongoose');
+
+// A named set of permissions. Users have one role, referenced by `key`.
+const roleSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    lowercase: true,
+    match: [/^[a-z0-9][a-z0-9-]*$/, 'Role key may only contain letters, numbers and dashes']
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 40
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 200,
+    default: ''
+  },
+  permissions: {
+    type: [String],
+    default: []
+  },
+  // The built-in roles; they can be edited (except the manager's permissions) but not deleted
+  isSystem: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+module.exports = mongoose.model('Role', roleSchema);
@@ -0,0 +1,70 @@
+const mongoose = require('mongoose');
+
+const scheduledMessageSchema = new mongoose.Schema({
+  chatId: {
+    type: String,
+    required: [true, 'Chat ID is required']
+  },
+  senderId: {
+    type: String,
+    required: [true, 'Sender ID is required']
+  },
+  content: {
+    type: String,
+    required: [true, 'Message content is required'],
+    maxlength: [5000, 'Message content cannot exceed 5000 characters']
+  },
+  type: {
+    type: String,
+    enum: ['text', 'announcement'],
+    default: 'text'
+  },
+  isUrgent: {
+    type: Boolean,
+    default: false
+  },
+  mentions: [{
+    type: String
+  }],
+  scheduledFor: {
+    type: Date,
+    required: [true, 'Scheduled time is required']
+  },
+  // 'sending' marks a message claimed by the scheduler so it is delivered once
+  status: {
+    type: String,
+    enum: ['pending', 'sending', 'sent', 'cancelled', 'failed'],
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  sentMessageId: {
+    type: String,
+    default: null
+  },
+  sentAt: {
+    type: Date,
+    default: null
+  },
+  failureReason: {
+    type: String,
+    default: null
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id.toString();
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+scheduledMessageSchema.index({ status: 1, scheduledFor: 1 }); // Scheduler: due messages
+scheduledMessageSchema.index({ senderId: 1, status: 1, scheduledFor: 1 }); // Per-user list
+
+module.exports = mongoose.model('ScheduledMessage', scheduledMessageSchema);
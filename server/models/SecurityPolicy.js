@@ -0,0 +1,33 @@
+const mongoose = require('mongoose');
+
+// Organisation-wide security settings. There is one document, with key 'global'.
+const securityPolicySchema = new mongoose.Schema({
+  key: {
+    type: String,
+    default: 'global',
+    unique: true
+  },
+  // Members whose role has a privileged permission (see permissionService) must have two-factor
+  // authentication; those without it enrol at their next login. The name is from when only managers had one.
+  requireManagerTwoFactor: {
+    type: Boolean,
+    default: false
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret._id;
+      delete ret.__v;
+      delete ret.key;
+      return ret;
+    }
+  }
+});
+
+module.exports = mongoose.model('SecurityPolicy', securityPolicySchema);
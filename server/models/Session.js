@@ -0,0 +1,68 @@
+const mongoose = require('mongoose');
+
+// One signed-in device. The refresh token is kept as a hash and changes on every refresh;
+// access tokens carry the session id so revoking the session ends them too.
+const sessionSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // The token this one replaced, so a stolen token being replayed can be spotted
+  previousTokenHash: {
+    type: String,
+    default: null
+  },
+  rotatedAt: {
+    type: Date,
+    default: null
+  },
+  userAgent: {
+    type: String,
+    default: ''
+  },
+  ip: {
+    type: String,
+    default: ''
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'signed-out', 'signed-out-everywhere', 'token-reuse', 'password-reset', null],
+    default: null
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      delete ret.tokenHash;
+      delete ret.previousTokenHash;
+      return ret;
+    }
+  }
+});
+
+sessionSchema.index({ userId: 1, revokedAt: 1, lastUsedAt: -1 }); // A user's active sessions
+sessionSchema.index({ previousTokenHash: 1 }); // Reuse detection
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // Removed once the refresh token can no longer be used
+
+module.exports = mongoose.model('Session', sessionSchema);
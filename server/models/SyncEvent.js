@@ -0,0 +1,32 @@
+const mongoose = require('mongoose');
+
+// How long missed events can be replayed to a reconnecting client
+const SYNC_EVENT_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+const syncEventSchema = new mongoose.Schema({
+  seq: {
+    type: Number,
+    required: true,
+    unique: true
+  },
+  event: {
+    type: String,
+    required: true
+  },
+  // Socket rooms the event was emitted to: a chat id, 'tasks', 'user:<id>' or 'all'
+  rooms: [{
+    type: String
+  }],
+  payload: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  minimize: false
+});
+
+syncEventSchema.index({ rooms: 1, seq: 1 }); // Replay per room in order
+syncEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: SYNC_EVENT_RETENTION_SECONDS });
+
+module.exports = mongoose.model('SyncEvent', syncEventSchema);
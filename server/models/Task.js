@@ -1,5 +1,27 @@
 const mongoose = require('mongoose');
 
+// Lightweight to-dos inside a task; unlike subtasks they have no assignee or due date
+const checklistItemSchema = new mongoose.Schema({
+  text: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  done: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete ret._id;
+      return ret;
+    }
+  }
+});
+
 const taskSchema = new mongoose.Schema({
   title: {
     type: String,
@@ -87,6 +109,18 @@ const taskSchema = new mongoose.Schema({
     max: 100,
     default: 0
   },
+  estimatedHours: {
+    type: Number,
+    min: 0,
+    max: 10000,
+    default: null
+  },
+  // Sum of the task's finished time entries, kept up to date by timeTrackingService
+  loggedHours: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
   isRecurring: {
     type: Boolean,
     default: false
@@ -95,20 +129,102 @@ const taskSchema = new mongoose.Schema({
     type: String,
     enum: ['daily', 'weekly', 'monthly', 'yearly']
   },
+  // RRULE-style rule; every occurrence of a series carries a copy
+  recurrence: {
+    frequency: {
+      type: String,
+      enum: ['daily', 'weekly', 'monthly', 'yearly']
+    },
+    interval: {
+      type: Number,
+      min: 1,
+      max: 365,
+      default: 1
+    },
+    // Days of the week (0 = Sunday): which days a weekly rule falls on, or the only days a daily rule uses
+    weekdays: [{
+      type: Number,
+      min: 0,
+      max: 6
+    }],
+    // Monthly on the nth weekday (1-4, or -1 for the last) instead of the same day of the month
+    monthWeek: {
+      type: Number,
+      enum: [1, 2, 3, 4, -1]
+    },
+    // Due date and occurrence index of the occurrence the rule counts from
+    startsOn: Date,
+    startIndex: {
+      type: Number,
+      min: 1
+    },
+    until: Date,
+    count: {
+      type: Number,
+      min: 1,
+      max: 1000
+    }
+  },
+  // Occurrences of a recurring task share the first occurrence's id
+  seriesId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Task'
+  },
+  occurrenceIndex: {
+    type: Number,
+    min: 1
+  },
+  nextOccurrenceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Task',
+    default: null
+  },
+  // Set on the final occurrence once the rule's end date or count is reached
+  isLastOccurrence: {
+    type: Boolean,
+    default: false
+  },
   parentTaskId: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Task'
   },
+  // In display order
   subtasks: [{
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Task'
   }],
+  checklist: [checklistItemSchema],
+  // Tasks that must be finished before this one can start; `blocks` is the other side of the same links
+  blockedBy: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Task'
+  }],
+  blocks: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Task'
+  }],
+  // The chat message the task was created from
+  sourceMessage: {
+    chatId: String,
+    messageId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Message'
+    }
+  },
   isActive: {
     type: Boolean,
     default: true
   }
 }, {
-  timestamps: true
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
 });
 
 // Indexes for better query performance
@@ -119,6 +235,11 @@ taskSchema.index({ status: 1, priority: 1, dueDate: 1 }); // Priority and deadli
 taskSchema.index({ dueDate: 1, status: 1 }); // Overdue task queries
 taskSchema.index({ isActive: 1, status: 1 }); // Active task filtering
 taskSchema.index({ tags: 1 }); // Tag-based filtering
+taskSchema.index({ seriesId: 1, occurrenceIndex: 1 }, { unique: true, partialFilterExpression: { seriesId: { $exists: true } } }); // One task per occurrence
+taskSchema.index({ isRecurring: 1, nextOccurrenceId: 1, dueDate: 1 }); // Recurrence scheduler
+taskSchema.index({ parentTaskId: 1 }); // Subtask lookups
+taskSchema.index({ blockedBy: 1 }); // Dependents of a task
+taskSchema.index({ title: 'text', description: 'text' }, { weights: { title: 5, description: 1 } }); // Task search
 
 // Virtual for checking if task is overdue
 taskSchema.virtual('isOverdue').get(function() {
@@ -0,0 +1,54 @@
+const mongoose = require('mongoose');
+
+// A user's saved task filters, sort and layout, listed in their sidebar
+const taskViewSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 60
+  },
+  filters: {
+    status: [String],
+    priority: [String],
+    assignedTo: [String], // User ids, or 'me' for whoever opens the view
+    teamId: [String],
+    tags: [String],
+    q: {
+      type: String,
+      default: ''
+    },
+    due: {
+      type: String,
+      default: ''
+    }
+  },
+  sort: {
+    type: String,
+    default: 'dueDate'
+  },
+  viewMode: {
+    type: String,
+    enum: ['dashboard', 'list', 'board', 'timeline', 'calendar'],
+    default: 'dashboard'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+taskViewSchema.index({ userId: 1, createdAt: 1 }); // A user's views in sidebar order
+
+module.exports = mongoose.model('TaskView', taskViewSchema);
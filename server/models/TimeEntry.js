@@ -0,0 +1,61 @@
+const mongoose = require('mongoose');
+
+// Time a user spent on a task, from a timer or entered by hand.
+// A running timer has `isRunning` set and no `endedAt` yet; its minutes are filled in when it stops.
+const timeEntrySchema = new mongoose.Schema({
+  taskId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Task',
+    required: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  startedAt: {
+    type: Date,
+    required: true
+  },
+  endedAt: {
+    type: Date,
+    default: null
+  },
+  minutes: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: 500,
+    default: ''
+  },
+  source: {
+    type: String,
+    enum: ['timer', 'manual'],
+    required: true
+  },
+  isRunning: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+timeEntrySchema.index({ userId: 1, startedAt: -1 }); // Timesheets
+timeEntrySchema.index({ taskId: 1, startedAt: -1 }); // A task's entries and logged total
+timeEntrySchema.index({ startedAt: 1 }); // Reports over a date range
+timeEntrySchema.index({ userId: 1 }, { unique: true, partialFilterExpression: { isRunning: true } }); // One running timer per user
+
+module.exports = mongoose.model('TimeEntry', timeEntrySchema);
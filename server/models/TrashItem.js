@@ -0,0 +1,63 @@
+const mongoose = require('mongoose');
+
+// A deleted chat, or the messages removed when a chat was cleared.
+// The data itself lives in TrashedMessage (messages) and `snapshot` (the chat document).
+const trashItemSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ['chat', 'messages'],
+    required: true
+  },
+  chatId: {
+    type: String,
+    required: true
+  },
+  chatName: {
+    type: String,
+    default: ''
+  },
+  chatType: {
+    type: String
+  },
+  // 'chat': the raw chat document; 'messages': the pins that were cleared along with the messages
+  snapshot: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  messageCount: {
+    type: Number,
+    default: 0
+  },
+  deletedBy: {
+    type: String,
+    required: true
+  },
+  deletedByName: {
+    type: String,
+    default: ''
+  },
+  deletedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  minimize: false,
+  toJSON: {
+    transform: function(doc, ret) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      delete ret.snapshot;
+      return ret;
+    }
+  }
+});
+
+trashItemSchema.index({ deletedAt: -1 });
+trashItemSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // Purged automatically after the retention window
+
+module.exports = mongoose.model('TrashItem', trashItemSchema);
@@ -0,0 +1,29 @@
+const mongoose = require('mongoose');
+
+// A message moved out of the messages collection, kept as the raw document so it can be restored as-is
+const trashedMessageSchema = new mongoose.Schema({
+  trashItemId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'TrashItem',
+    required: true
+  },
+  chatId: {
+    type: String,
+    required: true
+  },
+  data: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  minimize: false
+});
+
+trashedMessageSchema.index({ trashItemId: 1 });
+trashedMessageSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+module.exports = mongoose.model('TrashedMessage', trashedMessageSchema);
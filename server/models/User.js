@@ -20,9 +20,9 @@ const userSchema = new mongoose.Schema({
     minlength: [6, 'Password must be at least 6 characters'],
     select: false  // Hide password by default
   },
+  // Key of a Role; what the user may do comes from that role's permissions
   role: { 
     type: String, 
-    enum: ['manager', 'employee'], 
     default: 'employee' 
   },
   avatar: {
@@ -45,6 +45,72 @@ const userSchema = new mongoose.Schema({
   registeredAt: { 
     type: Date, 
     default: Date.now 
+  },
+  // SHA-256 of the secret in the user's calendar feed URL; null when no feed link is active
+  calendarFeedTokenHash: {
+    type: String,
+    default: null,
+    select: false
+  },
+  calendarFeedCreatedAt: {
+    type: Date,
+    default: null
+  },
+  // TOTP two-factor authentication; see services/twoFactorService.js
+  twoFactor: {
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    secret: {
+      type: String,
+      default: null,
+      select: false
+    },
+    // Set during enrolment until the first code confirms the app has it
+    pendingSecret: {
+      type: String,
+      default: null,
+      select: false
+    },
+    recoveryCodeHashes: {
+      type: [String],
+      default: [],
+      select: false
+    },
+    // Time step of the last accepted code, so a code can't be used twice
+    lastUsedStep: {
+      type: Number,
+      default: null,
+      select: false
+    },
+    enabledAt: {
+      type: Date,
+      default: null
+    }
+  },
+  // Failed sign-in tracking for account lockout; see services/loginSecurityService.js
+  loginSecurity: {
+    failedAttempts: {
+      type: Number,
+      default: 0,
+      select: false
+    },
+    lastFailedAt: {
+      type: Date,
+      default: null,
+      select: false
+    },
+    // Lockouts since the last successful sign-in; each one lasts twice as long as the one before
+    lockCount: {
+      type: Number,
+      default: 0,
+      select: false
+    },
+    lockedUntil: {
+      type: Date,
+      default: null
+    }
   }
 }, {
   timestamps: true,
@@ -54,6 +120,13 @@ const userSchema = new mongoose.Schema({
       delete ret._id;
       delete ret.__v;
       delete ret.password; // Always remove password from JSON output
+      delete ret.calendarFeedTokenHash;
+      if (ret.twoFactor) {
+        ret.twoFactor = { enabled: ret.twoFactor.enabled, enabledAt: ret.twoFactor.enabledAt };
+      }
+      if (ret.loginSecurity) {
+        ret.loginSecurity = { lockedUntil: ret.loginSecurity.lockedUntil };
+      }
       return ret;
     }
   }
@@ -65,5 +138,6 @@ userSchema.index({ status: 1 });
 userSchema.index({ role: 1, isApproved: 1 });
 // Index for activity sorting
 userSchema.index({ lastSeen: -1 }); // For sorting by activity
+userSchema.index({ calendarFeedTokenHash: 1 }, { sparse: true }); // Calendar feed lookups
 
 module.exports = mongoose.model('User', userSchema);
\ No newline at end of file
@@ -7,6 +7,17 @@ const AuditLog = require('./AuditLog');
 const Task = require('./Task');
 const Team = require('./Team');
 const CallHistory = require('./callHistory');
+const Counter = require('./Counter');
+const SyncEvent = require('./SyncEvent');
+const ScheduledMessage = require('./ScheduledMessage');
+const TrashItem = require('./TrashItem');
+const TrashedMessage = require('./TrashedMessage');
+const TimeEntry = require('./TimeEntry');
+const TaskView = require('./TaskView');
+const Session = require('./Session');
+const SecurityPolicy = require('./SecurityPolicy');
+const EmailToken = require('./EmailToken');
+const Role = require('./Role');
 
 module.exports = {
   User,
@@ -17,5 +28,16 @@ module.exports = {
   AuditLog,
   Task,
   Team,
-  CallHistory
+  CallHistory,
+  Counter,
+  SyncEvent,
+  ScheduledMessage,
+  TrashItem,
+  TrashedMessage,
+  TimeEntry,
+  TaskView,
+  Session,
+  SecurityPolicy,
+  EmailToken,
+  Role
 }; 
\ No newline at end of file
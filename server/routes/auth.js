@@ -1,21 +1,46 @@
 const express = require('express');
 const bcrypt = require('bcryptjs');
-const jwt = require('jsonwebtoken');
 const { User, PendingUser } = require('../models');
-const { authenticateToken } = require('../middleware/auth');
-const { validateRegistration, validateLogin } = require('../middleware/validation');
+const { authenticateToken, signAccessToken, signChallengeToken, verifyChallengeToken } = require('../middleware/auth');
+const {
+  validateRegistration,
+  validateLogin,
+  validateEmailRequest,
+  validatePasswordReset,
+  validateObjectId
+} = require('../middleware/validation');
 const { logAction } = require('../services/auditLogService');
+const {
+  createSession,
+  rotateSession,
+  findSessionByRefreshToken,
+  getActiveSessions,
+  revokeSessions,
+  getRefreshTokenFromRequest,
+  setRefreshCookie,
+  clearRefreshCookie
+} = require('../services/sessionService');
+const {
+  generateSecret,
+  buildEnrolment,
+  generateRecoveryCodes,
+  verifySecondFactor,
+  enableTwoFactor,
+  disableTwoFactor
+} = require('../services/twoFactorService');
+const { isTwoFactorRequired } = require('../services/securityPolicyService');
+const {
+  getLockedUntil,
+  lockMessage,
+  recordFailedLogin,
+  clearFailedLogins,
+  detectUnfamiliarLogin,
+  notifyUnfamiliarLogin
+} = require('../services/loginSecurityService');
+const { consumeToken, sendPasswordResetEmail, sendVerificationEmail } = require('../services/accountEmailService');
 const { authRateLimit } = require('../middleware/security');
 const logger = require('../utils/logger');
 
-// Get JWT secret from environment or generate one for development
-const JWT_SECRET = process.env.JWT_SECRET || (() => {
-  if (process.env.NODE_ENV === 'production') {
-    throw new Error('JWT_SECRET environment variable is required in production');
-  }
-  return require('crypto').randomBytes(64).toString('hex');
-})();
-
 const router = express.Router();
 
 // Base path is /api/auth
@@ -51,7 +76,10 @@ router.post('/register', authRateLimit, validateRegistration, async (req, res) =
     const existingPending = await PendingUser.findOne({ email });
     logger.debug('Existing pending user check', { email, existingPending: !!existingPending });
     
-    if (existingPending) {
+    // An unconfirmed request doesn't hold on to the address; signing up again replaces it
+    if (existingPending && existingPending.emailVerified === false) {
+      await PendingUser.deleteOne({ _id: existingPending._id });
+    } else if (existingPending) {
       logger.warn('User already exists in pending users', { email });
       return res.status(409).json({ 
         success: false,
@@ -108,10 +136,18 @@ router.post('/register', authRateLimit, validateRegistration, async (req, res) =
 
     await pendingUser.save();
     logger.info('Pending user created successfully', { email });
+
+    try {
+      await sendVerificationEmail(pendingUser);
+    } catch (mailError) {
+      logger.error('Failed to send confirmation email', { error: mailError.message, email });
+      await PendingUser.deleteOne({ _id: pendingUser._id });
+      return res.status(502).json({ success: false, error: 'We could not send the confirmation email. Please try again later.' });
+    }
     
     res.status(201).json({ 
       success: true,
-      message: 'Registration request submitted for approval' 
+      message: 'Check your email to confirm your address. A manager will review your request after that.' 
     });
 
   } catch (error) {
@@ -133,6 +169,140 @@ router.post('/register', authRateLimit, validateRegistration, async (req, res) =
   }
 });
 
+// Confirm the address on a registration request from the emailed link
+router.post('/verify-email', authRateLimit, async (req, res) => {
+  try {
+    const emailToken = await consumeToken(req.body.token, 'email-verification');
+    if (!emailToken) {
+      return res.status(400).json({ success: false, error: 'This confirmation link is invalid or has expired. Sign up again to get a new one.' });
+    }
+
+    const pendingUser = await PendingUser.findOneAndUpdate(
+      { _id: emailToken.pendingUserId, email: emailToken.email },
+      { emailVerified: true, emailVerifiedAt: new Date() },
+      { new: true }
+    );
+    if (!pendingUser) {
+      return res.status(400).json({ success: false, error: 'This registration request no longer exists. Please sign up again.' });
+    }
+
+    logger.info('Registration email confirmed', { email: pendingUser.email });
+    res.json({ success: true, message: 'Email confirmed. A manager will review your request.' });
+  } catch (error) {
+    logger.error('Email verification error', { error: error.message });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// The reply is the same whether or not there's an unconfirmed request, so addresses can't be probed
+router.post('/verify-email/resend', authRateLimit, validateEmailRequest, async (req, res) => {
+  try {
+    const pendingUser = await PendingUser.findOne({ email: req.body.email, emailVerified: false });
+    if (pendingUser) await sendVerificationEmail(pendingUser);
+    res.json({ success: true, message: 'If there is an unconfirmed request for that address, we sent a new link.' });
+  } catch (error) {
+    logger.error('Resend confirmation email error', { error: error.message });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Email a password reset link; like resending a confirmation, the reply never says whether the account exists
+router.post('/forgot-password', authRateLimit, validateEmailRequest, async (req, res) => {
+  try {
+    const user = await User.findOne({ email: req.body.email, isApproved: true });
+    if (user) {
+      await sendPasswordResetEmail(user);
+      await logAction(user._id, 'auth.password_reset_requested', user._id, {
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+    }
+    res.json({ success: true, message: 'If an account exists for that address, we emailed a link to reset the password.' });
+  } catch (error) {
+    logger.error('Forgot password error', { error: error.message });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Set a new password from a reset link. Every session is signed out, since whoever knew the old
+// password may be signed in, and a lockout from failed attempts is lifted.
+router.post('/reset-password', authRateLimit, validatePasswordReset, async (req, res) => {
+  try {
+    const emailToken = await consumeToken(req.body.token, 'password-reset');
+    const user = emailToken && await User.findOne({ _id: emailToken.userId, email: emailToken.email, isApproved: true });
+    if (!user) {
+      return res.status(400).json({ success: false, error: 'This reset link is invalid or has expired. Please ask for a new one.' });
+    }
+
+    user.password = await bcrypt.hash(req.body.password, 12);
+    await user.save();
+    const endedSessions = await revokeSessions(req.io, user._id, {}, 'password-reset');
+    await clearFailedLogins(user._id);
+
+    logger.info('Password reset', { userId: user._id, sessionsEnded: endedSessions.length });
+    await logAction(user._id, 'auth.password_reset', user._id, {
+      sessionsEnded: endedSessions.length,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+    res.json({ success: true, message: 'Your password has been changed. You can sign in with it now.' });
+  } catch (error) {
+    logger.error('Reset password error', { error: error.message });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Finish a login: mark the user online, start a session with its refresh cookie and
+// return the access token with the user
+const startUserSession = async (req, res, user, auditDetails = {}) => {
+  user.status = 'online';
+  user.lastSeen = new Date();
+  await user.save();
+
+  // Checked before the new session exists, so it's compared only with earlier ones
+  const unfamiliarLogin = await detectUnfamiliarLogin(user._id, req);
+
+  // Each sign-in is its own session, listed under the user's active sessions
+  const { session, refreshToken } = await createSession(user._id, req);
+  setRefreshCookie(res, refreshToken, session.expiresAt);
+  await clearFailedLogins(user._id);
+
+  await logAction(user._id, 'user.login', user._id, {
+    sessionId: session._id,
+    ipAddress: session.ip,
+    userAgent: session.userAgent,
+    ...auditDetails
+  });
+  if (unfamiliarLogin) {
+    await notifyUnfamiliarLogin(req.io, user._id, session, unfamiliarLogin);
+  }
+
+  // Return user data without password
+  const userResponse = user.toJSON();
+  delete userResponse.password;
+
+  return { token: signAccessToken(user, session._id), user: userResponse };
+};
+
+// The user a login challenge was issued to, if they can still sign in
+const getChallengeUser = async (challengeToken, purpose) => {
+  let challenge;
+  try {
+    challenge = verifyChallengeToken(challengeToken, purpose);
+  } catch (error) {
+    return null;
+  }
+  const user = await User.findById(challenge.userId);
+  return user && user.isApproved ? user : null;
+};
+
+const sendAccountLocked = (res, lockedUntil) => res.status(423).json({
+  success: false,
+  error: lockMessage(lockedUntil),
+  code: 'ACCOUNT_LOCKED',
+  lockedUntil
+});
+
 // Login endpoint with rate limiting
 router.post('/login', authRateLimit, validateLogin, async (req, res) => {
   const { email, password } = req.body;
@@ -152,16 +322,8 @@ router.post('/login', authRateLimit, validateLogin, async (req, res) => {
         isApproved: true
       };
       
-      const token = jwt.sign(
-        { 
-          userId: mockUser._id, 
-          email: mockUser.email, 
-          role: mockUser.role,
-          isManager: mockUser.isManager 
-        },
-        JWT_SECRET,
-        { expiresIn: '24h' }
-      );
+      // No session store without the database, so this token can't be refreshed and isn't session-checked
+      const token = signAccessToken(mockUser, null);
       
       return res.json({
         success: true,
@@ -203,44 +365,46 @@ router.post('/login', authRateLimit, validateLogin, async (req, res) => {
       });
     }
 
+    // A locked account doesn't get its password checked at all, so guessing can't continue
+    const lockedUntil = getLockedUntil(user);
+    if (lockedUntil) {
+      logger.warn('Login attempt on locked account', { email, ip: req.ip, lockedUntil });
+      return sendAccountLocked(res, lockedUntil);
+    }
+
     // Check password
     logger.debug('Password check', { email, hasPassword: !!user.password });
     const isValidPassword = await bcrypt.compare(password, user.password);
     logger.debug('Password validation result', { email, isValid: isValidPassword });
     
     if (!isValidPassword) {
+      const failure = await recordFailedLogin(user, req, 'password');
+      if (failure.lockedUntil) return sendAccountLocked(res, failure.lockedUntil);
       return res.status(401).json({ 
         success: false,
         error: 'Invalid credentials' 
       });
     }
 
-    // Update user status
-    user.status = 'online';
-    user.lastSeen = new Date();
-    await user.save();
-
-    await logAction(user._id, 'user.login', user._id);
-
-    // Generate JWT token
-    const token = jwt.sign(
-      { 
-        userId: user._id, 
-        email: user.email, 
-        role: user.role 
-      },
-      JWT_SECRET,
-      { expiresIn: '24h' }
-    );
-
-    // Return user data without password
-    const userResponse = user.toJSON();
-    delete userResponse.password;
+    // A second factor is needed before a session is started
+    if (user.twoFactor?.enabled) {
+      return res.json({
+        success: true,
+        twoFactorRequired: true,
+        challengeToken: signChallengeToken(user, '2fa')
+      });
+    }
+    if (await isTwoFactorRequired(user)) {
+      return res.json({
+        success: true,
+        twoFactorSetupRequired: true,
+        challengeToken: signChallengeToken(user, '2fa-setup')
+      });
+    }
 
     res.json({
       success: true,
-      token,
-      user: userResponse
+      ...(await startUserSession(req, res, user))
     });
 
   } catch (error) {
@@ -252,16 +416,200 @@ router.post('/login', authRateLimit, validateLogin, async (req, res) => {
   }
 });
 
-// Logout user
+// Second login step: a code from the authenticator app, or one of the recovery codes
+router.post('/2fa/verify', authRateLimit, async (req, res) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+    const user = await getChallengeUser(challengeToken, '2fa');
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Sign-in expired. Please enter your password again.' });
+    }
+
+    const lockedUntil = getLockedUntil(user);
+    if (lockedUntil) return sendAccountLocked(res, lockedUntil);
+
+    const method = await verifySecondFactor(user._id, { code, recoveryCode });
+    if (!method) {
+      logger.warn('Two-factor verification failed', { userId: user._id, ip: req.ip });
+      const failure = await recordFailedLogin(user, req, 'two-factor');
+      if (failure.lockedUntil) return sendAccountLocked(res, failure.lockedUntil);
+      return res.status(401).json({ success: false, error: recoveryCode ? 'Invalid recovery code' : 'Invalid verification code' });
+    }
+
+    if (method === 'recovery-code') {
+      const { twoFactor } = await User.findById(user._id).select('+twoFactor.recoveryCodeHashes').lean();
+      await logAction(user._id, 'twofactor.recovery_used', user._id, { remaining: twoFactor.recoveryCodeHashes.length, ipAddress: req.ip });
+    }
+
+    res.json({
+      success: true,
+      ...(await startUserSession(req, res, user, { secondFactor: method }))
+    });
+  } catch (error) {
+    logger.error('Two-factor verification error', { error: error.message });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Enrolment works signed in (from Settings) or part-way through login, when the security
+// policy makes two-factor authentication a must and the user hasn't set it up yet
+const authenticateEnrolment = async (req, res, next) => {
+  if (!req.body?.challengeToken) return authenticateToken(req, res, next);
+  try {
+    const user = await getChallengeUser(req.body.challengeToken, '2fa-setup');
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Sign-in expired. Please enter your password again.' });
+    }
+    req.user = { userId: user._id, email: user.email, role: user.role, name: user.name };
+    req.isLoginChallenge = true;
+    next();
+  } catch (error) {
+    logger.error('Two-factor enrolment authentication error', { error: error.message });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
+
+// Two-factor status for the signed-in user
+router.get('/2fa', authenticateToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.userId).select('+twoFactor.recoveryCodeHashes');
+    res.json({
+      success: true,
+      data: {
+        enabled: !!user.twoFactor?.enabled,
+        enabledAt: user.twoFactor?.enabledAt || null,
+        recoveryCodesRemaining: user.twoFactor?.recoveryCodeHashes?.length || 0,
+        required: await isTwoFactorRequired(user)
+      }
+    });
+  } catch (error) {
+    logger.error('Get two-factor status error', { error: error.message, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Failed to fetch two-factor status' });
+  }
+});
+
+// Start enrolment: a new secret, as a QR code for the authenticator app
+router.post('/2fa/setup', authenticateEnrolment, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.userId);
+    if (user.twoFactor?.enabled) {
+      return res.status(409).json({ success: false, error: 'Two-factor authentication is already on' });
+    }
+    const secret = generateSecret();
+    await User.updateOne({ _id: user._id }, { $set: { 'twoFactor.pendingSecret': secret } });
+    res.json({ success: true, data: await buildEnrolment(user, secret) });
+  } catch (error) {
+    logger.error('Two-factor setup error', { error: error.message, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Failed to start two-factor setup' });
+  }
+});
+
+// Finish enrolment with a code from the app. Recovery codes are returned once, here;
+// mid-login, the response also carries the new session.
+router.post('/2fa/enable', authRateLimit, authenticateEnrolment, async (req, res) => {
+  try {
+    const result = await enableTwoFactor(req.user.userId, req.body.code);
+    if (result.error) {
+      return res.status(400).json({ success: false, error: result.error });
+    }
+    await logAction(req.user.userId, 'twofactor.enabled', req.user.userId, { duringLogin: !!req.isLoginChallenge });
+
+    if (req.isLoginChallenge) {
+      const user = await User.findById(req.user.userId);
+      return res.json({
+        success: true,
+        recoveryCodes: result.recoveryCodes,
+        ...(await startUserSession(req, res, user, { secondFactor: 'totp' }))
+      });
+    }
+    res.json({ success: true, data: { recoveryCodes: result.recoveryCodes } });
+  } catch (error) {
+    logger.error('Two-factor enable error', { error: error.message, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Failed to turn on two-factor authentication' });
+  }
+});
+
+// Replace all recovery codes; takes a current code from the app
+router.post('/2fa/recovery-codes', authRateLimit, authenticateToken, async (req, res) => {
+  try {
+    if (await verifySecondFactor(req.user.userId, { code: req.body.code }) !== 'totp') {
+      return res.status(400).json({ success: false, error: 'Invalid verification code' });
+    }
+    const { codes, hashes } = generateRecoveryCodes();
+    await User.updateOne({ _id: req.user.userId }, { $set: { 'twoFactor.recoveryCodeHashes': hashes } });
+    await logAction(req.user.userId, 'twofactor.recovery_codes.regenerated', req.user.userId);
+    res.json({ success: true, data: { recoveryCodes: codes } });
+  } catch (error) {
+    logger.error('Regenerate recovery codes error', { error: error.message, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Failed to create new recovery codes' });
+  }
+});
+
+// Turn off two-factor authentication, unless the security policy requires it for the user's role
+router.delete('/2fa', authRateLimit, authenticateToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.userId);
+    if (!user.twoFactor?.enabled) {
+      return res.status(400).json({ success: false, error: 'Two-factor authentication is not on' });
+    }
+    if (await isTwoFactorRequired(user)) {
+      return res.status(403).json({ success: false, error: 'Two-factor authentication is required for your role' });
+    }
+    const { code, recoveryCode } = req.body;
+    if (!(await verifySecondFactor(user._id, { code, recoveryCode }))) {
+      return res.status(400).json({ success: false, error: 'Invalid verification code' });
+    }
+    await disableTwoFactor(user._id);
+    await logAction(user._id, 'twofactor.disabled', user._id);
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('Two-factor disable error', { error: error.message, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Failed to turn off two-factor authentication' });
+  }
+});
+
+// Swap the refresh cookie for a new access token; the cookie is replaced each time
+router.post('/refresh', authRateLimit, async (req, res) => {
+  try {
+    const result = await rotateSession(getRefreshTokenFromRequest(req), req);
+    if (result.error) {
+      if (result.reused) {
+        logger.warn('Refresh token reused, session ended', { sessionId: result.session._id, userId: result.session.userId, ip: req.ip });
+        await revokeSessions(req.io, result.session.userId, { _id: result.session._id }, 'token-reuse');
+      }
+      clearRefreshCookie(res);
+      return res.status(401).json({ success: false, error: result.error });
+    }
+
+    const user = await User.findById(result.session.userId);
+    if (!user || !user.isApproved) {
+      await revokeSessions(req.io, result.session.userId, { _id: result.session._id }, 'signed-out');
+      clearRefreshCookie(res);
+      return res.status(401).json({ success: false, error: 'User account not found or not approved' });
+    }
+
+    if (result.refreshToken) setRefreshCookie(res, result.refreshToken, result.session.expiresAt);
+    res.json({ success: true, token: signAccessToken(user, result.session._id) });
+  } catch (error) {
+    logger.error('Token refresh error', { error: error.message });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Logout user, ending the session the refresh cookie belongs to
 router.post('/logout', async (req, res) => {
   try {
-    // In a real application, you might want to blacklist the token
+    const session = await findSessionByRefreshToken(getRefreshTokenFromRequest(req));
+    if (session) {
+      await revokeSessions(req.io, session.userId, { _id: session._id }, 'logout');
+    }
+    clearRefreshCookie(res);
     res.json({ 
       success: true,
       message: 'Logged out successfully' 
     });
   } catch (error) {
-    logger.error('Logout error', { error: error.message, userId: req.user?.userId });
+    logger.error('Logout error', { error: error.message });
     res.status(500).json({ 
       success: false,
       error: 'Internal server error' 
@@ -269,4 +617,51 @@ router.post('/logout', async (req, res) => {
   }
 });
 
+// List the signed-in user's active sessions; `current` marks the one making the request
+router.get('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const sessions = await getActiveSessions(req.user.userId);
+    res.json({
+      success: true,
+      data: sessions.map(session => ({
+        ...session.toJSON(),
+        current: session._id.toString() === String(req.user.sessionId)
+      }))
+    });
+  } catch (error) {
+    logger.error('Get sessions error', { error: error.message, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Failed to fetch sessions' });
+  }
+});
+
+// Sign out everywhere, this device included
+router.delete('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const sessionIds = await revokeSessions(req.io, req.user.userId, {}, 'signed-out-everywhere');
+    clearRefreshCookie(res);
+    await logAction(req.user.userId, 'session.revoked', req.user.userId, { scope: 'all', count: sessionIds.length });
+    res.json({ success: true, data: { count: sessionIds.length } });
+  } catch (error) {
+    logger.error('Revoke all sessions error', { error: error.message, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Failed to sign out sessions' });
+  }
+});
+
+// Sign out one session
+router.delete('/sessions/:id', authenticateToken, validateObjectId('id'), async (req, res) => {
+  try {
+    const sessionIds = await revokeSessions(req.io, req.user.userId, { _id: req.params.id }, 'signed-out');
+    if (sessionIds.length === 0) {
+      return res.status(404).json({ success: false, error: 'Session not found' });
+    }
+    const isCurrent = req.params.id === String(req.user.sessionId);
+    if (isCurrent) clearRefreshCookie(res);
+    await logAction(req.user.userId, 'session.revoked', req.user.userId, { scope: 'one', sessionId: req.params.id });
+    res.json({ success: true, data: { current: isCurrent } });
+  } catch (error) {
+    logger.error('Revoke session error', { error: error.message, userId: req.user.userId, sessionId: req.params.id });
+    res.status(500).json({ success: false, error: 'Failed to sign out session' });
+  }
+});
+
 module.exports = router;
\ No newline at end of file
@@ -1,9 +1,9 @@
 const express = require('express');
-const { authenticateToken, requireManager } = require('../middleware/auth');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
 const { logAction } = require('../services/auditLogService');
 const router = express.Router();
 
-router.post('/send', authenticateToken, requireManager, (req, res) => {
+router.post('/send', authenticateToken, requirePermission('broadcast.send'), (req, res) => {
   const { message } = req.body;
   if (!message) {
     return res.status(400).json({ success: false, error: 'Message content is required' });
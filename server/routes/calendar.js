@@ -0,0 +1,200 @@
+const express = require('express');
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+const { Task, Team, User } = require('../models');
+const { authenticateToken } = require('../middleware/auth');
+const { emitAndRecord } = require('../services/syncService');
+const { validateRecurrence, normalizeRecurrence } = require('../services/recurrenceService');
+const { buildCalendar, parseCalendar } = require('../services/icsService');
+const logger = require('../utils/logger');
+
+const router = express.Router();
+
+const MAX_IMPORT_TASKS = 200;
+const MAX_IMPORT_SIZE = 1024 * 1024;
+// Besides open tasks, the feed keeps recently closed ones so they don't vanish from calendars straight away
+const FEED_HISTORY_DAYS = 90;
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const getFeedUrl = (req, token) => {
+  const base = process.env.PUBLIC_URL || `${req.protocol}://${req.get('host')}`;
+  return `${base.replace(/\/$/, '')}/api/calendar/feed/${token}.ics`;
+};
+
+const sendCalendar = (res, ics, filename) => {
+  res.set('Content-Type', 'text/calendar; charset=utf-8');
+  if (filename) res.set('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(ics);
+};
+
+// Whether the user has an active feed link
+router.get('/feed', authenticateToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.userId).select('+calendarFeedTokenHash calendarFeedCreatedAt');
+    if (!user) return res.status(404).json({ success: false, error: 'User not found' });
+
+    res.json({
+      success: true,
+      data: { active: Boolean(user.calendarFeedTokenHash), createdAt: user.calendarFeedCreatedAt }
+    });
+  } catch (error) {
+    logger.error('Get calendar feed error', { error: error.message, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create a feed link, replacing any earlier one. The URL is only ever shown in this response.
+router.post('/feed', authenticateToken, async (req, res) => {
+  try {
+    const token = crypto.randomBytes(24).toString('hex');
+    const createdAt = new Date();
+    const user = await User.findByIdAndUpdate(req.user.userId, {
+      $set: { calendarFeedTokenHash: hashToken(token), calendarFeedCreatedAt: createdAt }
+    });
+    if (!user) return res.status(404).json({ success: false, error: 'User not found' });
+
+    logger.info('Calendar feed link created', { userId: req.user.userId });
+    res.status(201).json({ success: true, data: { url: getFeedUrl(req, token), createdAt } });
+  } catch (error) {
+    logger.error('Create calendar feed error', { error: error.message, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Revoke the feed link; calendar apps subscribed to it stop getting updates
+router.delete('/feed', authenticateToken, async (req, res) => {
+  try {
+    await User.updateOne({ _id: req.user.userId }, {
+      $set: { calendarFeedTokenHash: null, calendarFeedCreatedAt: null }
+    });
+
+    logger.info('Calendar feed link revoked', { userId: req.user.userId });
+    res.json({ success: true, message: 'Calendar feed link revoked' });
+  } catch (error) {
+    logger.error('Revoke calendar feed error', { error: error.message, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// The feed itself. Calendar apps can't send a bearer token, so the secret in the URL is the credential.
+router.get('/feed/:token', async (req, res) => {
+  try {
+    const token = req.params.token.replace(/\.ics$/, '');
+    const user = await User.findOne({ calendarFeedTokenHash: hashToken(token), isApproved: true });
+    if (!user) return res.status(404).type('text/plain').send('Calendar not found');
+
+    const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    const tasks = await Task.find({
+      assignedTo: user._id,
+      $or: [{ status: { $nin: ['completed', 'cancelled'] } }, { dueDate: { $gte: since } }]
+    }).sort({ dueDate: 1 });
+
+    res.set('Cache-Control', 'private, max-age=300');
+    sendCalendar(res, buildCalendar(tasks, {
+      name: `${user.name} – IIB Chat tasks`,
+      component: req.query.component === 'todo' ? 'todo' : 'event'
+    }));
+  } catch (error) {
+    logger.error('Calendar feed error', { error: error.message });
+    res.status(500).type('text/plain').send('Internal server error');
+  }
+});
+
+// One-off download of the requester's tasks due between `start` and `end`
+router.get('/export', authenticateToken, async (req, res) => {
+  try {
+    const { start, end, component } = req.query;
+    const query = { assignedTo: req.user.userId };
+    if (start && end) {
+      query.dueDate = { $gte: new Date(start), $lte: new Date(end) };
+    }
+
+    const tasks = await Task.find(query).sort({ dueDate: 1 });
+    sendCalendar(res, buildCalendar(tasks, { component: component === 'todo' ? 'todo' : 'event' }), 'iib-chat-tasks.ics');
+  } catch (error) {
+    logger.error('Export calendar error', { error: error.message, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * Create tasks from the events and to-dos in an .ics file (`ics`, as text), assigned to the requester.
+ * Entries without a title or date are skipped; repeat rules the tasks can't express are dropped.
+ */
+router.post('/import', authenticateToken, async (req, res) => {
+  try {
+    const { ics, teamId } = req.body;
+
+    if (typeof ics !== 'string' || !ics.includes('BEGIN:VCALENDAR')) {
+      return res.status(400).json({ success: false, error: 'An iCalendar file is required' });
+    }
+    if (ics.length > MAX_IMPORT_SIZE) {
+      return res.status(400).json({ success: false, error: 'Calendar file is too large' });
+    }
+    if (teamId && (!mongoose.isValidObjectId(teamId) || !(await Team.exists({ _id: teamId })))) {
+      return res.status(400).json({ success: false, error: 'Team not found' });
+    }
+
+    const entries = parseCalendar(ics);
+    if (entries.length > MAX_IMPORT_TASKS) {
+      return res.status(400).json({ success: false, error: `A calendar file can add at most ${MAX_IMPORT_TASKS} tasks` });
+    }
+
+    const tasks = [];
+    const skipped = [];
+    for (const entry of entries) {
+      if (!entry.title || !entry.dueDate) {
+        skipped.push({ title: entry.title || entry.uid || 'Untitled', reason: entry.title ? 'No date' : 'No title' });
+        continue;
+      }
+
+      const rule = entry.recurrence && !validateRecurrence(entry.recurrence) ? entry.recurrence : null;
+      const task = new Task({
+        title: entry.title.slice(0, 200),
+        description: entry.description,
+        status: entry.status,
+        priority: entry.priority,
+        ...(entry.startDate ? { startDate: entry.startDate } : {}),
+        dueDate: entry.dueDate,
+        ...(entry.status === 'completed' ? { completedDate: new Date(), progress: 100 } : {}),
+        assignedTo: req.user.userId,
+        assignedBy: req.user.userId,
+        teamId: teamId || undefined,
+        tags: entry.tags,
+        isRecurring: Boolean(rule),
+        recurringPattern: rule ? rule.frequency : undefined,
+        recurrence: rule ? normalizeRecurrence(rule, entry.dueDate) : undefined
+      });
+      if (rule) {
+        task.seriesId = task._id;
+        task.occurrenceIndex = 1;
+      }
+      tasks.push(task);
+    }
+
+    const created = tasks.length > 0 ? await Task.insertMany(tasks) : [];
+
+    if (req.io && created.length > 0) {
+      const populated = await Task.find({ _id: { $in: created.map(task => task._id) } })
+        .populate('assignedTo', 'name email avatar')
+        .populate('assignedBy', 'name email avatar');
+      for (const task of populated) {
+        await emitAndRecord(req.io, 'tasks', 'task:created', { task, createdBy: req.user.userId });
+      }
+    }
+
+    logger.info('Tasks imported from calendar file', {
+      userId: req.user.userId,
+      created: created.length,
+      skipped: skipped.length
+    });
+
+    res.status(201).json({ success: true, data: { created: created.length, skipped } });
+  } catch (error) {
+    logger.error('Import calendar error', { error: error.message, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
@@ -1,18 +1,85 @@
 const express = require('express');
 const mongoose = require('mongoose');
 const { Chat, Message } = require('../models');
-const { authenticateToken, requireManager } = require('../middleware/auth');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const { hasPermission } = require('../services/permissionService');
 const { validateObjectId, validateChat, validateMessage } = require('../middleware/validation');
 const { logAction } = require('../services/auditLogService');
 const { messageRateLimit } = require('../middleware/security');
+const { resolveMentions, notifyMentions } = require('../services/mentionService');
+const { parseHistoryQuery, getMessageHistory } = require('../services/messageHistoryService');
+const { emitAndRecord, ALL_ROOM } = require('../services/syncService');
+const { hasChatAccess, createChatMessage } = require('../services/messageService');
+const { trashChat, trashChatMessages } = require('../services/trashService');
 const logger = require('../utils/logger');
 
 const router = express.Router();
 
+// Number of recent repliers shown as avatars on a thread root
+const THREAD_PARTICIPANT_PREVIEW = 3;
+
+// Client-generated message ids sent as the Idempotency-Key header
+const MAX_IDEMPOTENCY_KEY_LENGTH = 100;
+
+const MAX_PINNED_MESSAGES = 50;
+
+// Moderators and chat admins can pin; the creator administers a chat, and both sides of a direct chat do
+const canManagePins = (chat, user) => {
+  if (hasPermission(user, 'chats.moderate')) return true;
+  const userId = user.userId.toString();
+  return chat.type === 'direct' ? chat.participants.includes(userId) : chat.createdBy === userId;
+};
+
+// Pins paired with their messages, dropping any whose message is gone
+const loadPinnedMessages = async (chat) => {
+  const messages = await Message.find({
+    _id: { $in: chat.pinnedMessages.map(pin => pin.messageId) },
+    isDeleted: { $ne: true }
+  });
+  const messagesById = new Map(messages.map(message => [message._id.toString(), message]));
+
+  return chat.pinnedMessages
+    .filter(pin => messagesById.has(pin.messageId))
+    .map(({ messageId, pinnedBy, pinnedAt }) => ({ messageId, pinnedBy, pinnedAt, message: messagesById.get(messageId) }));
+};
+
+// Take a deleted reply out of its thread's counters; returns the thread summary clients show on the root
+const removeThreadReply = async (reply) => {
+  const latestReply = await Message.findOne({ threadId: reply.threadId, isDeleted: { $ne: true } })
+    .sort({ createdAt: -1 })
+    .select('createdAt');
+
+  // The last reply time only moves back if this was the last reply, so a reply sent meanwhile is kept
+  const root = await Message.findByIdAndUpdate(
+    reply.threadId,
+    [{
+      $set: {
+        threadReplyCount: { $max: [{ $subtract: [{ $ifNull: ['$threadReplyCount', 0] }, 1] }, 0] },
+        threadLastReplyAt: {
+          $cond: [
+            { $eq: ['$threadLastReplyAt', reply.createdAt] },
+            latestReply ? latestReply.createdAt : null,
+            '$threadLastReplyAt'
+          ]
+        }
+      }
+    }],
+    { new: true }
+  );
+  if (!root) return {};
+
+  return {
+    threadId: root._id.toString(),
+    threadReplyCount: root.threadReplyCount,
+    threadLastReplyAt: root.threadLastReplyAt,
+    threadParticipants: root.threadParticipants
+  };
+};
+
 // --- MANAGER-ONLY ROUTES (MOVE TO TOP) ---
 
 // Get all direct chats for oversight
-router.get('/oversee/direct', authenticateToken, requireManager, async (req, res) => {
+router.get('/oversee/direct', authenticateToken, requirePermission('chats.oversee'), async (req, res) => {
   try {
     const directChats = await Chat.find({ type: 'direct' })
       .sort({ updatedAt: -1 })
@@ -32,34 +99,30 @@ router.get('/oversee/direct', authenticateToken, requireManager, async (req, res
 });
 
 // Get messages for any chat by ID (for manager oversight)
-router.get('/oversee/:id/messages', authenticateToken, requireManager, validateObjectId(), async (req, res) => {
+router.get('/oversee/:id/messages', authenticateToken, requirePermission('chats.oversee'), validateObjectId(), async (req, res) => {
   try {
     const { id } = req.params;
-    const { page = 1, limit = 50 } = req.query;
+    const options = parseHistoryQuery(req.query);
+    if (!options) {
+      return res.status(400).json({ success: false, error: 'Invalid pagination cursor' });
+    }
     
     const chat = await Chat.findById(id);
     if (!chat) {
       return res.status(404).json({ success: false, error: 'Chat not found' });
     }
     
-    const skip = (parseInt(page) - 1) * parseInt(limit);
+    const history = await getMessageHistory({ chatId: id, threadId: null }, options);
+    if (!history) {
+      return res.status(404).json({ success: false, error: 'Message not found' });
+    }
     
-    const messages = await Message.find({ chatId: id })
-      .sort({ createdAt: -1 })
-      .skip(skip)
-      .limit(parseInt(limit))
-      .populate('senderId', 'name avatar');
-      
-    messages.reverse(); // chronological order
+    await Message.populate(history.messages, { path: 'senderId', select: 'name avatar' });
     
     res.json({
       success: true,
-      data: messages,
-      pagination: {
-        page: parseInt(page),
-        limit: parseInt(limit),
-        hasMore: messages.length === parseInt(limit)
-      }
+      data: history.messages,
+      pagination: history.pagination
     });
   } catch (error) {
     logger.error('Oversee messages error', { error: error.message, requesterId: req.user.userId });
@@ -70,8 +133,8 @@ router.get('/oversee/:id/messages', authenticateToken, requireManager, validateO
   }
 });
 
-// Clear chat messages (managers only) - SPECIFIC ROUTE FIRST
-router.delete('/:chatId/messages', authenticateToken, requireManager, async (req, res) => {
+// Clear chat messages (chats.delete) - SPECIFIC ROUTE FIRST
+router.delete('/:chatId/messages', authenticateToken, requirePermission('chats.delete'), async (req, res) => {
   try {
     const { chatId } = req.params;
     
@@ -98,13 +161,15 @@ router.delete('/:chatId/messages', authenticateToken, requireManager, async (req
     
     logger.info('Chat found for clearing', { chatId, chatType: chat.type, chatName: chat.name, requesterId: req.user.userId });
     
-    // Clear all messages in the chat
-    const result = await Message.deleteMany({ chatId });
-    logger.info('Messages cleared', { chatId, deletedCount: result.deletedCount, requesterId: req.user.userId });
+    // Move the messages to the trash, where a manager can restore them until they expire
+    const trashItem = await trashChatMessages(chat, req.user);
+    const deletedCount = trashItem ? trashItem.messageCount : 0;
+    logger.info('Messages cleared', { chatId, deletedCount, trashItemId: trashItem?._id, requesterId: req.user.userId });
     
     // Update chat's last message
     await Chat.findByIdAndUpdate(chatId, {
       lastMessage: null,
+      pinnedMessages: [],
       updatedAt: new Date()
     });
     
@@ -112,14 +177,14 @@ router.delete('/:chatId/messages', authenticateToken, requireManager, async (req
     try {
       await logAction(req.user.userId, 'chat.cleared', chatId, {
         chatName: chat.name,
-        messagesDeleted: result.deletedCount
+        messagesDeleted: deletedCount
       });
     } catch (logError) {
       logger.error('Failed to log action', { error: logError.message, action: 'chat.cleared', chatId });
     }
     
     // Notify all users via socket
-    req.io.to(chatId).emit('chat-cleared', { 
+    await emitAndRecord(req.io, chatId, 'chat-cleared', { 
       chatId, 
       clearedBy: req.user.userId,
       timestamp: new Date()
@@ -127,8 +192,8 @@ router.delete('/:chatId/messages', authenticateToken, requireManager, async (req
     
     res.json({ 
       success: true, 
-      message: `Chat cleared successfully. ${result.deletedCount} messages deleted.`,
-      deletedCount: result.deletedCount
+      message: `Chat cleared successfully. ${deletedCount} messages moved to trash.`,
+      deletedCount
     });
     
   } catch (error) {
@@ -140,8 +205,8 @@ router.delete('/:chatId/messages', authenticateToken, requireManager, async (req
   }
 });
 
-// Delete chat (managers only) - SPECIFIC ROUTE SECOND
-router.delete('/:chatId', authenticateToken, requireManager, async (req, res) => {
+// Delete chat (chats.delete) - SPECIFIC ROUTE SECOND
+router.delete('/:chatId', authenticateToken, requirePermission('chats.delete'), async (req, res) => {
   try {
     const { chatId } = req.params;
     
@@ -177,13 +242,9 @@ router.delete('/:chatId', authenticateToken, requireManager, async (req, res) =>
       });
     }
     
-    // Delete all messages in the chat first
-    const deleteResult = await Message.deleteMany({ chatId });
-    logger.info('Messages deleted', { chatId, deletedCount: deleteResult.deletedCount, requesterId: req.user.userId });
-    
-    // Delete the chat itself
-    await Chat.findByIdAndDelete(chatId);
-    logger.info('Chat deleted successfully', { chatId, requesterId: req.user.userId });
+    // Move the chat and its messages to the trash
+    const trashItem = await trashChat(chat, req.user);
+    logger.info('Chat moved to trash', { chatId, trashItemId: trashItem._id, messageCount: trashItem.messageCount, requesterId: req.user.userId });
     
     // Log the action
     try {
@@ -197,7 +258,7 @@ router.delete('/:chatId', authenticateToken, requireManager, async (req, res) =>
     }
     
     // Notify all users via socket
-    req.io.emit('chat-deleted', { chatId, deletedBy: req.user.userId });
+    await emitAndRecord(req.io, ALL_ROOM, 'chat-deleted', { chatId, deletedBy: req.user.userId });
     
     res.json({ 
       success: true, 
@@ -276,7 +337,8 @@ router.post('/', authenticateToken, validateChat, async (req, res) => {
   try {
     const chatData = {
       ...req.body,
-      participants: [...new Set([...req.body.participants, req.user.userId])] // Remove duplicates and ensure current user is included
+      participants: [...new Set([...req.body.participants, req.user.userId])], // Remove duplicates and ensure current user is included
+      createdBy: req.user.userId
     };
     
     const chat = new Chat(chatData);
@@ -394,7 +456,10 @@ router.patch('/:id/archive', authenticateToken, validateObjectId(), async (req,
 router.get('/:id/messages', authenticateToken, validateObjectId(), async (req, res) => {
   try {
     const { id } = req.params;
-    const { page = 1, limit = 50 } = req.query;
+    const options = parseHistoryQuery(req.query);
+    if (!options) {
+      return res.status(400).json({ success: false, error: 'Invalid pagination cursor' });
+    }
     
     // Check if user has access to this chat
     const chat = await Chat.findById(id);
@@ -406,32 +471,23 @@ router.get('/:id/messages', authenticateToken, validateObjectId(), async (req, r
       });
     }
     
-    if (!chat.participants.includes(req.user.userId)) {
+    if (!hasChatAccess(chat, req.user.userId)) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
       });
     }
     
-    const skip = (parseInt(page) - 1) * parseInt(limit);
-    
-    const messages = await Message.find({ chatId: id })
-      .sort({ createdAt: -1 })
-      .skip(skip)
-      .limit(parseInt(limit))
-      .populate('senderId', 'name avatar');
-    
-    // Reverse to get chronological order
-    messages.reverse();
+    // Messages keep senderId as a plain id, matching the receive-message socket payload
+    const history = await getMessageHistory({ chatId: id, threadId: null }, options);
+    if (!history) {
+      return res.status(404).json({ success: false, error: 'Message not found' });
+    }
     
     res.json({
       success: true,
-      data: messages,
-      pagination: {
-        page: parseInt(page),
-        limit: parseInt(limit),
-        hasMore: messages.length === parseInt(limit)
-      }
+      data: history.messages,
+      pagination: history.pagination
     });
   } catch (error) {
     logger.error('Get messages error', { error: error.message, chatId: req.params.id, userId: req.user.userId });
@@ -445,7 +501,12 @@ router.get('/:id/messages', authenticateToken, validateObjectId(), async (req, r
 // Send message to chat with rate limiting
 router.post('/:id/messages', messageRateLimit, authenticateToken, validateObjectId(), validateMessage, async (req, res) => {  try {
     const { id: chatId } = req.params;
-    const { content, type, isUrgent, replyTo } = req.body;
+    const { content, type, isUrgent, replyTo, mentions: mentionIds } = req.body;
+    const clientMessageId = req.get('Idempotency-Key') || null;
+    
+    if (clientMessageId && clientMessageId.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      return res.status(400).json({ success: false, error: 'Invalid idempotency key' });
+    }
     
     const chat = await Chat.findById(chatId);
     
@@ -453,42 +514,23 @@ router.post('/:id/messages', messageRateLimit, authenticateToken, validateObject
       return res.status(404).json({ success: false, error: 'Chat not found' });
     }
     
-    if (!chat.participants.includes(req.user.userId)) {
+    if (!hasChatAccess(chat, req.user.userId)) {
       return res.status(403).json({ success: false, error: 'Access denied' });
     }
     
-    const messageData = {
-      chatId,
-      senderId: req.user.userId,
-      senderName: req.user.name,
+    const { message, created } = await createChatMessage(req.io, chat, req.user, {
       content,
       type,
       isUrgent,
-      replyTo: replyTo || null,
-    };
-
-    if (replyTo) {
-      const originalMessage = await Message.findById(replyTo);
-      if (originalMessage) {
-        messageData.replyToContent = originalMessage.content.substring(0, 100);
-        messageData.replyToSender = originalMessage.senderName;
-      }
-    }
-    
-    const message = new Message(messageData);
-    await message.save();
-    
-    chat.lastMessage = {
-      content: message.content,
-      senderId: message.senderId,
-      timestamp: message.createdAt
-    };
-    chat.updatedAt = new Date();
-    await chat.save();
-    
-    await message.populate('senderId', 'name avatar');
+      replyTo,
+      mentions: mentionIds,
+      clientMessageId
+    });
     
-    req.io.to(chatId).emit('receive-message', message);
+    // A retried send returns the message stored by the first attempt
+    if (!created) {
+      return res.json({ success: true, message: 'Message already sent', data: message });
+    }
     
     res.status(201).json({
       success: true,
@@ -504,6 +546,128 @@ router.post('/:id/messages', messageRateLimit, authenticateToken, validateObject
   }
 });
 
+// Get a thread (root message and its replies)
+router.get('/:chatId/messages/:messageId/thread', authenticateToken, validateObjectId('chatId'), validateObjectId('messageId'), async (req, res) => {
+  try {
+    const { chatId, messageId } = req.params;
+
+    const chat = await Chat.findById(chatId);
+    if (!chat) {
+      return res.status(404).json({ success: false, error: 'Chat not found' });
+    }
+    if (!hasChatAccess(chat, req.user.userId)) {
+      return res.status(403).json({ success: false, error: 'Access denied' });
+    }
+
+    const root = await Message.findById(messageId);
+    if (!root || root.chatId.toString() !== chatId) {
+      return res.status(404).json({ success: false, error: 'Message not found' });
+    }
+    if (root.threadId) {
+      return res.status(400).json({ success: false, error: 'Message is a thread reply, not a thread root' });
+    }
+
+    const replies = await Message.find({ threadId: root._id }).sort({ createdAt: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        root,
+        replies
+      }
+    });
+  } catch (error) {
+    logger.error('Get thread error', { error: error.message, messageId: req.params.messageId, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Reply in a thread - replies are streamed to the thread, not the main timeline
+router.post('/:chatId/messages/:messageId/thread', messageRateLimit, authenticateToken, validateObjectId('chatId'), validateObjectId('messageId'), validateMessage, async (req, res) => {
+  try {
+    const { chatId, messageId } = req.params;
+    const { content, mentions: mentionIds } = req.body;
+
+    const chat = await Chat.findById(chatId);
+    if (!chat) {
+      return res.status(404).json({ success: false, error: 'Chat not found' });
+    }
+    if (!hasChatAccess(chat, req.user.userId)) {
+      return res.status(403).json({ success: false, error: 'Access denied' });
+    }
+
+    const root = await Message.findById(messageId);
+    if (!root || root.chatId.toString() !== chatId) {
+      return res.status(404).json({ success: false, error: 'Message not found' });
+    }
+    if (root.threadId) {
+      return res.status(400).json({ success: false, error: 'Cannot start a thread from a thread reply' });
+    }
+    if (root.isDeleted) {
+      return res.status(400).json({ success: false, error: 'Cannot reply to a deleted message' });
+    }
+
+    const { mentions, broadcastMention } = await resolveMentions(chat, content, mentionIds, req.user);
+
+    const senderId = req.user.userId.toString();
+    const message = new Message({
+      chatId,
+      senderId,
+      senderName: req.user.name,
+      content,
+      type: 'text',
+      threadId: root._id,
+      mentions,
+      broadcastMention,
+      readBy: [{ userId: senderId, readAt: new Date() }]
+    });
+    await message.save();
+
+    // Most recent repliers first, without duplicates. Built from the stored list in the same update,
+    // so concurrent replies don't overwrite each other's participants.
+    const updatedRoot = await Message.findByIdAndUpdate(
+      root._id,
+      [{
+        $set: {
+          threadReplyCount: { $add: [{ $ifNull: ['$threadReplyCount', 0] }, 1] },
+          threadLastReplyAt: { $max: ['$threadLastReplyAt', message.createdAt] },
+          threadParticipants: {
+            $slice: [
+              {
+                $concatArrays: [
+                  [senderId],
+                  { $filter: { input: { $ifNull: ['$threadParticipants', []] }, cond: { $ne: ['$$this', senderId] } } }
+                ]
+              },
+              THREAD_PARTICIPANT_PREVIEW
+            ]
+          }
+        }
+      }],
+      { new: true }
+    );
+
+    await emitAndRecord(req.io, chatId, 'thread:reply', {
+      chatId,
+      threadId: root._id.toString(),
+      message,
+      threadReplyCount: updatedRoot.threadReplyCount,
+      threadLastReplyAt: updatedRoot.threadLastReplyAt,
+      threadParticipants: updatedRoot.threadParticipants
+    });
+    await notifyMentions(req.io, chat, message);
+
+    res.status(201).json({
+      success: true,
+      message: 'Thread reply sent successfully',
+      data: message
+    });
+  } catch (error) {
+    logger.error('Thread reply error', { error: error.message, messageId: req.params.messageId, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // Update message (reactions, edit content, etc.)
 router.put('/:chatId/messages/:messageId', authenticateToken, validateObjectId('chatId'), validateObjectId('messageId'), async (req, res) => {
   try {
@@ -523,11 +687,14 @@ router.put('/:chatId/messages/:messageId', authenticateToken, validateObjectId('
 
     // Handle content editing
     if (content) {
-      if (message.senderId.toString() !== req.user.userId) {
+      if (message.senderId !== req.user.userId.toString()) {
         return res.status(403).json({ success: false, error: 'You can only edit your own messages' });
       }
-      message.content = content;
-      message.editedAt = new Date();
+      if (content !== message.content) {
+        message.revisions.push({ content: message.content, createdAt: message.editedAt || message.createdAt });
+        message.content = content;
+        message.editedAt = new Date();
+      }
       updated = true;
     }
 
@@ -556,7 +723,7 @@ router.put('/:chatId/messages/:messageId', authenticateToken, validateObjectId('
 
     if (updated) {
       await message.save();
-      req.io.to(chatId).emit('messageUpdated', message); // Notify clients
+      await emitAndRecord(req.io, chatId, 'messageUpdated', message); // Notify clients
       res.json({ success: true, message: 'Message updated successfully', data: message });
     } else {
       res.status(400).json({ success: false, error: 'No update action specified (e.g., content or emoji)' });
@@ -568,6 +735,46 @@ router.put('/:chatId/messages/:messageId', authenticateToken, validateObjectId('
   }
 });
 
+// Get a message's edit history, oldest version first (those who oversee chats can view any chat)
+router.get('/:chatId/messages/:messageId/revisions', authenticateToken, validateObjectId('chatId'), validateObjectId('messageId'), async (req, res) => {
+  try {
+    const { chatId, messageId } = req.params;
+
+    const chat = await Chat.findById(chatId);
+    if (!chat) {
+      return res.status(404).json({ success: false, error: 'Chat not found' });
+    }
+    if (!hasPermission(req.user, 'chats.oversee') && !hasChatAccess(chat, req.user.userId)) {
+      return res.status(403).json({ success: false, error: 'Access denied' });
+    }
+
+    const message = await Message.findById(messageId);
+    if (!message || message.chatId !== chatId) {
+      return res.status(404).json({ success: false, error: 'Message not found' });
+    }
+    // Messages deleted before their history was cleared on delete may still carry it
+    if (message.isDeleted && !hasPermission(req.user, 'chats.oversee')) {
+      return res.status(404).json({ success: false, error: 'Message not found' });
+    }
+
+    const versions = [
+      ...message.revisions.map(({ content, createdAt }) => ({ content, createdAt })),
+      { content: message.content, createdAt: message.editedAt || message.createdAt }
+    ];
+
+    res.json({
+      success: true,
+      data: {
+        messageId,
+        revisions: versions.map((version, index) => ({ version: index + 1, ...version }))
+      }
+    });
+  } catch (error) {
+    logger.error('Get message revisions error', { error: error.message, messageId: req.params.messageId, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // Delete a message (soft delete)
 router.delete('/:chatId/messages/:messageId', authenticateToken, validateObjectId('chatId'), validateObjectId('messageId'), async (req, res) => {
   try {
@@ -581,16 +788,24 @@ router.delete('/:chatId/messages/:messageId', authenticateToken, validateObjectI
     if (message.chatId.toString() !== chatId) {
       return res.status(400).json({ success: false, error: 'Message does not belong to this chat' });
     }
-    if (message.senderId.toString() !== req.user.userId) {
+    if (message.senderId !== req.user.userId.toString()) {
       return res.status(403).json({ success: false, error: 'You can only delete your own messages' });
     }
+    if (message.isDeleted) {
+      return res.status(404).json({ success: false, error: 'Message not found' });
+    }
 
-    message.isDeleted = true;
-    message.content = 'This message was deleted.'; // Overwrite content
-    await message.save();
+    await message.softDelete();
+    const threadSummary = message.threadId ? await removeThreadReply(message) : {};
 
     // Emit socket event to update clients in real-time
-    req.io.to(chatId).emit('messageDeleted', { messageId, chatId });
+    await emitAndRecord(req.io, chatId, 'messageDeleted', { messageId, chatId, ...threadSummary });
+
+    // A deleted message can't stay pinned
+    const unpinned = await Chat.updateOne({ _id: chatId }, { $pull: { pinnedMessages: { messageId } } });
+    if (unpinned.modifiedCount > 0) {
+      await emitAndRecord(req.io, chatId, 'message:unpinned', { chatId, messageId, unpinnedBy: req.user.userId });
+    }
 
     res.json({ success: true, message: 'Message deleted', data: { messageId, chatId } });
 
@@ -600,6 +815,112 @@ router.delete('/:chatId/messages/:messageId', authenticateToken, validateObjectI
   }
 });
 
+// Get pinned messages, newest pin first
+router.get('/:id/pins', authenticateToken, validateObjectId(), async (req, res) => {
+  try {
+    const chat = await Chat.findById(req.params.id);
+    if (!chat) {
+      return res.status(404).json({ success: false, error: 'Chat not found' });
+    }
+    if (!hasChatAccess(chat, req.user.userId)) {
+      return res.status(403).json({ success: false, error: 'Access denied' });
+    }
+
+    res.json({ success: true, data: await loadPinnedMessages(chat) });
+  } catch (error) {
+    logger.error('Get pinned messages error', { error: error.message, chatId: req.params.id, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Pin a message
+router.post('/:chatId/messages/:messageId/pin', authenticateToken, validateObjectId('chatId'), validateObjectId('messageId'), async (req, res) => {
+  try {
+    const { chatId, messageId } = req.params;
+
+    const chat = await Chat.findById(chatId);
+    if (!chat) {
+      return res.status(404).json({ success: false, error: 'Chat not found' });
+    }
+    if (!hasChatAccess(chat, req.user.userId)) {
+      return res.status(403).json({ success: false, error: 'Access denied' });
+    }
+    if (!canManagePins(chat, req.user)) {
+      return res.status(403).json({ success: false, error: 'Only chat admins and moderators can pin messages' });
+    }
+
+    const message = await Message.findById(messageId);
+    if (!message || message.isDeleted) {
+      return res.status(404).json({ success: false, error: 'Message not found' });
+    }
+    if (message.chatId !== chatId) {
+      return res.status(400).json({ success: false, error: 'Message does not belong to this chat' });
+    }
+    if (message.threadId) {
+      return res.status(400).json({ success: false, error: 'Thread replies cannot be pinned' });
+    }
+
+    const existing = chat.pinnedMessages.find(pin => pin.messageId === messageId);
+    if (existing) {
+      return res.json({
+        success: true,
+        data: { messageId, pinnedBy: existing.pinnedBy, pinnedAt: existing.pinnedAt, message }
+      });
+    }
+    if (chat.pinnedMessages.length >= MAX_PINNED_MESSAGES) {
+      return res.status(400).json({ success: false, error: `A chat can have at most ${MAX_PINNED_MESSAGES} pinned messages` });
+    }
+
+    const pin = { messageId, pinnedBy: req.user.userId.toString(), pinnedAt: new Date() };
+    // Guarded push so two concurrent pins of the same message can't both land
+    await Chat.updateOne(
+      { _id: chatId, 'pinnedMessages.messageId': { $ne: messageId } },
+      { $push: { pinnedMessages: { $each: [pin], $position: 0 } } }
+    );
+
+    await logAction(req.user.userId, 'message.pinned', messageId, { chatId, chatName: chat.name });
+
+    const pinnedMessage = { ...pin, message };
+    await emitAndRecord(req.io, chatId, 'message:pinned', { chatId, pin: pinnedMessage });
+
+    res.status(201).json({ success: true, message: 'Message pinned', data: pinnedMessage });
+  } catch (error) {
+    logger.error('Pin message error', { error: error.message, messageId: req.params.messageId, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Unpin a message
+router.delete('/:chatId/messages/:messageId/pin', authenticateToken, validateObjectId('chatId'), validateObjectId('messageId'), async (req, res) => {
+  try {
+    const { chatId, messageId } = req.params;
+
+    const chat = await Chat.findById(chatId);
+    if (!chat) {
+      return res.status(404).json({ success: false, error: 'Chat not found' });
+    }
+    if (!hasChatAccess(chat, req.user.userId)) {
+      return res.status(403).json({ success: false, error: 'Access denied' });
+    }
+    if (!canManagePins(chat, req.user)) {
+      return res.status(403).json({ success: false, error: 'Only chat admins and moderators can unpin messages' });
+    }
+
+    const result = await Chat.updateOne({ _id: chatId }, { $pull: { pinnedMessages: { messageId } } });
+    if (result.modifiedCount === 0) {
+      return res.status(404).json({ success: false, error: 'Message is not pinned' });
+    }
+
+    await logAction(req.user.userId, 'message.unpinned', messageId, { chatId, chatName: chat.name });
+    await emitAndRecord(req.io, chatId, 'message:unpinned', { chatId, messageId, unpinnedBy: req.user.userId });
+
+    res.json({ success: true, message: 'Message unpinned', data: { chatId, messageId } });
+  } catch (error) {
+    logger.error('Unpin message error', { error: error.message, messageId: req.params.messageId, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // Mark messages as read
 router.post('/:chatId/messages/read', authenticateToken, validateObjectId('chatId'), async (req, res) => {
   try {
@@ -0,0 +1,156 @@
+const express = require('express');
+const { Role, User } = require('../models');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const {
+  PERMISSIONS,
+  PERMISSION_KEYS,
+  MANAGER_ROLE,
+  hasPermission,
+  clearPermissionCache
+} = require('../services/permissionService');
+const { logAction } = require('../services/auditLogService');
+const logger = require('../utils/logger');
+
+const router = express.Router();
+
+// Base path is /api/roles
+
+const toRoleKey = (name) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+
+/**
+ * Check a role's `name`, `description` and `permissions` from a request body.
+ * Fields left out keep the values of `current`. Returns `{ role }` with the fields to save, or `{ error }`.
+ */
+const normalizeRole = (body, current = {}) => {
+  const {
+    name = current.name,
+    description = current.description || '',
+    permissions = current.permissions || []
+  } = body;
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > 40) {
+    return { error: 'Name must be between 1 and 40 characters' };
+  }
+  if (typeof description !== 'string' || description.trim().length > 200) {
+    return { error: 'Description must be at most 200 characters' };
+  }
+  if (!Array.isArray(permissions) || permissions.some(permission => !PERMISSION_KEYS.includes(permission))) {
+    return { error: 'Unknown permission' };
+  }
+
+  return { role: { name: name.trim(), description: description.trim(), permissions: [...new Set(permissions)] } };
+};
+
+// Nobody can grant permissions they don't have themselves
+const grantsMoreThan = (user, permissions) => permissions.some(permission => !hasPermission(user, permission));
+
+const announceRoleChange = (req) => {
+  clearPermissionCache();
+  req.io.emit('roles:updated');
+};
+
+// Every role with its permissions, and the permissions there are. Any signed-in user may read
+// them; the frontend uses them to decide what to show.
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const [roles, counts] = await Promise.all([
+      Role.find().sort({ isSystem: -1, name: 1 }),
+      User.aggregate([{ $group: { _id: '$role', count: { $sum: 1 } } }])
+    ]);
+    const userCounts = new Map(counts.map(({ _id, count }) => [_id, count]));
+    res.json({
+      success: true,
+      data: {
+        roles: roles.map(role => ({ ...role.toJSON(), userCount: userCounts.get(role.key) || 0 })),
+        permissions: PERMISSIONS
+      }
+    });
+  } catch (error) {
+    logger.error('Get roles error', { error: error.message, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+router.post('/', authenticateToken, requirePermission('roles.manage'), async (req, res) => {
+  try {
+    const result = normalizeRole(req.body);
+    if (result.error) return res.status(400).json({ success: false, error: result.error });
+    if (grantsMoreThan(req.user, result.role.permissions)) {
+      return res.status(403).json({ success: false, error: 'You can only grant permissions you have yourself' });
+    }
+
+    const key = toRoleKey(result.role.name);
+    if (!key) return res.status(400).json({ success: false, error: 'Name must contain a letter or number' });
+    if (await Role.exists({ key })) {
+      return res.status(409).json({ success: false, error: 'A role with this name already exists' });
+    }
+
+    const role = await Role.create({ ...result.role, key });
+    await logAction(req.user.userId, 'role.created', key, { name: role.name, permissions: role.permissions });
+    announceRoleChange(req);
+    res.status(201).json({ success: true, data: { ...role.toJSON(), userCount: 0 } });
+  } catch (error) {
+    logger.error('Create role error', { error: error.message, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Rename a role or change its permissions. The key stays, so users keep the role.
+router.put('/:key', authenticateToken, requirePermission('roles.manage'), async (req, res) => {
+  try {
+    const role = await Role.findOne({ key: req.params.key });
+    if (!role) return res.status(404).json({ success: false, error: 'Role not found' });
+
+    const result = normalizeRole(req.body, role.toObject());
+    if (result.error) return res.status(400).json({ success: false, error: result.error });
+    if (role.key === MANAGER_ROLE) {
+      // Always every permission, so there's a role that can undo any mistake made here
+      result.role.permissions = PERMISSION_KEYS;
+    }
+
+    const added = result.role.permissions.filter(permission => !role.permissions.includes(permission));
+    const removed = role.permissions.filter(permission => !result.role.permissions.includes(permission));
+    if (grantsMoreThan(req.user, [...added, ...removed])) {
+      return res.status(403).json({ success: false, error: 'You can only grant or remove permissions you have yourself' });
+    }
+
+    Object.assign(role, result.role);
+    await role.save();
+    await logAction(req.user.userId, 'role.updated', role.key, { name: role.name, added, removed });
+    announceRoleChange(req);
+
+    const userCount = await User.countDocuments({ role: role.key });
+    res.json({ success: true, data: { ...role.toJSON(), userCount } });
+  } catch (error) {
+    logger.error('Update role error', { error: error.message, role: req.params.key, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+router.delete('/:key', authenticateToken, requirePermission('roles.manage'), async (req, res) => {
+  try {
+    const role = await Role.findOne({ key: req.params.key });
+    if (!role) return res.status(404).json({ success: false, error: 'Role not found' });
+    if (role.isSystem) {
+      return res.status(400).json({ success: false, error: 'Built-in roles cannot be deleted' });
+    }
+
+    const userCount = await User.countDocuments({ role: role.key });
+    if (userCount > 0) {
+      return res.status(409).json({
+        success: false,
+        error: `${userCount} ${userCount === 1 ? 'member has' : 'members have'} this role. Give them another role first.`
+      });
+    }
+
+    await role.deleteOne();
+    await logAction(req.user.userId, 'role.deleted', role.key, { name: role.name, permissions: role.permissions });
+    announceRoleChange(req);
+    res.json({ success: true, message: 'Role deleted' });
+  } catch (error) {
+    logger.error('Delete role error', { error: error.message, role: req.params.key, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,144 @@
+const express = require('express');
+const { Chat, ScheduledMessage } = require('../models');
+const { authenticateToken } = require('../middleware/auth');
+const { validateObjectId, validateScheduledMessage, validateScheduledMessageUpdate } = require('../middleware/validation');
+const { hasChatAccess } = require('../services/messageService');
+const logger = require('../utils/logger');
+
+const router = express.Router();
+
+const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60 * 1000;
+const EDITABLE_FIELDS = ['content', 'isUrgent', 'mentions', 'scheduledFor'];
+
+// Returns an error message, or null when the time is acceptable
+const checkScheduledTime = (scheduledFor) => {
+  const time = new Date(scheduledFor).getTime();
+  if (time <= Date.now()) return 'Scheduled time must be in the future';
+  if (time > Date.now() + MAX_SCHEDULE_AHEAD_MS) return 'Messages can be scheduled at most a year ahead';
+  return null;
+};
+
+// Keep the owner's other tabs in sync
+const notifyOwner = (req, scheduled) => {
+  req.io.to(`user:${scheduled.senderId}`).emit('scheduled-message:updated', scheduled);
+};
+
+// The current user's scheduled messages that haven't gone out yet (including failed ones)
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const scheduledMessages = await ScheduledMessage.find({
+      senderId: req.user.userId.toString(),
+      status: { $in: ['pending', 'sending', 'failed'] }
+    }).sort({ scheduledFor: 1 });
+
+    res.json({ success: true, data: scheduledMessages });
+  } catch (error) {
+    logger.error('Get scheduled messages error', { error: error.message, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Schedule a message
+router.post('/', authenticateToken, validateScheduledMessage, async (req, res) => {
+  try {
+    const { chatId, content, type, isUrgent, mentions, scheduledFor } = req.body;
+
+    const timeError = checkScheduledTime(scheduledFor);
+    if (timeError) {
+      return res.status(400).json({ success: false, error: timeError });
+    }
+
+    const chat = await Chat.findById(chatId);
+    if (!chat) {
+      return res.status(404).json({ success: false, error: 'Chat not found' });
+    }
+    if (!hasChatAccess(chat, req.user.userId)) {
+      return res.status(403).json({ success: false, error: 'Access denied' });
+    }
+
+    const scheduled = await ScheduledMessage.create({
+      chatId,
+      senderId: req.user.userId.toString(),
+      content,
+      type,
+      isUrgent,
+      mentions: Array.isArray(mentions) ? mentions.map(String) : [],
+      scheduledFor
+    });
+
+    notifyOwner(req, scheduled);
+
+    res.status(201).json({ success: true, message: 'Message scheduled', data: scheduled });
+  } catch (error) {
+    logger.error('Schedule message error', { error: error.message, chatId: req.body.chatId, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Edit a pending scheduled message
+router.put('/:id', authenticateToken, validateObjectId(), validateScheduledMessageUpdate, async (req, res) => {
+  try {
+    const updates = {};
+    EDITABLE_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) updates[field] = req.body[field];
+    });
+
+    if (updates.scheduledFor) {
+      const timeError = checkScheduledTime(updates.scheduledFor);
+      if (timeError) {
+        return res.status(400).json({ success: false, error: timeError });
+      }
+    }
+    if (updates.mentions) {
+      updates.mentions = updates.mentions.map(String);
+    }
+
+    // Only while pending, so an edit can't race the scheduler's delivery
+    const scheduled = await ScheduledMessage.findOneAndUpdate(
+      { _id: req.params.id, senderId: req.user.userId.toString(), status: 'pending' },
+      { $set: updates },
+      { new: true, runValidators: true }
+    );
+
+    if (!scheduled) {
+      const exists = await ScheduledMessage.exists({ _id: req.params.id, senderId: req.user.userId.toString() });
+      return exists
+        ? res.status(409).json({ success: false, error: 'This message is no longer pending' })
+        : res.status(404).json({ success: false, error: 'Scheduled message not found' });
+    }
+
+    notifyOwner(req, scheduled);
+
+    res.json({ success: true, message: 'Scheduled message updated', data: scheduled });
+  } catch (error) {
+    logger.error('Update scheduled message error', { error: error.message, scheduledMessageId: req.params.id, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Cancel a scheduled message (or dismiss a failed one)
+router.delete('/:id', authenticateToken, validateObjectId(), async (req, res) => {
+  try {
+    const scheduled = await ScheduledMessage.findOneAndUpdate(
+      { _id: req.params.id, senderId: req.user.userId.toString(), status: { $in: ['pending', 'failed'] } },
+      { $set: { status: 'cancelled' } },
+      { new: true }
+    );
+
+    if (!scheduled) {
+      const exists = await ScheduledMessage.exists({ _id: req.params.id, senderId: req.user.userId.toString() });
+      return exists
+        ? res.status(409).json({ success: false, error: 'This message is no longer pending' })
+        : res.status(404).json({ success: false, error: 'Scheduled message not found' });
+    }
+
+    notifyOwner(req, scheduled);
+
+    res.json({ success: true, message: 'Scheduled message cancelled', data: scheduled });
+  } catch (error) {
+    logger.error('Cancel scheduled message error', { error: error.message, scheduledMessageId: req.params.id, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
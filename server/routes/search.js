@@ -1,6 +1,7 @@
 const express = require('express');
 const { Message, Chat } = require('../models');
 const { authenticateToken } = require('../middleware/auth');
+const logger = require('../utils/logger');
 const router = express.Router();
 
 // Search messages
@@ -26,13 +27,16 @@ router.get('/messages', authenticateToken, async (req, res) => {
       },
       {
         $addFields: {
-          score: { $meta: 'textScore' }
+          score: { $meta: 'textScore' },
+          // chatId and senderId are stored as strings
+          chatObjectId: { $convert: { input: '$chatId', to: 'objectId', onError: null, onNull: null } },
+          senderObjectId: { $convert: { input: '$senderId', to: 'objectId', onError: null, onNull: null } }
         }
       },
       {
         $lookup: {
           from: 'chats',
-          localField: 'chatId',
+          localField: 'chatObjectId',
           foreignField: '_id',
           as: 'chat'
         }
@@ -42,13 +46,16 @@ router.get('/messages', authenticateToken, async (req, res) => {
       },
       {
         $match: {
-          'chat.participants': req.user.userId
+          $or: [
+            { 'chat.participants': req.user.userId.toString() },
+            { 'chat.type': { $in: ['general', 'announcements'] } }
+          ]
         }
       },
       {
         $lookup: {
           from: 'users',
-          localField: 'senderId',
+          localField: 'senderObjectId',
           foreignField: '_id',
           as: 'sender',
           pipeline: [{ $project: { name: 1, avatar: 1 } }]
@@ -59,16 +66,22 @@ router.get('/messages', authenticateToken, async (req, res) => {
       },
       {
         $project: {
+          _id: 0,
+          id: { $toString: '$_id' },
           content: 1,
           senderId: 1,
+          senderName: '$sender.name',
           chatId: 1,
+          threadId: 1,
+          timestamp: '$createdAt',
           createdAt: 1,
           score: 1,
           sender: 1,
           chat: {
-            _id: '$chat._id',
+            id: { $toString: '$chat._id' },
             name: '$chat.name',
-            type: '$chat.type'
+            type: '$chat.type',
+            participants: '$chat.participants'
           }
         }
       },
@@ -0,0 +1,49 @@
+const express = require('express');
+const { User } = require('../models');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const { getSecurityPolicy, updateSecurityPolicy } = require('../services/securityPolicyService');
+const { logAction } = require('../services/auditLogService');
+const logger = require('../utils/logger');
+
+const router = express.Router();
+
+// Base path is /api/security
+
+router.get('/policy', authenticateToken, async (req, res) => {
+  try {
+    res.json({ success: true, data: await getSecurityPolicy() });
+  } catch (error) {
+    logger.error('Get security policy error', { error: error.message, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Failed to fetch security policy' });
+  }
+});
+
+router.put('/policy', authenticateToken, requirePermission('security.manage'), async (req, res) => {
+  try {
+    const { requireManagerTwoFactor } = req.body;
+    if (typeof requireManagerTwoFactor !== 'boolean') {
+      return res.status(400).json({ success: false, error: 'requireManagerTwoFactor must be true or false' });
+    }
+
+    // security.manage is privileged, so whoever turns it on is bound by it too. Otherwise they would have to
+    // enrol at their next login like everyone else, and could find themselves without access if that goes wrong
+    if (requireManagerTwoFactor) {
+      const requester = await User.findById(req.user.userId);
+      if (!requester.twoFactor?.enabled) {
+        return res.status(400).json({ success: false, error: 'Turn on two-factor authentication for your own account first' });
+      }
+    }
+
+    const previous = await getSecurityPolicy();
+    const policy = await updateSecurityPolicy({ requireManagerTwoFactor }, req.user.userId);
+    if (previous.requireManagerTwoFactor !== requireManagerTwoFactor) {
+      await logAction(req.user.userId, 'security.policy.updated', 'security-policy', { requireManagerTwoFactor });
+    }
+    res.json({ success: true, data: policy });
+  } catch (error) {
+    logger.error('Update security policy error', { error: error.message, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Failed to update security policy' });
+  }
+});
+
+module.exports = router;
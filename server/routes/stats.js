@@ -1,11 +1,11 @@
 const express = require('express');
 const { User, Chat, Message, AuditLog } = require('../models');
-const { authenticateToken, requireManager } = require('../middleware/auth');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
 const { createSampleAuditLogs } = require('../services/auditLogService');
 const router = express.Router();
 
 // Get dashboard stats (managers only)
-router.get('/dashboard', authenticateToken, requireManager, async (req, res) => {
+router.get('/dashboard', authenticateToken, requirePermission('stats.view'), async (req, res) => {
   try {
     const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
     const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
@@ -152,7 +152,7 @@ router.get('/dashboard', authenticateToken, requireManager, async (req, res) =>
 });
 
 // Get audit logs (managers only)
-router.get('/audit-logs', authenticateToken, requireManager, async (req, res) => {
+router.get('/audit-logs', authenticateToken, requirePermission('audit.view'), async (req, res) => {
   try {
     const { 
       page = 1, 
@@ -239,7 +239,7 @@ router.get('/audit-logs', authenticateToken, requireManager, async (req, res) =>
 });
 
 // Create sample audit logs (for testing - managers only)
-router.post('/create-sample-logs', authenticateToken, requireManager, async (req, res) => {
+router.post('/create-sample-logs', authenticateToken, requirePermission('security.manage'), async (req, res) => {
   try {
     await createSampleAuditLogs(req.user.userId);
     res.json({
@@ -256,7 +256,7 @@ router.post('/create-sample-logs', authenticateToken, requireManager, async (req
 });
 
 // Clear all audit logs (for testing - managers only)
-router.delete('/clear-audit-logs', authenticateToken, requireManager, async (req, res) => {
+router.delete('/clear-audit-logs', authenticateToken, requirePermission('security.manage'), async (req, res) => {
   try {
     await AuditLog.deleteMany({});
     res.json({
@@ -0,0 +1,35 @@
+const express = require('express');
+const { authenticateToken } = require('../middleware/auth');
+const { getLatestSeq, getEventsSince } = require('../services/syncService');
+const logger = require('../utils/logger');
+
+const router = express.Router();
+
+// Replay socket events missed while disconnected.
+// Without `since` only the current sequence number is returned, to use as a starting point.
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const { since } = req.query;
+
+    if (since === undefined) {
+      return res.json({
+        success: true,
+        data: { latestSeq: await getLatestSeq(), events: [], resetRequired: false }
+      });
+    }
+
+    const sinceSeq = parseInt(since, 10);
+    if (Number.isNaN(sinceSeq) || sinceSeq < 0) {
+      return res.status(400).json({ success: false, error: 'Invalid sync sequence' });
+    }
+
+    const result = await getEventsSince(req.user.userId.toString(), sinceSeq);
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    logger.error('Sync error', { error: error.message, since: req.query.since, userId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
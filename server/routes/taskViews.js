@@ -0,0 +1,98 @@
+const express = require('express');
+const { TaskView } = require('../models');
+const { authenticateToken } = require('../middleware/auth');
+const { validateObjectId } = require('../middleware/validation');
+const { SORTS, VIEW_MODES, normalizeTaskFilters } = require('../services/taskFilterService');
+const logger = require('../utils/logger');
+
+const router = express.Router();
+
+const MAX_VIEWS_PER_USER = 20;
+
+/**
+ * Check a view's `name`, `filters`, `sort` and `viewMode` from a request body.
+ * Fields left out keep the values of `current`. Returns `{ view }` with the fields to save, or `{ error }`.
+ */
+const normalizeView = (body, current = {}) => {
+  const {
+    name = current.name,
+    filters = current.filters,
+    sort = current.sort || 'dueDate',
+    viewMode = current.viewMode || 'dashboard'
+  } = body;
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > 60) {
+    return { error: 'Name must be between 1 and 60 characters' };
+  }
+  if (filters !== undefined && (typeof filters !== 'object' || filters === null || Array.isArray(filters))) {
+    return { error: 'Filters must be an object' };
+  }
+  const result = normalizeTaskFilters(filters || {});
+  if (result.error) return { error: result.error };
+  if (!SORTS.includes(sort)) return { error: `Sort must be one of ${SORTS.join(', ')}` };
+  if (!VIEW_MODES.includes(viewMode)) return { error: `View mode must be one of ${VIEW_MODES.join(', ')}` };
+
+  return { view: { name: name.trim(), filters: result.filters, sort, viewMode } };
+};
+
+// The requester's saved views, oldest first
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const views = await TaskView.find({ userId: req.user.userId }).sort({ createdAt: 1 });
+    res.json({ success: true, data: views });
+  } catch (error) {
+    logger.error('Get task views error', { error: error.message, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Save the requester's current filters as a named view
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const result = normalizeView(req.body);
+    if (result.error) return res.status(400).json({ success: false, error: result.error });
+
+    const count = await TaskView.countDocuments({ userId: req.user.userId });
+    if (count >= MAX_VIEWS_PER_USER) {
+      return res.status(400).json({ success: false, error: `You can save at most ${MAX_VIEWS_PER_USER} views` });
+    }
+
+    const view = await TaskView.create({ ...result.view, userId: req.user.userId });
+    res.status(201).json({ success: true, data: view });
+  } catch (error) {
+    logger.error('Create task view error', { error: error.message, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Rename a view or replace its filters, sort or view mode
+router.put('/:id', authenticateToken, validateObjectId(), async (req, res) => {
+  try {
+    const view = await TaskView.findOne({ _id: req.params.id, userId: req.user.userId });
+    if (!view) return res.status(404).json({ success: false, error: 'View not found' });
+
+    const result = normalizeView(req.body, view.toObject());
+    if (result.error) return res.status(400).json({ success: false, error: result.error });
+
+    Object.assign(view, result.view);
+    await view.save();
+    res.json({ success: true, data: view });
+  } catch (error) {
+    logger.error('Update task view error', { error: error.message, viewId: req.params.id, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+router.delete('/:id', authenticateToken, validateObjectId(), async (req, res) => {
+  try {
+    const view = await TaskView.findOneAndDelete({ _id: req.params.id, userId: req.user.userId });
+    if (!view) return res.status(404).json({ success: false, error: 'View not found' });
+
+    res.json({ success: true, message: 'View deleted' });
+  } catch (error) {
+    logger.error('Delete task view error', { error: error.message, viewId: req.params.id, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
@@ -4,42 +4,104 @@ const router = express.Router();
 const Task = require('../models/Task');
 const Team = require('../models/Team');
 const User = require('../models/User');
+const CallHistory = require('../models/callHistory');
+const TimeEntry = require('../models/TimeEntry');
 const { authenticateToken } = require('../middleware/auth');
 const { validateObjectId } = require('../middleware/validation');
+const { emitAndRecord } = require('../services/syncService');
+const { resolveCalendarScope, toTaskEvent, toCallEvent } = require('../services/calendarService');
+const { hasPermission } = require('../services/permissionService');
+const { validateRecurrence, normalizeRecurrence, spawnNextOccurrence } = require('../services/recurrenceService');
+const {
+  MAX_SUBTASK_DEPTH,
+  normalizeChecklist,
+  refreshProgress,
+  getDepth,
+  getDescendantIds,
+  cancelOpenSubtasks
+} = require('../services/subtaskService');
+const { SORTS, normalizeTaskFilters, buildTaskQuery, getSortStages } = require('../services/taskFilterService');
+const { resolveSourceMessage, postTaskCard, refreshTaskCards, markTaskCardsDeleted } = require('../services/taskCardService');
+const {
+  planDependencies,
+  applyDependencies,
+  getOpenBlockers,
+  getDependentIds,
+  partitionByBlocked,
+  removeDependencyLinks
+} = require('../services/dependencyService');
+const {
+  validateEstimate,
+  normalizeManualEntry,
+  refreshLoggedHours,
+  startTimer
+} = require('../services/timeTrackingService');
 const logger = require('../utils/logger');
 
-// Get all tasks for current user
+// Assignee, creator or anyone who manages tasks
+const canAccessTask = (task, user) => {
+  const userId = user.userId.toString();
+  const assignedTo = task.assignedTo && (task.assignedTo._id || task.assignedTo);
+  const assignedBy = task.assignedBy && (task.assignedBy._id || task.assignedBy);
+  return hasPermission(user, 'tasks.manage') ||
+    (assignedTo && assignedTo.toString() === userId) ||
+    (assignedBy && assignedBy.toString() === userId);
+};
+
+// Statuses after which an occurrence is no longer changed by series-wide edits
+const CLOSED_STATUSES = ['completed', 'cancelled'];
+
+const populateTask = (query) => query
+  .populate('assignedTo', 'name email avatar')
+  .populate('assignedBy', 'name email avatar');
+
+// task:updated for tasks changed as a side effect of another request; their chat cards are refreshed too
+const emitTasksUpdated = async (io, taskIds, updatedBy) => {
+  if (taskIds.length === 0) return;
+  const tasks = await populateTask(Task.find({ _id: { $in: taskIds } }));
+  await refreshTaskCards(tasks);
+  if (!io) return;
+  for (const task of tasks) {
+    await emitAndRecord(io, 'tasks', 'task:updated', { task, updatedBy });
+  }
+};
+
+// Let assignees know their tasks have no open blockers left, including on their next sync
+const emitTasksUnblocked = async (io, taskIds, unblockedBy) => {
+  if (!io || taskIds.length === 0) return;
+  const tasks = await populateTask(Task.find({ _id: { $in: taskIds } }));
+  for (const task of tasks) {
+    if (!task.assignedTo) continue;
+    await emitAndRecord(io, `user:${task.assignedTo._id}`, 'task:unblocked', { task, unblockedBy });
+  }
+};
+
+// Get tasks, by default those assigned to the current user. Filters take comma-separated
+// lists (`status`, `priority`, `assignedTo`, `teamId`, `tags`), a text search `q`,
+// a relative `due` range and a `sort`; see taskFilterService.
 router.get('/', authenticateToken, async (req, res) => {
   try {
-    const { status, priority, assignedTo, teamId, dueDate, page = 1, limit = 20 } = req.query;
+    const { dueDate, sort = 'dueDate', page = 1, limit = 20 } = req.query;
     
-    const query = {};
-    
-    // Filter by status
-    if (status) {
-      query.status = status;
-    }
-    
-    // Filter by priority
-    if (priority) {
-      query.priority = priority;
+    const result = normalizeTaskFilters(req.query);
+    if (result.error) {
+      return res.status(400).json({
+        success: false,
+        error: result.error
+      });
     }
     
-    // Filter by assigned user
-    if (assignedTo) {
-      query.assignedTo = assignedTo;
-    } else {
-      // If no specific user, show tasks assigned to current user
-      query.assignedTo = req.user.userId;
+    if (!SORTS.includes(sort)) {
+      return res.status(400).json({
+        success: false,
+        error: `Sort must be one of ${SORTS.join(', ')}`
+      });
     }
     
-    // Filter by team
-    if (teamId) {
-      query.teamId = teamId;
-    }
+    const query = buildTaskQuery(result.filters, req.user.userId);
     
     // Filter by due date
-    if (dueDate) {
+    if (dueDate && !result.filters.due) {
       const date = new Date(dueDate);
       const nextDay = new Date(date);
       nextDay.setDate(nextDay.getDate() + 1);
@@ -51,12 +113,18 @@ router.get('/', authenticateToken, async (req, res) => {
     
     const skip = (page - 1) * limit;
     
-    const tasks = await Task.find(query)
-      .sort({ dueDate: 1, priority: -1, createdAt: -1 })
-      .skip(skip)
-      .limit(parseInt(limit))
+    const matched = await Task.aggregate([
+      { $match: query },
+      ...getSortStages(sort),
+      { $skip: skip },
+      { $limit: parseInt(limit) },
+      { $project: { _id: 1 } }
+    ]);
+    const found = await Task.find({ _id: { $in: matched.map(task => task._id) } })
       .populate('assignedTo', 'name email avatar')
       .populate('assignedBy', 'name email avatar');
+    const byId = new Map(found.map(task => [task._id.toString(), task]));
+    const tasks = matched.map(task => byId.get(task._id.toString())).filter(Boolean);
     
     const total = await Task.countDocuments(query);
     
@@ -95,7 +163,7 @@ router.get('/:id', authenticateToken, validateObjectId(), async (req, res) => {
     }
     
     // Check if user has access to this task
-    if (task.assignedTo !== req.user.userId && task.assignedBy !== req.user.userId && req.user.role !== 'manager') {
+    if (!canAccessTask(task, req.user)) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
@@ -122,12 +190,16 @@ router.post('/', authenticateToken, async (req, res) => {
       title,
       description,
       priority,
+      startDate,
       dueDate,
       assignedTo,
       teamId,
       tags,
+      estimatedHours,
       isRecurring,
-      recurringPattern
+      recurringPattern,
+      recurrence,
+      sourceMessage
     } = req.body;
     
     // Validate required fields
@@ -152,6 +224,21 @@ router.post('/', authenticateToken, async (req, res) => {
       });
     }
     
+    if (startDate && new Date(startDate) > new Date(dueDate)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Start date must be on or before the due date'
+      });
+    }
+    
+    const estimateError = estimatedHours !== undefined ? validateEstimate(estimatedHours) : null;
+    if (estimateError) {
+      return res.status(400).json({
+        success: false,
+        error: estimateError
+      });
+    }
+    
     // Validate ObjectId format
     if (!mongoose.Types.ObjectId.isValid(assignedTo)) {
       return res.status(400).json({
@@ -184,19 +271,59 @@ router.post('/', authenticateToken, async (req, res) => {
       }
     }
     
+    // A task created from a chat message links back to it and gets a card in that chat
+    let source = null;
+    if (sourceMessage) {
+      if (!mongoose.isValidObjectId(sourceMessage.chatId) || !mongoose.isValidObjectId(sourceMessage.messageId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid source message'
+        });
+      }
+      source = await resolveSourceMessage(sourceMessage, req.user.userId);
+      if (source.error) {
+        return res.status(source.status).json({
+          success: false,
+          error: source.error
+        });
+      }
+    }
+    
+    // Older clients send only `recurringPattern`, which means "every 1 <pattern>"
+    let rule = null;
+    if (isRecurring) {
+      rule = recurrence || { frequency: recurringPattern };
+      const recurrenceError = validateRecurrence(rule);
+      if (recurrenceError) {
+        return res.status(400).json({
+          success: false,
+          error: recurrenceError
+        });
+      }
+    }
+    
     const task = new Task({
       title,
       description,
       priority: priority || 'medium',
+      ...(startDate ? { startDate: new Date(startDate) } : {}),
       dueDate: new Date(dueDate),
       assignedTo,
       assignedBy: req.user.userId,
       teamId,
       tags: tags || [],
+      ...(estimatedHours !== undefined ? { estimatedHours } : {}),
       isRecurring: isRecurring || false,
-      recurringPattern: isRecurring ? recurringPattern : null
+      recurringPattern: isRecurring ? rule.frequency : null,
+      recurrence: rule ? normalizeRecurrence(rule, dueDate) : undefined,
+      ...(source ? { sourceMessage: { chatId: source.chat._id.toString(), messageId: source.message._id } } : {})
     });
     
+    if (rule) {
+      task.seriesId = task._id;
+      task.occurrenceIndex = 1;
+    }
+    
     await task.save();
     
     const populatedTask = await Task.findById(task._id)
@@ -206,14 +333,14 @@ router.post('/', authenticateToken, async (req, res) => {
     // Emit socket event for real-time updates
     if (req.io) {
       // Broadcast to all users in the tasks room
-      req.io.to('tasks').emit('task:created', {
+      await emitAndRecord(req.io, 'tasks', 'task:created', {
         task: populatedTask,
         createdBy: req.user.userId
       });
       
       // Also emit to assigned user specifically
       if (assignedTo && assignedTo !== req.user.userId) {
-        req.io.to(`user:${assignedTo}`).emit('task:assigned', {
+        await emitAndRecord(req.io, `user:${assignedTo}`, 'task:assigned', {
           task: populatedTask,
           assignedBy: req.user.userId
         });
@@ -229,6 +356,10 @@ router.post('/', authenticateToken, async (req, res) => {
       logger.warn('req.io is not available for task creation event', { taskId: populatedTask.id, createdBy: req.user.userId });
     }
     
+    if (source) {
+      await postTaskCard(req.io, source.chat, source.message, populatedTask, req.user);
+    }
+    
     res.status(201).json({
       success: true,
       data: populatedTask
@@ -243,7 +374,8 @@ router.post('/', authenticateToken, async (req, res) => {
   }
 });
 
-// Update task
+// Update task. With `scope: 'series'`, shared fields and the repeat rule also apply to
+// the series' open occurrences; status, start and due dates and progress always stay per occurrence.
 router.put('/:id', authenticateToken, validateObjectId(), async (req, res) => {
   try {
     const task = await Task.findById(req.params.id);
@@ -256,7 +388,7 @@ router.put('/:id', authenticateToken, validateObjectId(), async (req, res) => {
     }
     
     // Check if user can update this task
-    if (task.assignedTo !== req.user.userId && task.assignedBy !== req.user.userId && req.user.role !== 'manager') {
+    if (!canAccessTask(task, req.user)) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
@@ -268,48 +400,225 @@ router.put('/:id', authenticateToken, validateObjectId(), async (req, res) => {
       description,
       status,
       priority,
+      startDate,
       dueDate,
       assignedTo,
       teamId,
       tags,
-      progress
+      progress,
+      estimatedHours,
+      isRecurring,
+      recurrence,
+      checklist,
+      blockedBy,
+      blocks,
+      overrideBlockers,
+      scope = 'occurrence'
     } = req.body;
     
-    // Update fields
-    if (title !== undefined) task.title = title;
-    if (description !== undefined) task.description = description;
+    if (!['occurrence', 'series'].includes(scope)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Scope must be occurrence or series'
+      });
+    }
+    
+    const wasRecurring = Boolean(task.isRecurring && task.seriesId);
+    const isSeriesEdit = wasRecurring && scope === 'series';
+    const changesRepeat = recurrence !== undefined || (isRecurring !== undefined && Boolean(isRecurring) !== task.isRecurring);
+    
+    if (wasRecurring && changesRepeat && !isSeriesEdit) {
+      return res.status(400).json({
+        success: false,
+        error: 'Repeat settings can only be changed for the whole series'
+      });
+    }
+    
+    const repeatRule = changesRepeat && isRecurring !== false ? (recurrence || task.recurrence) : null;
+    if (repeatRule) {
+      const recurrenceError = validateRecurrence(repeatRule);
+      if (recurrenceError) {
+        return res.status(400).json({
+          success: false,
+          error: recurrenceError
+        });
+      }
+    }
+    
+    // Fields every occurrence of a series shares
+    const shared = {};
+    if (title !== undefined) shared.title = title;
+    if (description !== undefined) shared.description = description;
+    if (priority !== undefined) shared.priority = priority;
+    if (assignedTo !== undefined) shared.assignedTo = assignedTo;
+    if (teamId !== undefined) shared.teamId = teamId;
+    if (tags !== undefined) shared.tags = tags;
+    if (estimatedHours !== undefined) {
+      const estimateError = validateEstimate(estimatedHours);
+      if (estimateError) {
+        return res.status(400).json({
+          success: false,
+          error: estimateError
+        });
+      }
+      shared.estimatedHours = estimatedHours;
+    }
+    
+    if (checklist !== undefined) {
+      const result = normalizeChecklist(checklist);
+      if (result.error) {
+        return res.status(400).json({
+          success: false,
+          error: result.error
+        });
+      }
+      task.checklist = result.checklist;
+    }
+    
+    // Only checked when the start moves; older tasks may have been given a due date before their creation date
+    if (startDate !== undefined && new Date(startDate) > (dueDate !== undefined ? new Date(dueDate) : task.dueDate)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Start date must be on or before the due date'
+      });
+    }
+    
+    // Blocked tasks can't be started until their blockers are finished, unless someone who manages tasks overrides
+    if (status === 'in-progress' && task.status !== 'in-progress') {
+      const blockerIds = Array.isArray(blockedBy) ? blockedBy.filter(id => mongoose.isValidObjectId(id)) : task.blockedBy;
+      const openBlockers = await getOpenBlockers(blockerIds);
+      if (openBlockers.length > 0) {
+        if (!overrideBlockers || !hasPermission(req.user, 'tasks.manage')) {
+          return res.status(409).json({
+            success: false,
+            error: `This task is blocked by ${openBlockers.length} open task${openBlockers.length === 1 ? '' : 's'}`,
+            blockers: openBlockers
+          });
+        }
+        logger.info('Blocked task started by manager override', {
+          taskId: task._id,
+          blockerIds: openBlockers.map(blocker => blocker._id),
+          managerId: req.user.userId
+        });
+      }
+    }
+    
+    // Checked now, but the other tasks' side of the links is only written once this task is saved
+    let dependencyPlan = null;
+    let wasBlockedIds = [];
+    if (blockedBy !== undefined || blocks !== undefined) {
+      const result = await planDependencies(task, { blockedBy, blocks });
+      if (result.error) {
+        return res.status(400).json({
+          success: false,
+          error: result.error
+        });
+      }
+      dependencyPlan = result.plan;
+      // Removing links can free this task or the ones it stops blocking
+      wasBlockedIds = (await partitionByBlocked([task._id, ...(blocks !== undefined ? task.blocks : [])])).blocked;
+      task.blockedBy = dependencyPlan.blockedBy;
+      task.blocks = dependencyPlan.blocks;
+    }
+    
+    const previousStatus = task.status;
     if (status !== undefined) task.status = status;
-    if (priority !== undefined) task.priority = priority;
+    if (startDate !== undefined) task.startDate = new Date(startDate);
     if (dueDate !== undefined) task.dueDate = new Date(dueDate);
-    if (assignedTo !== undefined) task.assignedTo = assignedTo;
-    if (teamId !== undefined) task.teamId = teamId;
-    if (tags !== undefined) task.tags = tags;
-    if (progress !== undefined) task.progress = progress;
+    // Progress of a task with subtasks or a checklist is calculated from them
+    if (progress !== undefined && task.subtasks.length === 0 && task.checklist.length === 0) {
+      task.progress = progress;
+    }
+    
+    let endsSeries = false;
+    if (repeatRule) {
+      if (!task.seriesId) {
+        task.seriesId = task._id;
+        task.occurrenceIndex = 1;
+      }
+      // The edited rule counts from this occurrence onwards
+      shared.recurrence = normalizeRecurrence(repeatRule, task.dueDate, task.occurrenceIndex);
+      shared.recurringPattern = repeatRule.frequency;
+      shared.isRecurring = true;
+      shared.isLastOccurrence = false;
+    } else if (isSeriesEdit && isRecurring === false) {
+      shared.isRecurring = false;
+      endsSeries = true;
+    }
+    
+    Object.assign(task, shared);
     
     // Set completed date if status is completed
-    if (status === 'completed' && task.status !== 'completed') {
+    if (status === 'completed' && previousStatus !== 'completed') {
       task.completedDate = new Date();
     }
     
     await task.save();
     
-    const updatedTask = await Task.findById(task._id)
-      .populate('assignedTo', 'name email avatar')
-      .populate('assignedBy', 'name email avatar');
+    const relatedIds = dependencyPlan ? await applyDependencies(task, dependencyPlan) : [];
+    
+    let siblingIds = [];
+    if (isSeriesEdit && Object.keys(shared).length > 0) {
+      const openSiblings = {
+        seriesId: task.seriesId,
+        _id: { $ne: task._id },
+        status: { $nin: CLOSED_STATUSES }
+      };
+      siblingIds = (await Task.find(openSiblings).select('_id')).map(sibling => sibling._id);
+      await Task.updateMany({ _id: { $in: siblingIds } }, { $set: shared }, { runValidators: true });
+    }
+    if (endsSeries) {
+      // Nothing in the series spawns another occurrence from now on
+      await Task.updateMany({ seriesId: task.seriesId, nextOccurrenceId: null }, { $set: { isLastOccurrence: true } });
+    }
+    
+    relatedIds.push(...siblingIds);
+    if (checklist !== undefined) {
+      await refreshProgress(task._id);
+    }
+    if (status !== undefined && status !== previousStatus) {
+      if (task.parentTaskId && await refreshProgress(task.parentTaskId)) {
+        relatedIds.push(task.parentTaskId);
+      }
+      const cancelledIds = status === 'cancelled' ? await cancelOpenSubtasks(task._id) : [];
+      relatedIds.push(...cancelledIds);
+      // Finishing or cancelling a task may leave the tasks it blocked free to start
+      if (CLOSED_STATUSES.includes(status) && !CLOSED_STATUSES.includes(previousStatus)) {
+        wasBlockedIds.push(...await getDependentIds([task._id, ...cancelledIds]));
+      }
+    }
+    const unblockedIds = wasBlockedIds.length > 0 ? (await partitionByBlocked(wasBlockedIds)).unblocked : [];
+    
+    const updatedTask = await populateTask(Task.findById(task._id));
+    await refreshTaskCards([updatedTask]);
     
     // Emit socket event for real-time updates
     if (req.io) {
       // Broadcast to all users in the tasks room
-      req.io.to('tasks').emit('task:updated', {
+      await emitAndRecord(req.io, 'tasks', 'task:updated', {
         task: updatedTask,
         updatedBy: req.user.userId
       });
       
+      await emitTasksUpdated(req.io, relatedIds, req.user.userId);
+      await emitTasksUnblocked(req.io, unblockedIds, req.user.userId);
+      
       logger.info('Task updated event emitted to tasks room', {
         taskId: updatedTask.id,
         updatedBy: req.user.userId,
-        taskTitle: updatedTask.title
+        taskTitle: updatedTask.title,
+        scope,
+        seriesUpdated: siblingIds.length
       });
+      
+      // Completing an occurrence brings in the next one straight away instead of on the next scheduler run
+      if (status === 'completed' && previousStatus !== 'completed' && task.isRecurring) {
+        try {
+          await spawnNextOccurrence(req.io, task);
+        } catch (error) {
+          logger.error('Recurring task spawn error', { error: error.message, taskId: task._id });
+        }
+      }
     }
     
     res.json({
@@ -325,7 +634,8 @@ router.put('/:id', authenticateToken, validateObjectId(), async (req, res) => {
   }
 });
 
-// Delete task
+// Delete task along with its subtasks. `?scope=series` deletes the series' open occurrences
+// and stops it repeating.
 router.delete('/:id', authenticateToken, validateObjectId(), async (req, res) => {
   try {
     const task = await Task.findById(req.params.id);
@@ -337,33 +647,70 @@ router.delete('/:id', authenticateToken, validateObjectId(), async (req, res) =>
       });
     }
     
-    // Only task creator or manager can delete
-    if (task.assignedBy !== req.user.userId && req.user.role !== 'manager') {
+    // Only the task creator or someone who manages tasks can delete
+    if (task.assignedBy.toString() !== req.user.userId.toString() && !hasPermission(req.user, 'tasks.manage')) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
       });
     }
     
-    await Task.findByIdAndDelete(req.params.id);
+    const deleteSeries = req.query.scope === 'series' && task.isRecurring && task.seriesId;
+    let deletedIds = [task._id];
+    
+    if (deleteSeries) {
+      const openOccurrences = await Task.find({
+        seriesId: task.seriesId,
+        status: { $nin: CLOSED_STATUSES }
+      }).select('_id');
+      deletedIds = [task._id, ...openOccurrences.map(occurrence => occurrence._id).filter(id => !id.equals(task._id))];
+      await Task.updateMany({ seriesId: task.seriesId }, { $set: { isLastOccurrence: true } });
+    } else if (req.io && task.isRecurring) {
+      // Deleting the latest occurrence skips it rather than ending the series
+      await spawnNextOccurrence(req.io, task);
+    }
+    
+    deletedIds.push(...await getDescendantIds(deletedIds));
+    
+    // Tasks waiting only on deleted ones become free to start
+    const { blocked: wasBlockedIds } = await partitionByBlocked(await getDependentIds(deletedIds));
+    const linkedIds = await removeDependencyLinks(deletedIds);
+    await Task.deleteMany({ _id: { $in: deletedIds } });
+    await TimeEntry.deleteMany({ taskId: { $in: deletedIds } });
+    await markTaskCardsDeleted(deletedIds);
+    const { unblocked: unblockedIds } = await partitionByBlocked(wasBlockedIds);
+    
+    let parentChanged = false;
+    if (task.parentTaskId) {
+      await Task.updateOne({ _id: task.parentTaskId }, { $pull: { subtasks: task._id } });
+      await refreshProgress(task.parentTaskId);
+      parentChanged = true;
+    }
     
     // Emit socket event for real-time updates
     if (req.io) {
       // Broadcast to all users in the tasks room
-      req.io.to('tasks').emit('task:deleted', {
-        taskId: req.params.id,
-        deletedBy: req.user.userId
-      });
+      for (const deletedId of deletedIds) {
+        await emitAndRecord(req.io, 'tasks', 'task:deleted', {
+          taskId: deletedId.toString(),
+          deletedBy: req.user.userId
+        });
+      }
+      
+      const changedIds = parentChanged ? [task.parentTaskId, ...linkedIds] : linkedIds;
+      await emitTasksUpdated(req.io, changedIds, req.user.userId);
+      await emitTasksUnblocked(req.io, unblockedIds, req.user.userId);
       
       logger.info('Task deleted event emitted to tasks room', {
         taskId: req.params.id,
-        deletedBy: req.user.userId
+        deletedBy: req.user.userId,
+        deletedCount: deletedIds.length
       });
     }
     
     res.json({
       success: true,
-      message: 'Task deleted successfully'
+      message: deletedIds.length > 1 ? `${deletedIds.length} tasks deleted successfully` : 'Task deleted successfully'
     });
   } catch (error) {
     logger.error('Delete task error', { error: error.message, taskId: req.params.id, requesterId: req.user.userId });
@@ -396,7 +743,7 @@ router.post('/:id/comments', authenticateToken, validateObjectId(), async (req,
     }
     
     // Check if user has access to this task
-    if (task.assignedTo !== req.user.userId && task.assignedBy !== req.user.userId && req.user.role !== 'manager') {
+    if (!canAccessTask(task, req.user)) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
@@ -428,46 +775,356 @@ router.post('/:id/comments', authenticateToken, validateObjectId(), async (req,
   }
 });
 
-// Get tasks for calendar view
-router.get('/calendar/events', authenticateToken, async (req, res) => {
+// Get a task's subtasks, in order
+router.get('/:id/subtasks', authenticateToken, validateObjectId(), async (req, res) => {
   try {
-    const { start, end } = req.query;
+    const task = await Task.findById(req.params.id);
     
-    const query = {
-      assignedTo: req.user.userId
-    };
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        error: 'Task not found'
+      });
+    }
     
-    if (start && end) {
-      query.dueDate = {
-        $gte: new Date(start),
-        $lte: new Date(end)
-      };
+    if (!canAccessTask(task, req.user)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied'
+      });
     }
     
-    const tasks = await Task.find(query)
-      .populate('assignedTo', 'name email avatar')
-      .populate('assignedBy', 'name email avatar');
+    const subtasks = await populateTask(Task.find({ parentTaskId: task._id }));
+    const position = new Map(task.subtasks.map((id, index) => [id.toString(), index]));
+    subtasks.sort((a, b) => (position.get(a._id.toString()) ?? Infinity) - (position.get(b._id.toString()) ?? Infinity));
+    
+    res.json({
+      success: true,
+      data: subtasks
+    });
+  } catch (error) {
+    logger.error('Get subtasks error', { error: error.message, taskId: req.params.id, requesterId: req.user.userId });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Add a subtask; assignee, team and due date default to the parent's
+router.post('/:id/subtasks', authenticateToken, validateObjectId(), async (req, res) => {
+  try {
+    const { title, description, priority, dueDate, assignedTo } = req.body;
+    
+    if (!title || !title.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Title is required'
+      });
+    }
+    
+    const parent = await Task.findById(req.params.id);
+    
+    if (!parent) {
+      return res.status(404).json({
+        success: false,
+        error: 'Task not found'
+      });
+    }
+    
+    if (!canAccessTask(parent, req.user)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied'
+      });
+    }
+    
+    if (parent.status === 'cancelled') {
+      return res.status(400).json({
+        success: false,
+        error: 'Cannot add subtasks to a cancelled task'
+      });
+    }
     
-    const events = tasks.map(task => ({
-      id: task._id,
-      title: task.title,
-      start: task.dueDate,
-      end: task.dueDate,
-      backgroundColor: getPriorityColor(task.priority),
-      borderColor: getPriorityColor(task.priority),
-      extendedProps: {
-        status: task.status,
-        priority: task.priority,
-        description: task.description
+    if (await getDepth(parent) >= MAX_SUBTASK_DEPTH) {
+      return res.status(400).json({
+        success: false,
+        error: `Subtasks can only be nested ${MAX_SUBTASK_DEPTH} levels deep`
+      });
+    }
+    
+    if (assignedTo) {
+      const assignedUser = mongoose.Types.ObjectId.isValid(assignedTo) &&
+        await User.findOne({ _id: assignedTo, isApproved: true });
+      if (!assignedUser) {
+        return res.status(400).json({
+          success: false,
+          error: 'Assigned user not found or not approved'
+        });
       }
-    }));
+    }
+    
+    const subtask = await Task.create({
+      title: title.trim(),
+      description,
+      priority: priority || parent.priority,
+      dueDate: dueDate ? new Date(dueDate) : parent.dueDate,
+      assignedTo: assignedTo || parent.assignedTo,
+      assignedBy: req.user.userId,
+      teamId: parent.teamId,
+      assignmentType: parent.assignmentType,
+      parentTaskId: parent._id
+    });
+    
+    await Task.updateOne({ _id: parent._id }, { $push: { subtasks: subtask._id } });
+    await refreshProgress(parent._id);
+    
+    const populatedSubtask = await populateTask(Task.findById(subtask._id));
+    
+    if (req.io) {
+      await emitAndRecord(req.io, 'tasks', 'task:created', {
+        task: populatedSubtask,
+        createdBy: req.user.userId
+      });
+      if (subtask.assignedTo.toString() !== req.user.userId.toString()) {
+        await emitAndRecord(req.io, `user:${subtask.assignedTo}`, 'task:assigned', {
+          task: populatedSubtask,
+          assignedBy: req.user.userId
+        });
+      }
+      await emitTasksUpdated(req.io, [parent._id], req.user.userId);
+    }
+    
+    res.status(201).json({
+      success: true,
+      data: populatedSubtask
+    });
+  } catch (error) {
+    logger.error('Create subtask error', { error: error.message, taskId: req.params.id, requesterId: req.user.userId });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Reorder subtasks; `subtaskIds` must list every subtask exactly once
+router.put('/:id/subtasks/order', authenticateToken, validateObjectId(), async (req, res) => {
+  try {
+    const { subtaskIds } = req.body;
+    const task = await Task.findById(req.params.id);
+    
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        error: 'Task not found'
+      });
+    }
+    
+    if (!canAccessTask(task, req.user)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied'
+      });
+    }
+    
+    const current = task.subtasks.map(id => id.toString());
+    const isSameSet = Array.isArray(subtaskIds) &&
+      subtaskIds.length === current.length &&
+      new Set(subtaskIds).size === current.length &&
+      subtaskIds.every(id => current.includes(id));
+    
+    if (!isSameSet) {
+      return res.status(400).json({
+        success: false,
+        error: 'Subtask order must list every subtask exactly once'
+      });
+    }
+    
+    task.subtasks = subtaskIds;
+    await task.save();
+    
+    const updatedTask = await populateTask(Task.findById(task._id));
+    
+    if (req.io) {
+      await emitAndRecord(req.io, 'tasks', 'task:updated', {
+        task: updatedTask,
+        updatedBy: req.user.userId
+      });
+    }
     
     res.json({
       success: true,
-      data: events
+      data: updatedTask
     });
   } catch (error) {
-    logger.error('Get calendar events error', { error: error.message, requesterId: req.user.userId });
+    logger.error('Reorder subtasks error', { error: error.message, taskId: req.params.id, requesterId: req.user.userId });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Get the tasks a task is blocked by and the tasks it blocks
+router.get('/:id/dependencies', authenticateToken, validateObjectId(), async (req, res) => {
+  try {
+    const task = await Task.findById(req.params.id);
+    
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        error: 'Task not found'
+      });
+    }
+    
+    if (!canAccessTask(task, req.user)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied'
+      });
+    }
+    
+    const [blockedBy, blocks] = await Promise.all([
+      populateTask(Task.find({ _id: { $in: task.blockedBy } })),
+      populateTask(Task.find({ _id: { $in: task.blocks } }))
+    ]);
+    
+    res.json({
+      success: true,
+      data: { blockedBy, blocks }
+    });
+  } catch (error) {
+    logger.error('Get dependencies error', { error: error.message, taskId: req.params.id, requesterId: req.user.userId });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Get the time logged on a task, newest first
+router.get('/:id/time-entries', authenticateToken, validateObjectId(), async (req, res) => {
+  try {
+    const task = await Task.findById(req.params.id);
+    
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        error: 'Task not found'
+      });
+    }
+    
+    if (!canAccessTask(task, req.user)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied'
+      });
+    }
+    
+    const entries = await TimeEntry.find({ taskId: task._id })
+      .sort({ startedAt: -1 })
+      .populate('userId', 'name email avatar');
+    
+    res.json({
+      success: true,
+      data: entries
+    });
+  } catch (error) {
+    logger.error('Get time entries error', { error: error.message, taskId: req.params.id, requesterId: req.user.userId });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Log time on a task by hand: `minutes`, the `date` worked and an optional `note`
+router.post('/:id/time-entries', authenticateToken, validateObjectId(), async (req, res) => {
+  try {
+    const task = await Task.findById(req.params.id);
+    
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        error: 'Task not found'
+      });
+    }
+    
+    if (!canAccessTask(task, req.user)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied'
+      });
+    }
+    
+    const result = normalizeManualEntry(req.body);
+    if (result.error) {
+      return res.status(400).json({
+        success: false,
+        error: result.error
+      });
+    }
+    
+    const entry = await TimeEntry.create({
+      ...result.entry,
+      taskId: task._id,
+      userId: req.user.userId,
+      source: 'manual'
+    });
+    await refreshLoggedHours([task._id]);
+    await emitTasksUpdated(req.io, [task._id], req.user.userId);
+    
+    res.status(201).json({
+      success: true,
+      data: await entry.populate('userId', 'name email avatar')
+    });
+  } catch (error) {
+    logger.error('Log time error', { error: error.message, taskId: req.params.id, requesterId: req.user.userId });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Start a timer on a task, stopping the requester's timer on any other task
+router.post('/:id/timer', authenticateToken, validateObjectId(), async (req, res) => {
+  try {
+    const task = await Task.findById(req.params.id);
+    
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        error: 'Task not found'
+      });
+    }
+    
+    if (!canAccessTask(task, req.user)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied'
+      });
+    }
+    
+    if (CLOSED_STATUSES.includes(task.status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Time can't be tracked on a ${task.status} task`
+      });
+    }
+    
+    const { entry, stopped } = await startTimer(task._id, req.user.userId);
+    if (stopped) {
+      await emitTasksUpdated(req.io, [stopped.taskId], req.user.userId);
+    }
+    
+    res.status(201).json({
+      success: true,
+      data: { entry, stopped }
+    });
+  } catch (error) {
+    logger.error('Start timer error', { error: error.message, taskId: req.params.id, requesterId: req.user.userId });
     res.status(500).json({
       success: false,
       error: 'Internal server error'
@@ -475,20 +1132,68 @@ router.get('/calendar/events', authenticateToken, async (req, res) => {
   }
 });
 
-// Helper function to get color based on priority
-function getPriorityColor(priority) {
-  switch (priority) {
-    case 'urgent':
-      return '#EF4444'; // Red
-    case 'high':
-      return '#F59E0B'; // Amber
-    case 'medium':
-      return '#3B82F6'; // Blue
-    case 'low':
-      return '#10B981'; // Green
-    default:
-      return '#6B7280'; // Gray
+// Get calendar events for the requester, another user (`scope=user&userId=`) or a team
+// (`scope=team&teamId=`, optionally `userIds=`). `include=tasks,calls` adds call history.
+router.get('/calendar/events', authenticateToken, async (req, res) => {
+  try {
+    const { start, end, include = 'tasks' } = req.query;
+    
+    const scope = await resolveCalendarScope(req.user, req.query);
+    if (scope.error) {
+      return res.status(scope.status).json({
+        success: false,
+        error: scope.error
+      });
+    }
+    
+    const included = String(include).split(',');
+    const userIds = scope.userIds.filter(id => mongoose.isValidObjectId(id));
+    const events = [];
+    
+    if (included.includes('tasks')) {
+      // A whole team's calendar also has team tasks assigned to people outside it
+      const query = scope.team && !req.query.userIds
+        ? { $or: [{ teamId: scope.team._id }, { assignedTo: { $in: userIds } }] }
+        : { assignedTo: { $in: userIds } };
+      
+      if (start && end) {
+        query.dueDate = {
+          $gte: new Date(start),
+          $lte: new Date(end)
+        };
+      }
+      
+      const tasks = await Task.find(query)
+        .populate('assignedTo', 'name email avatar')
+        .populate('teamId', 'name color');
+      events.push(...tasks.map(toTaskEvent));
+    }
+    
+    if (included.includes('calls')) {
+      const query = {
+        $or: [{ initiatedBy: { $in: userIds } }, { participants: { $in: userIds } }]
+      };
+      if (start && end) {
+        query.startTime = {
+          $gte: new Date(start),
+          $lte: new Date(end)
+        };
+      }
+      const calls = await CallHistory.find(query).sort({ startTime: 1 }).limit(500);
+      events.push(...calls.map(toCallEvent));
+    }
+    
+    res.json({
+      success: true,
+      data: events
+    });
+  } catch (error) {
+    logger.error('Get calendar events error', { error: error.message, requesterId: req.user.userId });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
   }
-}
+});
 
 module.exports = router;
\ No newline at end of file
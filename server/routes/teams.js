@@ -3,6 +3,7 @@ const router = express.Router();
 const Team = require('../models/Team');
 const { authenticateToken } = require('../middleware/auth');
 const { validateObjectId } = require('../middleware/validation');
+const { hasPermission } = require('../services/permissionService');
 
 // Get all teams for current user
 router.get('/', authenticateToken, async (req, res) => {
@@ -46,7 +47,7 @@ router.get('/:id', authenticateToken, validateObjectId(), async (req, res) => {
     const isMember = team.members.some(member => member.userId === req.user.userId);
     const isCreator = team.createdBy === req.user.userId;
     
-    if (!isMember && !isCreator && req.user.role !== 'manager') {
+    if (!isMember && !isCreator && !hasPermission(req.user, 'teams.manage')) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
@@ -145,7 +146,7 @@ router.put('/:id', authenticateToken, validateObjectId(), async (req, res) => {
     );
     const isCreator = team.createdBy === req.user.userId;
     
-    if (!isAdmin && !isCreator && req.user.role !== 'manager') {
+    if (!isAdmin && !isCreator && !hasPermission(req.user, 'teams.manage')) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
@@ -204,7 +205,7 @@ router.post('/:id/members', authenticateToken, validateObjectId(), async (req, r
     );
     const isCreator = team.createdBy === req.user.userId;
     
-    if (!isAdmin && !isCreator && req.user.role !== 'manager') {
+    if (!isAdmin && !isCreator && !hasPermission(req.user, 'teams.manage')) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
@@ -265,7 +266,7 @@ router.delete('/:id/members/:userId', authenticateToken, validateObjectId(), asy
     );
     const isCreator = team.createdBy === req.user.userId;
     
-    if (!isAdmin && !isCreator && req.user.role !== 'manager') {
+    if (!isAdmin && !isCreator && !hasPermission(req.user, 'teams.manage')) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
@@ -313,8 +314,8 @@ router.delete('/:id', authenticateToken, validateObjectId(), async (req, res) =>
       });
     }
     
-    // Only team creator or manager can delete
-    if (team.createdBy !== req.user.userId && req.user.role !== 'manager') {
+    // Only the team creator or someone who manages teams can delete
+    if (team.createdBy !== req.user.userId && !hasPermission(req.user, 'teams.manage')) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
@@ -0,0 +1,159 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const { Task, TimeEntry } = require('../models');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const { hasPermission } = require('../services/permissionService');
+const { validateObjectId } = require('../middleware/validation');
+const { emitAndRecord } = require('../services/syncService');
+const { normalizeManualEntry, refreshLoggedHours, stopTimer, buildTimeReport } = require('../services/timeTrackingService');
+const logger = require('../utils/logger');
+
+const router = express.Router();
+
+// Longest range a timesheet or report can cover
+const MAX_RANGE_DAYS = 366;
+
+const TASK_FIELDS = 'title status priority teamId tags estimatedHours loggedHours';
+
+// Parse `start` and `end` from a query; returns `{ start, end }` or `{ error }`
+const parseRange = ({ start, end }) => {
+  const from = new Date(start);
+  const to = new Date(end);
+  if (!start || !end || Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+    return { error: 'A valid start and end are required' };
+  }
+  if (to - from > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    return { error: `The range can be at most ${MAX_RANGE_DAYS} days` };
+  }
+  return { start: from, end: to };
+};
+
+const canEditEntry = (entry, user) => hasPermission(user, 'time.manage') || entry.userId.toString() === user.userId.toString();
+
+// Logged hours are part of the task, so everyone looking at it gets the new total
+const emitLoggedHoursChanged = async (io, taskId, updatedBy) => {
+  if (!io) return;
+  const task = await Task.findById(taskId)
+    .populate('assignedTo', 'name email avatar')
+    .populate('assignedBy', 'name email avatar');
+  if (task) await emitAndRecord(io, 'tasks', 'task:updated', { task, updatedBy });
+};
+
+// A user's time entries between `start` and `end`, for their timesheet. Managers can pass `userId`.
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const range = parseRange(req.query);
+    if (range.error) return res.status(400).json({ success: false, error: range.error });
+
+    const userId = req.query.userId || req.user.userId.toString();
+    if (!mongoose.isValidObjectId(userId)) {
+      return res.status(400).json({ success: false, error: 'Invalid user ID format' });
+    }
+    if (userId !== req.user.userId.toString() && !hasPermission(req.user, 'time.manage')) {
+      return res.status(403).json({ success: false, error: 'Access denied' });
+    }
+
+    const entries = await TimeEntry.find({ userId, startedAt: { $gte: range.start, $lt: range.end } })
+      .sort({ startedAt: 1 })
+      .populate('taskId', TASK_FIELDS);
+
+    res.json({ success: true, data: entries });
+  } catch (error) {
+    logger.error('Get timesheet error', { error: error.message, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// The requester's running timer, or null
+router.get('/running', authenticateToken, async (req, res) => {
+  try {
+    const entry = await TimeEntry.findOne({ userId: req.user.userId, isRunning: true })
+      .populate('taskId', TASK_FIELDS);
+
+    res.json({ success: true, data: entry });
+  } catch (error) {
+    logger.error('Get running timer error', { error: error.message, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Stop the requester's running timer
+router.post('/running/stop', authenticateToken, async (req, res) => {
+  try {
+    const entry = await stopTimer(req.user.userId);
+    if (!entry) return res.status(404).json({ success: false, error: 'No timer is running' });
+
+    await emitLoggedHoursChanged(req.io, entry.taskId, req.user.userId);
+    res.json({ success: true, data: entry });
+  } catch (error) {
+    logger.error('Stop timer error', { error: error.message, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Hours logged between `start` and `end` by team, user and tag, optionally for one `teamId`
+router.get('/report', authenticateToken, requirePermission('time.manage'), async (req, res) => {
+  try {
+    const range = parseRange(req.query);
+    if (range.error) return res.status(400).json({ success: false, error: range.error });
+
+    const { teamId } = req.query;
+    if (teamId && !mongoose.isValidObjectId(teamId)) {
+      return res.status(400).json({ success: false, error: 'Invalid team ID format' });
+    }
+
+    const report = await buildTimeReport({ ...range, teamId });
+    res.json({ success: true, data: report });
+  } catch (error) {
+    logger.error('Time report error', { error: error.message, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Correct a finished entry's `minutes`, `date` or `note`
+router.put('/:id', authenticateToken, validateObjectId(), async (req, res) => {
+  try {
+    const entry = await TimeEntry.findById(req.params.id);
+    if (!entry) return res.status(404).json({ success: false, error: 'Time entry not found' });
+    if (!canEditEntry(entry, req.user)) return res.status(403).json({ success: false, error: 'Access denied' });
+    if (entry.isRunning) {
+      return res.status(400).json({ success: false, error: 'Stop the timer before editing this entry' });
+    }
+
+    const { minutes = entry.minutes, date = entry.startedAt, note } = req.body;
+    const result = normalizeManualEntry({ minutes, date, note });
+    if (result.error) return res.status(400).json({ success: false, error: result.error });
+
+    Object.assign(entry, result.entry);
+    await entry.save();
+    await refreshLoggedHours([entry.taskId]);
+    await emitLoggedHoursChanged(req.io, entry.taskId, req.user.userId);
+
+    res.json({ success: true, data: await entry.populate('userId', 'name email avatar') });
+  } catch (error) {
+    logger.error('Update time entry error', { error: error.message, entryId: req.params.id, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Delete an entry; deleting a running timer discards it
+router.delete('/:id', authenticateToken, validateObjectId(), async (req, res) => {
+  try {
+    const entry = await TimeEntry.findById(req.params.id);
+    if (!entry) return res.status(404).json({ success: false, error: 'Time entry not found' });
+    if (!canEditEntry(entry, req.user)) return res.status(403).json({ success: false, error: 'Access denied' });
+
+    await entry.deleteOne();
+    if (!entry.isRunning) {
+      await refreshLoggedHours([entry.taskId]);
+      await emitLoggedHoursChanged(req.io, entry.taskId, req.user.userId);
+    }
+
+    res.json({ success: true, message: 'Time entry deleted' });
+  } catch (error) {
+    logger.error('Delete time entry error', { error: error.message, entryId: req.params.id, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,96 @@
+const express = require('express');
+const { Chat, TrashItem } = require('../models');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
+const { validateObjectId } = require('../middleware/validation');
+const { logAction } = require('../services/auditLogService');
+const { emitAndRecord, ALL_ROOM } = require('../services/syncService');
+const { getRetentionDays, listTrash, restoreTrashItem, purgeTrashItem } = require('../services/trashService');
+const logger = require('../utils/logger');
+
+const router = express.Router();
+
+// Deleted chats and cleared messages that can still be restored
+router.get('/', authenticateToken, requirePermission('trash.manage'), async (req, res) => {
+  try {
+    const items = await listTrash();
+
+    res.json({ success: true, data: { items, retentionDays: getRetentionDays() } });
+  } catch (error) {
+    logger.error('Get trash error', { error: error.message, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Put a deleted chat or cleared messages back
+router.post('/:id/restore', authenticateToken, requirePermission('trash.manage'), validateObjectId(), async (req, res) => {
+  try {
+    const trashItem = await TrashItem.findById(req.params.id);
+    if (!trashItem || trashItem.expiresAt <= new Date()) {
+      return res.status(404).json({ success: false, error: 'Trash item not found' });
+    }
+
+    if (trashItem.type === 'messages' && !(await Chat.exists({ _id: trashItem.chatId }))) {
+      return res.status(409).json({ success: false, error: 'The chat these messages belong to was deleted. Restore the chat first.' });
+    }
+
+    const chat = await restoreTrashItem(trashItem);
+
+    try {
+      await logAction(req.user.userId, 'trash.restored', trashItem.chatId, {
+        type: trashItem.type,
+        chatName: trashItem.chatName,
+        messageCount: trashItem.messageCount,
+        deletedBy: trashItem.deletedBy
+      });
+    } catch (logError) {
+      logger.error('Failed to log action', { error: logError.message, action: 'trash.restored', trashItemId: req.params.id });
+    }
+
+    if (trashItem.type === 'chat') {
+      // Same audience that would see the chat in its chat list
+      const rooms = ['general', 'announcements'].includes(chat.type)
+        ? [ALL_ROOM]
+        : chat.participants.map(participantId => `user:${participantId}`);
+      for (const room of rooms) {
+        await emitAndRecord(req.io, room, 'chat-restored', chat);
+      }
+    } else {
+      await emitAndRecord(req.io, trashItem.chatId, 'chat-messages-restored', { chatId: trashItem.chatId, chat });
+    }
+
+    res.json({ success: true, message: 'Restored from trash', data: chat });
+  } catch (error) {
+    logger.error('Restore trash item error', { error: error.message, trashItemId: req.params.id, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Permanently delete a trash item
+router.delete('/:id', authenticateToken, requirePermission('trash.manage'), validateObjectId(), async (req, res) => {
+  try {
+    const trashItem = await TrashItem.findById(req.params.id);
+    if (!trashItem) {
+      return res.status(404).json({ success: false, error: 'Trash item not found' });
+    }
+
+    await purgeTrashItem(trashItem);
+
+    try {
+      await logAction(req.user.userId, 'trash.purged', trashItem.chatId, {
+        type: trashItem.type,
+        chatName: trashItem.chatName,
+        messageCount: trashItem.messageCount,
+        deletedBy: trashItem.deletedBy
+      });
+    } catch (logError) {
+      logger.error('Failed to log action', { error: logError.message, action: 'trash.purged', trashItemId: req.params.id });
+    }
+
+    res.json({ success: true, message: 'Permanently deleted' });
+  } catch (error) {
+    logger.error('Purge trash item error', { error: error.message, trashItemId: req.params.id, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+module.exports = router;
@@ -1,10 +1,13 @@
 const express = require('express');
 const mongoose = require('mongoose');
-const { User, PendingUser, UserSettings } = require('../models');
-const { authenticateToken, requireManager } = require('../middleware/auth');
+const { User, PendingUser, UserSettings, Role } = require('../models');
+const { authenticateToken, requirePermission } = require('../middleware/auth');
 const { validateObjectId, validateUserSettings } = require('../middleware/validation');
 const { uploadAvatar, handleUploadError } = require('../middleware/upload');
 const { logAction } = require('../services/auditLogService');
+const { disableTwoFactor } = require('../services/twoFactorService');
+const { getLockedUntil, clearFailedLogins } = require('../services/loginSecurityService');
+const { getRolePermissions, hasPermission } = require('../services/permissionService');
 const logger = require('../utils/logger');
 
 const router = express.Router();
@@ -92,8 +95,8 @@ router.put('/:id', authenticateToken, validateObjectId(), async (req, res) => {
     delete updates.role; // Role should be updated via separate endpoint
     delete updates.isApproved;
     
-    // Users can only update their own profile unless they're a manager
-    if (req.user.userId !== id && req.user.role !== 'manager') {
+    // Users can only update their own profile unless they manage members
+    if (req.user.userId !== id && !hasPermission(req.user, 'users.manage')) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
@@ -127,13 +130,13 @@ router.put('/:id', authenticateToken, validateObjectId(), async (req, res) => {
   }
 });
 
-// Update user role (manager only)
-router.patch('/:id/role', authenticateToken, requireManager, validateObjectId(), async (req, res) => {
+// Update user role (users.manage)
+router.patch('/:id/role', authenticateToken, requirePermission('users.manage'), validateObjectId(), async (req, res) => {
   try {
     const { id } = req.params;
     const { role } = req.body;
     
-    if (!role || !['manager', 'employee'].includes(role)) {
+    if (typeof role !== 'string' || !(await Role.exists({ key: role }))) {
       return res.status(400).json({
         success: false,
         error: 'Invalid role'
@@ -156,6 +159,18 @@ router.patch('/:id/role', authenticateToken, requireManager, validateObjectId(),
         error: 'Cannot change admin role'
       });
     }
+
+    // Nobody can hand out, or take away, permissions they don't have themselves
+    const [newPermissions, currentPermissions] = await Promise.all([
+      getRolePermissions(role),
+      getRolePermissions(user.role)
+    ]);
+    if ([...newPermissions, ...currentPermissions].some(permission => !hasPermission(req.user, permission))) {
+      return res.status(403).json({
+        success: false,
+        error: 'You can only assign roles whose permissions you have yourself'
+      });
+    }
     
     const previousRole = user.role;
     user.role = role;
@@ -188,8 +203,62 @@ router.patch('/:id/role', authenticateToken, requireManager, validateObjectId(),
   }
 });
 
-// Delete user (manager only)
-router.delete('/:id', authenticateToken, requireManager, validateObjectId(), async (req, res) => {
+// Reset a user's two-factor authentication when they've lost their device and recovery codes (users.manage).
+// They set it up again at their next login if the security policy requires it.
+router.post('/:id/2fa/reset', authenticateToken, requirePermission('users.manage'), validateObjectId(), async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (id === String(req.user.userId)) {
+      return res.status(403).json({ success: false, error: 'Ask another manager to reset your two-factor authentication' });
+    }
+
+    const user = await User.findById(id);
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    if (!user.twoFactor?.enabled) {
+      return res.status(400).json({ success: false, error: 'Two-factor authentication is not on for this user' });
+    }
+
+    await disableTwoFactor(user._id);
+    logger.info('Two-factor authentication reset', { userId: id, resetBy: req.user.userId });
+    await logAction(req.user.userId, 'twofactor.reset', id, { userName: user.name, userEmail: user.email });
+
+    const updatedUser = await User.findById(id);
+    res.json({ success: true, data: updatedUser.toJSON() });
+  } catch (error) {
+    logger.error('Reset two-factor error', { error: error.message, userId: req.params.id, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Failed to reset two-factor authentication' });
+  }
+});
+
+// Unlock an account locked by failed sign-in attempts (users.manage)
+router.post('/:id/unlock', authenticateToken, requirePermission('users.manage'), validateObjectId(), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const user = await User.findById(id);
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    const lockedUntil = getLockedUntil(user);
+    if (!lockedUntil) {
+      return res.status(400).json({ success: false, error: 'This account is not locked' });
+    }
+
+    await clearFailedLogins(user._id);
+    logger.info('Account unlocked', { userId: id, unlockedBy: req.user.userId });
+    await logAction(req.user.userId, 'auth.account_unlocked', id, { userName: user.name, userEmail: user.email, lockedUntil });
+
+    const updatedUser = await User.findById(id);
+    res.json({ success: true, data: updatedUser.toJSON() });
+  } catch (error) {
+    logger.error('Unlock account error', { error: error.message, userId: req.params.id, requesterId: req.user.userId });
+    res.status(500).json({ success: false, error: 'Failed to unlock account' });
+  }
+});
+
+// Delete user (users.manage)
+router.delete('/:id', authenticateToken, requirePermission('users.manage'), validateObjectId(), async (req, res) => {
   try {
     const { id } = req.params;
     
@@ -227,10 +296,11 @@ router.delete('/:id', authenticateToken, requireManager, validateObjectId(), asy
   }
 });
 
-// Get pending users (manager only)
-router.get('/pending/list', authenticateToken, requireManager, async (req, res) => {
+// Get pending users (users.approve)
+router.get('/pending/list', authenticateToken, requirePermission('users.approve'), async (req, res) => {
   try {
-    const pendingUsers = await PendingUser.find({ status: 'pending' })
+    // Requests from before email confirmation existed have no emailVerified field and are shown too
+    const pendingUsers = await PendingUser.find({ status: 'pending', emailVerified: { $ne: false } })
       .select('-password')
       .sort({ createdAt: -1 });
     
@@ -247,8 +317,8 @@ router.get('/pending/list', authenticateToken, requireManager, async (req, res)
   }
 });
 
-// Approve pending user (manager only)
-router.post('/pending/:id/approve', authenticateToken, requireManager, validateObjectId(), async (req, res) => {
+// Approve pending user (users.approve)
+router.post('/pending/:id/approve', authenticateToken, requirePermission('users.approve'), validateObjectId(), async (req, res) => {
   try {
     const { id } = req.params;
     
@@ -260,6 +330,9 @@ router.post('/pending/:id/approve', authenticateToken, requireManager, validateO
         error: 'Pending user not found' 
       });
     }
+    if (pendingUser.emailVerified === false) {
+      return res.status(400).json({ success: false, error: 'This person has not confirmed their email address yet' });
+    }
 
     // Create new user
     const newUser = new User({
@@ -292,8 +365,8 @@ router.post('/pending/:id/approve', authenticateToken, requireManager, validateO
   }
 });
 
-// Reject pending user (manager only)
-router.post('/pending/:id/reject', authenticateToken, requireManager, validateObjectId(), async (req, res) => {
+// Reject pending user (users.approve)
+router.post('/pending/:id/reject', authenticateToken, requirePermission('users.approve'), validateObjectId(), async (req, res) => {
   try {
     const { id } = req.params;
     
@@ -326,8 +399,8 @@ router.get('/:id/settings', authenticateToken, validateObjectId(), async (req, r
   try {
     const { id } = req.params;
     
-    // Users can only access their own settings unless they're a manager
-    if (req.user.userId !== id && req.user.role !== 'manager') {
+    // Users can only access their own settings unless they manage members
+    if (req.user.userId !== id && !hasPermission(req.user, 'users.manage')) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
@@ -360,8 +433,8 @@ router.put('/:id/settings', authenticateToken, validateObjectId(), validateUserS
   try {
     const { id } = req.params;
     
-    // Users can only update their own settings unless they're a manager
-    if (req.user.userId !== id && req.user.role !== 'manager') {
+    // Users can only update their own settings unless they manage members
+    if (req.user.userId !== id && !hasPermission(req.user, 'users.manage')) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
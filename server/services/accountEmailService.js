@@ -0,0 +1,83 @@
+const crypto = require('crypto');
+const { EmailToken } = require('../models');
+const { sendMail } = require('./mailService');
+
+const HOUR_MS = 60 * 60 * 1000;
+const TOKEN_TTL_MS = {
+  'password-reset': HOUR_MS,
+  // Registration requests that aren't confirmed within a day are cleaned up anyway
+  'email-verification': 24 * HOUR_MS
+};
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const escapeHtml = (text) => String(text).replace(/[&<>"']/g, (char) => ({
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+})[char]);
+
+// Where the frontend runs; links in emails open it. Never taken from the request, so a
+// forged Origin or Host header can't send someone a link to another site.
+const getAppUrl = () => {
+  const url = process.env.APP_URL || (process.env.ALLOWED_ORIGINS || 'http://localhost:5173').split(',')[0];
+  return url.trim().replace(/\/+$/, '');
+};
+
+// A new link replaces any earlier unused one for the same address and purpose
+const issueToken = async (purpose, email, subject) => {
+  await EmailToken.deleteMany({ purpose, email, usedAt: null });
+  const token = crypto.randomBytes(32).toString('base64url');
+  await EmailToken.create({
+    purpose,
+    email,
+    tokenHash: hashToken(token),
+    ...subject,
+    expiresAt: new Date(Date.now() + TOKEN_TTL_MS[purpose])
+  });
+  return token;
+};
+
+/**
+ * Spend a token from an emailed link. Returns the token document, or null when it's unknown,
+ * expired or was already used. Marking it used is the check, so a link works exactly once.
+ */
+const consumeToken = (token, purpose) => {
+  if (typeof token !== 'string' || !token) return null;
+  const now = new Date();
+  return EmailToken.findOneAndUpdate(
+    { tokenHash: hashToken(token), purpose, usedAt: null, expiresAt: { $gt: now } },
+    { usedAt: now },
+    { new: true }
+  );
+};
+
+const sendPasswordResetEmail = async (user) => {
+  const token = await issueToken('password-reset', user.email, { userId: user._id });
+  const link = `${getAppUrl()}/?reset-password=${token}`;
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your IIB Chat password',
+    text: `Hi ${user.name},\n\nSomeone asked to reset the password for your IIB Chat account. To choose a new password, open this link within the next hour:\n\n${link}\n\nIf it wasn't you, ignore this email; your password stays the same.\n`,
+    html: `<p>Hi ${escapeHtml(user.name)},</p><p>Someone asked to reset the password for your IIB Chat account. To choose a new password, open this link within the next hour:</p><p><a href="${link}">Reset password</a></p><p>If it wasn't you, ignore this email; your password stays the same.</p>`
+  });
+};
+
+const sendVerificationEmail = async (pendingUser) => {
+  const token = await issueToken('email-verification', pendingUser.email, { pendingUserId: pendingUser._id });
+  const link = `${getAppUrl()}/?verify-email=${token}`;
+  await sendMail({
+    to: pendingUser.email,
+    subject: 'Confirm your email address for IIB Chat',
+    text: `Hi ${pendingUser.name},\n\nThanks for signing up for IIB Chat. Open this link within 24 hours to confirm your email address:\n\n${link}\n\nA manager will review your request once it's confirmed. If you didn't sign up, ignore this email.\n`,
+    html: `<p>Hi ${escapeHtml(pendingUser.name)},</p><p>Thanks for signing up for IIB Chat. Open this link within 24 hours to confirm your email address:</p><p><a href="${link}">Confirm email address</a></p><p>A manager will review your request once it's confirmed. If you didn't sign up, ignore this email.</p>`
+  });
+};
+
+module.exports = {
+  consumeToken,
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+};
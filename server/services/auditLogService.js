@@ -1,4 +1,5 @@
 const AuditLog = require('../models/AuditLog');
+const logger = require('../utils/logger');
 
 const logAction = async (actorId, action, targetId, details = {}) => {
   try {
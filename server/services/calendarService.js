@@ -0,0 +1,126 @@
+const mongoose = require('mongoose');
+const { Team } = require('../models');
+const { hasPermission } = require('./permissionService');
+
+// Team roles that can see every member's calendar, besides the team's creator and anyone who manages tasks
+const CALENDAR_ROLES = ['lead', 'admin'];
+const CALL_COLOR = '#8B5CF6';
+
+const canViewTeamCalendar = (team, user) => {
+  const userId = user.userId.toString();
+  return hasPermission(user, 'tasks.manage') ||
+    team.createdBy === userId ||
+    team.members.some(member => member.userId === userId && CALENDAR_ROLES.includes(member.role));
+};
+
+const parseIdList = (value) => {
+  if (!value) return [];
+  const ids = Array.isArray(value) ? value : String(value).split(',');
+  return ids.map(id => id.trim()).filter(Boolean);
+};
+
+/**
+ * Work out whose events a calendar request covers.
+ * `scope=user` (the default) is one user, the requester unless `userId` is given;
+ * `scope=team` is the members of `teamId`, optionally narrowed with `userIds`.
+ * Returns `{ userIds, team }`, or `{ status, error }` when the request isn't allowed.
+ */
+const resolveCalendarScope = async (user, { scope = 'user', userId, teamId, userIds }) => {
+  const requesterId = user.userId.toString();
+
+  if (scope === 'team') {
+    if (!mongoose.isValidObjectId(teamId)) {
+      return { status: 400, error: 'A valid teamId is required for the team calendar' };
+    }
+    const team = await Team.findOne({ _id: teamId, isActive: true });
+    if (!team) return { status: 404, error: 'Team not found' };
+    if (!canViewTeamCalendar(team, user)) return { status: 403, error: 'Access denied' };
+
+    const memberIds = team.members.map(member => member.userId);
+    const requested = parseIdList(userIds);
+    return {
+      team,
+      userIds: requested.length > 0 ? memberIds.filter(id => requested.includes(id)) : memberIds
+    };
+  }
+
+  if (scope !== 'user') {
+    return { status: 400, error: 'Scope must be user or team' };
+  }
+
+  const targetId = userId ? String(userId) : requesterId;
+  if (!mongoose.isValidObjectId(targetId)) {
+    return { status: 400, error: 'Invalid user ID format' };
+  }
+  if (targetId !== requesterId && !hasPermission(user, 'tasks.manage')) {
+    // Leads and admins can look at the calendars of their teams' members
+    const leadsTargetsTeam = await Team.exists({
+      isActive: true,
+      'members.userId': targetId,
+      $or: [
+        { createdBy: requesterId },
+        { members: { $elemMatch: { userId: requesterId, role: { $in: CALENDAR_ROLES } } } }
+      ]
+    });
+    if (!leadsTargetsTeam) return { status: 403, error: 'Access denied' };
+  }
+  return { userIds: [targetId], team: null };
+};
+
+const getPriorityColor = (priority) => {
+  switch (priority) {
+    case 'urgent':
+      return '#EF4444'; // Red
+    case 'high':
+      return '#F59E0B'; // Amber
+    case 'medium':
+      return '#3B82F6'; // Blue
+    case 'low':
+      return '#10B981'; // Green
+    default:
+      return '#6B7280'; // Gray
+  }
+};
+
+// Tasks take their team's color; the border keeps the priority color
+const toTaskEvent = (task) => {
+  const team = task.teamId && task.teamId.color ? task.teamId : null;
+  return {
+    id: task._id,
+    title: task.title,
+    start: task.dueDate,
+    end: task.dueDate,
+    backgroundColor: team ? team.color : getPriorityColor(task.priority),
+    borderColor: getPriorityColor(task.priority),
+    extendedProps: {
+      type: 'task',
+      status: task.status,
+      priority: task.priority,
+      description: task.description,
+      assignedTo: task.assignedTo ? { id: task.assignedTo._id, name: task.assignedTo.name } : null,
+      team: team ? { id: team._id, name: team.name, color: team.color } : null
+    }
+  };
+};
+
+const toCallEvent = (call) => ({
+  id: `call:${call.callId}`,
+  title: `${call.callType === 'video' ? 'Video' : 'Audio'} call: ${call.chatName}`,
+  start: call.startTime,
+  end: call.endTime || new Date(call.startTime.getTime() + call.duration * 1000),
+  backgroundColor: CALL_COLOR,
+  borderColor: CALL_COLOR,
+  extendedProps: {
+    type: 'call',
+    status: call.status,
+    callType: call.callType,
+    participantNames: call.participantNames,
+    duration: call.duration
+  }
+});
+
+module.exports = {
+  resolveCalendarScope,
+  toTaskEvent,
+  toCallEvent,
+};
@@ -0,0 +1,156 @@
+const mongoose = require('mongoose');
+const { Task } = require('../models');
+
+const MAX_DEPENDENCIES = 20;
+const CLOSED_STATUSES = ['completed', 'cancelled'];
+
+const toIdStrings = (ids) => ids.map(id => id.toString());
+
+// Check a list of task ids from a request body; returns an error message or null
+const validateDependencyIds = (ids, taskId) => {
+  if (!Array.isArray(ids)) return 'Dependencies must be an array of task ids';
+  if (ids.length > MAX_DEPENDENCIES) return `A task can have at most ${MAX_DEPENDENCIES} dependencies each way`;
+  if (ids.some(id => !mongoose.isValidObjectId(id))) return 'Invalid task ID format';
+  if (ids.some(id => id.toString() === taskId.toString())) return 'A task cannot depend on itself';
+  return null;
+};
+
+// Blocker ids of the given tasks, taking not-yet-saved lists from `overrides`
+const getBlockerIds = async (taskIds, overrides) => {
+  const blockerIds = [];
+  const stored = taskIds.filter(id => {
+    if (!overrides.has(id)) return true;
+    blockerIds.push(...overrides.get(id));
+    return false;
+  });
+  if (stored.length > 0) {
+    const tasks = await Task.find({ _id: { $in: stored } }).select('blockedBy');
+    tasks.forEach(task => blockerIds.push(...toIdStrings(task.blockedBy)));
+  }
+  return blockerIds;
+};
+
+/**
+ * Whether following blocked-by links from `taskId`, with `overrides` (task id -> blocker ids)
+ * applied, leads back to it. Every link being added touches `taskId`, so any cycle they
+ * would close passes through it.
+ */
+const createsCycle = async (taskId, overrides) => {
+  const start = taskId.toString();
+  const visited = new Set();
+  let level = await getBlockerIds([start], overrides);
+  while (level.length > 0) {
+    if (level.includes(start)) return true;
+    level = [...new Set(level)].filter(id => !visited.has(id));
+    level.forEach(id => visited.add(id));
+    level = level.length > 0 ? await getBlockerIds(level, overrides) : [];
+  }
+  return false;
+};
+
+/**
+ * Check new blockers and/or blocked tasks for a task without changing anything.
+ * Returns `{ plan }` to pass to applyDependencies once the task is saved, or `{ error }`.
+ */
+const planDependencies = async (task, { blockedBy, blocks }) => {
+  const taskId = task._id.toString();
+  for (const ids of [blockedBy, blocks]) {
+    if (ids === undefined) continue;
+    const error = validateDependencyIds(ids, taskId);
+    if (error) return { error };
+  }
+
+  const currentBlockedBy = toIdStrings(task.blockedBy);
+  const currentBlocks = toIdStrings(task.blocks);
+  const nextBlockedBy = blockedBy !== undefined ? [...new Set(toIdStrings(blockedBy))] : currentBlockedBy;
+  const nextBlocks = blocks !== undefined ? [...new Set(toIdStrings(blocks))] : currentBlocks;
+
+  const addedBlockers = nextBlockedBy.filter(id => !currentBlockedBy.includes(id));
+  const removedBlockers = currentBlockedBy.filter(id => !nextBlockedBy.includes(id));
+  const addedBlocks = nextBlocks.filter(id => !currentBlocks.includes(id));
+  const removedBlocks = currentBlocks.filter(id => !nextBlocks.includes(id));
+
+  const added = [...new Set([...addedBlockers, ...addedBlocks])];
+  if (added.length > 0 && await Task.countDocuments({ _id: { $in: added } }) !== added.length) {
+    return { error: 'Dependency task not found' };
+  }
+
+  const overrides = new Map([[taskId, nextBlockedBy]]);
+  const dependents = await Task.find({ _id: { $in: [...addedBlocks, ...removedBlocks] } }).select('blockedBy');
+  dependents.forEach(dependent => {
+    const ids = toIdStrings(dependent.blockedBy).filter(id => id !== taskId);
+    if (nextBlocks.includes(dependent._id.toString())) ids.push(taskId);
+    overrides.set(dependent._id.toString(), ids);
+  });
+  if (await createsCycle(taskId, overrides)) {
+    return { error: 'These dependencies would create a cycle' };
+  }
+
+  return {
+    plan: { blockedBy: nextBlockedBy, blocks: nextBlocks, addedBlockers, removedBlockers, addedBlocks, removedBlocks }
+  };
+};
+
+/**
+ * Write the other side of each link in a plan, after the task itself was saved with
+ * `plan.blockedBy` and `plan.blocks`. Returns the ids of the other tasks whose links changed.
+ */
+const applyDependencies = async (task, { addedBlockers, removedBlockers, addedBlocks, removedBlocks }) => {
+  await Task.updateMany({ _id: { $in: addedBlockers } }, { $addToSet: { blocks: task._id } });
+  await Task.updateMany({ _id: { $in: removedBlockers } }, { $pull: { blocks: task._id } });
+  await Task.updateMany({ _id: { $in: addedBlocks } }, { $addToSet: { blockedBy: task._id } });
+  await Task.updateMany({ _id: { $in: removedBlocks } }, { $pull: { blockedBy: task._id } });
+
+  return [...addedBlockers, ...removedBlockers, ...addedBlocks, ...removedBlocks];
+};
+
+// Blockers among `blockerIds` that are still open
+const getOpenBlockers = (blockerIds) => Task.find({
+  _id: { $in: blockerIds },
+  status: { $nin: CLOSED_STATUSES }
+}).select('title status');
+
+// Open tasks blocked by any of the given ones
+const getDependentIds = async (taskIds) => {
+  const dependents = await Task.find({
+    blockedBy: { $in: taskIds },
+    status: { $nin: CLOSED_STATUSES }
+  }).select('_id');
+  return dependents.map(dependent => dependent._id);
+};
+
+// Split open tasks into those still waiting on an open blocker and those free to start
+const partitionByBlocked = async (taskIds) => {
+  const tasks = await Task.find({ _id: { $in: taskIds }, status: { $nin: CLOSED_STATUSES } }).select('blockedBy');
+  const blockerIds = [...new Set(tasks.flatMap(task => toIdStrings(task.blockedBy)))];
+  const openIds = new Set(toIdStrings((await getOpenBlockers(blockerIds)).map(blocker => blocker._id)));
+
+  const blocked = [];
+  const unblocked = [];
+  tasks.forEach(task => {
+    (task.blockedBy.some(id => openIds.has(id.toString())) ? blocked : unblocked).push(task._id);
+  });
+  return { blocked, unblocked };
+};
+
+// Drop links to tasks that are being deleted; returns the ids of the remaining tasks that pointed at them
+const removeDependencyLinks = async (taskIds) => {
+  const linked = await Task.find({
+    _id: { $nin: taskIds },
+    $or: [{ blockedBy: { $in: taskIds } }, { blocks: { $in: taskIds } }]
+  }).select('_id');
+  const linkedIds = linked.map(task => task._id);
+  if (linkedIds.length > 0) {
+    await Task.updateMany({ _id: { $in: linkedIds } }, { $pull: { blockedBy: { $in: taskIds }, blocks: { $in: taskIds } } });
+  }
+  return linkedIds;
+};
+
+module.exports = {
+  planDependencies,
+  applyDependencies,
+  getOpenBlockers,
+  getDependentIds,
+  partitionByBlocked,
+  removeDependencyLinks,
+};
@@ -0,0 +1,281 @@
+// iCalendar (RFC 5545) export and import for tasks
+
+const CLOSED_STATUSES = ['completed', 'cancelled'];
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES = ['daily', 'weekly', 'monthly', 'yearly'];
+// Due dates are points in time; give them a short slot so calendar apps can show them
+const EVENT_DURATION = 'PT30M';
+
+const PRIORITY_TO_ICS = { urgent: 1, high: 3, medium: 5, low: 9 };
+const TODO_STATUS_TO_ICS = {
+  pending: 'NEEDS-ACTION',
+  'in-progress': 'IN-PROCESS',
+  completed: 'COMPLETED',
+  cancelled: 'CANCELLED'
+};
+
+const pad = (n) => String(n).padStart(2, '0');
+
+const formatDateTime = (date) => {
+  const d = new Date(date);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T` +
+    `${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+};
+
+const escapeText = (text) => String(text)
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Content lines are limited to 75 octets; longer ones continue on lines starting with a space
+const foldLine = (line) => {
+  const parts = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const getRule = (task) => {
+  if (task.recurrence && task.recurrence.frequency) return task.recurrence;
+  return task.recurringPattern ? { frequency: task.recurringPattern, interval: 1 } : null;
+};
+
+/**
+ * RRULE for the latest open occurrence of a series, counting from that occurrence.
+ * Earlier occurrences are separate tasks and are exported on their own.
+ */
+const toRRule = (task) => {
+  if (!task.isRecurring || task.nextOccurrenceId || task.isLastOccurrence || CLOSED_STATUSES.includes(task.status)) {
+    return null;
+  }
+  const rule = getRule(task);
+  if (!rule) return null;
+
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  const weekdays = rule.weekdays || [];
+  if (rule.frequency === 'monthly' && rule.monthWeek && weekdays.length > 0) {
+    parts.push(`BYDAY=${rule.monthWeek}${WEEKDAY_CODES[weekdays[0]]}`);
+  } else if (weekdays.length > 0 && (rule.frequency === 'weekly' || rule.frequency === 'daily')) {
+    parts.push(`BYDAY=${weekdays.map(day => WEEKDAY_CODES[day]).join(',')}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${formatDateTime(rule.until)}`);
+  } else if (rule.count) {
+    // Counted from the occurrence the rule started at, which is later than the first if it was edited mid-series
+    const remaining = rule.count - ((task.occurrenceIndex || 1) - (rule.startIndex || 1));
+    if (remaining < 1) return null;
+    parts.push(`COUNT=${remaining}`);
+  }
+  return parts.join(';');
+};
+
+const toComponentLines = (task, component) => {
+  const type = component === 'todo' ? 'VTODO' : 'VEVENT';
+  const lines = [
+    `BEGIN:${type}`,
+    `UID:${task._id}@iib-chat`,
+    `DTSTAMP:${formatDateTime(task.updatedAt || new Date())}`
+  ];
+
+  if (type === 'VTODO') {
+    if (task.startDate && task.startDate <= task.dueDate) lines.push(`DTSTART:${formatDateTime(task.startDate)}`);
+    lines.push(`DUE:${formatDateTime(task.dueDate)}`);
+    lines.push(`STATUS:${TODO_STATUS_TO_ICS[task.status] || 'NEEDS-ACTION'}`);
+    lines.push(`PERCENT-COMPLETE:${task.status === 'completed' ? 100 : task.progress || 0}`);
+    if (task.completedDate) lines.push(`COMPLETED:${formatDateTime(task.completedDate)}`);
+  } else {
+    lines.push(`DTSTART:${formatDateTime(task.dueDate)}`);
+    lines.push(`DURATION:${EVENT_DURATION}`);
+    lines.push(`STATUS:${task.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(task.title)}`);
+  if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+  lines.push(`PRIORITY:${PRIORITY_TO_ICS[task.priority] || 5}`);
+  if (task.tags && task.tags.length > 0) lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`);
+
+  const rrule = toRRule(task);
+  if (rrule) lines.push(`RRULE:${rrule}`);
+
+  lines.push(`END:${type}`);
+  return lines;
+};
+
+/**
+ * Build an iCalendar document from tasks, as VEVENTs (`component: 'event'`, shown by
+ * every calendar app) or VTODOs (`component: 'todo'`, for apps with task lists).
+ */
+const buildCalendar = (tasks, { name = 'IIB Chat tasks', component = 'event' } = {}) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//IIB Chat//Tasks//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...tasks.flatMap(task => toComponentLines(task, component)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+const unescapeText = (text) => text.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const parseContentLine = (line) => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params = {};
+  paramParts.forEach(part => {
+    const [key, value = ''] = part.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+// Dates without a zone (floating or TZID) are read in the server's time zone; all-day dates are due at the end of the day
+const parseIcsDate = (value) => {
+  let match = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+  if (match) return new Date(+match[1], +match[2] - 1, +match[3], 23, 59, 59);
+
+  match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(value);
+  if (!match) return null;
+  const [y, mo, d, h, mi, s] = match.slice(1, 7).map(Number);
+  return match[7] ? new Date(Date.UTC(y, mo - 1, d, h, mi, s)) : new Date(y, mo - 1, d, h, mi, s);
+};
+
+// Map an RRULE onto the task recurrence rule; parts it can't express are dropped
+const parseRRule = (value) => {
+  const parts = {};
+  value.split(';').forEach(part => {
+    const [key, val] = part.split('=');
+    if (key && val) parts[key.toUpperCase()] = val;
+  });
+
+  const frequency = (parts.FREQ || '').toLowerCase();
+  if (!FREQUENCIES.includes(frequency)) return null;
+
+  const rule = { frequency, interval: Math.max(1, parseInt(parts.INTERVAL, 10) || 1) };
+  if (parts.BYDAY) {
+    const days = parts.BYDAY.split(',').map(entry => /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(entry.trim())).filter(Boolean);
+    rule.weekdays = days.map(day => WEEKDAY_CODES.indexOf(day[2]));
+    if (frequency === 'monthly' && days.length === 1 && days[0][1]) {
+      rule.monthWeek = parseInt(days[0][1], 10);
+    }
+  }
+  if (parts.UNTIL) {
+    const until = parseIcsDate(parts.UNTIL);
+    if (until) rule.until = until.toISOString();
+  } else if (parts.COUNT) {
+    rule.count = parseInt(parts.COUNT, 10);
+  }
+  return rule;
+};
+
+const parsePriority = (value) => {
+  const priority = parseInt(value, 10);
+  if (!priority) return 'medium';
+  if (priority <= 2) return 'urgent';
+  if (priority <= 4) return 'high';
+  if (priority === 5) return 'medium';
+  return 'low';
+};
+
+const parseStatus = (value) => {
+  switch ((value || '').toUpperCase()) {
+    case 'CANCELLED':
+      return 'cancelled';
+    case 'COMPLETED':
+      return 'completed';
+    case 'IN-PROCESS':
+      return 'in-progress';
+    default:
+      return 'pending';
+  }
+};
+
+/**
+ * Read the VEVENTs and VTODOs of an iCalendar document as task fields.
+ * Events are due when they end (or start, if they have no end); to-dos when they're due.
+ */
+const parseCalendar = (text) => {
+  const lines = String(text).replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const items = [];
+  let current = null;
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    const parsed = parseContentLine(line.trim());
+    if (!parsed) continue;
+    const { name, params, value } = parsed;
+
+    if (name === 'BEGIN') {
+      if (current) {
+        nestedDepth++;
+      } else if (value === 'VEVENT' || value === 'VTODO') {
+        current = { type: value, props: {} };
+      }
+      continue;
+    }
+    if (name === 'END') {
+      if (current && nestedDepth > 0) {
+        nestedDepth--;
+      } else if (current && value === current.type) {
+        items.push(current);
+        current = null;
+      }
+      continue;
+    }
+    // Alarms and other sub-components are skipped
+    if (current && nestedDepth === 0 && !(name in current.props)) {
+      current.props[name] = { params, value };
+    }
+  }
+
+  return items.map(({ type, props }) => {
+    const get = (name) => (props[name] ? props[name].value : undefined);
+    const start = get('DTSTART') ? parseIcsDate(get('DTSTART')) : null;
+    const end = type === 'VTODO' ? get('DUE') : get('DTEND');
+    const due = (end && parseIcsDate(end)) || start;
+    return {
+      uid: get('UID'),
+      title: get('SUMMARY') ? unescapeText(get('SUMMARY')).trim() : '',
+      description: get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')).trim() : undefined,
+      startDate: start && due && start <= due ? start : undefined,
+      dueDate: due || null,
+      priority: parsePriority(get('PRIORITY')),
+      status: parseStatus(get('STATUS')),
+      tags: get('CATEGORIES')
+        ? get('CATEGORIES').split(/(?<!\\),/).map(tag => unescapeText(tag).trim()).filter(Boolean)
+        : [],
+      recurrence: get('RRULE') ? parseRRule(get('RRULE')) : null
+    };
+  });
+};
+
+module.exports = {
+  buildCalendar,
+  parseCalendar,
+};
@@ -0,0 +1,129 @@
+const { User, Session } = require('../models');
+const { logAction } = require('./auditLogService');
+const { describeRequest } = require('./sessionService');
+const logger = require('../utils/logger');
+
+const MINUTE_MS = 60 * 1000;
+// Failures older than this are forgotten, so a typo now and then never adds up to a lockout
+const ATTEMPT_WINDOW_MS = 15 * MINUTE_MS;
+const MAX_LOCK_MS = 24 * 60 * MINUTE_MS;
+
+const getPositiveInt = (value, fallback) => {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 1 ? fallback : parsed;
+};
+
+const getMaxFailedAttempts = () => getPositiveInt(process.env.LOGIN_MAX_ATTEMPTS, 5);
+
+// The first lockout lasts this long; each one after it, until a successful sign-in, doubles it
+const getBaseLockMs = () => getPositiveInt(process.env.LOGIN_LOCK_MINUTES, 15) * MINUTE_MS;
+
+const getLockedUntil = (user) => {
+  const lockedUntil = user.loginSecurity?.lockedUntil;
+  return lockedUntil && lockedUntil > new Date() ? lockedUntil : null;
+};
+
+const lockMessage = (lockedUntil) => {
+  const minutes = Math.max(1, Math.ceil((lockedUntil - Date.now()) / MINUTE_MS));
+  return `Too many failed sign-in attempts. Try again in ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}, or ask a manager to unlock your account.`;
+};
+
+/**
+ * Count a failed password or second-factor check against the account, locking it once the
+ * limit is reached. Returns `{ lockedUntil }` when this failure locked the account.
+ */
+const recordFailedLogin = async (user, req, reason) => {
+  const now = new Date();
+  const { ip, userAgent } = describeRequest(req);
+
+  await User.updateOne(
+    { _id: user._id, 'loginSecurity.lastFailedAt': { $lt: new Date(now - ATTEMPT_WINDOW_MS) } },
+    { $set: { 'loginSecurity.failedAttempts': 0 } }
+  );
+  const updated = await User.findByIdAndUpdate(
+    user._id,
+    { $inc: { 'loginSecurity.failedAttempts': 1 }, $set: { 'loginSecurity.lastFailedAt': now } },
+    { new: true, projection: { 'loginSecurity.failedAttempts': 1, 'loginSecurity.lockCount': 1 } }
+  );
+  const attempts = updated.loginSecurity.failedAttempts;
+  await logAction(user._id, 'auth.login_failed', user._id, { reason, attempts, ipAddress: ip, userAgent });
+
+  if (attempts < getMaxFailedAttempts()) return {};
+
+  const lockCount = updated.loginSecurity.lockCount || 0;
+  const lockedUntil = new Date(now.getTime() + Math.min(getBaseLockMs() * 2 ** lockCount, MAX_LOCK_MS));
+  // Conditional, so when several failures land together only one of them locks the account
+  const result = await User.updateOne(
+    { _id: user._id, 'loginSecurity.failedAttempts': { $gte: getMaxFailedAttempts() } },
+    {
+      $set: { 'loginSecurity.failedAttempts': 0, 'loginSecurity.lockedUntil': lockedUntil },
+      $inc: { 'loginSecurity.lockCount': 1 }
+    }
+  );
+  if (result.modifiedCount === 0) return {};
+
+  logger.warn('Account locked after failed sign-in attempts', { userId: user._id, attempts, lockedUntil, ip });
+  await logAction(user._id, 'auth.account_locked', user._id, {
+    attempts,
+    lockedUntil,
+    lockNumber: lockCount + 1,
+    ipAddress: ip,
+    userAgent
+  });
+  return { lockedUntil };
+};
+
+const clearFailedLogins = (userId) => User.updateOne(
+  { _id: userId },
+  {
+    $set: {
+      'loginSecurity.failedAttempts': 0,
+      'loginSecurity.lastFailedAt': null,
+      'loginSecurity.lockCount': 0,
+      'loginSecurity.lockedUntil': null
+    }
+  }
+);
+
+/**
+ * Compare a sign-in with the user's sessions from the last month. Returns null for a device and
+ * IP address seen before, and for a first ever sign-in, which has nothing to compare with.
+ */
+const detectUnfamiliarLogin = async (userId, req) => {
+  const { ip, userAgent } = describeRequest(req);
+  const [hasSessions, knownDevice, knownIp] = await Promise.all([
+    Session.exists({ userId }),
+    Session.exists({ userId, userAgent }),
+    Session.exists({ userId, ip })
+  ]);
+  if (!hasSessions || (knownDevice && knownIp)) return null;
+  return { newDevice: !knownDevice, newIp: !knownIp, ip, userAgent };
+};
+
+// Tell the user's open clients about the sign-in, and record it for managers
+const notifyUnfamiliarLogin = async (io, userId, session, login) => {
+  io?.to(`user:${userId}`).emit('security:new-login', {
+    sessionId: session._id.toString(),
+    ip: login.ip,
+    userAgent: login.userAgent,
+    newDevice: login.newDevice,
+    newIp: login.newIp,
+    at: session.createdAt
+  });
+  await logAction(userId, 'auth.new_device_login', userId, {
+    sessionId: session._id,
+    newDevice: login.newDevice,
+    newIp: login.newIp,
+    ipAddress: login.ip,
+    userAgent: login.userAgent
+  });
+};
+
+module.exports = {
+  getLockedUntil,
+  lockMessage,
+  recordFailedLogin,
+  clearFailedLogins,
+  detectUnfamiliarLogin,
+  notifyUnfamiliarLogin,
+};
@@ -0,0 +1,86 @@
+const fs = require('fs/promises');
+const path = require('path');
+const nodemailer = require('nodemailer');
+const logger = require('../utils/logger');
+
+/**
+ * Outgoing email goes through a transport: an object with `send(message)`, where message is
+ * `{ from, to, subject, text, html }`. MAIL_TRANSPORT picks one of the drivers below; without
+ * it, SMTP is used when SMTP_HOST is set and the console driver otherwise.
+ */
+const drivers = {
+  smtp: () => {
+    const port = parseInt(process.env.SMTP_PORT, 10) || 587;
+    const transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      // Port 465 expects TLS from the start; others upgrade with STARTTLS
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+    });
+    return { send: (message) => transporter.sendMail(message) };
+  },
+
+  // Each email becomes an .eml file that any mail client can open; for local development and tests
+  file: () => {
+    const directory = path.resolve(process.env.MAIL_DIR || './mail-outbox');
+    const builder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+    return {
+      send: async (message) => {
+        const { message: raw } = await builder.sendMail(message);
+        await fs.mkdir(directory, { recursive: true });
+        const file = path.join(directory, `${Date.now()}-${message.to.replace(/[^\w.@-]/g, '_')}.eml`);
+        await fs.writeFile(file, raw);
+        logger.info('Email written to file', { to: message.to, subject: message.subject, file });
+      }
+    };
+  },
+
+  // Prints the text part, links included, to the server output
+  console: () => ({
+    send: async (message) => {
+      logger.info('Email (console transport)', { to: message.to, subject: message.subject });
+      console.log(`\n----- Email to ${message.to} -----\nSubject: ${message.subject}\n\n${message.text}\n-----\n`);
+    }
+  })
+};
+
+let transport = null;
+
+const getTransportName = () => process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+
+const getTransport = () => {
+  if (transport) return transport;
+  const name = getTransportName();
+  const driver = drivers[name];
+  if (!driver) throw new Error(`Unknown mail transport "${name}"`);
+  if (name === 'console' && process.env.NODE_ENV === 'production') {
+    logger.warn('No mail transport configured; emails are only printed to the console. Set SMTP_HOST or MAIL_TRANSPORT.');
+  }
+  transport = driver();
+  return transport;
+};
+
+// Add a driver, e.g. for an email API; select it with MAIL_TRANSPORT
+const registerMailDriver = (name, createTransport) => {
+  drivers[name] = createTransport;
+};
+
+// Use this transport instead of the configured one; tests pass one that records messages
+const setMailTransport = (customTransport) => {
+  transport = customTransport;
+};
+
+const sendMail = ({ to, subject, text, html }) => getTransport().send({
+  from: process.env.MAIL_FROM || 'IIB Chat <no-reply@localhost>',
+  to,
+  subject,
+  text,
+  html
+});
+
+module.exports = {
+  sendMail,
+  registerMailDriver,
+  setMailTransport,
+};
@@ -0,0 +1,88 @@
+const mongoose = require('mongoose');
+const { User } = require('../models');
+const { hasPermission } = require('./permissionService');
+const { emitAndRecord } = require('./syncService');
+const logger = require('../utils/logger');
+
+const BROADCAST_MENTION_PATTERN = /(^|\s)@(channel|here)\b/i;
+const BROADCAST_MENTION_CHAT_TYPES = ['group', 'general'];
+const OPEN_CHAT_TYPES = ['general', 'announcements'];
+
+// @channel/@here are limited to users who may broadcast, in group-style chats
+const canUseBroadcastMention = (chat, sender) =>
+  BROADCAST_MENTION_CHAT_TYPES.includes(chat.type) && hasPermission(sender, 'broadcast.send');
+
+/**
+ * Validate the mentioned user ids sent by the client and detect @channel/@here.
+ * Ids that are not members of the chat (or not approved users, for open chats) are dropped.
+ */
+const resolveMentions = async (chat, content, mentionIds, sender) => {
+  const senderId = sender.userId.toString();
+  let mentions = [...new Set((Array.isArray(mentionIds) ? mentionIds : []).map(String))]
+    .filter(id => id !== senderId && mongoose.Types.ObjectId.isValid(id));
+
+  if (mentions.length > 0) {
+    if (OPEN_CHAT_TYPES.includes(chat.type)) {
+      const users = await User.find({ _id: { $in: mentions }, isApproved: true }).select('_id');
+      const validIds = new Set(users.map(user => user._id.toString()));
+      mentions = mentions.filter(id => validIds.has(id));
+    } else {
+      const participants = chat.participants.map(id => id.toString());
+      mentions = mentions.filter(id => participants.includes(id));
+    }
+  }
+
+  let broadcastMention = null;
+  const match = BROADCAST_MENTION_PATTERN.exec(content || '');
+  if (match) {
+    if (canUseBroadcastMention(chat, sender)) {
+      broadcastMention = match[2].toLowerCase();
+    } else {
+      logger.warn('Broadcast mention ignored', { userId: senderId, chatId: chat._id.toString(), mention: match[2] });
+    }
+  }
+
+  return { mentions, broadcastMention };
+};
+
+/**
+ * Emit a `mention` event to the personal room of every mentioned user, recorded
+ * so users who were offline get it on their next sync. Direct mentions take precedence over @channel/@here for the same user.
+ */
+const notifyMentions = async (io, chat, message) => {
+  const recipients = new Map();
+
+  if (message.broadcastMention) {
+    const query = chat.participants.length > 0
+      ? { _id: { $in: chat.participants } }
+      : { isApproved: true };
+    if (message.broadcastMention === 'here') {
+      query.status = 'online';
+    }
+    const users = await User.find(query).select('_id');
+    users.forEach(user => recipients.set(user._id.toString(), message.broadcastMention));
+  }
+
+  (message.mentions || []).forEach(id => recipients.set(id, 'user'));
+  // senderId may already be populated with the sender document
+  recipients.delete((message.senderId._id || message.senderId).toString());
+
+  for (const [userId, mentionType] of recipients) {
+    await emitAndRecord(io, `user:${userId}`, 'mention', {
+      chatId: chat._id.toString(),
+      chatName: chat.name,
+      mentionType,
+      message
+    });
+  }
+
+  if (recipients.size > 0) {
+    logger.info('Mention notifications sent', { chatId: chat._id.toString(), recipients: recipients.size });
+  }
+};
+
+module.exports = {
+  canUseBroadcastMention,
+  resolveMentions,
+  notifyMentions,
+};
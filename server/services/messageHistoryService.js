@@ -0,0 +1,118 @@
+const mongoose = require('mongoose');
+const { Message } = require('../models');
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+// Cursors are opaque to clients: base64url("<createdAt ISO>|<_id>")
+const encodeCursor = (message) =>
+  Buffer.from(`${new Date(message.createdAt).toISOString()}|${message._id}`).toString('base64url');
+
+const decodeCursor = (cursor) => {
+  const [iso, id] = Buffer.from(String(cursor), 'base64url').toString('utf8').split('|');
+  const createdAt = new Date(iso);
+  if (Number.isNaN(createdAt.getTime()) || !mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+  return { createdAt, _id: new mongoose.Types.ObjectId(id) };
+};
+
+/**
+ * Parse `before`, `after`, `around` and `limit` from a request query.
+ * Returns null when a cursor or message id is malformed.
+ */
+const parseHistoryQuery = (query) => {
+  const limit = Math.min(Math.max(parseInt(query.limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const options = { limit };
+
+  if (query.around) {
+    if (!mongoose.Types.ObjectId.isValid(query.around)) return null;
+    options.around = query.around;
+  } else if (query.after) {
+    options.after = decodeCursor(query.after);
+    if (!options.after) return null;
+  } else if (query.before) {
+    options.before = decodeCursor(query.before);
+    if (!options.before) return null;
+  }
+
+  return options;
+};
+
+const olderThan = (cursor) => ({
+  $or: [
+    { createdAt: { $lt: cursor.createdAt } },
+    { createdAt: cursor.createdAt, _id: { $lt: cursor._id } }
+  ]
+});
+
+const newerThan = (cursor) => ({
+  $or: [
+    { createdAt: { $gt: cursor.createdAt } },
+    { createdAt: cursor.createdAt, _id: { $gt: cursor._id } }
+  ]
+});
+
+// Fetch one extra document to know whether more history exists
+const fetchOlder = async (filter, cursor, limit) => {
+  const query = cursor ? { $and: [filter, olderThan(cursor)] } : filter;
+  const docs = await Message.find(query).sort({ createdAt: -1, _id: -1 }).limit(limit + 1);
+  return { messages: docs.slice(0, limit).reverse(), hasMore: docs.length > limit };
+};
+
+const fetchNewer = async (filter, cursor, limit) => {
+  const docs = await Message.find({ $and: [filter, newerThan(cursor)] }).sort({ createdAt: 1, _id: 1 }).limit(limit + 1);
+  return { messages: docs.slice(0, limit), hasMore: docs.length > limit };
+};
+
+/**
+ * Load a page of messages in chronological order.
+ * - no cursor: the latest messages
+ * - before/after: messages older/newer than the cursor
+ * - around: a window centred on a message id (returns null if it is not in `filter`)
+ */
+const getMessageHistory = async (filter, { before, after, around, limit = DEFAULT_PAGE_SIZE }) => {
+  let messages;
+  let hasMoreBefore;
+  let hasMoreAfter;
+
+  if (around) {
+    const target = await Message.findOne({ ...filter, _id: around });
+    if (!target) return null;
+
+    const olderCount = Math.floor((limit - 1) / 2);
+    const older = await fetchOlder(filter, target, olderCount);
+    const newer = await fetchNewer(filter, target, limit - 1 - olderCount);
+    messages = [...older.messages, target, ...newer.messages];
+    hasMoreBefore = older.hasMore;
+    hasMoreAfter = newer.hasMore;
+  } else if (after) {
+    const newer = await fetchNewer(filter, after, limit);
+    messages = newer.messages;
+    hasMoreBefore = true;
+    hasMoreAfter = newer.hasMore;
+  } else {
+    const older = await fetchOlder(filter, before, limit);
+    messages = older.messages;
+    hasMoreBefore = older.hasMore;
+    hasMoreAfter = Boolean(before);
+  }
+
+  return {
+    messages,
+    pagination: {
+      limit,
+      hasMoreBefore,
+      hasMoreAfter,
+      beforeCursor: messages.length > 0 ? encodeCursor(messages[0]) : null,
+      afterCursor: messages.length > 0 ? encodeCursor(messages[messages.length - 1]) : null
+    }
+  };
+};
+
+module.exports = {
+  encodeCursor,
+  decodeCursor,
+  parseHistoryQuery,
+  getMessageHistory,
+};
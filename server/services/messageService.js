@@ -0,0 +1,81 @@
+const { Message } = require('../models');
+const { resolveMentions, notifyMentions } = require('./mentionService');
+const { emitAndRecord } = require('./syncService');
+
+// General and announcements chats are open to everyone, other chats require membership
+const hasChatAccess = (chat, userId) => {
+  return ['general', 'announcements'].includes(chat.type) || chat.participants.includes(userId.toString());
+};
+
+/**
+ * Store a chat message and deliver it to the chat room.
+ * `sender` has the shape of `req.user` ({ userId, name, role, permissions }).
+ * With a `clientMessageId` the send is idempotent: a repeat returns the stored message with `created: false`.
+ */
+const createChatMessage = async (io, chat, sender, { content, type, isUrgent, replyTo, mentions: mentionIds, clientMessageId = null, taskCard = null }) => {
+  const chatId = chat._id.toString();
+  const senderId = sender.userId.toString();
+
+  if (clientMessageId) {
+    const existing = await Message.findOne({ senderId, clientMessageId });
+    if (existing) {
+      return { message: existing, created: false };
+    }
+  }
+
+  const { mentions, broadcastMention } = await resolveMentions(chat, content, mentionIds, sender);
+
+  const messageData = {
+    chatId,
+    senderId,
+    senderName: sender.name,
+    content,
+    type,
+    isUrgent,
+    replyTo: replyTo || null,
+    mentions,
+    broadcastMention,
+    clientMessageId,
+    taskCard,
+    readBy: [{ userId: senderId, readAt: new Date() }],
+  };
+
+  if (replyTo) {
+    const originalMessage = await Message.findById(replyTo);
+    if (originalMessage) {
+      messageData.replyToContent = originalMessage.content.substring(0, 100);
+      messageData.replyToSender = originalMessage.senderName;
+    }
+  }
+
+  const message = new Message(messageData);
+  try {
+    await message.save();
+  } catch (saveError) {
+    // Two concurrent sends with the same key: the unique index lets only one through
+    if (saveError.code === 11000 && clientMessageId) {
+      const existing = await Message.findOne({ senderId, clientMessageId });
+      return { message: existing, created: false };
+    }
+    throw saveError;
+  }
+
+  chat.lastMessage = {
+    content: message.content,
+    senderId: message.senderId,
+    timestamp: message.createdAt
+  };
+  chat.updatedAt = new Date();
+  await chat.save();
+
+  // senderId stays a plain id so the payload matches GET /api/chats/:id/messages
+  await emitAndRecord(io, chatId, 'receive-message', message);
+  await notifyMentions(io, chat, message);
+
+  return { message, created: true };
+};
+
+module.exports = {
+  hasChatAccess,
+  createChatMessage,
+};
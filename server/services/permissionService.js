@@ -0,0 +1,106 @@
+const { Role } = require('../models');
+const logger = require('../utils/logger');
+
+// Everything a role can be allowed to do. The frontend lists these in the role editor.
+const PERMISSIONS = [
+  { key: 'users.approve', label: 'Approve sign-ups', description: 'Review, approve and reject registration requests' },
+  { key: 'users.manage', label: 'Manage members', description: 'Change roles, edit profiles, unlock accounts, reset two-factor and delete users' },
+  { key: 'roles.manage', label: 'Manage roles', description: 'Create, edit and delete roles and their permissions' },
+  { key: 'chats.oversee', label: 'Oversee chats', description: 'Read any chat, including private ones' },
+  { key: 'chats.delete', label: 'Delete chats', description: 'Clear the messages of a chat, or delete it' },
+  { key: 'chats.moderate', label: 'Moderate chats', description: 'Pin and unpin messages in any chat' },
+  { key: 'trash.manage', label: 'Manage trash', description: 'Restore and permanently delete trashed items' },
+  { key: 'broadcast.send', label: 'Broadcast', description: 'Send broadcasts and use @everyone in shared chats' },
+  { key: 'teams.manage', label: 'Manage teams', description: 'Edit, staff and delete any team' },
+  { key: 'tasks.manage', label: 'Manage tasks', description: 'Edit any task and see everyone\'s calendar' },
+  { key: 'time.manage', label: 'Manage time entries', description: 'See and edit everyone\'s time entries and reports' },
+  { key: 'stats.view', label: 'View dashboard', description: 'See the admin dashboard statistics' },
+  { key: 'audit.view', label: 'View audit log', description: 'Read the audit log' },
+  { key: 'security.manage', label: 'Manage security', description: 'Change the security policy and clear the audit log' }
+];
+
+const PERMISSION_KEYS = PERMISSIONS.map(permission => permission.key);
+
+// Permissions that reach other members' accounts, private chats or the security settings.
+// Roles with any of them fall under the two-factor policy.
+const PRIVILEGED_PERMISSIONS = [
+  'users.approve',
+  'users.manage',
+  'roles.manage',
+  'chats.oversee',
+  'chats.delete',
+  'trash.manage',
+  'audit.view',
+  'security.manage'
+];
+
+// The manager role always has every permission, so nobody can lock everyone out of the role editor
+const MANAGER_ROLE = 'manager';
+
+const DEFAULT_ROLES = [
+  {
+    key: MANAGER_ROLE,
+    name: 'Manager',
+    description: 'Full access to every administrative feature',
+    permissions: PERMISSION_KEYS
+  },
+  {
+    key: 'employee',
+    name: 'Employee',
+    description: 'Chats, tasks and time tracking for their own work',
+    permissions: []
+  }
+];
+
+// Role key -> permissions; looked up on every authenticated request, so it's cached until a role changes
+const cache = new Map();
+
+const clearPermissionCache = () => cache.clear();
+
+const getRolePermissions = async (roleKey) => {
+  if (roleKey === MANAGER_ROLE) return PERMISSION_KEYS;
+  if (cache.has(roleKey)) return cache.get(roleKey);
+
+  const role = await Role.findOne({ key: roleKey }).select('permissions').lean();
+  // A user whose role was removed from under them can still do everything that needs no permission
+  const permissions = role ? role.permissions.filter(key => PERMISSION_KEYS.includes(key)) : [];
+  cache.set(roleKey, permissions);
+  return permissions;
+};
+
+const hasPermission = (user, permission) => Boolean(user.permissions?.includes(permission));
+
+const isPrivilegedRole = async (roleKey) => {
+  const permissions = await getRolePermissions(roleKey);
+  return permissions.some(permission => PRIVILEGED_PERMISSIONS.includes(permission));
+};
+
+// Create the built-in roles on startup. Edits to them are kept; only the manager's permissions are reset.
+const ensureDefaultRoles = async () => {
+  try {
+    for (const role of DEFAULT_ROLES) {
+      await Role.updateOne(
+        { key: role.key },
+        role.key === MANAGER_ROLE
+          ? { $set: { permissions: PERMISSION_KEYS, isSystem: true }, $setOnInsert: { name: role.name, description: role.description } }
+          : { $setOnInsert: { ...role, isSystem: true } },
+        { upsert: true }
+      );
+    }
+    clearPermissionCache();
+  } catch (error) {
+    logger.error('Error creating default roles', { error: error.message });
+  }
+};
+
+module.exports = {
+  PERMISSIONS,
+  PERMISSION_KEYS,
+  PRIVILEGED_PERMISSIONS,
+  MANAGER_ROLE,
+  getRolePermissions,
+  hasPermission,
+  isPrivilegedRole,
+  clearPermissionCache,
+  ensureDefaultRoles,
+};
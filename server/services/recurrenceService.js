@@ -0,0 +1,276 @@
+const { Task } = require('../models');
+const { emitAndRecord } = require('./syncService');
+const logger = require('../utils/logger');
+
+const FREQUENCIES = ['daily', 'weekly', 'monthly', 'yearly'];
+const MONTH_WEEKS = [1, 2, 3, 4, -1];
+const SCHEDULER_INTERVAL_MS = 5 * 60 * 1000;
+// Upper bound on periods walked when looking for the next date, so a rule can never loop forever
+const MAX_PERIODS = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fields an occurrence inherits from the one before it
+const INHERITED_FIELDS = [
+  'title', 'description', 'priority', 'assignedTo', 'assignedBy', 'teamId', 'assignmentType',
+  'tags', 'estimatedHours', 'isRecurring', 'recurringPattern', 'recurrence', 'seriesId'
+];
+
+let schedulerTimer = null;
+
+/**
+ * Check a recurrence rule from a request body.
+ * Returns an error message, or null when the rule is usable.
+ */
+const validateRecurrence = (recurrence) => {
+  if (!recurrence || typeof recurrence !== 'object') return 'Recurrence rule is required';
+  const { frequency, interval, weekdays, monthWeek, until, count } = recurrence;
+
+  if (!FREQUENCIES.includes(frequency)) return 'Recurrence frequency must be daily, weekly, monthly or yearly';
+  if (interval !== undefined && (!Number.isInteger(interval) || interval < 1 || interval > 365)) {
+    return 'Recurrence interval must be a whole number between 1 and 365';
+  }
+  if (weekdays !== undefined && (!Array.isArray(weekdays) || weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6))) {
+    return 'Recurrence weekdays must be numbers from 0 (Sunday) to 6 (Saturday)';
+  }
+  if (monthWeek !== undefined && monthWeek !== null) {
+    if (frequency !== 'monthly') return 'Only monthly rules can repeat on the nth weekday';
+    if (!MONTH_WEEKS.includes(monthWeek)) return 'Recurrence week of the month must be 1-4 or -1 (last)';
+  }
+  if (until && Number.isNaN(new Date(until).getTime())) return 'Recurrence end date is invalid';
+  if (count !== undefined && count !== null && (!Number.isInteger(count) || count < 1 || count > 1000)) {
+    return 'Recurrence count must be between 1 and 1000';
+  }
+  if (until && count) return 'A recurrence can end on a date or after a number of occurrences, not both';
+  return null;
+};
+
+/**
+ * The rule as stored: defaults filled in, weekdays sorted, counted from `startsOn`.
+ * `startIndex` is the occurrence index at `startsOn`, so a rule edited mid-series counts from there.
+ * Older tasks only have `recurringPattern`, which maps to "every 1 <pattern>".
+ */
+const normalizeRecurrence = (recurrence, startsOn, startIndex = 1) => {
+  const weekdays = [...new Set(recurrence.weekdays || [])].sort((a, b) => a - b);
+  return {
+    frequency: recurrence.frequency,
+    interval: recurrence.interval || 1,
+    weekdays,
+    monthWeek: recurrence.frequency === 'monthly' && recurrence.monthWeek ? recurrence.monthWeek : undefined,
+    startsOn: new Date(startsOn),
+    startIndex,
+    until: recurrence.until ? new Date(recurrence.until) : undefined,
+    count: recurrence.count || undefined
+  };
+};
+
+const getTaskRecurrence = (task) => {
+  if (task.recurrence && task.recurrence.frequency) return task.recurrence;
+  if (task.recurringPattern) return normalizeRecurrence({ frequency: task.recurringPattern }, task.dueDate);
+  return null;
+};
+
+const daysInMonth = (year, month) => new Date(year, month + 1, 0).getDate();
+
+// Same wall-clock time as `time` on the given calendar day, clamped to the month's length
+const atDay = (year, month, day, time) => {
+  return new Date(year, month, Math.min(day, daysInMonth(year, month)),
+    time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds());
+};
+
+// The nth (or last, for -1) given weekday of a month
+const nthWeekdayOfMonth = (year, month, weekday, nth, time) => {
+  if (nth === -1) {
+    const last = daysInMonth(year, month);
+    const lastWeekday = new Date(year, month, last).getDay();
+    return atDay(year, month, last - ((lastWeekday - weekday + 7) % 7), time);
+  }
+  const firstWeekday = new Date(year, month, 1).getDay();
+  const day = 1 + ((weekday - firstWeekday + 7) % 7) + (nth - 1) * 7;
+  return day > daysInMonth(year, month) ? null : atDay(year, month, day, time);
+};
+
+// Candidate dates in the rule's kth period, in order
+const getPeriodDates = (rule, start, k) => {
+  const step = k * rule.interval;
+  const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [start.getDay()];
+
+  switch (rule.frequency) {
+    case 'daily': {
+      const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + step,
+        start.getHours(), start.getMinutes(), start.getSeconds(), start.getMilliseconds());
+      // A daily rule with weekdays (e.g. Mon-Fri) skips the other days
+      return !rule.weekdays || rule.weekdays.length === 0 || rule.weekdays.includes(date.getDay()) ? [date] : [];
+    }
+    case 'weekly': {
+      const weekStart = start.getDate() - start.getDay() + step * 7;
+      return weekdays.map(day => new Date(start.getFullYear(), start.getMonth(), weekStart + day,
+        start.getHours(), start.getMinutes(), start.getSeconds(), start.getMilliseconds()));
+    }
+    case 'monthly': {
+      const month = new Date(start.getFullYear(), start.getMonth() + step, 1);
+      const date = rule.monthWeek
+        ? nthWeekdayOfMonth(month.getFullYear(), month.getMonth(), weekdays[0], rule.monthWeek, start)
+        : atDay(month.getFullYear(), month.getMonth(), start.getDate(), start);
+      return date ? [date] : [];
+    }
+    case 'yearly':
+      return [atDay(start.getFullYear() + step, start.getMonth(), start.getDate(), start)];
+    default:
+      return [];
+  }
+};
+
+// A period shortly before `after`, so long-running series don't walk every period from the start
+const getFirstPeriod = (rule, start, after) => {
+  const days = Math.floor((after.getTime() - start.getTime()) / DAY_MS);
+  const months = (after.getFullYear() - start.getFullYear()) * 12 + after.getMonth() - start.getMonth();
+  const periods = {
+    daily: days,
+    weekly: Math.floor(days / 7),
+    monthly: months,
+    yearly: Math.floor(months / 12)
+  }[rule.frequency];
+  return Math.max(0, Math.floor(periods / rule.interval) - 1);
+};
+
+// How many occurrences the rule has produced up to and including `occurrenceIndex`
+const countOccurrencesUnderRule = (rule, occurrenceIndex) => occurrenceIndex - (rule.startIndex || 1) + 1;
+
+/**
+ * The first date of the rule strictly after `after`, or null once the rule has ended.
+ * `occurrenceIndex` is the series position of the occurrence due at `after`, for rules that end after a count.
+ */
+const getNextOccurrenceDate = (rule, after, occurrenceIndex = 1) => {
+  if (rule.count && countOccurrencesUnderRule(rule, occurrenceIndex) >= rule.count) return null;
+
+  const start = new Date(rule.startsOn || after);
+  const afterTime = new Date(after).getTime();
+  const firstPeriod = getFirstPeriod(rule, start, new Date(after));
+
+  for (let k = firstPeriod; k < firstPeriod + MAX_PERIODS; k++) {
+    for (const date of getPeriodDates(rule, start, k)) {
+      if (date.getTime() < start.getTime() || date.getTime() <= afterTime) continue;
+      if (rule.until && date.getTime() > new Date(rule.until).getTime()) return null;
+      return date;
+    }
+  }
+  return null;
+};
+
+const populateTask = (query) => query
+  .populate('assignedTo', 'name email avatar')
+  .populate('assignedBy', 'name email avatar');
+
+/**
+ * Create the occurrence after `task`, unless the series has ended or it already exists.
+ * The unique (seriesId, occurrenceIndex) index makes concurrent calls safe: only one insert wins.
+ * Returns the new occurrence, or null.
+ */
+const spawnNextOccurrence = async (io, task) => {
+  if (!task.isRecurring || task.nextOccurrenceId || task.isLastOccurrence) return null;
+
+  const rule = getTaskRecurrence(task);
+  if (!rule) return null;
+
+  // Tasks created before series existed start their own
+  if (!task.seriesId) {
+    task.seriesId = task._id;
+    task.occurrenceIndex = 1;
+    await Task.updateOne({ _id: task._id }, { $set: { seriesId: task._id, occurrenceIndex: 1 } });
+  }
+
+  const nextDate = getNextOccurrenceDate(rule, task.dueDate, task.occurrenceIndex);
+  if (!nextDate) {
+    await Task.updateOne({ _id: task._id }, { $set: { isLastOccurrence: true } });
+    logger.info('Recurring task series ended', { seriesId: task.seriesId, taskId: task._id });
+    return null;
+  }
+
+  const source = task.toObject({ depopulate: true });
+  const fields = {};
+  INHERITED_FIELDS.forEach(field => {
+    fields[field] = source[field];
+  });
+  if (!task.recurrence || !task.recurrence.frequency) {
+    fields.recurrence = rule;
+  }
+  // Each occurrence starts with the same checklist, unticked
+  fields.checklist = (source.checklist || []).map(item => ({ text: item.text }));
+
+  let next;
+  try {
+    next = await Task.create({
+      ...fields,
+      dueDate: nextDate,
+      occurrenceIndex: task.occurrenceIndex + 1
+    });
+  } catch (error) {
+    if (error.code !== 11000) throw error;
+    // Another run created it first; just make sure the link is there
+    next = await Task.findOne({ seriesId: task.seriesId, occurrenceIndex: task.occurrenceIndex + 1 });
+    await Task.updateOne({ _id: task._id, nextOccurrenceId: null }, { $set: { nextOccurrenceId: next._id } });
+    return null;
+  }
+
+  await Task.updateOne({ _id: task._id }, { $set: { nextOccurrenceId: next._id } });
+  task.nextOccurrenceId = next._id;
+
+  const populated = await populateTask(Task.findById(next._id));
+  await emitAndRecord(io, 'tasks', 'task:created', {
+    task: populated,
+    createdBy: task.assignedBy.toString()
+  });
+  await emitAndRecord(io, `user:${task.assignedTo}`, 'task:assigned', {
+    task: populated,
+    assignedBy: task.assignedBy.toString()
+  });
+
+  logger.info('Recurring task occurrence created', { seriesId: task.seriesId, taskId: next._id, dueDate: nextDate });
+  return next;
+};
+
+// Spawn the next occurrence of every series whose latest occurrence has come due
+const spawnDueOccurrences = async (io) => {
+  const due = await Task.find({
+    isRecurring: true,
+    isActive: true,
+    nextOccurrenceId: null,
+    isLastOccurrence: { $ne: true },
+    dueDate: { $lte: new Date() }
+  }).sort({ dueDate: 1 });
+
+  for (const task of due) {
+    try {
+      // A series that fell far behind catches up one occurrence at a time, on later runs
+      await spawnNextOccurrence(io, task);
+    } catch (error) {
+      logger.error('Recurring task spawn error', { error: error.message, taskId: task._id });
+    }
+  }
+};
+
+const startRecurrenceScheduler = (io) => {
+  if (schedulerTimer) return;
+
+  const run = () => spawnDueOccurrences(io).catch(error => {
+    logger.error('Recurring task run failed', { error: error.message });
+  });
+
+  run();
+  schedulerTimer = setInterval(run, SCHEDULER_INTERVAL_MS);
+};
+
+const stopRecurrenceScheduler = () => {
+  clearInterval(schedulerTimer);
+  schedulerTimer = null;
+};
+
+module.exports = {
+  validateRecurrence,
+  normalizeRecurrence,
+  getNextOccurrenceDate,
+  spawnNextOccurrence,
+  spawnDueOccurrences,
+  startRecurrenceScheduler,
+  stopRecurrenceScheduler,
+};
@@ -0,0 +1,119 @@
+const { Chat, User, ScheduledMessage } = require('../models');
+const { hasChatAccess, createChatMessage } = require('./messageService');
+const { getRolePermissions } = require('./permissionService');
+const logger = require('../utils/logger');
+
+const SCHEDULER_INTERVAL_MS = 30 * 1000;
+const MAX_DELIVERY_ATTEMPTS = 5;
+// A claim this old belongs to a server that stopped mid-delivery
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+let schedulerTimer = null;
+
+const notifyOwner = (io, scheduled) => {
+  io.to(`user:${scheduled.senderId}`).emit('scheduled-message:updated', scheduled);
+};
+
+const markFailed = async (io, scheduled, reason) => {
+  scheduled.status = 'failed';
+  scheduled.failureReason = reason;
+  await scheduled.save();
+  notifyOwner(io, scheduled);
+  logger.warn('Scheduled message failed', { scheduledMessageId: scheduled.id, reason });
+};
+
+const deliverScheduledMessage = async (io, scheduled) => {
+  const [chat, sender] = await Promise.all([
+    Chat.findById(scheduled.chatId),
+    User.findById(scheduled.senderId)
+  ]);
+
+  if (!chat) {
+    return markFailed(io, scheduled, 'The chat no longer exists');
+  }
+  if (!sender || !sender.isApproved || !hasChatAccess(chat, scheduled.senderId)) {
+    return markFailed(io, scheduled, 'You no longer have access to this chat');
+  }
+
+  // The scheduled id doubles as the idempotency key, so a retry after a crash can't send twice
+  const { message } = await createChatMessage(io, chat, {
+    userId: sender._id,
+    name: sender.name,
+    role: sender.role,
+    permissions: await getRolePermissions(sender.role)
+  }, {
+    content: scheduled.content,
+    type: scheduled.type,
+    isUrgent: scheduled.isUrgent,
+    mentions: scheduled.mentions,
+    clientMessageId: `scheduled:${scheduled.id}`
+  });
+
+  scheduled.status = 'sent';
+  scheduled.sentMessageId = message.id;
+  scheduled.sentAt = new Date();
+  scheduled.failureReason = null;
+  await scheduled.save();
+  notifyOwner(io, scheduled);
+  logger.info('Scheduled message sent', { scheduledMessageId: scheduled.id, messageId: message.id });
+};
+
+/**
+ * Deliver every scheduled message that is due.
+ * Each one is claimed atomically first, so concurrent runs (or server instances) never send it twice.
+ */
+const deliverDueMessages = async (io) => {
+  const handled = [];
+
+  for (;;) {
+    const now = Date.now();
+    const scheduled = await ScheduledMessage.findOneAndUpdate(
+      {
+        _id: { $nin: handled },
+        $or: [
+          { status: 'pending', scheduledFor: { $lte: new Date(now) } },
+          { status: 'sending', updatedAt: { $lt: new Date(now - STALE_CLAIM_MS) } }
+        ]
+      },
+      { $set: { status: 'sending' }, $inc: { attempts: 1 } },
+      { sort: { scheduledFor: 1 }, new: true }
+    );
+    if (!scheduled) return;
+    handled.push(scheduled._id);
+
+    try {
+      await deliverScheduledMessage(io, scheduled);
+    } catch (error) {
+      logger.error('Scheduled message delivery error', { error: error.message, scheduledMessageId: scheduled.id, attempts: scheduled.attempts });
+      if (scheduled.attempts >= MAX_DELIVERY_ATTEMPTS) {
+        await markFailed(io, scheduled, 'Delivery failed after several attempts');
+      } else {
+        // Retried on the next run
+        await ScheduledMessage.updateOne({ _id: scheduled._id, status: 'sending' }, { $set: { status: 'pending' } });
+      }
+    }
+  }
+};
+
+// Start the delivery loop; anything that came due while the server was down goes out right away
+const startScheduler = (io) => {
+  if (schedulerTimer) return;
+
+  const run = () => deliverDueMessages(io).catch(error => {
+    logger.error('Scheduled message run failed', { error: error.message });
+  });
+
+  run();
+  schedulerTimer = setInterval(run, SCHEDULER_INTERVAL_MS);
+};
+
+const stopScheduler = () => {
+  clearInterval(schedulerTimer);
+  schedulerTimer = null;
+};
+
+module.exports = {
+  deliverDueMessages,
+  startScheduler,
+  stopScheduler,
+};
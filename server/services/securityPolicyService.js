@@ -0,0 +1,33 @@
+const { SecurityPolicy } = require('../models');
+const { isPrivilegedRole } = require('./permissionService');
+
+// requireManagerTwoFactor predates custom roles; it now covers every role with a privileged permission
+const DEFAULT_POLICY = {
+  requireManagerTwoFactor: false
+};
+
+const getSecurityPolicy = async () => {
+  const policy = await SecurityPolicy.findOne({ key: 'global' }).lean();
+  return { ...DEFAULT_POLICY, ...(policy ? { requireManagerTwoFactor: policy.requireManagerTwoFactor } : {}) };
+};
+
+const updateSecurityPolicy = async (changes, updatedBy) => {
+  const policy = await SecurityPolicy.findOneAndUpdate(
+    { key: 'global' },
+    { $set: { ...changes, updatedBy } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+  return policy.toJSON();
+};
+
+// Whether this user must have two-factor authentication before they can sign in
+const isTwoFactorRequired = async (user) => {
+  const policy = await getSecurityPolicy();
+  return policy.requireManagerTwoFactor && await isPrivilegedRole(user.role);
+};
+
+module.exports = {
+  getSecurityPolicy,
+  updateSecurityPolicy,
+  isTwoFactorRequired,
+};
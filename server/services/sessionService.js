@@ -0,0 +1,171 @@
+const crypto = require('crypto');
+const { Session } = require('../models');
+
+const DEFAULT_REFRESH_TOKEN_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REFRESH_COOKIE = 'refreshToken';
+// Two tabs share the cookie and can refresh at the same moment; the one that loses the race
+// presents the token the other just replaced, which is only treated as theft after this window
+const ROTATION_GRACE_MS = 30 * 1000;
+
+const getRefreshTokenDays = () => {
+  const days = parseInt(process.env.REFRESH_TOKEN_DAYS, 10);
+  return Number.isNaN(days) || days < 1 ? DEFAULT_REFRESH_TOKEN_DAYS : days;
+};
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const generateToken = () => crypto.randomBytes(48).toString('base64url');
+
+const describeRequest = (req) => ({
+  userAgent: (req.get('User-Agent') || '').slice(0, 500),
+  ip: req.ip || ''
+});
+
+// Start a session for a user who just signed in; the raw refresh token only ever goes to the cookie
+const createSession = async (userId, req) => {
+  const refreshToken = generateToken();
+  const session = await Session.create({
+    userId,
+    tokenHash: hashToken(refreshToken),
+    ...describeRequest(req),
+    expiresAt: new Date(Date.now() + getRefreshTokenDays() * DAY_MS)
+  });
+  return { session, refreshToken };
+};
+
+/**
+ * Swap a refresh token for a new one. Returns `{ session, refreshToken }`, `{ session }` when a
+ * concurrent refresh already rotated it, or `{ error }`. A token replayed after the grace window
+ * comes back with `reused` and its session: either a thief or the real user holds a stale copy,
+ * so the caller should end that session.
+ */
+const rotateSession = async (refreshToken, req) => {
+  if (!refreshToken) return { error: 'Refresh token required' };
+  const tokenHash = hashToken(refreshToken);
+  const now = new Date();
+
+  const nextToken = generateToken();
+  const session = await Session.findOneAndUpdate(
+    { tokenHash, revokedAt: null, expiresAt: { $gt: now } },
+    {
+      tokenHash: hashToken(nextToken),
+      previousTokenHash: tokenHash,
+      rotatedAt: now,
+      lastUsedAt: now,
+      ...describeRequest(req),
+      // Sliding expiry: a device used at least once a month stays signed in
+      expiresAt: new Date(now.getTime() + getRefreshTokenDays() * DAY_MS)
+    },
+    { new: true }
+  );
+  if (session) return { session, refreshToken: nextToken };
+
+  const replaced = await Session.findOne({ previousTokenHash: tokenHash, revokedAt: null });
+  if (!replaced) return { error: 'Invalid or expired refresh token' };
+  if (replaced.rotatedAt && now - replaced.rotatedAt < ROTATION_GRACE_MS) {
+    return { session: replaced };
+  }
+  return { error: 'Refresh token was already used', session: replaced, reused: true };
+};
+
+const findSessionByRefreshToken = (refreshToken) => {
+  if (!refreshToken) return null;
+  return Session.findOne({ tokenHash: hashToken(refreshToken), revokedAt: null });
+};
+
+// Without the database there are no sessions to check; the development mock login relies on this
+const isSessionActive = async (sessionId, userId) => {
+  if (global.mongodbAvailable === false) return true;
+  if (!sessionId) return false;
+  const session = await Session.exists({
+    _id: sessionId,
+    userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  });
+  return !!session;
+};
+
+const getActiveSessions = (userId) => Session.find({
+  userId,
+  revokedAt: null,
+  expiresAt: { $gt: new Date() }
+}).sort({ lastUsedAt: -1 });
+
+// Sockets join `session:<id>` when they connect, so ending a session also closes its live connections
+const disconnectSessions = (io, sessionIds) => {
+  if (!io) return;
+  sessionIds.forEach(sessionId => {
+    const room = `session:${sessionId}`;
+    io.to(room).emit('session:revoked', { sessionId: sessionId.toString() });
+    io.in(room).disconnectSockets(true);
+  });
+};
+
+/**
+ * End the active sessions matching `filter` (always narrowed to the user) and disconnect their
+ * sockets. Returns the ids that were ended.
+ */
+const revokeSessions = async (io, userId, filter, reason) => {
+  const sessions = await Session.find({ ...filter, userId, revokedAt: null }).select('_id');
+  if (sessions.length === 0) return [];
+  const sessionIds = sessions.map(session => session._id);
+  await Session.updateMany(
+    { _id: { $in: sessionIds }, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+  disconnectSessions(io, sessionIds);
+  return sessionIds;
+};
+
+// cookie-parser isn't used elsewhere, and this is the only cookie the API reads
+const getRefreshTokenFromRequest = (req) => {
+  const header = req.headers.cookie;
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) continue;
+    if (part.slice(0, separator).trim() === REFRESH_COOKIE) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+};
+
+const getCookieOptions = () => {
+  const sameSite = (process.env.COOKIE_SAMESITE || 'lax').toLowerCase();
+  return {
+    httpOnly: true,
+    // Browsers drop SameSite=None cookies that aren't Secure
+    secure: process.env.NODE_ENV === 'production' || sameSite === 'none',
+    sameSite,
+    // Only the auth endpoints need to see it
+    path: '/api/auth'
+  };
+};
+
+const setRefreshCookie = (res, refreshToken, expiresAt) => {
+  res.cookie(REFRESH_COOKIE, refreshToken, { ...getCookieOptions(), expires: expiresAt });
+};
+
+const clearRefreshCookie = (res) => {
+  res.clearCookie(REFRESH_COOKIE, getCookieOptions());
+};
+
+module.exports = {
+  describeRequest,
+  createSession,
+  rotateSession,
+  findSessionByRefreshToken,
+  isSessionActive,
+  getActiveSessions,
+  revokeSessions,
+  getRefreshTokenFromRequest,
+  setRefreshCookie,
+  clearRefreshCookie,
+};
@@ -0,0 +1,102 @@
+const mongoose = require('mongoose');
+const { Task } = require('../models');
+
+// Subtasks of subtasks are allowed, down to this many levels below a top-level task
+const MAX_SUBTASK_DEPTH = 3;
+const MAX_CHECKLIST_ITEMS = 50;
+const CLOSED_STATUSES = ['completed', 'cancelled'];
+
+/**
+ * Check and tidy a checklist from a request body.
+ * Returns `{ checklist }`, or `{ error }` when an item is unusable.
+ */
+const normalizeChecklist = (items) => {
+  if (!Array.isArray(items)) return { error: 'Checklist must be an array' };
+  if (items.length > MAX_CHECKLIST_ITEMS) return { error: `A checklist can have at most ${MAX_CHECKLIST_ITEMS} items` };
+
+  const checklist = [];
+  for (const item of items) {
+    const text = typeof item?.text === 'string' ? item.text.trim() : '';
+    if (!text) return { error: 'Checklist items need text' };
+    if (text.length > 200) return { error: 'Checklist items can be at most 200 characters' };
+    // Keep existing ids so items survive a reorder
+    checklist.push({ ...(mongoose.isValidObjectId(item.id) ? { _id: item.id } : {}), text, done: Boolean(item.done) });
+  }
+  return { checklist };
+};
+
+/**
+ * Percentage of a task's work that is done: completed subtasks plus ticked checklist items.
+ * Cancelled subtasks don't count either way. Null when there is nothing to count,
+ * in which case progress stays whatever was set by hand.
+ */
+const calculateProgress = (subtasks, checklist) => {
+  const counted = subtasks.filter(subtask => subtask.status !== 'cancelled');
+  const total = counted.length + checklist.length;
+  if (total === 0) return null;
+
+  const done = counted.filter(subtask => subtask.status === 'completed').length +
+    checklist.filter(item => item.done).length;
+  return Math.round((done / total) * 100);
+};
+
+// Recompute a task's progress after its subtasks or checklist changed; returns true if it moved
+const refreshProgress = async (taskId) => {
+  const task = await Task.findById(taskId).select('checklist progress');
+  if (!task) return false;
+
+  const subtasks = await Task.find({ parentTaskId: task._id }).select('status');
+  const progress = calculateProgress(subtasks, task.checklist);
+  if (progress === null || progress === task.progress) return false;
+
+  await Task.updateOne({ _id: task._id }, { $set: { progress } });
+  return true;
+};
+
+// Number of levels above a task: 0 for a top-level task
+const getDepth = async (task) => {
+  let depth = 0;
+  let parentId = task.parentTaskId;
+  while (parentId && depth <= MAX_SUBTASK_DEPTH) {
+    const parent = await Task.findById(parentId).select('parentTaskId');
+    parentId = parent ? parent.parentTaskId : null;
+    depth++;
+  }
+  return depth;
+};
+
+// Ids of every task below the given ones, breadth first
+const getDescendantIds = async (taskIds) => {
+  const descendants = [];
+  let level = taskIds;
+  for (let depth = 0; depth <= MAX_SUBTASK_DEPTH && level.length > 0; depth++) {
+    const children = await Task.find({ parentTaskId: { $in: level } }).select('_id');
+    level = children.map(child => child._id);
+    descendants.push(...level);
+  }
+  return descendants;
+};
+
+/**
+ * Cancel the open subtasks (at every level) below a cancelled task.
+ * Completed subtasks are left alone. Returns the ids that were cancelled.
+ */
+const cancelOpenSubtasks = async (taskId) => {
+  const descendantIds = await getDescendantIds([taskId]);
+  const open = await Task.find({ _id: { $in: descendantIds }, status: { $nin: CLOSED_STATUSES } }).select('_id');
+  const openIds = open.map(task => task._id);
+  if (openIds.length > 0) {
+    await Task.updateMany({ _id: { $in: openIds } }, { $set: { status: 'cancelled' } });
+  }
+  return openIds;
+};
+
+module.exports = {
+  MAX_SUBTASK_DEPTH,
+  normalizeChecklist,
+  calculateProgress,
+  refreshProgress,
+  getDepth,
+  getDescendantIds,
+  cancelOpenSubtasks,
+};
@@ -0,0 +1,80 @@
+const { Chat, Counter, SyncEvent } = require('../models');
+const logger = require('../utils/logger');
+
+const SYNC_SEQUENCE = 'syncEvents';
+const ALL_ROOM = 'all';
+// More missed events than this and the client is told to reload instead
+const MAX_REPLAY_EVENTS = 500;
+
+/**
+ * Emit a socket event and record it so clients that were offline can replay it.
+ * The event's sequence number is sent as a second argument, `{ seq }`, so clients can resume after it.
+ * Recording failures are logged and never affect the live emit; `seq` is then null.
+ */
+const emitAndRecord = async (io, room, event, payload) => {
+  let seq = null;
+  try {
+    seq = await Counter.next(SYNC_SEQUENCE);
+  } catch (error) {
+    logger.error('Failed to allocate sync sequence', { error: error.message, event, room });
+  }
+
+  (room === ALL_ROOM ? io : io.to(room)).emit(event, payload, { seq });
+  if (seq === null) return;
+
+  try {
+    // Serialize through toJSON so replayed payloads match what the socket sent
+    await SyncEvent.create({ seq, event, rooms: [room], payload: JSON.parse(JSON.stringify(payload)) });
+  } catch (error) {
+    logger.error('Failed to record sync event', { error: error.message, event, room });
+  }
+};
+
+const getLatestSeq = () => Counter.current(SYNC_SEQUENCE);
+
+// Rooms whose events a user would have received while connected
+const getUserRooms = async (userId) => {
+  const chats = await Chat.find({
+    $or: [
+      { participants: userId },
+      { type: { $in: ['general', 'announcements'] } }
+    ]
+  }).select('_id');
+
+  return [ALL_ROOM, 'tasks', `user:${userId}`, ...chats.map(chat => chat._id.toString())];
+};
+
+/**
+ * Events after `since` for the user, in order.
+ * `resetRequired` is set when the gap can't be replayed (expired or too many events).
+ */
+const getEventsSince = async (userId, since) => {
+  const latestSeq = await getLatestSeq();
+
+  const oldest = await SyncEvent.findOne().sort({ seq: 1 }).select('seq');
+  if (oldest && since < oldest.seq - 1) {
+    return { latestSeq, events: [], resetRequired: true };
+  }
+
+  const rooms = await getUserRooms(userId);
+  const events = await SyncEvent.find({ seq: { $gt: since }, rooms: { $in: rooms } })
+    .sort({ seq: 1 })
+    .limit(MAX_REPLAY_EVENTS + 1);
+
+  if (events.length > MAX_REPLAY_EVENTS) {
+    return { latestSeq, events: [], resetRequired: true };
+  }
+
+  return {
+    latestSeq,
+    events: events.map(({ seq, event, payload }) => ({ seq, event, payload })),
+    resetRequired: false
+  };
+};
+
+module.exports = {
+  ALL_ROOM,
+  emitAndRecord,
+  getLatestSeq,
+  getEventsSince,
+};
@@ -0,0 +1,59 @@
+const { Chat, Message } = require('../models');
+const { hasChatAccess, createChatMessage } = require('./messageService');
+
+// The card's copy of a task; `task` has `assignedTo` populated
+const toTaskCard = (task) => ({
+  taskId: task._id,
+  title: task.title,
+  status: task.status,
+  priority: task.priority,
+  dueDate: task.dueDate,
+  assigneeName: task.assignedTo && task.assignedTo.name ? task.assignedTo.name : null,
+  isDeleted: false
+});
+
+/**
+ * Check a `sourceMessage` ({ chatId, messageId }) sent when creating a task from chat.
+ * The requester must be able to read the chat. Returns `{ chat, message }` or `{ error, status }`.
+ */
+const resolveSourceMessage = async (sourceMessage, userId) => {
+  const { chatId, messageId } = sourceMessage || {};
+  const message = await Message.findOne({ _id: messageId, chatId, isDeleted: { $ne: true } });
+  if (!message) return { error: 'Source message not found', status: 404 };
+
+  const chat = await Chat.findById(chatId);
+  if (!chat) return { error: 'Source message not found', status: 404 };
+  if (!hasChatAccess(chat, userId)) return { error: 'Access denied', status: 403 };
+
+  return { chat, message };
+};
+
+// Post a card for a new task into the chat it came from, as a reply to the source message
+const postTaskCard = async (io, chat, source, task, sender) => createChatMessage(io, chat, sender, {
+  content: `Created task: ${task.title}`,
+  type: 'task',
+  isUrgent: false,
+  replyTo: source._id,
+  taskCard: toTaskCard(task)
+});
+
+// Bring stored cards up to date so they match after a reload; open clients follow task:updated
+const refreshTaskCards = async (tasks) => {
+  await Promise.all(tasks.map(task => {
+    const { taskId, ...card } = toTaskCard(task);
+    const changes = Object.fromEntries(Object.entries(card).map(([key, value]) => [`taskCard.${key}`, value]));
+    return Message.updateMany({ 'taskCard.taskId': taskId }, { $set: changes });
+  }));
+};
+
+// Cards of deleted tasks stay in the chat, marked as deleted; open clients follow task:deleted
+const markTaskCardsDeleted = async (taskIds) => {
+  await Message.updateMany({ 'taskCard.taskId': { $in: taskIds } }, { $set: { 'taskCard.isDeleted': true } });
+};
+
+module.exports = {
+  resolveSourceMessage,
+  postTaskCard,
+  refreshTaskCards,
+  markTaskCardsDeleted,
+};
@@ -0,0 +1,129 @@
+const mongoose = require('mongoose');
+
+const STATUSES = ['pending', 'in-progress', 'completed', 'cancelled'];
+const PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+const DUE_FILTERS = ['overdue', 'today', 'this-week', 'next-7-days'];
+// A leading '-' sorts descending; '-priority' puts urgent tasks first
+const SORTS = ['dueDate', '-dueDate', '-priority', '-createdAt', '-updatedAt', 'title'];
+const VIEW_MODES = ['dashboard', 'list', 'board', 'timeline', 'calendar'];
+const MAX_VALUES = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Query strings carry lists comma-separated; JSON bodies as arrays
+const toList = (value) => {
+  if (value === undefined || value === null || value === '') return [];
+  const list = Array.isArray(value) ? value : String(value).split(',');
+  return list.map(item => String(item).trim()).filter(Boolean);
+};
+
+/**
+ * Check and tidy task filters from a request: lists of `status`, `priority`, `assignedTo`
+ * (user ids or `me`), `teamId` and `tags`, a text search `q` and a relative `due` range.
+ * Returns `{ filters }`, or `{ error }` naming the first unusable value.
+ */
+const normalizeTaskFilters = (input = {}) => {
+  const filters = {
+    status: toList(input.status),
+    priority: toList(input.priority),
+    assignedTo: toList(input.assignedTo),
+    teamId: toList(input.teamId),
+    tags: toList(input.tags),
+    q: typeof input.q === 'string' ? input.q.trim().slice(0, 200) : '',
+    due: input.due || ''
+  };
+
+  const lists = ['status', 'priority', 'assignedTo', 'teamId', 'tags'];
+  if (lists.some(key => filters[key].length > MAX_VALUES)) {
+    return { error: `A filter can have at most ${MAX_VALUES} values` };
+  }
+  if (filters.status.some(status => !STATUSES.includes(status))) return { error: 'Unknown status in filter' };
+  if (filters.priority.some(priority => !PRIORITIES.includes(priority))) return { error: 'Unknown priority in filter' };
+  if (filters.assignedTo.some(id => id !== 'me' && !mongoose.isValidObjectId(id))) return { error: 'Invalid user ID format' };
+  if (filters.teamId.some(id => !mongoose.isValidObjectId(id))) return { error: 'Invalid team ID format' };
+  if (filters.due && !DUE_FILTERS.includes(filters.due)) return { error: 'Due filter must be overdue, today, this-week or next-7-days' };
+
+  return { filters };
+};
+
+const startOfDay = (date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Relative ranges are worked out when the query runs, so a saved view always means "this week"
+const getDueRange = (due, now = new Date()) => {
+  const today = startOfDay(now);
+  switch (due) {
+    case 'overdue':
+      return { $lt: now };
+    case 'today':
+      return { $gte: today, $lt: new Date(today.getTime() + DAY_MS) };
+    case 'this-week': {
+      // Weeks start on Monday
+      const monday = new Date(today.getTime() - ((today.getDay() + 6) % 7) * DAY_MS);
+      return { $gte: monday, $lt: new Date(monday.getTime() + 7 * DAY_MS) };
+    }
+    case 'next-7-days':
+      return { $gte: now, $lt: new Date(today.getTime() + 8 * DAY_MS) };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Mongo query for normalized filters. Tasks assigned to `userId` are the default when no
+ * assignee is given; several values for one field match any of them.
+ */
+const buildTaskQuery = (filters, userId) => {
+  const query = {};
+  const anyOf = (values) => (values.length === 1 ? values[0] : { $in: values });
+  // Ids are cast here because aggregation pipelines don't cast strings the way find() does
+  const toObjectId = (id) => new mongoose.Types.ObjectId(id.toString());
+
+  if (filters.status.length > 0) query.status = anyOf(filters.status);
+  if (filters.priority.length > 0) query.priority = anyOf(filters.priority);
+  const assignees = filters.assignedTo.map(id => toObjectId(id === 'me' ? userId : id));
+  query.assignedTo = assignees.length > 0 ? anyOf(assignees) : toObjectId(userId);
+  if (filters.teamId.length > 0) query.teamId = anyOf(filters.teamId.map(toObjectId));
+  if (filters.tags.length > 0) query.tags = { $in: filters.tags };
+  if (filters.q) query.$text = { $search: filters.q };
+
+  const dueRange = getDueRange(filters.due);
+  if (dueRange) {
+    query.dueDate = dueRange;
+    if (filters.due === 'overdue') query.status = query.status || { $nin: ['completed', 'cancelled'] };
+  }
+  return query;
+};
+
+const PRIORITY_ORDER = ['urgent', 'high', 'medium', 'low'];
+
+/**
+ * Pipeline stages that order tasks by `sort`. Priority is stored as a word,
+ * so it is ranked first; ties fall back to the due date.
+ */
+const getSortStages = (sort) => {
+  switch (sort) {
+    case '-priority':
+      return [
+        { $addFields: { priorityRank: { $indexOfArray: [PRIORITY_ORDER, '$priority'] } } },
+        { $sort: { priorityRank: 1, dueDate: 1 } },
+        { $project: { priorityRank: 0 } }
+      ];
+    case '-dueDate':
+      return [{ $sort: { dueDate: -1, _id: 1 } }];
+    case '-createdAt':
+      return [{ $sort: { createdAt: -1 } }];
+    case '-updatedAt':
+      return [{ $sort: { updatedAt: -1 } }];
+    case 'title':
+      return [{ $sort: { title: 1, dueDate: 1 } }];
+    default:
+      return [{ $sort: { dueDate: 1, createdAt: -1 } }];
+  }
+};
+
+module.exports = {
+  SORTS,
+  VIEW_MODES,
+  normalizeTaskFilters,
+  buildTaskQuery,
+  getSortStages,
+};
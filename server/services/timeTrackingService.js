@@ -0,0 +1,143 @@
+const mongoose = require('mongoose');
+const { Task, TimeEntry } = require('../models');
+
+// No single entry covers more than a day; timers left running longer are cut off here
+const MAX_ENTRY_MINUTES = 24 * 60;
+
+const toHours = (minutes) => Math.round((minutes / 60) * 100) / 100;
+
+// Returns an error message, or null when the estimate is usable (null clears it)
+const validateEstimate = (estimatedHours) => {
+  if (estimatedHours === null) return null;
+  if (typeof estimatedHours !== 'number' || !Number.isFinite(estimatedHours) || estimatedHours < 0 || estimatedHours > 10000) {
+    return 'Estimated hours must be a number between 0 and 10000';
+  }
+  return null;
+};
+
+/**
+ * Check a hand-entered time entry from a request body: `minutes`, the `date` worked and an optional `note`.
+ * Returns `{ entry }` with the fields to save, or `{ error }`.
+ */
+const normalizeManualEntry = ({ minutes, date, note }) => {
+  if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_ENTRY_MINUTES) {
+    return { error: 'Time must be between 1 minute and 24 hours' };
+  }
+  const startedAt = date ? new Date(date) : new Date();
+  if (Number.isNaN(startedAt.getTime())) return { error: 'Date is invalid' };
+  if (startedAt > new Date()) return { error: 'Time can\'t be logged in the future' };
+  if (note !== undefined && (typeof note !== 'string' || note.length > 500)) {
+    return { error: 'Note can be at most 500 characters' };
+  }
+
+  return {
+    entry: {
+      startedAt,
+      endedAt: new Date(startedAt.getTime() + minutes * 60 * 1000),
+      minutes,
+      ...(note !== undefined ? { note: note.trim() } : {})
+    }
+  };
+};
+
+// Recompute the logged hours of tasks after their entries changed
+const refreshLoggedHours = async (taskIds) => {
+  const ids = taskIds.map(id => new mongoose.Types.ObjectId(id.toString()));
+  const totals = await TimeEntry.aggregate([
+    { $match: { taskId: { $in: ids }, isRunning: false } },
+    { $group: { _id: '$taskId', minutes: { $sum: '$minutes' } } }
+  ]);
+
+  await Promise.all(ids.map(id => {
+    const total = totals.find(entry => entry._id.equals(id));
+    return Task.updateOne({ _id: id }, { $set: { loggedHours: toHours(total ? total.minutes : 0) } });
+  }));
+};
+
+// Stop the user's running timer, if any; returns the finished entry
+const stopTimer = async (userId) => {
+  const running = await TimeEntry.findOne({ userId, isRunning: true });
+  if (!running) return null;
+
+  const endedAt = new Date();
+  running.minutes = Math.min(MAX_ENTRY_MINUTES, Math.round((endedAt - running.startedAt) / 60000));
+  running.endedAt = new Date(running.startedAt.getTime() + running.minutes * 60 * 1000);
+  running.isRunning = false;
+  await running.save();
+  await refreshLoggedHours([running.taskId]);
+  return running;
+};
+
+/**
+ * Start a timer on a task. A user has one timer at a time, so a timer running on
+ * another task is stopped first. Returns `{ entry, stopped }`.
+ */
+const startTimer = async (taskId, userId) => {
+  const stopped = await stopTimer(userId);
+  const entry = await TimeEntry.create({
+    taskId,
+    userId,
+    startedAt: new Date(),
+    source: 'timer',
+    isRunning: true
+  });
+  return { entry, stopped };
+};
+
+const sumBy = (key, lookup) => [
+  { $group: { _id: key, minutes: { $sum: '$minutes' }, entries: { $sum: 1 } } },
+  ...(lookup ? [
+    { $lookup: { from: lookup.from, localField: '_id', foreignField: '_id', as: 'ref' } },
+    { $addFields: { name: { $arrayElemAt: [`$ref.${lookup.nameField}`, 0] } } },
+    { $project: { ref: 0 } }
+  ] : []),
+  { $sort: { minutes: -1 } }
+];
+
+/**
+ * Hours logged between `start` and `end`, in total and by team, user and tag.
+ * `teamId` narrows the report to one team's tasks. Running timers aren't counted.
+ */
+const buildTimeReport = async ({ start, end, teamId }) => {
+  const [result] = await TimeEntry.aggregate([
+    { $match: { startedAt: { $gte: start, $lt: end }, isRunning: false } },
+    { $lookup: { from: 'tasks', localField: 'taskId', foreignField: '_id', as: 'task' } },
+    { $unwind: '$task' },
+    ...(teamId ? [{ $match: { 'task.teamId': new mongoose.Types.ObjectId(teamId) } }] : []),
+    {
+      $facet: {
+        total: [{ $group: { _id: null, minutes: { $sum: '$minutes' }, entries: { $sum: 1 } } }],
+        byTeam: sumBy('$task.teamId', { from: 'teams', nameField: 'name' }),
+        byUser: sumBy('$userId', { from: 'users', nameField: 'name' }),
+        byTag: [{ $unwind: '$task.tags' }, ...sumBy('$task.tags')]
+      }
+    }
+  ]);
+
+  const toRows = (groups, getName) => groups.map(group => ({
+    id: group._id ? group._id.toString() : null,
+    name: getName(group),
+    hours: toHours(group.minutes),
+    entries: group.entries
+  }));
+
+  const total = result.total[0] || { minutes: 0, entries: 0 };
+  return {
+    start,
+    end,
+    totalHours: toHours(total.minutes),
+    entries: total.entries,
+    byTeam: toRows(result.byTeam, group => group.name || (group._id ? 'Deleted team' : 'No team')),
+    byUser: toRows(result.byUser, group => group.name || 'Unknown user'),
+    byTag: toRows(result.byTag, group => group._id)
+  };
+};
+
+module.exports = {
+  validateEstimate,
+  normalizeManualEntry,
+  refreshLoggedHours,
+  startTimer,
+  stopTimer,
+  buildTimeReport,
+};
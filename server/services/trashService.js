@@ -0,0 +1,152 @@
+const { Chat, Message, TrashItem, TrashedMessage } = require('../models');
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getRetentionDays = () => {
+  const days = parseInt(process.env.TRASH_RETENTION_DAYS, 10);
+  return Number.isNaN(days) || days < 1 ? DEFAULT_TRASH_RETENTION_DAYS : days;
+};
+
+// Copy a chat's messages into the trash item, then remove them from the chat
+const moveMessagesToTrash = async (trashItem, chatId) => {
+  const messages = await Message.find({ chatId }).lean();
+  if (messages.length === 0) return 0;
+
+  await TrashedMessage.insertMany(messages.map(data => ({
+    trashItemId: trashItem._id,
+    chatId,
+    data,
+    expiresAt: trashItem.expiresAt
+  })));
+  // By id, so a message sent while this ran isn't removed without a copy
+  await Message.deleteMany({ _id: { $in: messages.map(message => message._id) } });
+
+  return messages.length;
+};
+
+// Insert the raw message documents back; a duplicate means an earlier, interrupted restore already got them
+const restoreMessages = async (trashItem) => {
+  const trashed = await TrashedMessage.find({ trashItemId: trashItem._id }).lean();
+  if (trashed.length > 0) {
+    try {
+      await Message.collection.insertMany(trashed.map(entry => entry.data), { ordered: false });
+    } catch (error) {
+      if (error.code !== 11000) throw error;
+    }
+  }
+  await TrashedMessage.deleteMany({ trashItemId: trashItem._id });
+  return trashed.length;
+};
+
+// Create the trash item and move the messages; undone if any step fails so nothing is half-trashed
+const createTrashItem = async (fields, actor, moveData) => {
+  const trashItem = await TrashItem.create({
+    ...fields,
+    deletedBy: actor.userId.toString(),
+    deletedByName: actor.name || '',
+    expiresAt: new Date(Date.now() + getRetentionDays() * DAY_MS)
+  });
+
+  try {
+    trashItem.messageCount = await moveData(trashItem);
+    await trashItem.save();
+    return trashItem;
+  } catch (error) {
+    await TrashedMessage.deleteMany({ trashItemId: trashItem._id });
+    await TrashItem.deleteOne({ _id: trashItem._id });
+    throw error;
+  }
+};
+
+/**
+ * Move a chat and all of its messages to the trash.
+ * `actor` has the shape of `req.user` ({ userId, name, role, permissions }).
+ */
+const trashChat = async (chat, actor) => {
+  const chatId = chat._id.toString();
+
+  const trashItem = await createTrashItem({
+    type: 'chat',
+    chatId,
+    chatName: chat.name || '',
+    chatType: chat.type,
+    snapshot: chat.toObject({ depopulate: true })
+  }, actor, async (item) => {
+    const count = await moveMessagesToTrash(item, chatId);
+    await Chat.deleteOne({ _id: chat._id });
+    return count;
+  });
+
+  return trashItem;
+};
+
+// Move a chat's messages to the trash, keeping the chat itself. Returns null when there was nothing to clear.
+const trashChatMessages = async (chat, actor) => {
+  const chatId = chat._id.toString();
+
+  if (!(await Message.exists({ chatId }))) return null;
+
+  return createTrashItem({
+    type: 'messages',
+    chatId,
+    chatName: chat.name || '',
+    chatType: chat.type,
+    snapshot: { pinnedMessages: chat.pinnedMessages.map(pin => pin.toObject()) }
+  }, actor, (item) => moveMessagesToTrash(item, chatId));
+};
+
+// Items still inside the retention window, newest first
+const listTrash = () => {
+  return TrashItem.find({ expiresAt: { $gt: new Date() } }).sort({ deletedAt: -1 });
+};
+
+/**
+ * Put a trash item's data back and remove the item.
+ * Returns the restored (or, for messages, updated) chat.
+ * The caller checks that the chat of a 'messages' item still exists.
+ */
+const restoreTrashItem = async (trashItem) => {
+  if (trashItem.type === 'chat') {
+    try {
+      await Chat.collection.insertOne(trashItem.snapshot);
+    } catch (error) {
+      if (error.code !== 11000) throw error;
+    }
+    await restoreMessages(trashItem);
+    await TrashItem.deleteOne({ _id: trashItem._id });
+    return Chat.findById(trashItem.chatId);
+  }
+
+  await restoreMessages(trashItem);
+
+  const chat = await Chat.findById(trashItem.chatId);
+  const latest = await Message.findOne({ chatId: trashItem.chatId, isDeleted: { $ne: true } }).sort({ createdAt: -1 });
+  if (latest && (!chat.lastMessage?.timestamp || latest.createdAt > chat.lastMessage.timestamp)) {
+    chat.lastMessage = { content: latest.content, senderId: latest.senderId, timestamp: latest.createdAt };
+  }
+
+  const restoredPins = (trashItem.snapshot.pinnedMessages || [])
+    .filter(pin => !chat.pinnedMessages.some(existing => existing.messageId === pin.messageId));
+  chat.pinnedMessages.push(...restoredPins);
+  chat.pinnedMessages.sort((a, b) => new Date(b.pinnedAt) - new Date(a.pinnedAt));
+
+  await chat.save();
+  await TrashItem.deleteOne({ _id: trashItem._id });
+  return chat;
+};
+
+// Permanently delete a trash item and everything in it
+const purgeTrashItem = async (trashItem) => {
+  await TrashedMessage.deleteMany({ trashItemId: trashItem._id });
+  await TrashItem.deleteOne({ _id: trashItem._id });
+};
+
+module.exports = {
+  getRetentionDays,
+  trashChat,
+  trashChatMessages,
+  listTrash,
+  restoreTrashItem,
+  purgeTrashItem,
+};
@@ -0,0 +1,173 @@
+const crypto = require('crypto');
+const QRCode = require('qrcode');
+const { User } = require('../models');
+
+const ISSUER = process.env.TWO_FACTOR_ISSUER || 'IIB Chat';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept the previous and next code too, for clocks that are a little off
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+const base32Decode = (text) => {
+  let bits = 0;
+  let value = 0;
+  const bytes = [];
+  for (const char of text.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+// RFC 6238 with the defaults every authenticator app supports: SHA-1, 6 digits, 30 seconds
+const generateCode = (secret, step) => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+const currentStep = () => Math.floor(Date.now() / 1000 / STEP_SECONDS);
+
+// The time step the code belongs to, or null when it matches none in the drift window
+const findCodeStep = (secret, code) => {
+  const normalized = String(code || '').replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+  const now = currentStep();
+  for (let step = now - DRIFT_STEPS; step <= now + DRIFT_STEPS; step++) {
+    const expected = generateCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) return step;
+  }
+  return null;
+};
+
+const generateSecret = () => base32Encode(crypto.randomBytes(20));
+
+// What the enrolment screen shows: the QR code for authenticator apps and the key for typing in by hand
+const buildEnrolment = async (user, secret) => {
+  const label = encodeURIComponent(`${ISSUER}:${user.email}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+  const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 });
+  return { secret, otpauthUrl, qrCode };
+};
+
+const normalizeRecoveryCode = (code) => String(code || '').replace(/[\s-]/g, '').toLowerCase();
+
+const hashRecoveryCode = (code) => crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+// Shown to the user once; only the hashes are kept
+const generateRecoveryCodes = () => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+/**
+ * Check a code from the user's authenticator app against their enabled secret. Each code
+ * works once: the step it belongs to is recorded, and codes from that step or earlier fail.
+ */
+const verifyTotp = async (userId, code) => {
+  const user = await User.findById(userId).select('+twoFactor.secret +twoFactor.lastUsedStep');
+  if (!user?.twoFactor?.enabled || !user.twoFactor.secret) return false;
+  const step = findCodeStep(user.twoFactor.secret, code);
+  if (step === null) return false;
+  const result = await User.updateOne(
+    {
+      _id: userId,
+      $or: [{ 'twoFactor.lastUsedStep': null }, { 'twoFactor.lastUsedStep': { $lt: step } }]
+    },
+    { $set: { 'twoFactor.lastUsedStep': step } }
+  );
+  return result.modifiedCount === 1;
+};
+
+// Recovery codes are single-use; pulling the hash is the check, so two requests can't both spend one
+const consumeRecoveryCode = async (userId, code) => {
+  if (!normalizeRecoveryCode(code)) return false;
+  const result = await User.updateOne(
+    { _id: userId, 'twoFactor.enabled': true, 'twoFactor.recoveryCodeHashes': hashRecoveryCode(code) },
+    { $pull: { 'twoFactor.recoveryCodeHashes': hashRecoveryCode(code) } }
+  );
+  return result.modifiedCount === 1;
+};
+
+/**
+ * Verify a second factor given as `{ code }` or `{ recoveryCode }`.
+ * Returns 'totp', 'recovery-code', or null when neither matched.
+ */
+const verifySecondFactor = async (userId, { code, recoveryCode } = {}) => {
+  if (code && await verifyTotp(userId, code)) return 'totp';
+  if (recoveryCode && await consumeRecoveryCode(userId, recoveryCode)) return 'recovery-code';
+  return null;
+};
+
+// Turn on 2FA with the secret from setup, if the code proves the app was set up with it
+const enableTwoFactor = async (userId, code) => {
+  const user = await User.findById(userId).select('+twoFactor.pendingSecret');
+  if (!user?.twoFactor?.pendingSecret) return { error: 'Start two-factor setup first' };
+  const step = findCodeStep(user.twoFactor.pendingSecret, code);
+  if (step === null) return { error: 'Invalid verification code' };
+
+  const { codes, hashes } = generateRecoveryCodes();
+  user.twoFactor = {
+    enabled: true,
+    secret: user.twoFactor.pendingSecret,
+    pendingSecret: null,
+    recoveryCodeHashes: hashes,
+    lastUsedStep: step,
+    enabledAt: new Date()
+  };
+  await user.save();
+  return { recoveryCodes: codes };
+};
+
+const disableTwoFactor = (userId) => User.updateOne(
+  { _id: userId },
+  {
+    $set: {
+      'twoFactor.enabled': false,
+      'twoFactor.secret': null,
+      'twoFactor.pendingSecret': null,
+      'twoFactor.recoveryCodeHashes': [],
+      'twoFactor.lastUsedStep': null,
+      'twoFactor.enabledAt': null
+    }
+  }
+);
+
+module.exports = {
+  generateSecret,
+  buildEnrolment,
+  generateRecoveryCodes,
+  verifySecondFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+};
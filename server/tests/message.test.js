@@ -0,0 +1,40 @@
+const { test } = require('node:test');
+const assert = require('node:assert');
+const mongoose = require('mongoose');
+const Message = require('../models/Message');
+
+const buildEditedMessage = () => new Message({
+  chatId: new mongoose.Types.ObjectId().toString(),
+  senderId: new mongoose.Types.ObjectId().toString(),
+  senderName: 'Alex',
+  content: 'Second version',
+  editedAt: new Date(),
+  revisions: [{ content: 'First version', createdAt: new Date(Date.now() - 60000) }]
+});
+
+test('serialized messages leave out the edit history', () => {
+  const json = buildEditedMessage().toJSON();
+
+  assert.strictEqual(json.revisions, undefined);
+  assert.strictEqual(json.content, 'Second version');
+  assert.strictEqual(typeof json.id, 'string');
+  assert.strictEqual(json._id, undefined);
+});
+
+test('serialized messages leave out the edit history in JSON payloads', () => {
+  const payload = JSON.parse(JSON.stringify({ message: buildEditedMessage() }));
+
+  assert.strictEqual(payload.message.revisions, undefined);
+});
+
+test('soft delete drops the earlier versions along with the content', async () => {
+  const message = buildEditedMessage();
+  // No database here: the change is checked before it would be written
+  message.save = async function() { return this; };
+
+  await message.softDelete();
+
+  assert.strictEqual(message.isDeleted, true);
+  assert.strictEqual(message.content, 'This message was deleted.');
+  assert.strictEqual(message.revisions.length, 0);
+});
@@ -0,0 +1,124 @@
+const { test } = require('node:test');
+const assert = require('node:assert');
+const { validateRecurrence, normalizeRecurrence, getNextOccurrenceDate } = require('../services/recurrenceService');
+
+// Local time, like the due dates the engine works with
+const at = (year, month, day, hours = 9) => new Date(year, month - 1, day, hours);
+
+// The dates a rule produces after `first`, following the series like the scheduler does
+const occurrences = (rule, first, limit = 10) => {
+  const dates = [];
+  let due = first;
+  for (let index = 1; index < limit; index++) {
+    due = getNextOccurrenceDate(rule, due, index);
+    if (!due) break;
+    dates.push(due);
+  }
+  return dates;
+};
+
+test('validateRecurrence accepts usable rules and explains bad ones', () => {
+  const cases = [
+    [{ frequency: 'weekly', interval: 2, weekdays: [1, 3] }, null],
+    [{ frequency: 'monthly', weekdays: [2], monthWeek: -1 }, null],
+    [{ frequency: 'daily', count: 5 }, null],
+    [null, 'Recurrence rule is required'],
+    [{ frequency: 'hourly' }, 'Recurrence frequency must be daily, weekly, monthly or yearly'],
+    [{ frequency: 'daily', interval: 0 }, 'Recurrence interval must be a whole number between 1 and 365'],
+    [{ frequency: 'weekly', weekdays: [7] }, 'Recurrence weekdays must be numbers from 0 (Sunday) to 6 (Saturday)'],
+    [{ frequency: 'weekly', monthWeek: 1 }, 'Only monthly rules can repeat on the nth weekday'],
+    [{ frequency: 'monthly', monthWeek: 5 }, 'Recurrence week of the month must be 1-4 or -1 (last)'],
+    [{ frequency: 'daily', until: 'not a date' }, 'Recurrence end date is invalid'],
+    [{ frequency: 'daily', count: 0 }, 'Recurrence count must be between 1 and 1000'],
+    [{ frequency: 'daily', until: '2030-01-01', count: 3 }, 'A recurrence can end on a date or after a number of occurrences, not both']
+  ];
+
+  for (const [rule, expected] of cases) {
+    assert.strictEqual(validateRecurrence(rule), expected, JSON.stringify(rule));
+  }
+});
+
+test('getNextOccurrenceDate follows the interval and weekdays', () => {
+  const cases = [
+    {
+      name: 'every 3 days',
+      rule: { frequency: 'daily', interval: 3 },
+      first: at(2026, 3, 2),
+      expected: [at(2026, 3, 5), at(2026, 3, 8), at(2026, 3, 11)]
+    },
+    {
+      name: 'weekdays only, over a weekend',
+      rule: { frequency: 'daily', weekdays: [1, 2, 3, 4, 5] },
+      first: at(2026, 3, 5), // Thursday
+      expected: [at(2026, 3, 6), at(2026, 3, 9), at(2026, 3, 10)]
+    },
+    {
+      name: 'every 2 weeks on Monday and Wednesday',
+      rule: { frequency: 'weekly', interval: 2, weekdays: [1, 3] },
+      first: at(2026, 3, 2), // Monday
+      expected: [at(2026, 3, 4), at(2026, 3, 16), at(2026, 3, 18)]
+    },
+    {
+      name: 'monthly on day 31, clamped to shorter months',
+      rule: { frequency: 'monthly' },
+      first: at(2026, 1, 31),
+      expected: [at(2026, 2, 28), at(2026, 3, 31), at(2026, 4, 30)]
+    },
+    {
+      name: 'monthly on the second Tuesday',
+      rule: { frequency: 'monthly', weekdays: [2], monthWeek: 2 },
+      first: at(2026, 1, 13),
+      expected: [at(2026, 2, 10), at(2026, 3, 10), at(2026, 4, 14)]
+    },
+    {
+      name: 'monthly on the last Friday',
+      rule: { frequency: 'monthly', weekdays: [5], monthWeek: -1 },
+      first: at(2026, 1, 30),
+      expected: [at(2026, 2, 27), at(2026, 3, 27), at(2026, 4, 24)]
+    },
+    {
+      name: 'yearly on Feb 29, clamped in other years',
+      rule: { frequency: 'yearly' },
+      first: at(2028, 2, 29),
+      expected: [at(2029, 2, 28), at(2030, 2, 28), at(2031, 2, 28)]
+    }
+  ];
+
+  for (const { name, rule, first, expected } of cases) {
+    const normalized = normalizeRecurrence(rule, first);
+    assert.deepStrictEqual(occurrences(normalized, first, expected.length + 1), expected, name);
+  }
+});
+
+test('getNextOccurrenceDate stops at the end date', () => {
+  const first = at(2026, 3, 2);
+  const rule = normalizeRecurrence({ frequency: 'weekly', until: at(2026, 3, 16) }, first);
+
+  assert.deepStrictEqual(occurrences(rule, first), [at(2026, 3, 9), at(2026, 3, 16)]);
+});
+
+test('getNextOccurrenceDate stops after the count, the first occurrence included', () => {
+  const first = at(2026, 3, 2);
+  const rule = normalizeRecurrence({ frequency: 'daily', count: 3 }, first);
+
+  assert.deepStrictEqual(occurrences(rule, first), [at(2026, 3, 3), at(2026, 3, 4)]);
+});
+
+test('a count set mid-series counts from the occurrence it was edited at', () => {
+  // Occurrence 5 of a daily series is edited to end after 3 occurrences: 5, 6 and 7
+  const edited = at(2026, 3, 6);
+  const rule = normalizeRecurrence({ frequency: 'daily', count: 3 }, edited, 5);
+
+  assert.deepStrictEqual(getNextOccurrenceDate(rule, edited, 5), at(2026, 3, 7));
+  assert.deepStrictEqual(getNextOccurrenceDate(rule, at(2026, 3, 7), 6), at(2026, 3, 8));
+  assert.strictEqual(getNextOccurrenceDate(rule, at(2026, 3, 8), 7), null);
+});
+
+test('rules stored before startIndex existed count from the first occurrence', () => {
+  const first = at(2026, 3, 2);
+  const { startIndex, ...rule } = normalizeRecurrence({ frequency: 'daily', count: 2 }, first);
+
+  assert.strictEqual(startIndex, 1);
+  assert.deepStrictEqual(getNextOccurrenceDate(rule, first, 1), at(2026, 3, 3));
+  assert.strictEqual(getNextOccurrenceDate(rule, at(2026, 3, 3), 2), null);
+});
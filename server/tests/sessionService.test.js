@@ -0,0 +1,27 @@
+const { test, afterEach } = require('node:test');
+const assert = require('node:assert');
+const { Session } = require('../models');
+const { isSessionActive } = require('../services/sessionService');
+
+const originalExists = Session.exists;
+const originalAvailable = global.mongodbAvailable;
+
+afterEach(() => {
+  Session.exists = originalExists;
+  global.mongodbAvailable = originalAvailable;
+});
+
+test('a token without a session is refused while the database is up', async () => {
+  global.mongodbAvailable = true;
+  Session.exists = async () => ({ _id: 'session-1' });
+
+  assert.strictEqual(await isSessionActive(null, 'user-1'), false);
+  assert.strictEqual(await isSessionActive('session-1', 'user-1'), true);
+});
+
+test('sessions are not checked without the database, so the mock login works', async () => {
+  global.mongodbAvailable = false;
+  Session.exists = async () => assert.fail('Session store queried while the database is offline');
+
+  assert.strictEqual(await isSessionActive(null, 'mock-admin-id'), true);
+});
@@ -0,0 +1,48 @@
+const { test, afterEach } = require('node:test');
+const assert = require('node:assert');
+const { Counter, SyncEvent } = require('../models');
+const { emitAndRecord } = require('../services/syncService');
+
+const originalNext = Counter.next;
+const originalCreate = SyncEvent.create;
+
+afterEach(() => {
+  Counter.next = originalNext;
+  SyncEvent.create = originalCreate;
+});
+
+// Collects what would be emitted, and to which room
+const fakeIo = () => {
+  const emitted = [];
+  const target = room => ({ emit: (event, ...args) => emitted.push({ room, event, args }) });
+  return { emitted, to: target, emit: (event, ...args) => emitted.push({ room: 'all', event, args }) };
+};
+
+test('live events carry the sequence number they were recorded with', async () => {
+  const recorded = [];
+  Counter.next = async () => 42;
+  SyncEvent.create = async (doc) => recorded.push(doc);
+  const io = fakeIo();
+
+  await emitAndRecord(io, 'chat-1', 'messageDeleted', { chatId: 'chat-1', messageId: 'm-1' });
+
+  assert.deepStrictEqual(io.emitted, [{
+    room: 'chat-1',
+    event: 'messageDeleted',
+    args: [{ chatId: 'chat-1', messageId: 'm-1' }, { seq: 42 }]
+  }]);
+  assert.strictEqual(recorded.length, 1);
+  assert.strictEqual(recorded[0].seq, 42);
+});
+
+test('events are still emitted when no sequence number can be allocated', async () => {
+  let created = false;
+  Counter.next = async () => { throw new Error('database unavailable'); };
+  SyncEvent.create = async () => { created = true; };
+  const io = fakeIo();
+
+  await emitAndRecord(io, 'all', 'chat-deleted', { chatId: 'chat-1' });
+
+  assert.deepStrictEqual(io.emitted[0].args, [{ chatId: 'chat-1' }, { seq: null }]);
+  assert.strictEqual(created, false);
+});
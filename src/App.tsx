@@ -13,8 +13,12 @@ import UserProfile from './components/UserProfile';
 import SearchResultsPage from './components/Search/SearchResultsPage';
 import AdminDashboardPage from './components/Admin/AdminDashboardPage';
 import AuditLogPage from './components/Admin/AuditLogPage';
+import TrashPage from './components/Admin/TrashPage';
+import RolesPage from './components/Admin/RolesPage';
 import TasksPage from './components/Tasks/TasksPage';
+import TimesheetPage from './components/Tasks/TimesheetPage';
 import Modal from './components/UI/Modal';
+import ConnectionBanner from './components/UI/ConnectionBanner';
 import StartChatModal from './components/Chat/StartChatModal';
 import { useResponsive } from './components/Layout/ResponsiveContainer';
 
@@ -152,8 +156,14 @@ function App() {
           return <AdminDashboardPage />;
         case 'audit-log':
           return <AuditLogPage />;
+        case 'trash':
+          return <TrashPage />;
+        case 'roles':
+          return <RolesPage />;
         case 'tasks':
           return <TasksPage />;
+        case 'timesheet':
+          return <TimesheetPage />;
  // For now, calendar view is handled within TasksPage
         case 'chat':
         default:
@@ -173,6 +183,7 @@ function App() {
         
         {/* Main content area - takes remaining space */}
         <div className="flex-1 flex flex-col min-w-0">
+          <ConnectionBanner />
           {renderCurrentScreen()}
         </div>
         
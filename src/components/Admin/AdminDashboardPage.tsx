@@ -1,8 +1,11 @@
 import React, { useEffect, useState } from 'react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { Users, MessageSquare, Briefcase } from 'lucide-react';
+import { Users, MessageSquare, Briefcase, Clock, Download } from 'lucide-react';
+import { format, startOfMonth, addDays } from 'date-fns';
 import dataService from '../../services/dataService';
 import { toast } from 'react-hot-toast';
+import { useApp } from '../../context/AppContext';
+import { TimeReport, TimeReportRow } from '../../types';
 
 interface StatCardProps {
   title: string;
@@ -80,19 +83,145 @@ const BroadcastForm = () => {
   );
 };
 
+const csvCell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+// Hours logged on tasks in a date range, by team, user and tag
+const TimeReportPanel = () => {
+  const { teams } = useApp();
+  const [range, setRange] = useState(() => ({
+    start: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
+    end: format(new Date(), 'yyyy-MM-dd'),
+  }));
+  const [teamId, setTeamId] = useState('');
+  const [report, setReport] = useState<TimeReport | null>(null);
+
+  useEffect(() => {
+    if (!range.start || !range.end || range.start > range.end) return;
+    dataService.getTimeReport({
+      start: new Date(`${range.start}T00:00`).toISOString(),
+      // The end date is inclusive
+      end: addDays(new Date(`${range.end}T00:00`), 1).toISOString(),
+      ...(teamId ? { teamId } : {})
+    })
+      .then(setReport)
+      .catch((err) => console.error('Failed to load time report', err));
+  }, [range.start, range.end, teamId]);
+
+  const sections: Array<{ label: string; rows: TimeReportRow[] }> = report
+    ? [
+        { label: 'Team', rows: report.byTeam },
+        { label: 'User', rows: report.byUser },
+        { label: 'Tag', rows: report.byTag },
+      ]
+    : [];
+
+  const exportCsv = () => {
+    if (!report) return;
+    const csvContent = [
+      'Group,Name,Hours,Entries',
+      ...sections.flatMap(({ label, rows }) => rows.map(row => [label, row.name, row.hours, row.entries].map(csvCell).join(','))),
+      ['Total', '', report.totalHours, report.entries].map(csvCell).join(',')
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `time-report-${range.start}-to-${range.end}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+    toast.success('Time report exported');
+  };
+
+  return (
+    <div className="bg-white dark:bg-secondary-800 p-6 rounded-lg shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-xl font-bold flex items-center gap-2">
+          <Clock className="w-5 h-5 text-primary-600" />
+          Time Report
+          {report && <span className="text-base font-normal text-secondary-500 dark:text-secondary-400">{report.totalHours}h logged</span>}
+        </h2>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input
+            type="date"
+            value={range.start}
+            onChange={(e) => setRange(prev => ({ ...prev, start: e.target.value }))}
+            className="p-2 border rounded-lg dark:bg-secondary-700 dark:border-secondary-600"
+          />
+          <span className="text-secondary-500">to</span>
+          <input
+            type="date"
+            value={range.end}
+            onChange={(e) => setRange(prev => ({ ...prev, end: e.target.value }))}
+            className="p-2 border rounded-lg dark:bg-secondary-700 dark:border-secondary-600"
+          />
+          <select
+            value={teamId}
+            onChange={(e) => setTeamId(e.target.value)}
+            className="p-2 border rounded-lg dark:bg-secondary-700 dark:border-secondary-600"
+          >
+            <option value="">All teams</option>
+            {teams.map(team => (
+              <option key={team.id} value={team.id}>{team.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={exportCsv}
+            disabled={!report || report.entries === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {report && report.entries === 0 ? (
+        <p className="text-sm text-secondary-500 dark:text-secondary-400">No time logged in this range.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {sections.map(({ label, rows }) => (
+            <div key={label}>
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-secondary-500 dark:text-secondary-400 mb-2">By {label.toLowerCase()}</h3>
+              {rows.length === 0 ? (
+                <p className="text-sm text-secondary-500 dark:text-secondary-400">Nothing logged</p>
+              ) : (
+                <ul className="space-y-1">
+                  {rows.map(row => (
+                    <li key={`${row.id}-${row.name}`} className="flex justify-between items-center p-2 rounded-lg hover:bg-secondary-50 dark:hover:bg-secondary-700">
+                      <span className="font-medium truncate">{row.name}</span>
+                      <span className="font-bold text-primary-600 tabular-nums">{row.hours}h</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Each panel is shown only with the permission its data needs
 export default function AdminDashboardPage() {
+  const { hasPermission } = useApp();
+  const canViewStats = hasPermission('stats.view');
+  const canBroadcast = hasPermission('broadcast.send');
+  const canViewTimeReport = hasPermission('time.manage');
   const [stats, setStats] = useState<DashboardStats | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(canViewStats);
 
   useEffect(() => {
+    if (!canViewStats) return;
     dataService.getDashboardStats()
       .then((data: DashboardStats) => setStats(data))
       .catch((err) => console.error("Failed to load dashboard stats", err))
       .finally(() => setLoading(false));
-  }, []);
+  }, [canViewStats]);
 
   if (loading) return <div className="p-8 text-center">Loading dashboard...</div>;
-  if (!stats) return <div className="p-8 text-center">Could not load dashboard data.</div>;
+  if (canViewStats && !stats) return <div className="p-8 text-center">Could not load dashboard data.</div>;
 
   return (
     <div className="flex-1 flex flex-col bg-white dark:bg-secondary-900 h-full">
@@ -113,40 +242,48 @@ export default function AdminDashboardPage() {
       <div className="flex-1 overflow-y-auto p-4">
         <div className="w-full max-w-6xl mx-auto space-y-6">
       
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <StatCard title="Total Users" value={stats.totalUsers} icon={<Users className="w-6 h-6 text-primary-600" />} />
-        <StatCard title="Online Users" value={stats.onlineUsers} icon={<Users className="w-6 h-6 text-green-500" />} />
-        <StatCard title="Total Chats" value={stats.totalChats} icon={<Briefcase className="w-6 h-6 text-yellow-500" />} />
-        <StatCard title="Total Messages" value={stats.totalMessages} icon={<MessageSquare className="w-6 h-6 text-blue-500" />} />
-      </div>
+      {stats && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          <StatCard title="Total Users" value={stats.totalUsers} icon={<Users className="w-6 h-6 text-primary-600" />} />
+          <StatCard title="Online Users" value={stats.onlineUsers} icon={<Users className="w-6 h-6 text-green-500" />} />
+          <StatCard title="Total Chats" value={stats.totalChats} icon={<Briefcase className="w-6 h-6 text-yellow-500" />} />
+          <StatCard title="Total Messages" value={stats.totalMessages} icon={<MessageSquare className="w-6 h-6 text-blue-500" />} />
+        </div>
+      )}
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {stats && (
+          <div className="bg-white dark:bg-secondary-800 p-6 rounded-lg shadow-sm">
+            <h2 className="text-xl font-bold mb-4">Messages - Last 7 Days</h2>
+            <ResponsiveContainer width="100%" height={300}>
+              <AreaChart data={stats.messagesLast7Days}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="_id" />
+                <YAxis />
+                <Tooltip />
+                <Area type="monotone" dataKey="count" stroke="#8884d8" fill="#8884d8" />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+        {canBroadcast && <BroadcastForm />}
+      </div>
+
+      {stats && (
         <div className="bg-white dark:bg-secondary-800 p-6 rounded-lg shadow-sm">
-          <h2 className="text-xl font-bold mb-4">Messages - Last 7 Days</h2>
-          <ResponsiveContainer width="100%" height={300}>
-            <AreaChart data={stats.messagesLast7Days}>
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey="_id" />
-              <YAxis />
-              <Tooltip />
-              <Area type="monotone" dataKey="count" stroke="#8884d8" fill="#8884d8" />
-            </AreaChart>
-          </ResponsiveContainer>
+          <h2 className="text-xl font-bold mb-4">Top 5 Active Users</h2>
+          <ul className="space-y-2">
+            {stats.topUsers.map((user, index) => (
+              <li key={index} className="flex justify-between items-center p-2 rounded-lg hover:bg-secondary-50 dark:hover:bg-secondary-700">
+                <span className="font-medium">{user.name}</span>
+                <span className="font-bold text-primary-600">{user.count} messages</span>
+              </li>
+            ))}
+          </ul>
         </div>
-        <BroadcastForm />
-      </div>
+      )}
 
-      <div className="bg-white dark:bg-secondary-800 p-6 rounded-lg shadow-sm">
-        <h2 className="text-xl font-bold mb-4">Top 5 Active Users</h2>
-        <ul className="space-y-2">
-          {stats.topUsers.map((user, index) => (
-            <li key={index} className="flex justify-between items-center p-2 rounded-lg hover:bg-secondary-50 dark:hover:bg-secondary-700">
-              <span className="font-medium">{user.name}</span>
-              <span className="font-bold text-primary-600">{user.count} messages</span>
-            </li>
-          ))}
-        </ul>
-      </div>
+      {canViewTimeReport && <TimeReportPanel />}
         </div>
       </div>
     </div>
@@ -19,7 +19,15 @@ import {
   CheckCircle,
   XCircle,
   AlertTriangle,
-  BarChart
+  BarChart,
+  Pin,
+  ArchiveRestore,
+  ShieldCheck,
+  ShieldOff,
+  KeyRound,
+  Lock,
+  Unlock,
+  Smartphone
 } from 'lucide-react';
 import { useApp } from '../../context/AppContext';
 import dataServiceAPI from '../../services/dataService';
@@ -116,8 +124,36 @@ export default function AuditLogPage() {
     switch (action) {
       case 'user.login':
         return <Shield className="w-4 h-4 text-blue-500" />;
+      case 'session.revoked':
+        return <Shield className="w-4 h-4 text-orange-500" />;
+      case 'auth.login_failed':
+        return <XCircle className="w-4 h-4 text-orange-500" />;
+      case 'auth.account_locked':
+        return <Lock className="w-4 h-4 text-red-500" />;
+      case 'auth.account_unlocked':
+        return <Unlock className="w-4 h-4 text-green-500" />;
+      case 'auth.new_device_login':
+        return <Smartphone className="w-4 h-4 text-yellow-500" />;
+      case 'auth.password_reset_requested':
+      case 'auth.password_reset':
+        return <KeyRound className="w-4 h-4 text-blue-500" />;
+      case 'twofactor.enabled':
+        return <ShieldCheck className="w-4 h-4 text-green-500" />;
+      case 'twofactor.disabled':
+      case 'twofactor.reset':
+        return <ShieldOff className="w-4 h-4 text-orange-500" />;
+      case 'twofactor.recovery_used':
+      case 'twofactor.recovery_codes.regenerated':
+        return <KeyRound className="w-4 h-4 text-yellow-500" />;
+      case 'security.policy.updated':
+        return <Settings className="w-4 h-4 text-purple-500" />;
       case 'user.role.updated':
         return <Settings className="w-4 h-4 text-purple-500" />;
+      case 'role.created':
+      case 'role.updated':
+        return <KeyRound className="w-4 h-4 text-purple-500" />;
+      case 'role.deleted':
+        return <Trash2 className="w-4 h-4 text-red-500" />;
       case 'user.deleted':
         return <Trash2 className="w-4 h-4 text-red-500" />;
       case 'user.approved':
@@ -134,6 +170,13 @@ export default function AuditLogPage() {
         return <MessageSquare className="w-4 h-4 text-green-500" />;
       case 'message.deleted':
         return <Trash2 className="w-4 h-4 text-red-500" />;
+      case 'message.pinned':
+      case 'message.unpinned':
+        return <Pin className="w-4 h-4 text-indigo-500" />;
+      case 'trash.restored':
+        return <ArchiveRestore className="w-4 h-4 text-green-500" />;
+      case 'trash.purged':
+        return <Trash2 className="w-4 h-4 text-red-500" />;
       case 'broadcast.sent':
         return <Bell className="w-4 h-4 text-yellow-500" />;
       default:
@@ -145,8 +188,40 @@ export default function AuditLogPage() {
     switch (action) {
       case 'user.login':
         return 'User Login';
+      case 'session.revoked':
+        return 'Session Signed Out';
+      case 'auth.login_failed':
+        return 'Failed Sign-In';
+      case 'auth.account_locked':
+        return 'Account Locked';
+      case 'auth.account_unlocked':
+        return 'Account Unlocked';
+      case 'auth.new_device_login':
+        return 'Sign-In From New Device';
+      case 'auth.password_reset_requested':
+        return 'Password Reset Requested';
+      case 'auth.password_reset':
+        return 'Password Reset';
+      case 'twofactor.enabled':
+        return '2FA Turned On';
+      case 'twofactor.disabled':
+        return '2FA Turned Off';
+      case 'twofactor.recovery_used':
+        return '2FA Recovery Code Used';
+      case 'twofactor.recovery_codes.regenerated':
+        return '2FA Recovery Codes Regenerated';
+      case 'twofactor.reset':
+        return '2FA Reset';
+      case 'security.policy.updated':
+        return 'Security Policy Updated';
       case 'user.role.updated':
-        return 'Role Updated';
+        return 'Member Role Changed';
+      case 'role.created':
+        return 'Role Created';
+      case 'role.updated':
+        return 'Role Edited';
+      case 'role.deleted':
+        return 'Role Deleted';
       case 'user.deleted':
         return 'User Deleted';
       case 'user.approved':
@@ -163,6 +238,14 @@ export default function AuditLogPage() {
         return 'Message Sent';
       case 'message.deleted':
         return 'Message Deleted';
+      case 'message.pinned':
+        return 'Message Pinned';
+      case 'message.unpinned':
+        return 'Message Unpinned';
+      case 'trash.restored':
+        return 'Restored From Trash';
+      case 'trash.purged':
+        return 'Purged From Trash';
       case 'broadcast.sent':
         return 'Broadcast Sent';
       default:
@@ -173,22 +256,45 @@ export default function AuditLogPage() {
   const getActionColor = (action: string) => {
     switch (action) {
       case 'user.login':
+      case 'auth.password_reset_requested':
+      case 'auth.password_reset':
         return 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400';
       case 'user.role.updated':
+      case 'security.policy.updated':
+      case 'role.created':
+      case 'role.updated':
         return 'bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-400';
       case 'user.deleted':
       case 'user.rejected':
+      case 'role.deleted':
+      case 'auth.account_locked':
       case 'chat.deleted':
       case 'message.deleted':
         return 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400';
       case 'user.approved':
       case 'message.sent':
+      case 'twofactor.enabled':
+      case 'auth.account_unlocked':
         return 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400';
       case 'chat.created':
         return 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400';
+      case 'message.pinned':
+      case 'message.unpinned':
+        return 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/20 dark:text-indigo-400';
+      case 'trash.restored':
+        return 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400';
+      case 'trash.purged':
+        return 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400';
       case 'chat.cleared':
+      case 'session.revoked':
+      case 'twofactor.disabled':
+      case 'twofactor.reset':
+      case 'auth.login_failed':
         return 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400';
       case 'broadcast.sent':
+      case 'twofactor.recovery_used':
+      case 'twofactor.recovery_codes.regenerated':
+      case 'auth.new_device_login':
         return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400';
       default:
         return 'bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-400';
@@ -211,7 +317,10 @@ export default function AuditLogPage() {
       (log.actorId?.email?.toLowerCase().includes(searchTerm.toLowerCase()) || false) ||
       getActionLabel(log.action).toLowerCase().includes(searchTerm.toLowerCase());
     
-    const matchesAction = !actionFilter || log.action === actionFilter;
+    // "auth.*" and similar options match every action in that group
+    const matchesAction = !actionFilter || (actionFilter.endsWith('.*')
+      ? log.action.startsWith(actionFilter.slice(0, -1))
+      : log.action === actionFilter);
     
     const matchesDate = !dateFilter || 
       format(new Date(log.createdAt), 'yyyy-MM-dd') === dateFilter;
@@ -599,7 +708,25 @@ export default function AuditLogPage() {
             >
               <option value="">All Actions</option>
               <option value="user.login">User Login</option>
-              <option value="user.role.updated">Role Updated</option>
+              <option value="session.revoked">Session Signed Out</option>
+              <option value="auth.*">All Sign-In Security</option>
+              <option value="auth.login_failed">Failed Sign-In</option>
+              <option value="auth.account_locked">Account Locked</option>
+              <option value="auth.account_unlocked">Account Unlocked</option>
+              <option value="auth.new_device_login">Sign-In From New Device</option>
+              <option value="auth.password_reset_requested">Password Reset Requested</option>
+              <option value="auth.password_reset">Password Reset</option>
+              <option value="twofactor.enabled">2FA Turned On</option>
+              <option value="twofactor.disabled">2FA Turned Off</option>
+              <option value="twofactor.recovery_used">2FA Recovery Code Used</option>
+              <option value="twofactor.recovery_codes.regenerated">2FA Recovery Codes Regenerated</option>
+              <option value="twofactor.reset">2FA Reset</option>
+              <option value="security.policy.updated">Security Policy Updated</option>
+              <option value="user.role.updated">Member Role Changed</option>
+              <option value="role.*">All Role Changes</option>
+              <option value="role.created">Role Created</option>
+              <option value="role.updated">Role Edited</option>
+              <option value="role.deleted">Role Deleted</option>
               <option value="user.deleted">User Deleted</option>
               <option value="user.approved">User Approved</option>
               <option value="user.rejected">User Rejected</option>
@@ -608,6 +735,10 @@ export default function AuditLogPage() {
               <option value="chat.cleared">Chat Cleared</option>
               <option value="message.sent">Message Sent</option>
               <option value="message.deleted">Message Deleted</option>
+              <option value="message.pinned">Message Pinned</option>
+              <option value="message.unpinned">Message Unpinned</option>
+              <option value="trash.restored">Restored From Trash</option>
+              <option value="trash.purged">Purged From Trash</option>
               <option value="broadcast.sent">Broadcast Sent</option>
             </select>
 
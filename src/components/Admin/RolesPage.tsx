@@ -0,0 +1,217 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { ArrowLeft, KeyRound, Lock, Plus, Save, Trash2, Users } from 'lucide-react';
+import { useApp } from '../../context/AppContext';
+import { Permission, Role, RoleInput } from '../../types';
+import { MANAGER_ROLE } from '../../utils/permissions';
+
+const EMPTY_ROLE: RoleInput = { name: '', description: '', permissions: [] };
+
+// Role editor: what each role may do, and which roles there are
+export default function RolesPage() {
+  const { setCurrentScreen, roles, permissionCatalog, hasPermission, saveRole, deleteRole } = useApp();
+  // The key of the role being edited, or null for a new one
+  const [selectedKey, setSelectedKey] = useState<string | null>(roles[0]?.key ?? null);
+  const [draft, setDraft] = useState<RoleInput>(EMPTY_ROLE);
+  const [saving, setSaving] = useState(false);
+
+  const selectedRole = roles.find(role => role.key === selectedKey);
+  const isManagerRole = selectedKey === MANAGER_ROLE;
+
+  useEffect(() => {
+    setDraft(selectedRole
+      ? { name: selectedRole.name, description: selectedRole.description, permissions: selectedRole.permissions }
+      : EMPTY_ROLE);
+    // Only when switching roles, so a role update from elsewhere doesn't wipe unsaved edits
+  }, [selectedKey]);
+
+  const togglePermission = (permission: Permission) => {
+    setDraft(prev => ({
+      ...prev,
+      permissions: prev.permissions.includes(permission)
+        ? prev.permissions.filter(item => item !== permission)
+        : [...prev.permissions, permission]
+    }));
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const saved = await saveRole(selectedKey, draft);
+      setSelectedKey(saved.key);
+    } catch (error) {
+      console.error('Failed to save role:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: Role) => {
+    if (!window.confirm(`Delete the ${role.name} role?`)) return;
+    try {
+      await deleteRole(role.key);
+      setSelectedKey(roles.find(item => item.key !== role.key)?.key ?? null);
+    } catch (error) {
+      console.error('Failed to delete role:', error);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col bg-white dark:bg-secondary-900 h-screen overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between p-6 border-b border-secondary-200 dark:border-secondary-700">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => setCurrentScreen('chat')}
+            className="p-2 rounded-lg hover:bg-secondary-100 dark:hover:bg-secondary-800 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-secondary-900 dark:text-white">Roles</h1>
+            <p className="text-sm text-secondary-600 dark:text-secondary-400">
+              What members with each role are allowed to do
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => setSelectedKey(null)}
+          className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          New Role
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="w-full max-w-6xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Role list */}
+          <div className="space-y-2">
+            {roles.map(role => (
+              <button
+                key={role.key}
+                onClick={() => setSelectedKey(role.key)}
+                className={`w-full text-left p-4 rounded-lg border transition-colors ${
+                  role.key === selectedKey
+                    ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/30'
+                    : 'border-secondary-200 dark:border-secondary-700 hover:bg-secondary-50 dark:hover:bg-secondary-800'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-secondary-900 dark:text-white truncate">{role.name}</span>
+                  <span className="flex items-center gap-1 text-xs text-secondary-500 dark:text-secondary-400">
+                    <Users className="w-3 h-3" />
+                    {role.userCount}
+                  </span>
+                </div>
+                <p className="text-xs text-secondary-500 dark:text-secondary-400 mt-1">
+                  {role.key === MANAGER_ROLE ? 'Every permission' : `${role.permissions.length} of ${permissionCatalog.length} permissions`}
+                  {role.isSystem && ' · Built-in'}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          {/* Editor */}
+          <form
+            onSubmit={handleSubmit}
+            className="lg:col-span-2 p-6 bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg space-y-4"
+          >
+            <div className="flex items-center gap-2">
+              <KeyRound className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+              <h2 className="text-lg font-semibold text-secondary-900 dark:text-white">
+                {selectedRole ? `Edit ${selectedRole.name}` : 'New Role'}
+              </h2>
+            </div>
+
+            <div>
+              <label htmlFor="role-name" className="block text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-1">Name</label>
+              <input
+                id="role-name"
+                type="text"
+                required
+                maxLength={40}
+                value={draft.name}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                className="w-full px-3 py-2 bg-secondary-50 dark:bg-secondary-700 border border-secondary-200 dark:border-secondary-600 rounded-lg text-secondary-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="role-description" className="block text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-1">Description</label>
+              <input
+                id="role-description"
+                type="text"
+                maxLength={200}
+                value={draft.description}
+                onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                className="w-full px-3 py-2 bg-secondary-50 dark:bg-secondary-700 border border-secondary-200 dark:border-secondary-600 rounded-lg text-secondary-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-2">Permissions</p>
+              {isManagerRole && (
+                <p className="flex items-center gap-2 p-3 mb-2 text-sm text-secondary-600 dark:text-secondary-400 bg-secondary-50 dark:bg-secondary-700 rounded-lg">
+                  <Lock className="w-4 h-4" />
+                  Managers always have every permission, so someone can always fix the other roles.
+                </p>
+              )}
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {permissionCatalog.map(permission => {
+                  // The server refuses changes to permissions the editor doesn't have
+                  const locked = isManagerRole || !hasPermission(permission.key);
+                  return (
+                    <label
+                      key={permission.key}
+                      className={`flex items-start gap-3 p-3 rounded-lg border border-secondary-200 dark:border-secondary-700 ${
+                        locked ? 'opacity-60' : 'cursor-pointer hover:bg-secondary-50 dark:hover:bg-secondary-700'
+                      }`}
+                      title={locked && !isManagerRole ? "You don't have this permission yourself" : undefined}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={isManagerRole || draft.permissions.includes(permission.key)}
+                        disabled={locked}
+                        onChange={() => togglePermission(permission.key)}
+                        className="mt-1 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      <span className="text-sm">
+                        <span className="block font-medium text-secondary-900 dark:text-white">{permission.label}</span>
+                        <span className="text-secondary-600 dark:text-secondary-400">{permission.description}</span>
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between pt-2">
+              {selectedRole && !selectedRole.isSystem ? (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(selectedRole)}
+                  disabled={selectedRole.userCount > 0}
+                  title={selectedRole.userCount > 0 ? 'Give its members another role first' : undefined}
+                  className="flex items-center gap-2 px-3 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg disabled:opacity-50 disabled:hover:bg-transparent"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete role
+                </button>
+              ) : <span />}
+              <button
+                type="submit"
+                disabled={saving || !draft.name.trim()}
+                className="flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:bg-primary-400 text-white rounded-lg transition-colors text-sm font-semibold"
+              >
+                <Save className="w-4 h-4" />
+                {selectedRole ? 'Save' : 'Create Role'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { ArchiveRestore, ArrowLeft, Calendar, Hash, MessageSquare, RefreshCw, Trash2, User } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useApp } from '../../context/AppContext';
+import dataServiceAPI from '../../services/dataService';
+import { TrashItem } from '../../types';
+import { logger } from '../../utils/logger';
+
+// Deleted chats and cleared messages, kept for the server's retention window
+export default function TrashPage() {
+  const { setCurrentScreen } = useApp();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchTrash = async () => {
+    setLoading(true);
+    try {
+      const data = await dataServiceAPI.getTrash();
+      setItems(data.items);
+      setRetentionDays(data.retentionDays);
+    } catch (error) {
+      logger.error('Failed to load trash', { error: (error as Error).message }, 'TrashPage');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      await dataServiceAPI.restoreTrashItem(item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+      toast.success(item.type === 'chat' ? 'Chat restored' : 'Messages restored');
+    } catch (error) {
+      logger.error('Failed to restore trash item', { error: (error as Error).message, trashItemId: item.id }, 'TrashPage');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    if (!window.confirm(`Permanently delete ${getItemTitle(item).toLowerCase()}? This action cannot be undone.`)) return;
+
+    setBusyId(item.id);
+    try {
+      await dataServiceAPI.purgeTrashItem(item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+      toast.success('Permanently deleted');
+    } catch (error) {
+      logger.error('Failed to purge trash item', { error: (error as Error).message, trashItemId: item.id }, 'TrashPage');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const getItemTitle = (item: TrashItem) => {
+    const name = item.chatName || (item.chatType === 'direct' ? 'Direct chat' : 'Untitled chat');
+    return item.type === 'chat' ? `Chat "${name}"` : `Messages cleared from "${name}"`;
+  };
+
+  return (
+    <div className="flex-1 flex flex-col bg-white dark:bg-secondary-900 h-screen overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between p-6 border-b border-secondary-200 dark:border-secondary-700">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => setCurrentScreen('chat')}
+            className="p-2 rounded-lg hover:bg-secondary-100 dark:hover:bg-secondary-800 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-secondary-900 dark:text-white">Trash</h1>
+            <p className="text-sm text-secondary-600 dark:text-secondary-400">
+              {retentionDays
+                ? `Deleted chats and cleared messages are kept for ${retentionDays} days`
+                : 'Deleted chats and cleared messages'}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={fetchTrash}
+          disabled={loading}
+          className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-6">
+        {loading && items.length === 0 ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            <span className="ml-3 text-secondary-600 dark:text-secondary-400">Loading trash...</span>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="flex flex-col items-center justify-center p-8 text-secondary-500 dark:text-secondary-400">
+            <Trash2 className="w-16 h-16 mb-4 opacity-50" />
+            <p className="text-lg font-medium">Trash is empty</p>
+            <p className="text-sm">Deleted chats and cleared messages will appear here</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {items.map(item => (
+              <div
+                key={item.id}
+                className="bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg p-4"
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex items-start gap-3 flex-1 min-w-0">
+                    <div className="p-2 rounded-full bg-secondary-100 dark:bg-secondary-700">
+                      {item.type === 'chat'
+                        ? <Hash className="w-4 h-4 text-red-500" />
+                        : <MessageSquare className="w-4 h-4 text-orange-500" />}
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-secondary-900 dark:text-white truncate">{getItemTitle(item)}</p>
+                      <div className="mt-1 space-y-1 text-sm text-secondary-600 dark:text-secondary-400">
+                        <div className="flex items-center gap-2">
+                          <User className="w-4 h-4" />
+                          <span>Deleted by {item.deletedByName || 'Unknown User'}</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Calendar className="w-4 h-4" />
+                          <span>{format(new Date(item.deletedAt), 'MMM d, yyyy, h:mm a')}</span>
+                          <span className="text-xs">· purged {formatDistanceToNow(new Date(item.expiresAt), { addSuffix: true })}</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <MessageSquare className="w-4 h-4" />
+                          <span>{item.messageCount} {item.messageCount === 1 ? 'message' : 'messages'}</span>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleRestore(item)}
+                      disabled={busyId === item.id}
+                      className="flex items-center gap-2 px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                    >
+                      <ArchiveRestore className="w-4 h-4" />
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => handlePurge(item)}
+                      disabled={busyId === item.id}
+                      className="flex items-center gap-2 px-3 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      Delete forever
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { FormEvent, useState } from 'react';
+import { AlertCircle, CheckCircle, KeyRound } from 'lucide-react';
+import dataService from '../../services/dataService';
+
+interface ForgotPasswordFormProps {
+  initialEmail?: string;
+  onBack: () => void;
+}
+
+// Ask for a password reset link by email
+export default function ForgotPasswordForm({ initialEmail = '', onBack }: ForgotPasswordFormProps) {
+  const [email, setEmail] = useState(initialEmail);
+  const [sentMessage, setSentMessage] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+    try {
+      setSentMessage(await dataService.requestPasswordReset(email));
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Could not send the reset link. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (sentMessage) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-start gap-3 p-4 bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800 rounded-lg">
+          <CheckCircle className="w-5 h-5 flex-shrink-0 text-green-600 dark:text-green-400" />
+          <p className="text-sm text-green-700 dark:text-green-300">
+            {sentMessage} The link works once, for one hour.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onBack}
+          className="w-full bg-primary-600 hover:bg-primary-700 text-white py-3 px-4 rounded-lg font-medium transition-colors shadow-lg"
+        >
+          Back to sign in
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="flex items-center gap-3">
+        <KeyRound className="w-6 h-6 text-primary-600 dark:text-primary-400" />
+        <div>
+          <h2 className="text-lg font-semibold text-secondary-900 dark:text-white">Forgot your password?</h2>
+          <p className="text-sm text-secondary-600 dark:text-secondary-400">We'll email you a link to choose a new one.</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-3 p-4 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg">
+          <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400" />
+          <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+
+      <input
+        type="email"
+        required
+        autoFocus
+        placeholder="you@example.com"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        className="w-full px-4 py-3 bg-secondary-50 dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent text-secondary-900 dark:text-white"
+      />
+
+      <button
+        type="submit"
+        disabled={loading}
+        className="w-full bg-primary-600 hover:bg-primary-700 disabled:bg-primary-400 text-white py-3 px-4 rounded-lg font-medium transition-colors shadow-lg"
+      >
+        {loading ? 'Sending...' : 'Send reset link'}
+      </button>
+
+      <button
+        type="button"
+        onClick={onBack}
+        className="w-full text-sm text-secondary-600 dark:text-secondary-400 hover:text-secondary-800 dark:hover:text-secondary-200"
+      >
+        Back to sign in
+      </button>
+    </form>
+  );
+}
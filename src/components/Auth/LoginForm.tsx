@@ -1,13 +1,30 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { MessageSquare, Eye, EyeOff, AlertCircle } from 'lucide-react';
+import { MessageSquare, Eye, EyeOff, AlertCircle, CheckCircle, ShieldCheck } from 'lucide-react';
 import { useApp } from '../../context/AppContext';
+import { TwoFactorChallenge } from '../../types';
+import dataService from '../../services/dataService';
 import RegistrationForm from './RegistrationForm';
+import TwoFactorLoginStep from './TwoFactorLoginStep';
+import TwoFactorEnrolment from './TwoFactorEnrolment';
+import ForgotPasswordForm from './ForgotPasswordForm';
+import ResetPasswordForm from './ResetPasswordForm';
+
+// Account emails link to the app with ?reset-password=<token> or ?verify-email=<token>
+const getLinkToken = (name: string) => new URLSearchParams(window.location.search).get(name);
+
+const clearLinkTokens = () => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete('reset-password');
+  url.searchParams.delete('verify-email');
+  window.history.replaceState(null, '', url.toString());
+};
 
 export default function LoginForm() {
   const { t } = useTranslation();
-  const { login } = useApp();
+  const { login, completeEnrolmentLogin } = useApp();
   const [showRegistration, setShowRegistration] = useState(false);
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
   const [formData, setFormData] = useState({
     email: '',
     password: ''
@@ -15,6 +32,22 @@ export default function LoginForm() {
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  const [showForgotPassword, setShowForgotPassword] = useState(false);
+  const [resetToken, setResetToken] = useState(() => getLinkToken('reset-password'));
+  const [notice, setNotice] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    const verifyToken = getLinkToken('verify-email');
+    // The tokens are single-use; keep them out of the history and the address bar
+    clearLinkTokens();
+    if (!verifyToken) return;
+    dataService.verifyEmail(verifyToken)
+      .then(text => setNotice({ type: 'success', text }))
+      .catch(err => setNotice({
+        type: 'error',
+        text: err.response?.data?.error || 'Could not confirm your email address. Please try again.'
+      }));
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -24,13 +57,16 @@ export default function LoginForm() {
     try {
       const success = await login(formData.email, formData.password);
       
-      if (!success) {
+      if (typeof success === 'object') {
+        setChallenge(success);
+        setFormData({ ...formData, password: '' });
+      } else if (!success) {
         setError('Invalid email or password. Please check your credentials.');
       }
       // If success is true, the user will be redirected automatically by the context
-    } catch (error) {
+    } catch (error: any) {
       console.error('Login error:', error);
-      setError('Login failed. Please try again.');
+      setError(error.response?.data?.error || 'Login failed. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -41,6 +77,51 @@ export default function LoginForm() {
     return <RegistrationForm onBackToLogin={() => setShowRegistration(false)} />;
   }
 
+  const renderTwoFactorStep = (current: TwoFactorChallenge) => {
+    if (current.type === 'verify') {
+      return <TwoFactorLoginStep challengeToken={current.challengeToken} onBack={() => setChallenge(null)} />;
+    }
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-3">
+          <ShieldCheck className="w-6 h-6 text-primary-600 dark:text-primary-400" />
+          <div>
+            <h2 className="text-lg font-semibold text-secondary-900 dark:text-white">Set up two-factor authentication</h2>
+            <p className="text-sm text-secondary-600 dark:text-secondary-400">Your organisation requires it for manager accounts.</p>
+          </div>
+        </div>
+        <TwoFactorEnrolment
+          challengeToken={current.challengeToken}
+          onDone={(session) => {
+            if (session) completeEnrolmentLogin(session);
+          }}
+          onCancel={() => setChallenge(null)}
+        />
+      </div>
+    );
+  };
+
+  // Steps that take the place of the sign-in form inside the card
+  const renderAlternateStep = () => {
+    if (challenge) return renderTwoFactorStep(challenge);
+    if (resetToken) {
+      return (
+        <ResetPasswordForm
+          token={resetToken}
+          onDone={() => setResetToken(null)}
+          onRequestNewLink={() => {
+            setResetToken(null);
+            setShowForgotPassword(true);
+          }}
+        />
+      );
+    }
+    if (showForgotPassword) {
+      return <ForgotPasswordForm initialEmail={formData.email} onBack={() => setShowForgotPassword(false)} />;
+    }
+    return null;
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-secondary-50 dark:from-secondary-900 dark:via-secondary-800 dark:to-primary-900 flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -59,81 +140,110 @@ export default function LoginForm() {
 
         {/* Login Form */}
         <div className="bg-white dark:bg-secondary-800 rounded-2xl shadow-xl border border-secondary-200 dark:border-secondary-700 p-8">
-          <form onSubmit={handleSubmit} className="space-y-6">
-            {error && (
-              <div className="flex items-center gap-3 p-4 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg">
-                <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400" />
-                <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
-              </div>
-            )}
-
-            <div>
-              <label className="block text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-2" htmlFor="email">
-                {t('login.emailLabel')}
-              </label>
-              <input
-                id="email"
-                type="email"
-                required
-                value={formData.email}
-                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-                className="w-full px-4 py-3 bg-secondary-50 dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent text-secondary-900 dark:text-white"
-                placeholder={t('login.emailPlaceholder')}
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-2" htmlFor="password">
-                {t('login.passwordLabel')}
-              </label>
-              <div className="relative">
+          {renderAlternateStep() || (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <div className="flex items-center gap-3 p-4 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg">
+                  <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400" />
+                  <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+                </div>
+              )}
+
+              {notice && (
+                <div className={`flex items-start gap-3 p-4 border rounded-lg ${
+                  notice.type === 'success'
+                    ? 'bg-green-50 dark:bg-green-900/30 border-green-200 dark:border-green-800'
+                    : 'bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-800'
+                }`}>
+                  {notice.type === 'success'
+                    ? <CheckCircle className="w-5 h-5 flex-shrink-0 text-green-600 dark:text-green-400" />
+                    : <AlertCircle className="w-5 h-5 flex-shrink-0 text-red-600 dark:text-red-400" />}
+                  <p className={`text-sm ${notice.type === 'success' ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300'}`}>
+                    {notice.text}
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-2" htmlFor="email">
+                  {t('login.emailLabel')}
+                </label>
                 <input
-                  id="password"
-                  type={showPassword ? 'text' : 'password'}
+                  id="email"
+                  type="email"
                   required
-                  value={formData.password}
-                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                  className="w-full px-4 py-3 pr-12 bg-secondary-50 dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent text-secondary-900 dark:text-white"
-                  placeholder={t('login.passwordPlaceholder')}
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  className="w-full px-4 py-3 bg-secondary-50 dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent text-secondary-900 dark:text-white"
+                  placeholder={t('login.emailPlaceholder')}
                 />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-1/2 transform -translate-y-1/2 text-secondary-400 hover:text-secondary-600 dark:hover:text-secondary-300"
-                >
-                  {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-                </button>
               </div>
-            </div>
-
-            <button
-              type="submit"
-              disabled={loading}
-              className="w-full bg-primary-600 hover:bg-primary-700 disabled:bg-primary-400 text-white py-3 px-4 rounded-lg font-medium transition-all duration-200 transform hover:scale-105 disabled:scale-100 shadow-lg hover:shadow-xl disabled:shadow-md"
-            >
-              {loading ? (
-                <div className="flex items-center justify-center gap-2">
-                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                  {t('login.button')}
+
+              <div>
+                <label className="block text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-2" htmlFor="password">
+                  {t('login.passwordLabel')}
+                </label>
+                <div className="relative">
+                  <input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    required
+                    value={formData.password}
+                    onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                    className="w-full px-4 py-3 pr-12 bg-secondary-50 dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent text-secondary-900 dark:text-white"
+                    placeholder={t('login.passwordPlaceholder')}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-secondary-400 hover:text-secondary-600 dark:hover:text-secondary-300"
+                  >
+                    {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                  </button>
                 </div>
-              ) : (
-                t('login.button')
-              )}
-            </button>
+                <div className="mt-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setError('');
+                      setShowForgotPassword(true);
+                    }}
+                    className="text-sm text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300"
+                  >
+                    Forgot password?
+                  </button>
+                </div>
+              </div>
 
-            <div className="text-center pt-4 border-t border-secondary-200 dark:border-secondary-700">
-              <p className="text-sm text-secondary-600 dark:text-secondary-400 mb-3">
-                {t('login.noAccount')}
-              </p>
               <button
-                type="button"
-                onClick={() => setShowRegistration(true)}
-                className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 font-medium transition-colors"
+                type="submit"
+                disabled={loading}
+                className="w-full bg-primary-600 hover:bg-primary-700 disabled:bg-primary-400 text-white py-3 px-4 rounded-lg font-medium transition-all duration-200 transform hover:scale-105 disabled:scale-100 shadow-lg hover:shadow-xl disabled:shadow-md"
               >
-                {t('login.createAccount')}
+                {loading ? (
+                  <div className="flex items-center justify-center gap-2">
+                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                    {t('login.button')}
+                  </div>
+                ) : (
+                  t('login.button')
+                )}
               </button>
-            </div>
-          </form>
+
+              <div className="text-center pt-4 border-t border-secondary-200 dark:border-secondary-700">
+                <p className="text-sm text-secondary-600 dark:text-secondary-400 mb-3">
+                  {t('login.noAccount')}
+                </p>
+                <button
+                  type="button"
+                  onClick={() => setShowRegistration(true)}
+                  className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 font-medium transition-colors"
+                >
+                  {t('login.createAccount')}
+                </button>
+              </div>
+            </form>
+          )}
         </div>
 
         {/* Footer */}
@@ -0,0 +1,57 @@
+import { Copy, Download } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface RecoveryCodesProps {
+  codes: string[];
+}
+
+// Freshly issued recovery codes; they can't be shown again once this is closed
+export default function RecoveryCodes({ codes }: RecoveryCodesProps) {
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(text);
+    toast.success('Recovery codes copied to clipboard');
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([`IIB Chat recovery codes\n\n${text}\n`], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'iib-chat-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-secondary-600 dark:text-secondary-400 mb-3">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app.
+        They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-3 mb-3 bg-secondary-50 dark:bg-secondary-900 border border-secondary-200 dark:border-secondary-700 rounded-lg font-mono text-sm text-secondary-900 dark:text-white">
+        {codes.map(code => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm bg-secondary-100 dark:bg-secondary-700 text-secondary-700 dark:text-secondary-300 rounded-lg hover:bg-secondary-200 dark:hover:bg-secondary-600"
+        >
+          <Copy className="w-4 h-4" />
+          Copy
+        </button>
+        <button
+          type="button"
+          onClick={handleDownload}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm bg-secondary-100 dark:bg-secondary-700 text-secondary-700 dark:text-secondary-300 rounded-lg hover:bg-secondary-200 dark:hover:bg-secondary-600"
+        >
+          <Download className="w-4 h-4" />
+          Download
+        </button>
+      </div>
+    </div>
+  );
+}
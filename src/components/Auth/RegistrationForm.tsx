@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
-import { UserPlus, Eye, EyeOff, AlertCircle, CheckCircle, ArrowLeft } from 'lucide-react';
+import { UserPlus, Eye, EyeOff, AlertCircle, CheckCircle, ArrowLeft, Mail } from 'lucide-react';
+import toast from 'react-hot-toast';
 import { useApp } from '../../context/AppContext';
+import dataService from '../../services/dataService';
 
 interface RegistrationFormProps {
   onBackToLogin: () => void;
@@ -19,6 +21,8 @@ export default function RegistrationForm({ onBackToLogin }: RegistrationFormProp
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const [success, setSuccess] = useState(false);
+  const [submittedEmail, setSubmittedEmail] = useState('');
+  const [resending, setResending] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -49,6 +53,7 @@ export default function RegistrationForm({ onBackToLogin }: RegistrationFormProp
       
       if (success) {
         setSuccess(true);
+        setSubmittedEmail(formData.email);
         setFormData({ name: '', email: '', password: '', confirmPassword: '' });
       } else {
         setError('Registration failed. Please try again.');
@@ -65,6 +70,17 @@ export default function RegistrationForm({ onBackToLogin }: RegistrationFormProp
     setLoading(false);
   };
 
+  const handleResend = async () => {
+    setResending(true);
+    try {
+      toast.success(await dataService.resendVerificationEmail(submittedEmail));
+    } catch (error) {
+      console.error('Resend confirmation email error:', error);
+    } finally {
+      setResending(false);
+    }
+  };
+
   if (success) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-secondary-50 dark:from-secondary-900 dark:via-secondary-800 dark:to-primary-900 flex items-center justify-center p-4">
@@ -77,22 +93,30 @@ export default function RegistrationForm({ onBackToLogin }: RegistrationFormProp
               Registration Submitted
             </h1>
             <p className="text-secondary-600 dark:text-secondary-400">
-              Your account request has been sent for approval
+              Confirm your email address to send your request for approval
             </p>
           </div>
 
           <div className="bg-white dark:bg-secondary-800 rounded-2xl shadow-xl border border-secondary-200 dark:border-secondary-700 p-8">
             <div className="text-center">
               <div className="w-12 h-12 bg-amber-100 dark:bg-amber-900/30 rounded-full flex items-center justify-center mx-auto mb-4">
-                <AlertCircle className="w-6 h-6 text-amber-600 dark:text-amber-400" />
+                <Mail className="w-6 h-6 text-amber-600 dark:text-amber-400" />
               </div>
               <h3 className="text-lg font-semibold text-secondary-900 dark:text-white mb-2">
-                Pending Manager Approval
+                Check Your Email
               </h3>
-              <p className="text-secondary-600 dark:text-secondary-400 mb-6">
-                A manager will review your registration request and approve your access to the chat system. 
-                You will be notified once your account is activated.
+              <p className="text-secondary-600 dark:text-secondary-400 mb-4">
+                We sent a link to <span className="font-medium text-secondary-900 dark:text-white">{submittedEmail}</span>.
+                Open it within 24 hours to confirm your address. A manager will then review your request
+                and approve your access to the chat system.
               </p>
+              <button
+                onClick={handleResend}
+                disabled={resending}
+                className="mb-6 text-sm text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 font-medium disabled:opacity-50"
+              >
+                {resending ? 'Sending...' : "Didn't get it? Send the link again"}
+              </button>
               
               <button
                 onClick={onBackToLogin}
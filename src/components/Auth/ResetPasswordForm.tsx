@@ -0,0 +1,136 @@
+import { FormEvent, useState } from 'react';
+import { AlertCircle, CheckCircle, Eye, EyeOff, KeyRound } from 'lucide-react';
+import dataService from '../../services/dataService';
+
+interface ResetPasswordFormProps {
+  token: string;
+  onDone: () => void;
+  onRequestNewLink: () => void;
+}
+
+// Choose a new password from the link in a reset email
+export default function ResetPasswordForm({ token, onDone, onRequestNewLink }: ResetPasswordFormProps) {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [doneMessage, setDoneMessage] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (password.length < 6) {
+      setError('Password must be at least 6 characters long');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setDoneMessage(await dataService.resetPassword(token, password));
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Could not change your password. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (doneMessage) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-start gap-3 p-4 bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800 rounded-lg">
+          <CheckCircle className="w-5 h-5 flex-shrink-0 text-green-600 dark:text-green-400" />
+          <p className="text-sm text-green-700 dark:text-green-300">
+            {doneMessage} Any devices that were signed in have been signed out.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onDone}
+          className="w-full bg-primary-600 hover:bg-primary-700 text-white py-3 px-4 rounded-lg font-medium transition-colors shadow-lg"
+        >
+          Sign in
+        </button>
+      </div>
+    );
+  }
+
+  const inputClassName = 'w-full px-4 py-3 pr-12 bg-secondary-50 dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent text-secondary-900 dark:text-white';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="flex items-center gap-3">
+        <KeyRound className="w-6 h-6 text-primary-600 dark:text-primary-400" />
+        <div>
+          <h2 className="text-lg font-semibold text-secondary-900 dark:text-white">Choose a new password</h2>
+          <p className="text-sm text-secondary-600 dark:text-secondary-400">At least 6 characters.</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-3 p-4 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg">
+          <AlertCircle className="w-5 h-5 flex-shrink-0 text-red-600 dark:text-red-400" />
+          <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+
+      <div className="relative">
+        <input
+          type={showPassword ? 'text' : 'password'}
+          required
+          autoFocus
+          autoComplete="new-password"
+          placeholder="New password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={inputClassName}
+        />
+        <button
+          type="button"
+          onClick={() => setShowPassword(!showPassword)}
+          className="absolute right-3 top-1/2 transform -translate-y-1/2 text-secondary-400 hover:text-secondary-600 dark:hover:text-secondary-300"
+        >
+          {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+        </button>
+      </div>
+      <input
+        type={showPassword ? 'text' : 'password'}
+        required
+        autoComplete="new-password"
+        placeholder="Confirm new password"
+        value={confirmPassword}
+        onChange={(e) => setConfirmPassword(e.target.value)}
+        className={inputClassName}
+      />
+
+      <button
+        type="submit"
+        disabled={loading}
+        className="w-full bg-primary-600 hover:bg-primary-700 disabled:bg-primary-400 text-white py-3 px-4 rounded-lg font-medium transition-colors shadow-lg"
+      >
+        {loading ? 'Saving...' : 'Change password'}
+      </button>
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          onClick={onDone}
+          className="text-secondary-600 dark:text-secondary-400 hover:text-secondary-800 dark:hover:text-secondary-200"
+        >
+          Back to sign in
+        </button>
+        <button
+          type="button"
+          onClick={onRequestNewLink}
+          className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 font-medium"
+        >
+          Get a new link
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,108 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { TwoFactorEnrolment as Enrolment, User } from '../../types';
+import dataService from '../../services/dataService';
+import RecoveryCodes from './RecoveryCodes';
+
+interface TwoFactorEnrolmentProps {
+  // Set when enrolling part-way through login
+  challengeToken?: string;
+  onDone: (session?: { user: User; token: string }) => void;
+  onCancel: () => void;
+}
+
+// Scan the QR code, confirm with a code from the app, then save the recovery codes
+export default function TwoFactorEnrolment({ challengeToken, onDone, onCancel }: TwoFactorEnrolmentProps) {
+  const [enrolment, setEnrolment] = useState<Enrolment | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [working, setWorking] = useState(false);
+  const [result, setResult] = useState<{ recoveryCodes: string[]; session?: { user: User; token: string } } | null>(null);
+
+  useEffect(() => {
+    dataService.setupTwoFactor(challengeToken)
+      .then(setEnrolment)
+      .catch(err => setError(err.response?.data?.error || 'Could not start two-factor setup'));
+  }, [challengeToken]);
+
+  const handleEnable = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setWorking(true);
+    try {
+      setResult(await dataService.enableTwoFactor(code, challengeToken));
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Could not turn on two-factor authentication');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodes codes={result.recoveryCodes} />
+        <button
+          type="button"
+          onClick={() => onDone(result.session)}
+          className="w-full bg-primary-600 hover:bg-primary-700 text-white py-2 px-4 rounded-lg font-medium transition-colors"
+        >
+          I've saved my recovery codes
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleEnable} className="space-y-4">
+      <p className="text-sm text-secondary-600 dark:text-secondary-400">
+        Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy,
+        then enter the 6-digit code it shows.
+      </p>
+
+      {enrolment ? (
+        <div className="flex flex-col items-center gap-2">
+          <img src={enrolment.qrCode} alt="Two-factor QR code" className="w-44 h-44 rounded-lg bg-white p-1" />
+          <p className="text-xs text-secondary-500 dark:text-secondary-400">Can't scan it? Enter this key instead:</p>
+          <code className="px-2 py-1 text-xs break-all bg-secondary-100 dark:bg-secondary-900 text-secondary-900 dark:text-white rounded">
+            {enrolment.secret.match(/.{1,4}/g)?.join(' ')}
+          </code>
+        </div>
+      ) : !error && (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary-600" />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <input
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        maxLength={6}
+        placeholder="123456"
+        value={code}
+        onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+        className="w-full px-4 py-2 text-center tracking-widest font-mono bg-secondary-50 dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 text-secondary-900 dark:text-white"
+      />
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm text-secondary-700 dark:text-secondary-300 hover:bg-secondary-100 dark:hover:bg-secondary-700 rounded-lg"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={working || !enrolment || code.length !== 6}
+          className="px-4 py-2 text-sm bg-primary-600 hover:bg-primary-700 disabled:bg-primary-400 text-white rounded-lg font-medium transition-colors"
+        >
+          {working ? 'Verifying...' : 'Turn on'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,94 @@
+import { FormEvent, useState } from 'react';
+import { AlertCircle, ShieldCheck } from 'lucide-react';
+import { useApp } from '../../context/AppContext';
+
+interface TwoFactorLoginStepProps {
+  challengeToken: string;
+  onBack: () => void;
+}
+
+// Second login step: a code from the authenticator app, or a recovery code
+export default function TwoFactorLoginStep({ challengeToken, onBack }: TwoFactorLoginStepProps) {
+  const { loginWithSecondFactor } = useApp();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [value, setValue] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+    try {
+      await loginWithSecondFactor(challengeToken, useRecoveryCode ? { recoveryCode: value } : { code: value });
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Verification failed. Please try again.');
+      setLoading(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setValue('');
+    setError('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="flex items-center gap-3">
+        <ShieldCheck className="w-6 h-6 text-primary-600 dark:text-primary-400" />
+        <div>
+          <h2 className="text-lg font-semibold text-secondary-900 dark:text-white">Two-factor authentication</h2>
+          <p className="text-sm text-secondary-600 dark:text-secondary-400">
+            {useRecoveryCode ? 'Enter one of your recovery codes.' : 'Enter the 6-digit code from your authenticator app.'}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-3 p-4 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg">
+          <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400" />
+          <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+
+      <input
+        type="text"
+        required
+        autoFocus
+        inputMode={useRecoveryCode ? 'text' : 'numeric'}
+        autoComplete="one-time-code"
+        maxLength={useRecoveryCode ? 11 : 6}
+        placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+        value={value}
+        onChange={(e) => setValue(useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, ''))}
+        className="w-full px-4 py-3 text-center tracking-widest font-mono bg-secondary-50 dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent text-secondary-900 dark:text-white"
+      />
+
+      <button
+        type="submit"
+        disabled={loading || (!useRecoveryCode && value.length !== 6)}
+        className="w-full bg-primary-600 hover:bg-primary-700 disabled:bg-primary-400 text-white py-3 px-4 rounded-lg font-medium transition-colors shadow-lg"
+      >
+        {loading ? 'Verifying...' : 'Verify'}
+      </button>
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          onClick={onBack}
+          className="text-secondary-600 dark:text-secondary-400 hover:text-secondary-800 dark:hover:text-secondary-200"
+        >
+          Back to sign in
+        </button>
+        <button
+          type="button"
+          onClick={toggleMode}
+          className="text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 font-medium"
+        >
+          {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+        </button>
+      </div>
+    </form>
+  );
+}
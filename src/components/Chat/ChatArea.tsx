@@ -1,12 +1,22 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Paperclip, Smile, MoreVertical, AlertTriangle, X, Users, Trash2, Phone, Video } from 'lucide-react';
+import { Send, Paperclip, Smile, MoreVertical, AlertTriangle, X, Users, Trash2, Phone, Video, CalendarClock } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
 import { useApp } from '../../context/AppContext';
 import dataService from '../../services/dataService';
 import MessageList from './MessageList';
+import ThreadPanel from './ThreadPanel';
+import PinnedMessagesBar from './PinnedMessagesBar';
+import MentionSuggestions, { useMentionAutocomplete } from './MentionSuggestions';
+import ScheduleSendMenu from './ScheduleSendMenu';
+import ScheduledMessagesList from './ScheduledMessagesList';
+import FormattingToolbar from './FormattingToolbar';
+import MarkdownContent from './MarkdownContent';
 import EmojiPicker from '../UI/EmojiPicker';
 import Modal from '../UI/Modal';
 import CallInvitationModal from '../Call/CallInvitationModal';
 import VideoCallInterface from '../Call/VideoCallInterface';
+import { MarkdownFormat, applyFormat, applyServerSanitization, getFormatShortcut } from '../../utils/markdown';
 
 interface ChatAreaProps {
   isOversight?: boolean;
@@ -20,6 +30,8 @@ export default function ChatArea({ isOversight = false }: ChatAreaProps) {
     users, 
     messages, 
     sendMessage,
+    scheduleMessage,
+    scheduledMessages,
     // For oversight
     activeOversightChat,
     overseenMessages,
@@ -28,8 +40,11 @@ export default function ChatArea({ isOversight = false }: ChatAreaProps) {
     cancelReply,
     // For typing
     typingUsers,
+    // For threads
+    activeThread,
     deleteChat,
-    clearChatMessages
+    clearChatMessages,
+    hasPermission
   } = useApp();
   
   const [messageText, setMessageText] = useState('');
@@ -43,6 +58,9 @@ export default function ChatArea({ isOversight = false }: ChatAreaProps) {
   const [showCallModal, setShowCallModal] = useState(false);
   const [isInCall, setIsInCall] = useState(false);
   const [incomingCallData, setIncomingCallData] = useState<any>(null);
+  const [showScheduleMenu, setShowScheduleMenu] = useState(false);
+  const [showScheduledList, setShowScheduledList] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
 
   // Handle typing indicator
   useEffect(() => {
@@ -75,7 +93,7 @@ export default function ChatArea({ isOversight = false }: ChatAreaProps) {
       // Ensure smooth transition
       textarea.style.transition = 'height 0.2s ease';
     }
-  }, [messageText]);
+  }, [messageText, showPreview]);
 
   // Ensure chats and users are always arrays
   const safeChats = Array.isArray(chats) ? chats : [];
@@ -89,6 +107,19 @@ export default function ChatArea({ isOversight = false }: ChatAreaProps) {
   const currentMessages = safeChats.length > 0 && activeChat ? 
     (messages[activeChat] || []) : [];
 
+  const canUseBroadcastMention = ['group', 'general'].includes(currentChat?.type ?? '') && hasPermission('broadcast.send');
+  const mentionCandidates = (currentChat && currentChat.participants.length > 0
+    ? safeUsers.filter(u => currentChat.participants.includes(u.id))
+    : safeUsers
+  ).filter(u => u.id !== currentUser?.id);
+  const mention = useMentionAutocomplete({
+    text: messageText,
+    setText: setMessageText,
+    textareaRef,
+    candidates: mentionCandidates,
+    includeBroadcast: canUseBroadcastMention
+  });
+
   if (!currentChat || !currentUser) {
     return (
       <div className="flex-1 flex items-center justify-center bg-white dark:bg-secondary-900">
@@ -107,17 +138,76 @@ export default function ChatArea({ isOversight = false }: ChatAreaProps) {
     );
   }
 
-  const handleSendMessage = () => {
-    if (!messageText.trim() || !activeChat) return;
-
-    const messageType = currentChat?.type === 'announcements' && currentUser.role === 'manager' 
+  const composeMessage = () => {
+    const type: 'text' | 'announcement' = currentChat?.type === 'announcements' && hasPermission('broadcast.send')
       ? 'announcement' 
       : 'text';
 
-    sendMessage(activeChat, messageText.trim(), messageType);
+    const content = messageText.trim();
+    const mentions = mention.getMentionIds(content);
+
+    return { content, type, mentions };
+  };
+
+  const resetComposer = () => {
     setMessageText('');
+    mention.reset();
     setIsUrgent(false);
     setShowEmojiPicker(false);
+    setShowScheduleMenu(false);
+    setShowPreview(false);
+  };
+
+  const handleSendMessage = () => {
+    if (!messageText.trim() || !activeChat) return;
+
+    const { content, type, mentions } = composeMessage();
+    sendMessage(activeChat, content, type, undefined, mentions);
+    resetComposer();
+  };
+
+  const handleScheduleMessage = async (scheduledFor: Date) => {
+    if (!messageText.trim() || !activeChat) return;
+
+    const { content, type, mentions } = composeMessage();
+    const scheduled = await scheduleMessage(activeChat, content, scheduledFor, { type, isUrgent, mentions });
+    if (scheduled) {
+      resetComposer();
+      toast.success(`Message scheduled for ${format(scheduledFor, 'EEE, MMM d, HH:mm')}`);
+    }
+  };
+
+  // What the server will store, so the preview matches the sent message
+  const previewContent = showPreview ? applyServerSanitization(messageText) : '';
+
+  const scheduledInChat = scheduledMessages.filter(m => m.chatId === activeChat).length;
+
+  const handleMessageChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setMessageText(e.target.value);
+    mention.updateQuery(e.target.value, e.target.selectionStart);
+  };
+
+  const applyComposerFormat = (format: MarkdownFormat) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const result = applyFormat(messageText, textarea.selectionStart, textarea.selectionEnd, format);
+    setMessageText(result.text);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(result.selectionStart, result.selectionEnd);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const format = getFormatShortcut(e);
+    if (format) {
+      e.preventDefault();
+      applyComposerFormat(format);
+      return;
+    }
+
+    mention.handleKeyDown(e);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -166,16 +256,16 @@ export default function ChatArea({ isOversight = false }: ChatAreaProps) {
       : 'Direct message';
   };
 
-  const canSendAnnouncement = currentChat?.type === 'announcements' && currentUser.role === 'manager';
+  const canSendAnnouncement = currentChat?.type === 'announcements' && hasPermission('broadcast.send');
 
   const canDeleteChat = () => {
-    return currentUser.role === 'manager' && 
+    return hasPermission('chats.delete') && 
            currentChat.type !== 'general' && 
            currentChat.type !== 'announcements';
   };
 
   const canClearChat = () => {
-    return currentUser.role === 'manager';
+    return hasPermission('chats.delete');
   };
 
   const handleDeleteChat = async () => {
@@ -197,7 +287,7 @@ export default function ChatArea({ isOversight = false }: ChatAreaProps) {
   };
 
   return (
-    <div className="flex-1 flex flex-col h-full max-h-full bg-white dark:bg-secondary-900">
+    <div className="relative flex-1 flex flex-col h-full max-h-full bg-white dark:bg-secondary-900">
       {/* Header */}
       <div className="flex-shrink-0 flex items-center justify-between p-4 border-b border-secondary-200 dark:border-secondary-700 bg-white dark:bg-secondary-900">
         <div className="flex items-center gap-3">
@@ -262,9 +352,11 @@ export default function ChatArea({ isOversight = false }: ChatAreaProps) {
         </div>
       </div>
 
+      {!isOversight && activeChat && <PinnedMessagesBar chatId={activeChat} />}
+
       {/* Messages Container - Fixed Height */}
       <div className="flex-1 min-h-0 relative">
-        <MessageList messages={chatMessages || []} />
+        <MessageList messages={chatMessages || []} chatId={isOversight ? null : activeChat} />
       </div>
 
       {/* Typing Indicator - Absolute Position */}
@@ -290,6 +382,16 @@ export default function ChatArea({ isOversight = false }: ChatAreaProps) {
             </div>
           )}
 
+          {scheduledInChat > 0 && (
+            <button
+              onClick={() => setShowScheduledList(true)}
+              className="mb-2 flex items-center gap-1.5 text-xs text-primary-600 dark:text-primary-400 hover:underline"
+            >
+              <CalendarClock className="w-3.5 h-3.5" />
+              {scheduledInChat} scheduled {scheduledInChat === 1 ? 'message' : 'messages'} in this chat
+            </button>
+          )}
+
           {canSendAnnouncement && (
             <div className="mb-3 flex items-center gap-2">
               <button
@@ -306,26 +408,44 @@ export default function ChatArea({ isOversight = false }: ChatAreaProps) {
             </div>
           )}
           
+          <FormattingToolbar
+            onFormat={applyComposerFormat}
+            showPreview={showPreview}
+            onTogglePreview={() => setShowPreview(!showPreview)}
+          />
+
           <div className="flex items-end gap-3">
             <div className="flex-1 relative">
-              <textarea
-                ref={textareaRef}
-                value={messageText}
-                onChange={(e) => setMessageText(e.target.value)}
-                onKeyPress={handleKeyPress}
-                placeholder={
-                  canSendAnnouncement 
-                    ? "Type an announcement for the team..."
-                    : "Type a message..."
-                }
-                rows={1}
-                className="w-full resize-none rounded-lg border border-secondary-300 dark:border-secondary-600 bg-white dark:bg-secondary-800 px-4 py-3 pr-24 text-secondary-900 dark:text-white placeholder-secondary-500 dark:placeholder-secondary-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                style={{
-                  maxHeight: '120px',
-                  minHeight: '44px',
-                  transition: 'height 0.2s ease'
-                }}
-              />
+              {showPreview ? (
+                <div className="w-full min-h-[44px] max-h-60 overflow-y-auto rounded-lg border border-secondary-300 dark:border-secondary-600 bg-secondary-50 dark:bg-secondary-800 px-4 py-3 pr-24 text-secondary-900 dark:text-white">
+                  {previewContent ? (
+                    <MarkdownContent content={previewContent} mentionedUsers={mention.mentionedUsers} currentUserId={currentUser.id} />
+                  ) : (
+                    <p className="text-sm text-secondary-500 dark:text-secondary-400">Nothing to preview</p>
+                  )}
+                </div>
+              ) : (
+                <textarea
+                  ref={textareaRef}
+                  value={messageText}
+                  onChange={handleMessageChange}
+                  onKeyDown={handleKeyDown}
+                  onKeyPress={handleKeyPress}
+                  onBlur={mention.closeSuggestions}
+                  placeholder={
+                    canSendAnnouncement 
+                      ? "Type an announcement for the team..."
+                      : "Type a message..."
+                  }
+                  rows={1}
+                  className="w-full resize-none rounded-lg border border-secondary-300 dark:border-secondary-600 bg-white dark:bg-secondary-800 px-4 py-3 pr-24 text-secondary-900 dark:text-white placeholder-secondary-500 dark:placeholder-secondary-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  style={{
+                    maxHeight: '120px',
+                    minHeight: '44px',
+                    transition: 'height 0.2s ease'
+                  }}
+                />
+              )}
               
               <div className="absolute right-2 bottom-2 flex items-center gap-1">
                 <button
@@ -344,6 +464,13 @@ export default function ChatArea({ isOversight = false }: ChatAreaProps) {
                 </button>
               </div>
               
+              <MentionSuggestions
+                suggestions={mention.suggestions}
+                activeIndex={mention.activeIndex}
+                onSelect={mention.selectMention}
+                onHover={mention.setActiveIndex}
+              />
+
               {showEmojiPicker && (
                 <div className="absolute bottom-full right-0 mb-2 z-50">
                   <EmojiPicker 
@@ -356,6 +483,26 @@ export default function ChatArea({ isOversight = false }: ChatAreaProps) {
               )}
             </div>
             
+            <div className="relative">
+              <button
+                onClick={() => setShowScheduleMenu(!showScheduleMenu)}
+                disabled={!messageText.trim()}
+                className="p-3 rounded-lg text-secondary-500 dark:text-secondary-400 hover:bg-secondary-100 dark:hover:bg-secondary-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="Schedule send"
+              >
+                <CalendarClock className="w-5 h-5" />
+              </button>
+              {showScheduleMenu && messageText.trim() && (
+                <ScheduleSendMenu
+                  onSchedule={handleScheduleMessage}
+                  onViewScheduled={() => {
+                    setShowScheduleMenu(false);
+                    setShowScheduledList(true);
+                  }}
+                />
+              )}
+            </div>
+
             <button
               onClick={handleSendMessage}
               disabled={!messageText.trim()}
@@ -369,6 +516,12 @@ export default function ChatArea({ isOversight = false }: ChatAreaProps) {
             </button>
           </div>
           
+          {showPreview && previewContent !== messageText.trim() && (
+            <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+              HTML tags and script-like text are removed when the message is sent.
+            </p>
+          )}
+
           <input
             ref={fileInputRef}
             type="file"
@@ -379,6 +532,16 @@ export default function ChatArea({ isOversight = false }: ChatAreaProps) {
         </div>
       )}
 
+      {/* Scheduled Messages */}
+      {showScheduledList && (
+        <Modal isOpen={showScheduledList} onClose={() => setShowScheduledList(false)}>
+          <ScheduledMessagesList />
+        </Modal>
+      )}
+
+      {/* Thread Panel */}
+      {!isOversight && activeThread && <ThreadPanel />}
+
       {/* Delete Chat Modal */}
       {showDeleteModal && (
         <Modal isOpen={showDeleteModal} onClose={() => setShowDeleteModal(false)}>
@@ -390,7 +553,7 @@ export default function ChatArea({ isOversight = false }: ChatAreaProps) {
               Delete Chat
             </h3>
             <p className="text-secondary-600 dark:text-secondary-400 mb-6">
-              Are you sure you want to delete "{getChatTitle()}"? This action cannot be undone and will delete all messages.
+              Are you sure you want to delete "{getChatTitle()}"? The chat and all its messages will be moved to the trash, where a manager can restore them for a limited time.
             </p>
             <div className="flex gap-3 justify-center">
               <button
@@ -421,7 +584,7 @@ export default function ChatArea({ isOversight = false }: ChatAreaProps) {
               Clear Messages
             </h3>
             <p className="text-secondary-600 dark:text-secondary-400 mb-6">
-              Are you sure you want to clear all messages in "{getChatTitle()}"? This action cannot be undone.
+              Are you sure you want to clear all messages in "{getChatTitle()}"? The messages will be moved to the trash, where a manager can restore them for a limited time.
             </p>
             <div className="flex gap-3 justify-center">
               <button
@@ -0,0 +1,56 @@
+import { Bold, Code, Eye, Italic, List, ListOrdered, PenLine, SquareCode, Strikethrough, TextQuote } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { MarkdownFormat, getShortcutLabel } from '../../utils/markdown';
+
+interface FormattingToolbarProps {
+  onFormat: (format: MarkdownFormat) => void;
+  showPreview: boolean;
+  onTogglePreview: () => void;
+}
+
+const FORMAT_BUTTONS: { format: MarkdownFormat; label: string; icon: LucideIcon }[] = [
+  { format: 'bold', label: 'Bold', icon: Bold },
+  { format: 'italic', label: 'Italic', icon: Italic },
+  { format: 'strike', label: 'Strikethrough', icon: Strikethrough },
+  { format: 'code', label: 'Inline code', icon: Code },
+  { format: 'codeBlock', label: 'Code block', icon: SquareCode },
+  { format: 'bulletList', label: 'Bulleted list', icon: List },
+  { format: 'numberedList', label: 'Numbered list', icon: ListOrdered },
+  { format: 'quote', label: 'Quote', icon: TextQuote },
+];
+
+// Markdown formatting buttons above the composer, plus the write/preview switch
+export default function FormattingToolbar({ onFormat, showPreview, onTogglePreview }: FormattingToolbarProps) {
+  return (
+    <div className="mb-2 flex items-center gap-0.5">
+      {FORMAT_BUTTONS.map(({ format, label, icon: Icon }) => (
+        <button
+          key={format}
+          type="button"
+          // Keep the textarea's selection while clicking
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onFormat(format)}
+          disabled={showPreview}
+          className="p-1.5 rounded hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-500 dark:text-secondary-400 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+          title={`${label} (${getShortcutLabel(format)})`}
+        >
+          <Icon className="w-4 h-4" />
+        </button>
+      ))}
+
+      <button
+        type="button"
+        onClick={onTogglePreview}
+        className={`ml-auto flex items-center gap-1 px-2 py-1 rounded text-xs font-medium transition-colors ${
+          showPreview
+            ? 'bg-primary-100 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300'
+            : 'text-secondary-500 dark:text-secondary-400 hover:bg-secondary-100 dark:hover:bg-secondary-800'
+        }`}
+        title={showPreview ? 'Back to editing' : 'Preview formatting'}
+      >
+        {showPreview ? <PenLine className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+        {showPreview ? 'Write' : 'Preview'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import React from 'react';
+import { BroadcastMention, User } from '../../types';
+import { BlockNode, InlineNode, parseMarkdown } from '../../utils/markdown';
+import { HighlightTokenType, highlightCode } from '../../utils/highlight';
+import { splitMentionSegments } from '../../utils/mentions';
+
+interface MarkdownContentProps {
+  content: string;
+  mentionedUsers?: User[];
+  broadcastMention?: BroadcastMention | null;
+  currentUserId?: string;
+}
+
+const TOKEN_CLASSES: Record<HighlightTokenType, string> = {
+  keyword: 'text-purple-300',
+  string: 'text-green-300',
+  comment: 'text-secondary-400 italic',
+  number: 'text-amber-300',
+  plain: '',
+};
+
+// Message content rendered from the Markdown subset in utils/markdown, with @mentions highlighted
+export default function MarkdownContent({ content, mentionedUsers = [], broadcastMention, currentUserId }: MarkdownContentProps) {
+  const renderText = (text: string, key: React.Key) => (
+    <React.Fragment key={key}>
+      {splitMentionSegments(text, mentionedUsers, broadcastMention, currentUserId).map((segment, index) => segment.isMention ? (
+        <span
+          key={index}
+          className={`rounded px-0.5 font-medium ${
+            segment.isSelf
+              ? 'bg-amber-200 dark:bg-amber-700/60 text-amber-900 dark:text-amber-100'
+              : 'bg-primary-100 dark:bg-primary-900/40 text-primary-700 dark:text-primary-300'
+          }`}
+        >
+          {segment.text}
+        </span>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      ))}
+    </React.Fragment>
+  );
+
+  const renderInline = (nodes: InlineNode[]): React.ReactNode[] => nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return renderText(node.text, index);
+      case 'strong':
+        return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'strike':
+        return <s key={index}>{renderInline(node.children)}</s>;
+      case 'code':
+        return (
+          <code key={index} className="px-1 py-0.5 rounded bg-black/10 dark:bg-white/10 font-mono text-[0.85em]">
+            {node.text}
+          </code>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline break-all hover:opacity-80"
+          >
+            {node.text}
+          </a>
+        );
+    }
+  });
+
+  const renderBlocks = (blocks: BlockNode[]): React.ReactNode[] => blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index} className="whitespace-pre-wrap break-words">{renderInline(block.children)}</p>;
+      case 'codeBlock':
+        return (
+          <pre key={index} className="p-2 rounded-md bg-secondary-900 text-secondary-100 text-xs font-mono overflow-x-auto">
+            <code>
+              {highlightCode(block.code, block.language).map((token, tokenIndex) => (
+                <span key={tokenIndex} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+              ))}
+            </code>
+          </pre>
+        );
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex} className="break-words">{renderInline(item)}</li>
+        ));
+        return block.ordered
+          ? <ol key={index} start={block.start} className="list-decimal pl-5 space-y-0.5">{items}</ol>
+          : <ul key={index} className="list-disc pl-5 space-y-0.5">{items}</ul>;
+      }
+      case 'quote':
+        return (
+          <blockquote key={index} className="pl-3 border-l-4 border-secondary-300 dark:border-secondary-500 opacity-90 space-y-1">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+    }
+  });
+
+  return (
+    <div className="text-sm leading-relaxed space-y-1">
+      {renderBlocks(parseMarkdown(content))}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { AtSign } from 'lucide-react';
+import { User } from '../../types';
+import { MentionQuery, MentionSuggestion, getMentionQuery, getMentionSuggestions } from '../../utils/mentions';
+import UserAvatar from '../UI/UserAvatar';
+
+interface MentionSuggestionsProps {
+  suggestions: MentionSuggestion[];
+  activeIndex: number;
+  onSelect: (suggestion: MentionSuggestion) => void;
+  onHover: (index: number) => void;
+}
+
+const BROADCAST_DESCRIPTIONS = {
+  channel: 'Notify everyone in this chat',
+  here: 'Notify everyone online in this chat'
+};
+
+export default function MentionSuggestions({ suggestions, activeIndex, onSelect, onHover }: MentionSuggestionsProps) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-full left-0 mb-2 z-50 w-72 max-w-full rounded-lg border border-secondary-200 dark:border-secondary-700 bg-white dark:bg-secondary-800 shadow-lg overflow-hidden">
+      {suggestions.map((suggestion, index) => (
+        <button
+          key={suggestion.type === 'user' ? suggestion.user.id : suggestion.name}
+          // Keep focus in the textarea while selecting
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(suggestion);
+          }}
+          onMouseEnter={() => onHover(index)}
+          className={`w-full flex items-center gap-3 px-3 py-2 text-left text-sm transition-colors ${
+            index === activeIndex
+              ? 'bg-primary-50 dark:bg-primary-900/30'
+              : 'hover:bg-secondary-50 dark:hover:bg-secondary-700'
+          }`}
+        >
+          {suggestion.type === 'user' ? (
+            <>
+              <UserAvatar user={suggestion.user} size="xs" showStatus={false} />
+              <span className="font-medium text-secondary-900 dark:text-white truncate">{suggestion.user.name}</span>
+              <span className="ml-auto text-xs text-secondary-500 dark:text-secondary-400 capitalize">{suggestion.user.role}</span>
+            </>
+          ) : (
+            <>
+              <div className="w-6 h-6 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400 flex items-center justify-center">
+                <AtSign className="w-3.5 h-3.5" />
+              </div>
+              <span className="font-medium text-secondary-900 dark:text-white">@{suggestion.name}</span>
+              <span className="ml-auto text-xs text-secondary-500 dark:text-secondary-400 truncate">
+                {BROADCAST_DESCRIPTIONS[suggestion.name]}
+              </span>
+            </>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface MentionAutocompleteOptions {
+  text: string;
+  setText: (text: string) => void;
+  textareaRef: React.RefObject<HTMLTextAreaElement>;
+  candidates: User[];
+  includeBroadcast: boolean;
+}
+
+/**
+ * @mention autocomplete for a composer textarea: tracks the `@query` being typed,
+ * the suggestions for it and the users picked so far.
+ */
+export const useMentionAutocomplete = ({ text, setText, textareaRef, candidates, includeBroadcast }: MentionAutocompleteOptions) => {
+  const [query, setQuery] = useState<MentionQuery | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [mentionedUsers, setMentionedUsers] = useState<User[]>([]);
+
+  const suggestions = query ? getMentionSuggestions(query.query, candidates, includeBroadcast) : [];
+
+  const updateQuery = (value: string, caret: number) => {
+    setQuery(getMentionQuery(value, caret));
+    setActiveIndex(0);
+  };
+
+  const selectMention = (suggestion: MentionSuggestion) => {
+    if (!query) return;
+
+    const label = suggestion.type === 'user' ? suggestion.user.name : suggestion.name;
+    const before = text.slice(0, query.start);
+    const after = text.slice(query.start + query.query.length + 1);
+    const insertion = `@${label} `;
+    setText(before + insertion + after);
+    setQuery(null);
+
+    if (suggestion.type === 'user' && !mentionedUsers.some(u => u.id === suggestion.user.id)) {
+      setMentionedUsers(prev => [...prev, suggestion.user]);
+    }
+
+    // Move the caret to the end of the inserted mention
+    const caret = before.length + insertion.length;
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  // Returns true when the key was used to navigate or pick a suggestion
+  const handleKeyDown = (e: React.KeyboardEvent): boolean => {
+    if (suggestions.length === 0) return false;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+      return true;
+    }
+    if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      selectMention(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+      return true;
+    }
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      setQuery(null);
+      return true;
+    }
+    return false;
+  };
+
+  // Only keep mentions whose @Name is still in the text
+  const getMentionIds = (content: string) => mentionedUsers
+    .filter(user => content.includes(`@${user.name}`))
+    .map(user => user.id);
+
+  const reset = () => {
+    setMentionedUsers([]);
+    setQuery(null);
+  };
+
+  return {
+    suggestions,
+    activeIndex,
+    setActiveIndex,
+    mentionedUsers,
+    updateQuery,
+    selectMention,
+    handleKeyDown,
+    getMentionIds,
+    closeSuggestions: () => setQuery(null),
+    reset
+  };
+};
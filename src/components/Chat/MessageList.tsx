@@ -1,19 +1,36 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
 import { format, isToday, isYesterday, parseISO, isValid } from 'date-fns';
-import { AlertTriangle, FileText, Download, Edit, Trash2, Smile, CornerUpLeft, Check, CheckCheck } from 'lucide-react';
+import { AlertTriangle, FileText, Download, Edit, Trash2, Smile, CornerUpLeft, Check, CheckCheck, MessageSquare, ArrowDown, Loader2, Clock, AlertCircle, RotateCw, Pin, PinOff, ClipboardList } from 'lucide-react';
 import { useApp } from '../../context/AppContext';
-import { Message, LinkPreviewData } from '../../types';
+import { Message, LinkPreviewData, BroadcastMention } from '../../types';
 import UserAvatar from '../UI/UserAvatar';
 import EmojiPicker from '../UI/EmojiPicker';
 import { getLinkMetadata } from '../../services/dataService';
 import LinkPreviewCard from './LinkPreviewCard';
+import MessageRevisions from './MessageRevisions';
+import MarkdownContent from './MarkdownContent';
+import { canManagePins, getRoleBadge } from '../../utils/permissions';
+import { stripMarkdown } from '../../utils/markdown';
+import { getTaskDraftFromMessage } from '../../utils/tasks';
+import TaskMessageCard from './TaskMessageCard';
+import CreateTaskModal from '../Tasks/CreateTaskModal';
 
 interface MessageListProps {
   messages: Message[];
+  // Set for regular chats; enables loading history while scrolling
+  chatId?: string | null;
 }
 
-const MessageContentWithLinkPreview = ({ content }: { content: string }) => {
+interface MessageContentProps {
+  content: string;
+  mentions?: string[];
+  broadcastMention?: BroadcastMention | null;
+}
+
+const MessageContentWithLinkPreview = ({ content, mentions = [], broadcastMention }: MessageContentProps) => {
+  const { users, currentUser } = useApp();
   const [previewData, setPreviewData] = useState<LinkPreviewData | null>(null);
+  const mentionedUsers = users.filter(u => mentions.includes(u.id));
 
   useEffect(() => {
     const urlRegex = /(https?:\/\/[^\s]+)/g;
@@ -28,14 +45,23 @@ const MessageContentWithLinkPreview = ({ content }: { content: string }) => {
 
   return (
     <div>
-      <p className="text-sm leading-relaxed whitespace-pre-wrap">{content}</p>
+      <MarkdownContent
+        content={content}
+        mentionedUsers={mentionedUsers}
+        broadcastMention={broadcastMention}
+        currentUserId={currentUser?.id}
+      />
       {previewData && <LinkPreviewCard data={previewData} />}
     </div>
   );
 };
 
-export default function MessageList({ messages }: MessageListProps) {
-  const { currentUser, users, addReaction, editMessage, deleteMessage, setReplyingTo, chats, activeChat } = useApp();
+export default function MessageList({ messages, chatId }: MessageListProps) {
+  const { 
+    currentUser, users, addReaction, editMessage, deleteMessage, setReplyingTo, openThread, chats, activeChat,
+    messagePagination, loadOlderMessages, loadNewerMessages, jumpToLatest, highlightedMessageId, clearHighlightedMessage,
+    retryMessage, discardMessage, pinnedMessages, pinMessage, unpinMessage, openModal, closeModal, roles
+  } = useApp();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messageListRef = useRef<HTMLDivElement>(null);
   const [showEmojiPicker, setShowEmojiPicker] = React.useState<string | null>(null);
@@ -43,10 +69,52 @@ export default function MessageList({ messages }: MessageListProps) {
   const [editingMessage, setEditingMessage] = useState<{ id: string; content: string } | null>(null);
   const [shouldScrollToBottom, setShouldScrollToBottom] = useState(true);
   const lastMessageCountRef = useRef(messages.length);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  // Scroll position captured before older messages are prepended
+  const scrollAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  const firstMessageIdRef = useRef<string | undefined>(messages[0]?.id);
+  const forceScrollToBottomRef = useRef(false);
+  const pagination = chatId ? messagePagination[chatId] : undefined;
+  const pinnedIds = new Set((chatId ? pinnedMessages[chatId] || [] : []).map(pin => pin.messageId));
+  const canPin = chatId ? canManagePins(chats.find(c => c.id === chatId), currentUser, roles) : false;
+
+  useEffect(() => {
+    scrollAnchorRef.current = null;
+  }, [chatId, highlightedMessageId]);
+
+  // Keep the viewport on the same message when older history is prepended
+  useLayoutEffect(() => {
+    const messageList = messageListRef.current;
+    const anchor = scrollAnchorRef.current;
+    const firstMessageId = messages[0]?.id;
+    if (messageList && anchor && firstMessageId !== firstMessageIdRef.current) {
+      messageList.style.scrollBehavior = 'auto';
+      messageList.scrollTop = messageList.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+      messageList.style.scrollBehavior = '';
+      scrollAnchorRef.current = null;
+    }
+    firstMessageIdRef.current = firstMessageId;
+  }, [messages]);
+
+  // Scroll to and briefly highlight a message we jumped to
+  useEffect(() => {
+    if (!highlightedMessageId || !messageListRef.current) return;
+    const element = messageListRef.current.querySelector(`[data-message-id="${highlightedMessageId}"]`);
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timeout = window.setTimeout(clearHighlightedMessage, 3000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId, messages]);
 
   // Handle automatic scrolling
   useEffect(() => {
     if (!messageListRef.current) return;
+    // Don't pull the view away from a jumped-to message or a detached history window
+    if (highlightedMessageId || pagination?.hasMoreAfter) {
+      lastMessageCountRef.current = messages.length;
+      return;
+    }
 
     const messageList = messageListRef.current;
     const isScrolledToBottom = messageList.scrollHeight - messageList.scrollTop <= messageList.clientHeight + 100;
@@ -55,13 +123,16 @@ export default function MessageList({ messages }: MessageListProps) {
     // Auto-scroll in these cases:
     // 1. User was already at bottom
     // 2. New messages arrived and they're from the current user
+    // 3. The user asked to jump back to the latest messages
     const shouldAutoScroll = 
+      forceScrollToBottomRef.current ||
       isScrolledToBottom || 
       (hasNewMessages && messages[messages.length - 1]?.senderId === currentUser?.id);
 
     if (shouldAutoScroll) {
       messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }
+    forceScrollToBottomRef.current = false;
 
     lastMessageCountRef.current = messages.length;
   }, [messages, currentUser?.id]);
@@ -73,6 +144,24 @@ export default function MessageList({ messages }: MessageListProps) {
     const messageList = messageListRef.current;
     const isScrolledToBottom = messageList.scrollHeight - messageList.scrollTop <= messageList.clientHeight + 100;
     setShouldScrollToBottom(isScrolledToBottom);
+
+    if (!chatId || !pagination) return;
+
+    if (messageList.scrollTop < 100 && pagination.hasMoreBefore && !isLoadingOlder) {
+      scrollAnchorRef.current = { scrollHeight: messageList.scrollHeight, scrollTop: messageList.scrollTop };
+      setIsLoadingOlder(true);
+      loadOlderMessages(chatId).finally(() => setIsLoadingOlder(false));
+    }
+
+    if (isScrolledToBottom && pagination.hasMoreAfter) {
+      loadNewerMessages(chatId);
+    }
+  };
+
+  const handleJumpToLatest = async () => {
+    if (!chatId) return;
+    forceScrollToBottomRef.current = true;
+    await jumpToLatest(chatId);
   };
 
   const formatMessageTime = (dateInput: string | Date) => {
@@ -140,6 +229,20 @@ export default function MessageList({ messages }: MessageListProps) {
       className="absolute inset-0 overflow-y-auto p-4 space-y-4 scroll-smooth"
       style={{ overscrollBehavior: 'contain' }}
     >
+      {/* Older history */}
+      {pagination?.hasMoreBefore && (
+        <div className="flex justify-center py-2 text-sm text-secondary-500 dark:text-secondary-400">
+          {isLoadingOlder ? (
+            <span className="flex items-center gap-2">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading earlier messages...
+            </span>
+          ) : (
+            <span>Scroll up for earlier messages</span>
+          )}
+        </div>
+      )}
+
       {Object.entries(groupedMessages).map(([date, dayMessages]) => (
         <div key={date}>
           {/* Date Header */}
@@ -158,6 +261,7 @@ export default function MessageList({ messages }: MessageListProps) {
                 return (
                   <div 
                     key={message.id} 
+                    data-message-id={message.id}
                     className={`flex gap-3 ${message.senderId === currentUser?.id ? 'flex-row-reverse' : ''}`}
                   >
                     <div className="flex-shrink-0 w-8" />
@@ -177,6 +281,7 @@ export default function MessageList({ messages }: MessageListProps) {
 
               const sender = getSender(message.senderId);
               const isOwnMessage = message.senderId === currentUser?.id;
+              const isPinned = pinnedIds.has(message.id);
               const showAvatar = !isOwnMessage && (
                 index === 0 || 
                 dayMessages[index - 1].senderId !== message.senderId
@@ -208,7 +313,9 @@ export default function MessageList({ messages }: MessageListProps) {
                   data-message-id={message.id}
                   onMouseEnter={() => setHoveredMessageId(message.id)}
                   onMouseLeave={() => setHoveredMessageId(null)}
-                  className={`flex gap-3 group ${isOwnMessage ? 'flex-row-reverse' : ''}`}
+                  className={`flex gap-3 group rounded-lg transition-colors duration-700 ${isOwnMessage ? 'flex-row-reverse' : ''} ${
+                    message.id === highlightedMessageId ? 'bg-amber-100 dark:bg-amber-900/30' : ''
+                  } ${message.sendStatus === 'pending' ? 'opacity-70' : ''}`}
                 >
                   {/* Avatar */}
                   <div className="flex-shrink-0 w-8">
@@ -229,9 +336,9 @@ export default function MessageList({ messages }: MessageListProps) {
                         <span className="font-medium text-sm text-secondary-900 dark:text-white">
                           {sender?.name}
                         </span>
-                        {sender?.role === 'manager' && (
+                        {getRoleBadge(sender, roles) && (
                           <span className="px-1.5 py-0.5 bg-primary-100 dark:bg-primary-900 text-primary-700 dark:text-primary-300 text-xs rounded">
-                            Manager
+                            {getRoleBadge(sender, roles)}
                           </span>
                         )}
                       </div>
@@ -303,17 +410,36 @@ export default function MessageList({ messages }: MessageListProps) {
                           {message.replyTo && (
                             <div className="mb-2 p-2 bg-secondary-200 dark:bg-secondary-700 rounded-lg text-xs opacity-80">
                               <p className="font-bold">{message.replyToSender}</p>
-                              <p className="truncate">{message.replyToContent}</p>
+                              <p className="truncate">{stripMarkdown(message.replyToContent || '')}</p>
                             </div>
                           )}
-                          <MessageContentWithLinkPreview content={message.content} />
+                          {message.taskCard ? (
+                            <TaskMessageCard card={message.taskCard} />
+                          ) : (
+                            <MessageContentWithLinkPreview
+                              content={message.content}
+                              mentions={message.mentions}
+                              broadcastMention={message.broadcastMention}
+                            />
+                          )}
                         </>
                       )}
 
-                      {/* Edited indicator */}
+                      {/* Edited indicator - opens the edit history */}
                       {message.editedAt && (
-                        <p className="text-xs opacity-70 mt-1 italic">
+                        <button
+                          onClick={() => openModal(<MessageRevisions chatId={message.chatId!} messageId={message.id} />)}
+                          className="block text-xs opacity-70 hover:opacity-100 mt-1 italic hover:underline"
+                          title="View edit history"
+                        >
                           (edited)
+                        </button>
+                      )}
+
+                      {isPinned && (
+                        <p className="flex items-center gap-1 text-xs opacity-70 mt-1">
+                          <Pin className="w-3 h-3" />
+                          Pinned
                         </p>
                       )}
                     </div>
@@ -350,64 +476,169 @@ export default function MessageList({ messages }: MessageListProps) {
                       </div>
                     )}
 
-                    {/* Message time and actions */}
-                    <div className={`flex items-center gap-2 mt-1 opacity-0 group-hover:opacity-100 transition-opacity ${
-                      isOwnMessage ? 'justify-start' : 'justify-end'
-                    }`}>
-                      <span className="text-xs text-secondary-500 dark:text-secondary-400">
-                        {formatMessageTime(message.timestamp)}
-                      </span>
+                    {/* Thread summary */}
+                    {(message.threadReplyCount || 0) > 0 && (
+                      <button
+                        onClick={() => openThread(message)}
+                        className={`flex items-center gap-2 mt-1 px-2 py-1 rounded-lg text-xs font-medium text-primary-600 dark:text-primary-400 hover:bg-secondary-100 dark:hover:bg-secondary-800 transition-colors ${
+                          isOwnMessage ? 'ml-auto' : ''
+                        }`}
+                      >
+                        <div className="flex -space-x-2">
+                          {(message.threadParticipants || []).map(participantId => {
+                            const participant = getSender(participantId);
+                            return participant ? (
+                              <UserAvatar
+                                key={participantId}
+                                user={participant}
+                                size="xs"
+                                showStatus={false}
+                                className="border-2 border-white dark:border-secondary-900 rounded-full"
+                              />
+                            ) : null;
+                          })}
+                        </div>
+                        <span>
+                          {message.threadReplyCount} {message.threadReplyCount === 1 ? 'reply' : 'replies'}
+                        </span>
+                        {message.threadLastReplyAt && (
+                          <span className="font-normal text-secondary-500 dark:text-secondary-400">
+                            Last reply {formatMessageTime(message.threadLastReplyAt)}
+                          </span>
+                        )}
+                      </button>
+                    )}
+
+                    {/* Outbox status - unsent messages can't be edited, reacted to or threaded yet */}
+                    {message.sendStatus ? (
+                      <div className="flex items-center gap-2 mt-1 text-xs justify-start">
+                        {message.sendStatus === 'pending' ? (
+                          <span className="flex items-center gap-1 text-secondary-500 dark:text-secondary-400">
+                            <Clock className="w-3 h-3" />
+                            Sending...
+                          </span>
+                        ) : (
+                          <>
+                            <span className="flex items-center gap-1 text-red-600 dark:text-red-400">
+                              <AlertCircle className="w-3 h-3" />
+                              Failed to send
+                            </span>
+                            <button
+                              onClick={() => retryMessage(message.chatId!, message.clientMessageId!)}
+                              className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-secondary-200 dark:hover:bg-secondary-700 text-primary-600 dark:text-primary-400 font-medium"
+                            >
+                              <RotateCw className="w-3 h-3" />
+                              Retry
+                            </button>
+                            <button
+                              onClick={() => discardMessage(message.chatId!, message.clientMessageId!)}
+                              className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-red-100 dark:hover:bg-red-900/30 text-red-500 dark:text-red-400 font-medium"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                              Delete
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    ) : (
+                      /* Message time and actions */
+                      <div className={`flex items-center gap-2 mt-1 opacity-0 group-hover:opacity-100 transition-opacity ${
+                        isOwnMessage ? 'justify-start' : 'justify-end'
+                      }`}>
+                        <span className="text-xs text-secondary-500 dark:text-secondary-400">
+                          {formatMessageTime(message.timestamp)}
+                        </span>
                       
-                      {/* Actions Menu */}
-                      {isOwnMessage && hoveredMessageId === message.id && !editingMessage && (
-                        <div className="flex items-center gap-1 bg-white dark:bg-secondary-700 p-1 rounded-md shadow-lg">
-                          <button 
-                            onClick={() => setEditingMessage({ id: message.id, content: message.content })}
-                            className="p-1 rounded hover:bg-secondary-200 dark:hover:bg-secondary-600 text-secondary-500 dark:text-secondary-400"
+                        {/* Actions Menu */}
+                        {isOwnMessage && hoveredMessageId === message.id && !editingMessage && (
+                          <div className="flex items-center gap-1 bg-white dark:bg-secondary-700 p-1 rounded-md shadow-lg">
+                            {!message.taskCard && (
+                              <button 
+                                onClick={() => setEditingMessage({ id: message.id, content: message.content })}
+                                className="p-1 rounded hover:bg-secondary-200 dark:hover:bg-secondary-600 text-secondary-500 dark:text-secondary-400"
+                              >
+                                <Edit className="w-3 h-3" />
+                              </button>
+                            )}
+                            <button 
+                              onClick={() => setReplyingTo(message)}
+                              className="p-1 rounded hover:bg-secondary-200 dark:hover:bg-secondary-600 text-secondary-500 dark:text-secondary-400"
+                            >
+                              <CornerUpLeft className="w-3 h-3" />
+                            </button>
+                            <button 
+                              onClick={() => deleteMessage(message.chatId!, message.id)}
+                              className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/30 text-red-500 dark:text-red-400"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </button>
+                          </div>
+                        )}
+                      
+                        {/* Thread button */}
+                        <button
+                          onClick={() => openThread(message)}
+                          className="p-1 rounded hover:bg-secondary-200 dark:hover:bg-secondary-700 text-secondary-500 dark:text-secondary-400"
+                          title="Reply in thread"
+                        >
+                          <MessageSquare className="w-3 h-3" />
+                        </button>
+
+                        {/* Create task button */}
+                        {chatId && !message.taskCard && (
+                          <button
+                            onClick={() => openModal(
+                              <CreateTaskModal
+                                onClose={closeModal}
+                                initialValues={getTaskDraftFromMessage(message)}
+                                sourceMessage={{ chatId, messageId: message.id }}
+                              />
+                            )}
+                            className="p-1 rounded hover:bg-secondary-200 dark:hover:bg-secondary-700 text-secondary-500 dark:text-secondary-400"
+                            title="Create task from message"
                           >
-                            <Edit className="w-3 h-3" />
+                            <ClipboardList className="w-3 h-3" />
                           </button>
-                          <button 
-                            onClick={() => setReplyingTo(message)}
-                            className="p-1 rounded hover:bg-secondary-200 dark:hover:bg-secondary-600 text-secondary-500 dark:text-secondary-400"
+                        )}
+
+                        {/* Pin button */}
+                        {chatId && canPin && (
+                          <button
+                            onClick={() => isPinned ? unpinMessage(chatId, message.id) : pinMessage(chatId, message.id)}
+                            className="p-1 rounded hover:bg-secondary-200 dark:hover:bg-secondary-700 text-secondary-500 dark:text-secondary-400"
+                            title={isPinned ? 'Unpin message' : 'Pin message'}
                           >
-                            <CornerUpLeft className="w-3 h-3" />
+                            {isPinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
                           </button>
+                        )}
+
+                        {/* Reaction button */}
+                        <div className="relative">
                           <button 
-                            onClick={() => deleteMessage(message.chatId!, message.id)}
-                            className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/30 text-red-500 dark:text-red-400"
+                            onClick={() => setShowEmojiPicker(showEmojiPicker === message.id ? null : message.id)}
+                            className="p-1 rounded hover:bg-secondary-200 dark:hover:bg-secondary-700 text-secondary-500 dark:text-secondary-400"
                           >
-                            <Trash2 className="w-3 h-3" />
+                            <Smile className="w-3 h-3" />
                           </button>
-                        </div>
-                      )}
-                      
-                      {/* Reaction button */}
-                      <div className="relative">
-                        <button 
-                          onClick={() => setShowEmojiPicker(showEmojiPicker === message.id ? null : message.id)}
-                          className="p-1 rounded hover:bg-secondary-200 dark:hover:bg-secondary-700 text-secondary-500 dark:text-secondary-400"
-                        >
-                          <Smile className="w-3 h-3" />
-                        </button>
                         
-                        {showEmojiPicker === message.id && (
-                          <div className="absolute bottom-full mb-2 z-50">
-                            <EmojiPicker 
-                              onEmojiSelect={(emoji) => {
-                                addReaction(message.senderId, message.id, emoji);
-                                setShowEmojiPicker(null);
-                              }}
-                            />
-                          </div>
-                        )}
-                      </div>
+                          {showEmojiPicker === message.id && (
+                            <div className="absolute bottom-full mb-2 z-50">
+                              <EmojiPicker 
+                                onEmojiSelect={(emoji) => {
+                                  addReaction(message.senderId, message.id, emoji);
+                                  setShowEmojiPicker(null);
+                                }}
+                              />
+                            </div>
+                          )}
+                        </div>
 
-                      {/* Read receipt */}
-                      <div className="flex items-center gap-1 mt-1 text-xs text-secondary-500 dark:text-secondary-400">
-                        {getReadStatusIcon()}
+                        {/* Read receipt */}
+                        <div className="flex items-center gap-1 mt-1 text-xs text-secondary-500 dark:text-secondary-400">
+                          {getReadStatusIcon()}
+                        </div>
                       </div>
-                    </div>
+                    )}
                   </div>
                 </div>
               );
@@ -416,6 +647,19 @@ export default function MessageList({ messages }: MessageListProps) {
         </div>
       ))}
       <div ref={messagesEndRef} className="h-0 w-full" />
+
+      {/* Viewing an older window after a jump */}
+      {pagination?.hasMoreAfter && (
+        <div className="sticky bottom-0 flex justify-center pointer-events-none">
+          <button
+            onClick={handleJumpToLatest}
+            className="pointer-events-auto flex items-center gap-2 px-4 py-2 rounded-full bg-primary-600 hover:bg-primary-700 text-white text-sm shadow-lg"
+          >
+            <ArrowDown className="w-4 h-4" />
+            Jump to latest
+          </button>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { History, Loader2 } from 'lucide-react';
+import { getMessageRevisions } from '../../services/dataService';
+import { MessageRevision } from '../../types';
+import { diffWords } from '../../utils/diff';
+import { logger } from '../../utils/logger';
+
+interface MessageRevisionsProps {
+  chatId: string;
+  messageId: string;
+}
+
+// Edit history of a message; each version is shown as a word diff against the one before it
+export default function MessageRevisions({ chatId, messageId }: MessageRevisionsProps) {
+  const [revisions, setRevisions] = useState<MessageRevision[] | null>(null);
+  const [selected, setSelected] = useState(0);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    getMessageRevisions(chatId, messageId)
+      .then(({ revisions }) => {
+        setRevisions(revisions);
+        setSelected(revisions.length - 1);
+      })
+      .catch(err => {
+        logger.error('Failed to load message revisions', { error: err.message, messageId }, 'MessageRevisions');
+        setError(true);
+      });
+  }, [chatId, messageId]);
+
+  const getVersionLabel = (index: number) => {
+    if (index === 0) return 'Original';
+    return revisions && index === revisions.length - 1 ? 'Current' : `Edit ${index}`;
+  };
+
+  const current = revisions?.[selected];
+  const previous = selected > 0 ? revisions?.[selected - 1] : undefined;
+
+  return (
+    <div className="w-[36rem] max-w-full">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-secondary-900 dark:text-white mb-4">
+        <History className="w-5 h-5" />
+        Edit history
+      </h3>
+
+      {error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">Couldn't load the edit history.</p>
+      ) : !revisions || !current ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-5 h-5 animate-spin text-secondary-400" />
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-1 mb-3">
+            {revisions.map((revision, index) => (
+              <button
+                key={revision.version}
+                onClick={() => setSelected(index)}
+                className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                  index === selected
+                    ? 'bg-primary-600 text-white'
+                    : 'bg-secondary-100 dark:bg-secondary-800 text-secondary-600 dark:text-secondary-300 hover:bg-secondary-200 dark:hover:bg-secondary-700'
+                }`}
+              >
+                {getVersionLabel(index)}
+              </button>
+            ))}
+          </div>
+
+          <p className="text-xs text-secondary-500 dark:text-secondary-400 mb-2">
+            {getVersionLabel(selected)} · {format(new Date(current.createdAt), 'MMM d, yyyy HH:mm')}
+            {previous && ` · compared with ${getVersionLabel(selected - 1).toLowerCase()}`}
+          </p>
+
+          <div className="p-3 rounded-lg bg-secondary-50 dark:bg-secondary-800 text-sm text-secondary-900 dark:text-white whitespace-pre-wrap break-words max-h-[50vh] overflow-y-auto">
+            {previous
+              ? diffWords(previous.content, current.content).map((segment, index) => (
+                  segment.type === 'equal' ? (
+                    <span key={index}>{segment.text}</span>
+                  ) : segment.type === 'added' ? (
+                    <ins key={index} className="no-underline bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300 rounded">
+                      {segment.text}
+                    </ins>
+                  ) : (
+                    <del key={index} className="bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 rounded">
+                      {segment.text}
+                    </del>
+                  )
+                ))
+              : current.content}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
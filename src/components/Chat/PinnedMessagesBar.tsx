@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react';
+import { Pin, X } from 'lucide-react';
+import { useApp } from '../../context/AppContext';
+import { canManagePins } from '../../utils/permissions';
+import { stripMarkdown } from '../../utils/markdown';
+
+interface PinnedMessagesBarProps {
+  chatId: string;
+}
+
+export default function PinnedMessagesBar({ chatId }: PinnedMessagesBarProps) {
+  const { pinnedMessages, chats, currentUser, roles, jumpToMessage, unpinMessage } = useApp();
+  const pins = pinnedMessages[chatId] || [];
+  const [index, setIndex] = useState(0);
+
+  // Start from the newest pin when switching chats
+  useEffect(() => {
+    setIndex(0);
+  }, [chatId]);
+
+  if (pins.length === 0) return null;
+
+  // The list can shrink under us when pins are removed
+  const position = Math.min(index, pins.length - 1);
+  const current = pins[position];
+  const canUnpin = canManagePins(chats.find(c => c.id === chatId), currentUser, roles);
+
+  // Jump to the shown pin, then move on so repeated clicks walk through all of them
+  const handleClick = () => {
+    jumpToMessage(chatId, current.messageId);
+    setIndex((position + 1) % pins.length);
+  };
+
+  return (
+    <div className="flex-shrink-0 flex items-center gap-3 px-4 py-2 border-b border-secondary-200 dark:border-secondary-700 bg-secondary-50 dark:bg-secondary-800">
+      {pins.length > 1 && (
+        <div className="flex flex-col gap-0.5 self-stretch py-0.5" aria-hidden="true">
+          {pins.map((pin, i) => (
+            <span
+              key={pin.messageId}
+              className={`w-0.5 flex-1 rounded-full ${
+                i === position ? 'bg-primary-600 dark:bg-primary-400' : 'bg-secondary-300 dark:bg-secondary-600'
+              }`}
+            />
+          ))}
+        </div>
+      )}
+      <button onClick={handleClick} className="flex-1 min-w-0 flex items-center gap-2 text-left" title="Jump to pinned message">
+        <Pin className="w-4 h-4 flex-shrink-0 text-primary-600 dark:text-primary-400" />
+        <div className="min-w-0">
+          <p className="text-xs font-medium text-primary-600 dark:text-primary-400">
+            {pins.length > 1 ? `Pinned message ${position + 1} of ${pins.length}` : 'Pinned message'}
+          </p>
+          <p className="text-sm text-secondary-700 dark:text-secondary-300 truncate">
+            <span className="font-medium">{current.message.senderName}:</span> {stripMarkdown(current.message.content)}
+          </p>
+        </div>
+      </button>
+      {canUnpin && (
+        <button
+          onClick={() => unpinMessage(chatId, current.messageId)}
+          className="p-1 rounded hover:bg-secondary-200 dark:hover:bg-secondary-700 text-secondary-500 dark:text-secondary-400"
+          title="Unpin message"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarClock } from 'lucide-react';
+import { getScheduleSuggestions, toDateTimeInputValue } from '../../utils/schedule';
+
+interface ScheduleSendMenuProps {
+  onSchedule: (scheduledFor: Date) => void;
+  onViewScheduled: () => void;
+}
+
+export default function ScheduleSendMenu({ onSchedule, onViewScheduled }: ScheduleSendMenuProps) {
+  const [customTime, setCustomTime] = useState('');
+  const customDate = customTime ? new Date(customTime) : null;
+  const isCustomValid = customDate !== null && customDate.getTime() > Date.now();
+
+  return (
+    <div className="absolute bottom-full right-0 mb-2 z-50 w-72 bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg shadow-lg py-2">
+      <p className="px-4 py-1 text-xs font-semibold uppercase tracking-wide text-secondary-500 dark:text-secondary-400">
+        Schedule send
+      </p>
+      {getScheduleSuggestions().map(({ label, date }) => (
+        <button
+          key={label}
+          onClick={() => onSchedule(date)}
+          className="w-full flex items-center justify-between px-4 py-2 text-sm text-left text-secondary-900 dark:text-white hover:bg-secondary-100 dark:hover:bg-secondary-700"
+        >
+          <span>{label}</span>
+          <span className="text-xs text-secondary-500 dark:text-secondary-400">{format(date, 'EEE, MMM d, HH:mm')}</span>
+        </button>
+      ))}
+      <div className="px-4 pt-2 mt-1 border-t border-secondary-200 dark:border-secondary-700">
+        <label className="block text-xs text-secondary-500 dark:text-secondary-400 mb-1">Pick a date and time</label>
+        <div className="flex gap-2">
+          <input
+            type="datetime-local"
+            value={customTime}
+            min={toDateTimeInputValue(new Date())}
+            onChange={(e) => setCustomTime(e.target.value)}
+            className="flex-1 min-w-0 px-2 py-1 text-sm rounded border border-secondary-300 dark:border-secondary-600 bg-white dark:bg-secondary-700 dark:text-white"
+          />
+          <button
+            onClick={() => customDate && onSchedule(customDate)}
+            disabled={!isCustomValid}
+            className="px-2 py-1 text-sm rounded bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Schedule
+          </button>
+        </div>
+      </div>
+      <button
+        onClick={onViewScheduled}
+        className="w-full flex items-center gap-2 px-4 pt-3 pb-1 text-sm text-primary-600 dark:text-primary-400 hover:underline"
+      >
+        <CalendarClock className="w-4 h-4" />
+        View scheduled messages
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, CalendarClock, Edit, Trash2 } from 'lucide-react';
+import { useApp } from '../../context/AppContext';
+import { ScheduledMessage } from '../../types';
+import { toDateTimeInputValue } from '../../utils/schedule';
+
+interface EditState {
+  id: string;
+  content: string;
+  scheduledFor: string;
+}
+
+// The current user's scheduled messages across all chats, with edit and cancel
+export default function ScheduledMessagesList() {
+  const { scheduledMessages, chats, getChatDisplayName, updateScheduledMessage, cancelScheduledMessage } = useApp();
+  const [editing, setEditing] = useState<EditState | null>(null);
+
+  const getChatName = (chatId: string) => {
+    const chat = chats.find(c => c.id === chatId);
+    return chat ? getChatDisplayName(chat) : 'Unknown chat';
+  };
+
+  const startEditing = (scheduled: ScheduledMessage) => {
+    setEditing({
+      id: scheduled.id,
+      content: scheduled.content,
+      scheduledFor: toDateTimeInputValue(new Date(scheduled.scheduledFor))
+    });
+  };
+
+  const saveEdit = async () => {
+    if (!editing) return;
+    const saved = await updateScheduledMessage(editing.id, {
+      content: editing.content.trim(),
+      scheduledFor: new Date(editing.scheduledFor)
+    });
+    if (saved) setEditing(null);
+  };
+
+  const canSave = editing !== null
+    && editing.content.trim().length > 0
+    && new Date(editing.scheduledFor).getTime() > Date.now();
+
+  return (
+    <div className="w-[32rem] max-w-full">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-secondary-900 dark:text-white mb-4">
+        <CalendarClock className="w-5 h-5" />
+        Scheduled messages
+      </h3>
+
+      {scheduledMessages.length === 0 ? (
+        <p className="text-sm text-secondary-500 dark:text-secondary-400 py-6 text-center">
+          Nothing scheduled. Use the clock next to the send button to send a message later.
+        </p>
+      ) : (
+        <ul className="space-y-3 max-h-[60vh] overflow-y-auto">
+          {scheduledMessages.map(scheduled => (
+            <li key={scheduled.id} className="p-3 rounded-lg border border-secondary-200 dark:border-secondary-700">
+              <div className="flex items-center justify-between gap-2 mb-1 text-xs text-secondary-500 dark:text-secondary-400">
+                <span className="font-medium truncate">{getChatName(scheduled.chatId)}</span>
+                <span>{format(new Date(scheduled.scheduledFor), 'EEE, MMM d, yyyy HH:mm')}</span>
+              </div>
+
+              {editing?.id === scheduled.id ? (
+                <div className="space-y-2">
+                  <textarea
+                    value={editing.content}
+                    onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+                    rows={3}
+                    className="w-full p-2 rounded-lg border border-secondary-300 dark:border-secondary-600 bg-white dark:bg-secondary-700 text-sm dark:text-white"
+                  />
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="datetime-local"
+                      value={editing.scheduledFor}
+                      min={toDateTimeInputValue(new Date())}
+                      onChange={(e) => setEditing({ ...editing, scheduledFor: e.target.value })}
+                      className="flex-1 px-2 py-1 text-sm rounded border border-secondary-300 dark:border-secondary-600 bg-white dark:bg-secondary-700 dark:text-white"
+                    />
+                    <button onClick={() => setEditing(null)} className="text-xs hover:underline dark:text-secondary-300">Cancel</button>
+                    <button
+                      onClick={saveEdit}
+                      disabled={!canSave}
+                      className="text-xs font-bold text-primary-600 hover:underline disabled:opacity-50 disabled:no-underline"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <p className="text-sm text-secondary-900 dark:text-white whitespace-pre-wrap break-words">{scheduled.content}</p>
+                  {scheduled.status === 'failed' && (
+                    <p className="flex items-center gap-1 mt-1 text-xs text-red-600 dark:text-red-400">
+                      <AlertCircle className="w-3 h-3" />
+                      Not sent: {scheduled.failureReason || 'unknown error'}
+                    </p>
+                  )}
+                  <div className="flex justify-end gap-1 mt-2">
+                    {scheduled.status === 'pending' && (
+                      <button
+                        onClick={() => startEditing(scheduled)}
+                        className="p-1 rounded hover:bg-secondary-200 dark:hover:bg-secondary-600 text-secondary-500 dark:text-secondary-400"
+                        title="Edit"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                    )}
+                    {scheduled.status !== 'sending' && (
+                      <button
+                        onClick={() => cancelScheduledMessage(scheduled.id)}
+                        className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/30 text-red-500 dark:text-red-400"
+                        title={scheduled.status === 'failed' ? 'Dismiss' : 'Cancel scheduled message'}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
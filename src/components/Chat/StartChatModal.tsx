@@ -3,6 +3,7 @@ import { X, Search, MessageSquare, Users as UsersIcon, Plus, Check } from 'lucid
 import { useApp } from '../../context/AppContext';
 import UserAvatar from '../UI/UserAvatar';
 import UserStatusIndicator from '../UI/UserStatusIndicator';
+import { getRoleBadge } from '../../utils/permissions';
 
 interface StartChatModalProps {
   isOpen: boolean;
@@ -12,7 +13,7 @@ interface StartChatModalProps {
 type ChatType = 'direct' | 'group';
 
 export default function StartChatModal({ isOpen, onClose }: StartChatModalProps) {
-  const { currentUser, users, createDirectChat, createGroupChat } = useApp();
+  const { currentUser, users, roles, createDirectChat, createGroupChat } = useApp();
   const [chatType, setChatType] = useState<ChatType>('direct');
   const [searchQuery, setSearchQuery] = useState('');
   const [groupName, setGroupName] = useState('');
@@ -164,9 +165,9 @@ export default function StartChatModal({ isOpen, onClose }: StartChatModalProps)
                           <p className="font-medium text-secondary-900 dark:text-white">
                             {user.name}
                           </p>
-                          {user.role === 'manager' && (
+                          {getRoleBadge(user, roles) && (
                             <span className="px-2 py-0.5 bg-primary-100 dark:bg-primary-900 text-primary-700 dark:text-primary-300 text-xs rounded">
-                              Manager
+                              {getRoleBadge(user, roles)}
                             </span>
                           )}
                         </div>
@@ -279,9 +280,9 @@ export default function StartChatModal({ isOpen, onClose }: StartChatModalProps)
                             <p className="font-medium text-secondary-900 dark:text-white text-sm">
                               {user.name}
                             </p>
-                            {user.role === 'manager' && (
+                            {getRoleBadge(user, roles) && (
                               <span className="px-1.5 py-0.5 bg-primary-100 dark:bg-primary-900 text-primary-700 dark:text-primary-300 text-xs rounded">
-                                Manager
+                                {getRoleBadge(user, roles)}
                               </span>
                             )}
                           </div>
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { format, isPast } from 'date-fns';
+import { CheckCircle, Circle, ClipboardList, Clock, Loader2, User, XCircle } from 'lucide-react';
+import { useApp } from '../../context/AppContext';
+import { Task, TaskCard } from '../../types';
+import dataService from '../../services/dataService';
+import TaskDetailModal from '../Tasks/TaskDetailModal';
+
+interface TaskMessageCardProps {
+  card: TaskCard;
+}
+
+const STATUS_STYLES: Record<Task['status'], { label: string; className: string; icon: typeof Circle }> = {
+  pending: { label: 'Pending', className: 'bg-amber-50 text-amber-800 dark:bg-amber-900/30 dark:text-amber-200', icon: Circle },
+  'in-progress': { label: 'In Progress', className: 'bg-blue-50 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200', icon: Clock },
+  completed: { label: 'Completed', className: 'bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-200', icon: CheckCircle },
+  cancelled: { label: 'Cancelled', className: 'bg-secondary-100 text-secondary-500 dark:bg-secondary-800 dark:text-secondary-400', icon: XCircle }
+};
+
+// A task created from chat, as posted in the chat; follows the task's status as it changes
+export default function TaskMessageCard({ card }: TaskMessageCardProps) {
+  const { openModal, closeModal } = useApp();
+  const [opening, setOpening] = useState(false);
+  const status = STATUS_STYLES[card.status] || STATUS_STYLES.pending;
+  const StatusIcon = status.icon;
+  const isOverdue = !card.isDeleted && card.status !== 'completed' && card.status !== 'cancelled' && isPast(new Date(card.dueDate));
+
+  const handleOpen = async () => {
+    setOpening(true);
+    try {
+      const response = await dataService.getTask(card.taskId);
+      if (response.success) {
+        openModal(<TaskDetailModal task={response.data} onClose={closeModal} onUpdate={closeModal} />);
+      }
+    } catch (error) {
+      console.error('Failed to open task:', error);
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleOpen}
+      disabled={card.isDeleted || opening}
+      className="w-full max-w-sm mt-1 text-left p-3 bg-white dark:bg-secondary-900 border border-secondary-200 dark:border-secondary-700 rounded-lg hover:shadow-md disabled:hover:shadow-none transition-shadow"
+      title={card.isDeleted ? undefined : 'Open task'}
+    >
+      <div className="flex items-start gap-2">
+        {opening ? (
+          <Loader2 className="w-4 h-4 mt-0.5 flex-shrink-0 animate-spin text-primary-600" />
+        ) : (
+          <ClipboardList className="w-4 h-4 mt-0.5 flex-shrink-0 text-primary-600 dark:text-primary-400" />
+        )}
+        <div className="flex-1 min-w-0">
+          <p className={`text-sm font-medium text-secondary-900 dark:text-white truncate ${card.isDeleted ? 'line-through opacity-60' : ''}`}>
+            {card.title}
+          </p>
+          {card.isDeleted ? (
+            <p className="text-xs text-secondary-500 dark:text-secondary-400 mt-1">This task was deleted</p>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2 mt-1.5 text-xs text-secondary-500 dark:text-secondary-400">
+              <span className={`flex items-center gap-1 px-2 py-0.5 rounded-full font-medium ${status.className}`}>
+                <StatusIcon className="w-3 h-3" />
+                {status.label}
+              </span>
+              <span className="capitalize">{card.priority}</span>
+              <span className={isOverdue ? 'text-red-600 dark:text-red-400' : ''}>
+                Due {format(new Date(card.dueDate), 'MMM d')}
+              </span>
+              {card.assigneeName && (
+                <span className="flex items-center gap-1">
+                  <User className="w-3 h-3" />
+                  {card.assigneeName}
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </button>
+  );
+}
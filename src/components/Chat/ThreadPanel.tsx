@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { format, parseISO, isValid } from 'date-fns';
+import { X, Send, MessageSquare } from 'lucide-react';
+import { useApp } from '../../context/AppContext';
+import { Message } from '../../types';
+import UserAvatar from '../UI/UserAvatar';
+import MarkdownContent from './MarkdownContent';
+import MentionSuggestions, { useMentionAutocomplete } from './MentionSuggestions';
+
+const formatThreadTime = (dateInput: string | Date) => {
+  const date = typeof dateInput === 'string' ? parseISO(dateInput) : dateInput;
+  return isValid(date) ? format(date, 'MMM d, HH:mm') : '';
+};
+
+export default function ThreadPanel() {
+  const { activeThread, threadMessages, users, chats, currentUser, closeThread, sendThreadReply, hasPermission } = useApp();
+  const [replyText, setReplyText] = useState('');
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const replies = activeThread ? threadMessages[activeThread.id] : undefined;
+
+  // Same people and @channel/@here rules as the main composer for this chat
+  const chat = chats.find(c => c.id === activeThread?.chatId);
+  const mention = useMentionAutocomplete({
+    text: replyText,
+    setText: setReplyText,
+    textareaRef,
+    candidates: (chat && chat.participants.length > 0 ? users.filter(u => chat.participants.includes(u.id)) : users)
+      .filter(u => u.id !== currentUser?.id),
+    includeBroadcast: ['group', 'general'].includes(chat?.type ?? '') && hasPermission('broadcast.send')
+  });
+
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [replies?.length]);
+
+  if (!activeThread) return null;
+
+  const handleSend = () => {
+    const content = replyText.trim();
+    if (!content) return;
+    sendThreadReply(content, mention.getMentionIds(content));
+    setReplyText('');
+    mention.reset();
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setReplyText(e.target.value);
+    mention.updateQuery(e.target.value, e.target.selectionStart);
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  const renderMessage = (message: Message, isRoot = false) => {
+    const sender = users.find(u => u.id === message.senderId);
+    return (
+      <div key={message.id} className={`flex gap-3 ${isRoot ? 'pb-4 border-b border-secondary-200 dark:border-secondary-700' : ''}`}>
+        <div className="flex-shrink-0 w-8">
+          {sender && <UserAvatar user={sender} size="sm" showStatus={false} />}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-baseline gap-2">
+            <span className="font-medium text-sm text-secondary-900 dark:text-white">
+              {sender?.name || message.senderName}
+            </span>
+            <span className="text-xs text-secondary-500 dark:text-secondary-400">
+              {formatThreadTime(message.timestamp)}
+            </span>
+          </div>
+          {message.isDeleted ? (
+            <p className="text-sm leading-relaxed whitespace-pre-wrap text-secondary-800 dark:text-secondary-200 italic opacity-70">
+              {message.content}
+            </p>
+          ) : (
+            <div className="text-secondary-800 dark:text-secondary-200">
+              <MarkdownContent
+                content={message.content}
+                mentionedUsers={users.filter(u => message.mentions?.includes(u.id))}
+                broadcastMention={message.broadcastMention}
+                currentUserId={currentUser?.id}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-30 w-full sm:w-96 flex flex-col bg-white dark:bg-secondary-900 border-l border-secondary-200 dark:border-secondary-700 shadow-xl">
+      {/* Header */}
+      <div className="flex-shrink-0 flex items-center justify-between p-4 border-b border-secondary-200 dark:border-secondary-700">
+        <div className="flex items-center gap-2">
+          <MessageSquare className="w-4 h-4 text-primary-600 dark:text-primary-400" />
+          <h3 className="font-semibold text-secondary-900 dark:text-white">Thread</h3>
+          <span className="text-sm text-secondary-500 dark:text-secondary-400">
+            {activeThread.threadReplyCount || 0} {activeThread.threadReplyCount === 1 ? 'reply' : 'replies'}
+          </span>
+        </div>
+        <button
+          onClick={closeThread}
+          className="p-1 rounded-full hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-500 dark:text-secondary-400"
+          title="Close thread"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Root message and replies */}
+      <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-4">
+        {renderMessage(activeThread, true)}
+        {replies === undefined ? (
+          <p className="text-sm text-center text-secondary-500 dark:text-secondary-400">Loading replies...</p>
+        ) : replies.length === 0 ? (
+          <p className="text-sm text-center text-secondary-500 dark:text-secondary-400">No replies yet. Start the thread!</p>
+        ) : (
+          replies.map(reply => renderMessage(reply))
+        )}
+        <div ref={repliesEndRef} className="h-0 w-full" />
+      </div>
+
+      {/* Composer */}
+      <div className="flex-shrink-0 p-4 border-t border-secondary-200 dark:border-secondary-700">
+        <div className="relative flex items-end gap-2">
+          <textarea
+            ref={textareaRef}
+            value={replyText}
+            onChange={handleChange}
+            onKeyDown={mention.handleKeyDown}
+            onKeyPress={handleKeyPress}
+            onBlur={mention.closeSuggestions}
+            placeholder="Reply in thread..."
+            rows={1}
+            className="flex-1 resize-none rounded-lg border border-secondary-300 dark:border-secondary-600 bg-white dark:bg-secondary-800 px-3 py-2 text-sm text-secondary-900 dark:text-white placeholder-secondary-500 dark:placeholder-secondary-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            style={{ maxHeight: '120px', minHeight: '40px' }}
+          />
+          <button
+            onClick={handleSend}
+            disabled={!replyText.trim()}
+            className={`p-2.5 rounded-lg transition-colors ${
+              replyText.trim()
+                ? 'bg-primary-600 hover:bg-primary-700 text-white'
+                : 'bg-secondary-200 dark:bg-secondary-700 text-secondary-400 dark:text-secondary-500 cursor-not-allowed'
+            }`}
+          >
+            <Send className="w-4 h-4" />
+          </button>
+          <MentionSuggestions
+            suggestions={mention.suggestions}
+            activeIndex={mention.activeIndex}
+            onSelect={mention.selectMention}
+            onHover={mention.setActiveIndex}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -19,15 +19,34 @@ import {
   ChevronUp,
   CheckSquare,
   Calendar,
-  Phone
+  Phone,
+  Trash2,
+  Clock,
+  Bookmark,
+  KeyRound
 } from 'lucide-react';
 import { useApp } from '../../context/AppContext';
-import { UserStatus, Chat } from '../../types';
+import { UserStatus, Chat, Permission } from '../../types';
 import UserStatusIndicator from '../UI/UserStatusIndicator';
 import UserAvatar from '../UI/UserAvatar';
 import StartChatModal from '../Chat/StartChatModal';
+import { getRoleBadge } from '../../utils/permissions';
 import CallHistory from '../Call/CallHistory';
 
+// The dashboard shows a panel for each of these it's allowed
+const DASHBOARD_PERMISSIONS: Permission[] = ['stats.view', 'broadcast.send', 'time.manage'];
+
+// The admin panel is shown to anyone with at least one of these
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...DASHBOARD_PERMISSIONS,
+  'users.approve',
+  'users.manage',
+  'roles.manage',
+  'chats.oversee',
+  'audit.view',
+  'trash.manage'
+];
+
 export default function Sidebar() {
   const { 
     currentUser, 
@@ -42,7 +61,12 @@ export default function Sidebar() {
     logout,
     updateUserStatus,
     getPendingUsersCount,
-    performSearch
+    performSearch,
+    taskViews,
+    taskQuery,
+    openTaskView,
+    roles,
+    hasPermission
   } = useApp();
   
   const [showArchived, setShowArchived] = useState(false);
@@ -55,6 +79,8 @@ export default function Sidebar() {
 
   if (!currentUser) return null;
 
+  const roleBadge = getRoleBadge(currentUser, roles);
+
   // Ensure chats is always an array
   const safeChats = Array.isArray(chats) ? chats : [];
   const safeUsers = Array.isArray(users) ? users : [];
@@ -155,9 +181,9 @@ export default function Sidebar() {
                 <p className="font-medium text-secondary-900 dark:text-white truncate">
                   {currentUser.name}
                 </p>
-                {currentUser.role === 'manager' && (
+                {roleBadge && (
                   <span className="px-2 py-0.5 bg-primary-100 dark:bg-primary-900 text-primary-700 dark:text-primary-300 text-xs rounded-full">
-                    Manager
+                    {roleBadge}
                   </span>
                 )}
               </div>
@@ -191,10 +217,11 @@ export default function Sidebar() {
 
           {/* Task Management */}
           <div className="space-y-1">
+            {/* Leaving a saved view goes back to the unfiltered list; otherwise the last filters stay */}
             <button
-              onClick={() => setCurrentScreen('tasks')}
+              onClick={() => (taskQuery.viewId ? openTaskView(null) : setCurrentScreen('tasks'))}
               className={`w-full flex items-center justify-between p-2 rounded-lg transition-colors text-sm ${
-                currentScreen === 'tasks'
+                currentScreen === 'tasks' && !taskQuery.viewId
                   ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
                   : 'hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400'
               }`}
@@ -204,6 +231,35 @@ export default function Sidebar() {
                 <span>Tasks</span>
               </div>
             </button>
+            {/* Saved task views */}
+            {taskViews.map(view => (
+              <button
+                key={view.id}
+                onClick={() => openTaskView(view.id)}
+                className={`w-full flex items-center gap-2 py-1.5 pl-6 pr-2 rounded-lg transition-colors text-sm ${
+                  currentScreen === 'tasks' && taskQuery.viewId === view.id
+                    ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
+                    : 'hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400'
+                }`}
+                title={view.name}
+              >
+                <Bookmark className="w-3.5 h-3.5 flex-shrink-0" />
+                <span className="truncate">{view.name}</span>
+              </button>
+            ))}
+            <button
+              onClick={() => setCurrentScreen('timesheet')}
+              className={`w-full flex items-center justify-between p-2 rounded-lg transition-colors text-sm ${
+                currentScreen === 'timesheet'
+                  ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
+                  : 'hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <Clock className="w-4 h-4" />
+                <span>Timesheet</span>
+              </div>
+            </button>
             <button
               onClick={() => setShowCallHistory(true)}
               className="w-full flex items-center justify-between p-2 rounded-lg transition-colors text-sm hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400"
@@ -215,8 +271,8 @@ export default function Sidebar() {
             </button>
           </div>
 
-          {/* Manager-only navigation dropdown */}
-          {currentUser.role === 'manager' && (
+          {/* Admin navigation dropdown; each entry needs its own permission */}
+          {ADMIN_PERMISSIONS.some(permission => hasPermission(permission)) && (
             <div className="space-y-1">
               <button
                 onClick={() => setAdminMenuOpen(!adminMenuOpen)}
@@ -235,83 +291,125 @@ export default function Sidebar() {
               
               {adminMenuOpen && (
                 <div className="ml-4 space-y-1 border-l-2 border-secondary-200 dark:border-secondary-700 pl-4">
-                  <button
-                    onClick={() => setCurrentScreen('admin-dashboard')}
-                    className={`w-full flex items-center justify-between p-2 rounded-lg transition-colors text-sm ${
-                      currentScreen === 'admin-dashboard'
-                        ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
-                        : 'hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400'
-                    }`}
-                  >
-                    <div className="flex items-center gap-2">
-                      <BarChart className="w-3 h-3" />
-                      <span>Dashboard</span>
-                    </div>
-                  </button>
+                  {DASHBOARD_PERMISSIONS.some(permission => hasPermission(permission)) && (
+                    <button
+                      onClick={() => setCurrentScreen('admin-dashboard')}
+                      className={`w-full flex items-center justify-between p-2 rounded-lg transition-colors text-sm ${
+                        currentScreen === 'admin-dashboard'
+                          ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
+                          : 'hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <BarChart className="w-3 h-3" />
+                        <span>Dashboard</span>
+                      </div>
+                    </button>
+                  )}
                   
-                  <button
-                    onClick={() => setCurrentScreen('user-requests')}
-                    className={`w-full flex items-center justify-between p-2 rounded-lg transition-colors text-sm ${
-                      currentScreen === 'user-requests'
-                        ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
-                        : 'hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400'
-                    }`}
-                  >
-                    <div className="flex items-center gap-2">
-                      <UserPlus className="w-3 h-3" />
-                      <span>User Requests</span>
-                    </div>
-                    {pendingCount > 0 && (
-                      <span className="px-2 py-0.5 bg-red-500 text-white text-xs rounded-full">
-                        {pendingCount}
-                      </span>
-                    )}
-                  </button>
+                  {hasPermission('users.approve') && (
+                    <button
+                      onClick={() => setCurrentScreen('user-requests')}
+                      className={`w-full flex items-center justify-between p-2 rounded-lg transition-colors text-sm ${
+                        currentScreen === 'user-requests'
+                          ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
+                          : 'hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <UserPlus className="w-3 h-3" />
+                        <span>User Requests</span>
+                      </div>
+                      {pendingCount > 0 && (
+                        <span className="px-2 py-0.5 bg-red-500 text-white text-xs rounded-full">
+                          {pendingCount}
+                        </span>
+                      )}
+                    </button>
+                  )}
                   
-                  <button
-                    onClick={() => setCurrentScreen('member-management')}
-                    className={`w-full flex items-center justify-between p-2 rounded-lg transition-colors text-sm ${
-                      currentScreen === 'member-management'
-                        ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
-                        : 'hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400'
-                    }`}
-                  >
-                    <div className="flex items-center gap-2">
-                      <Users className="w-3 h-3" />
-                      <span>Members</span>
-                    </div>
-                    <span className="text-xs bg-secondary-200 dark:bg-secondary-700 text-secondary-600 dark:text-secondary-400 px-2 py-0.5 rounded-full">
-                      {safeUsers.length}
-                    </span>
-                  </button>
+                  {hasPermission('users.manage') && (
+                    <button
+                      onClick={() => setCurrentScreen('member-management')}
+                      className={`w-full flex items-center justify-between p-2 rounded-lg transition-colors text-sm ${
+                        currentScreen === 'member-management'
+                          ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
+                          : 'hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <Users className="w-3 h-3" />
+                        <span>Members</span>
+                      </div>
+                      <span className="text-xs bg-secondary-200 dark:bg-secondary-700 text-secondary-600 dark:text-secondary-400 px-2 py-0.5 rounded-full">
+                        {safeUsers.length}
+                      </span>
+                    </button>
+                  )}
 
-                  <button
-                    onClick={() => setCurrentScreen('private-chat-oversight')}
-                    className={`w-full flex items-center justify-between p-2 rounded-lg transition-colors text-sm ${
-                      currentScreen === 'private-chat-oversight'
-                        ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
-                        : 'hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400'
-                    }`}
-                  >
-                    <div className="flex items-center gap-2">
-                      <ShieldCheck className="w-3 h-3" />
-                      <span>Chat Oversight</span>
-                    </div>
-                  </button>
+                  {hasPermission('roles.manage') && (
+                    <button
+                      onClick={() => setCurrentScreen('roles')}
+                      className={`w-full flex items-center justify-between p-2 rounded-lg transition-colors text-sm ${
+                        currentScreen === 'roles'
+                          ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
+                          : 'hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <KeyRound className="w-3 h-3" />
+                        <span>Roles</span>
+                      </div>
+                    </button>
+                  )}
 
-                  <button
-                    onClick={() => setCurrentScreen('audit-log')}
-                    className={`w-full flex items-center justify-between p-2 rounded-lg transition-colors text-sm ${
-                      currentScreen === 'audit-log'
-                        ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
-                        : 'hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400'
-                    }`}
-                  >
-                    <div className="flex items-center gap-2">
-                      <BookCopy className="w-3 h-3" />
-                      <span>Audit Log</span>
-                    </div>
-                  </button>
+                  {hasPermission('chats.oversee') && (
+                    <button
+                      onClick={() => setCurrentScreen('private-chat-oversight')}
+                      className={`w-full flex items-center justify-between p-2 rounded-lg transition-colors text-sm ${
+                        currentScreen === 'private-chat-oversight'
+                          ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
+                          : 'hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <ShieldCheck className="w-3 h-3" />
+                        <span>Chat Oversight</span>
+                      </div>
+                    </button>
+                  )}
+
+                  {hasPermission('audit.view') && (
+                    <button
+                      onClick={() => setCurrentScreen('audit-log')}
+                      className={`w-full flex items-center justify-between p-2 rounded-lg transition-colors text-sm ${
+                        currentScreen === 'audit-log'
+                          ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
+                          : 'hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <BookCopy className="w-3 h-3" />
+                        <span>Audit Log</span>
+                      </div>
+                    </button>
+                  )}
+
+                  {hasPermission('trash.manage') && (
+                    <button
+                      onClick={() => setCurrentScreen('trash')}
+                      className={`w-full flex items-center justify-between p-2 rounded-lg transition-colors text-sm ${
+                        currentScreen === 'trash'
+                          ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400'
+                          : 'hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <Trash2 className="w-3 h-3" />
+                        <span>Trash</span>
+                      </div>
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -418,7 +516,7 @@ export default function Sidebar() {
                       </div>
                       <p className="text-sm text-secondary-500 dark:text-secondary-400 truncate">
                         {isGeneral && 'Public discussion for all team members'}
-                        {isAnnouncements && (currentUser.role === 'manager' ? 'Post important announcements' : 'Important announcements')}
+                        {isAnnouncements && (hasPermission('broadcast.send') ? 'Post important announcements' : 'Important announcements')}
                         {chat.type === 'direct' && 'Direct message'}
                         {chat.type === 'group' && `${chat.participants?.length || 0} members`}
                       </p>
@@ -1,9 +1,10 @@
 import React, { useState } from 'react';
-import { Users, Crown, User, Shield, MoreVertical, Search, Filter, ArrowLeft, Edit2, Check, X, Trash2 } from 'lucide-react';
-import { format, parseISO, isValid } from 'date-fns';
+import { Users, Crown, User, Shield, MoreVertical, Search, Filter, ArrowLeft, Edit2, Check, X, Trash2, ShieldCheck, ShieldOff, Lock, Unlock } from 'lucide-react';
+import { format, parseISO, isValid, isAfter } from 'date-fns';
 import { useApp } from '../../context/AppContext';
 import UserAvatar from '../UI/UserAvatar';
 import UserStatusIndicator from '../UI/UserStatusIndicator';
+import { MANAGER_ROLE, userHasPermission } from '../../utils/permissions';
 
 export default function MemberManagementPage() {
   const { 
@@ -12,13 +13,17 @@ export default function MemberManagementPage() {
     setCurrentScreen,
     updateUserRole,
     removeUser,
-    register
+    resetUserTwoFactor,
+    unlockUser,
+    register,
+    roles,
+    hasPermission
   } = useApp();
   
   const [searchQuery, setSearchQuery] = useState('');
-  const [filterRole, setFilterRole] = useState<'all' | 'manager' | 'employee'>('all');
+  const [filterRole, setFilterRole] = useState('all');
   const [editingUserId, setEditingUserId] = useState<string | null>(null);
-  const [selectedRole, setSelectedRole] = useState<'manager' | 'employee'>('employee');
+  const [selectedRole, setSelectedRole] = useState('employee');
 
   // Filter users based on search and role filter
   const filteredUsers = users.filter(user => {
@@ -28,7 +33,9 @@ export default function MemberManagementPage() {
     return matchesSearch && matchesRole;
   });
 
-  const handleRoleChange = async (userId: string, newRole: 'manager' | 'employee') => {
+  const getRoleName = (roleKey: string) => roles.find(role => role.key === roleKey)?.name ?? roleKey;
+
+  const handleRoleChange = async (userId: string, newRole: string) => {
     try {
       console.log('Updating role for user:', userId, 'to:', newRole);
       const updatedUser = await updateUserRole(userId, newRole);
@@ -43,14 +50,19 @@ export default function MemberManagementPage() {
       // Show success message
       const user = users.find(u => u.id === userId);
       if (user) {
-        alert(`Successfully updated ${user.name}'s role to ${newRole}`);
+        alert(`Successfully updated ${user.name}'s role to ${getRoleName(newRole)}`);
       }
     } catch (error) {
       console.error('Failed to update user role:', error);
-      alert('Failed to update user role. Please make sure you have manager permissions.');
+      alert('Failed to update user role. You can only assign roles whose permissions you have yourself.');
     }
   };
 
+  const getLockedUntil = (user: typeof users[number]) => {
+    const lockedUntil = user.loginSecurity?.lockedUntil;
+    return lockedUntil && isAfter(parseISO(lockedUntil), new Date()) ? parseISO(lockedUntil) : null;
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'online': return 'text-green-600 dark:text-green-400';
@@ -62,11 +74,11 @@ export default function MemberManagementPage() {
   };
 
   const getRoleIcon = (role: string) => {
-    return role === 'manager' ? Crown : User;
+    return role === MANAGER_ROLE ? Crown : User;
   };
 
   const getRoleColor = (role: string) => {
-    return role === 'manager' 
+    return role === MANAGER_ROLE 
       ? 'bg-purple-100 dark:bg-purple-900 text-purple-700 dark:text-purple-300'
       : 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300';
   };
@@ -114,12 +126,13 @@ export default function MemberManagementPage() {
             <Filter className="w-4 h-4 text-secondary-600 dark:text-secondary-400" />
             <select
               value={filterRole}
-              onChange={(e) => setFilterRole(e.target.value as any)}
+              onChange={(e) => setFilterRole(e.target.value)}
               className="px-4 py-3 bg-secondary-50 dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg text-secondary-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500"
             >
               <option value="all">All Roles</option>
-              <option value="manager">Managers</option>
-              <option value="employee">Employees</option>
+              {roles.map(role => (
+                <option key={role.key} value={role.key}>{role.name}</option>
+              ))}
             </select>
           </div>
         </div>
@@ -142,7 +155,7 @@ export default function MemberManagementPage() {
               <div>
                 <p className="text-sm text-secondary-600 dark:text-secondary-400">Managers</p>
                 <p className="text-lg font-semibold text-secondary-900 dark:text-white">
-                  {users.filter(u => u.role === 'manager').length}
+                  {users.filter(u => u.role === MANAGER_ROLE).length}
                 </p>
               </div>
             </div>
@@ -261,6 +274,7 @@ export default function MemberManagementPage() {
               {filteredUsers.map((user) => {
                 const RoleIcon = getRoleIcon(user.role);
                 const isEditing = editingUserId === user.id;
+                const lockedUntil = getLockedUntil(user);
 
                 return (
                   <div
@@ -284,6 +298,24 @@ export default function MemberManagementPage() {
                                 ADMIN
                               </span>
                             )}
+                            {user.twoFactor?.enabled && (
+                              <span
+                                className="flex items-center gap-1 px-2 py-1 bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300 text-xs rounded-full font-medium"
+                                title="Two-factor authentication is on"
+                              >
+                                <ShieldCheck className="w-3 h-3" />
+                                2FA
+                              </span>
+                            )}
+                            {lockedUntil && (
+                              <span
+                                className="flex items-center gap-1 px-2 py-1 bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300 text-xs rounded-full font-medium"
+                                title={`Locked after failed sign-in attempts until ${format(lockedUntil, 'MMM d, HH:mm')}`}
+                              >
+                                <Lock className="w-3 h-3" />
+                                Locked
+                              </span>
+                            )}
                           </div>
                           <p className="text-secondary-600 dark:text-secondary-400 mb-1 truncate text-sm">
                             {user.email}
@@ -306,11 +338,12 @@ export default function MemberManagementPage() {
                           <div className="flex items-center gap-2">
                             <select
                               value={selectedRole}
-                              onChange={(e) => setSelectedRole(e.target.value as any)}
+                              onChange={(e) => setSelectedRole(e.target.value)}
                               className="px-3 py-1 border border-secondary-300 dark:border-secondary-600 rounded-lg text-sm bg-white dark:bg-secondary-900 text-secondary-900 dark:text-white"
                             >
-                              <option value="employee">Employee</option>
-                              <option value="manager">Manager</option>
+                              {roles.map(role => (
+                                <option key={role.key} value={role.key}>{role.name}</option>
+                              ))}
                             </select>
                             <button
                               onClick={() => handleRoleChange(user.id, selectedRole)}
@@ -329,10 +362,10 @@ export default function MemberManagementPage() {
                           <div className="flex items-center gap-3">
                             <div className={`flex items-center gap-2 px-3 py-1.5 rounded-lg ${getRoleColor(user.role)}`}>
                               <RoleIcon className="w-4 h-4" />
-                              <span className="font-medium capitalize">{user.role}</span>
+                              <span className="font-medium">{getRoleName(user.role)}</span>
                             </div>
-                            {/* Edit Role Button - Only for managers to edit non-admin users */}
-                            {currentUser?.role === 'manager' && user.email !== 'admin@app.com' && user.id !== currentUser.id ? (
+                            {/* Edit Role Button - Only for members who manage users, and never for the admin */}
+                            {hasPermission('users.manage') && user.email !== 'admin@app.com' && user.id !== currentUser?.id ? (
                               <>
                                 <button
                                   onClick={() => {
@@ -344,6 +377,28 @@ export default function MemberManagementPage() {
                                 >
                                   <Edit2 className="w-4 h-4" />
                                 </button>
+                                {lockedUntil && (
+                                  <button
+                                    onClick={() => unlockUser(user.id)}
+                                    className="p-2 rounded-lg hover:bg-green-100 dark:hover:bg-green-900 text-green-600 dark:text-green-400"
+                                    title="Unlock account"
+                                  >
+                                    <Unlock className="w-4 h-4" />
+                                  </button>
+                                )}
+                                {user.twoFactor?.enabled && (
+                                  <button
+                                    onClick={() => {
+                                      if (window.confirm(`Reset two-factor authentication for ${user.name}? They'll need to set it up again with their authenticator app.`)) {
+                                        resetUserTwoFactor(user.id);
+                                      }
+                                    }}
+                                    className="p-2 rounded-lg hover:bg-amber-100 dark:hover:bg-amber-900 text-amber-600 dark:text-amber-400"
+                                    title="Reset two-factor authentication"
+                                  >
+                                    <ShieldOff className="w-4 h-4" />
+                                  </button>
+                                )}
                                 <button
                                   onClick={() => {
                                     if (window.confirm(`Are you sure you want to remove ${user.name}?`)) {
@@ -356,9 +411,9 @@ export default function MemberManagementPage() {
                                   <Trash2 className="w-4 h-4" />
                                 </button>
                               </>
-                            ) : currentUser?.role !== 'manager' ? (
+                            ) : !hasPermission('users.manage') ? (
                               <span className="text-xs text-secondary-500 dark:text-secondary-400">
-                                Manager required
+                                Permission required
                               </span>
                             ) : null}
                           </div>
@@ -372,7 +427,7 @@ export default function MemberManagementPage() {
                         <span className="text-secondary-500 dark:text-secondary-400">
                           Joined: {isValid(parseISO(user.registeredAt as unknown as string)) ? format(parseISO(user.registeredAt as unknown as string), 'MMMM d, yyyy') : 'N/A'}
                         </span>
-                        {user.role === 'manager' && (
+                        {userHasPermission(user, roles, 'users.manage') && (
                           <span className="flex items-center gap-2 text-purple-600 dark:text-purple-400">
                             <Shield className="w-4 h-4" />
                             Can manage users
@@ -94,6 +94,9 @@ export default function PrivateChatOversight() {
             <p className="text-secondary-500 dark:text-secondary-400 mt-2 max-w-sm">
               As a manager, you can view the content of any direct message conversation between employees for oversight purposes.
             </p>
+            <p className="text-secondary-500 dark:text-secondary-400 mt-2 max-w-sm text-sm">
+              Edited messages keep every earlier version. Click "(edited)" on a message to compare them.
+            </p>
           </div>
         )}
       </div>
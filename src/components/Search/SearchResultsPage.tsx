@@ -5,7 +5,7 @@ import UserAvatar from '../UI/UserAvatar';
 import { format } from 'date-fns';
 
 export default function SearchResultsPage() {
-  const { searchResults, setCurrentScreen, getChatDisplayName } = useApp();
+  const { searchResults, setCurrentScreen, getChatDisplayName, jumpToMessage } = useApp();
 
   return (
     <div className="flex-1 flex flex-col bg-white dark:bg-secondary-900">
@@ -36,7 +36,13 @@ export default function SearchResultsPage() {
           </div>
         ) : (
           searchResults.map(result => (
-            <div key={result.id} className="p-4 bg-secondary-50 dark:bg-secondary-800 rounded-lg">
+            <button
+              key={result.id}
+              // Thread replies live outside the main timeline, so jump to their root
+              onClick={() => jumpToMessage(result.chat.id, result.threadId || result.id)}
+              className="w-full text-left p-4 bg-secondary-50 dark:bg-secondary-800 rounded-lg hover:bg-secondary-100 dark:hover:bg-secondary-700 transition-colors"
+              title="Jump to message"
+            >
               <div className="flex items-start gap-3">
                 <UserAvatar user={{ id: result.senderId, name: result.senderName, avatar: '' } as any} size="sm" />
                 <div className="flex-1">
@@ -50,7 +56,7 @@ export default function SearchResultsPage() {
                   </p>
                 </div>
               </div>
-            </div>
+            </button>
           ))
         )}
       </div>
@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { LogOut, Monitor, Smartphone } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useApp } from '../../context/AppContext';
+import { AuthSession } from '../../types';
+import dataService from '../../services/dataService';
+import { describeDevice, isMobile } from '../../utils/devices';
+
+// Devices the user is signed in on, with sign-out for one or all of them
+export default function ActiveSessionsSettings() {
+  const { logout } = useApp();
+  const [sessions, setSessions] = useState<AuthSession[] | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    dataService.getSessions()
+      .then(setSessions)
+      .catch(error => console.error('Failed to load sessions:', error));
+  }, []);
+
+  const handleRevoke = async (session: AuthSession) => {
+    // Signing out here is a normal logout
+    if (session.current) {
+      if (window.confirm('Sign out of this device?')) logout();
+      return;
+    }
+    setWorking(true);
+    try {
+      await dataService.revokeSession(session.id);
+      setSessions(prev => prev?.filter(item => item.id !== session.id) || null);
+      toast.success('Session signed out');
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    if (!window.confirm('Sign out on every device, including this one?')) return;
+    setWorking(true);
+    try {
+      await dataService.revokeAllSessions();
+    } catch (error) {
+      console.error('Failed to revoke sessions:', error);
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 pb-6 border-b border-secondary-200 dark:border-secondary-700">
+      <div className="flex items-center gap-2 mb-4">
+        <Monitor className="w-4 h-4 text-primary-600 dark:text-primary-400" />
+        <h2 className="text-base font-semibold text-secondary-900 dark:text-white">Active Sessions</h2>
+      </div>
+      <p className="text-sm text-secondary-600 dark:text-secondary-400 mb-3">
+        Devices signed in to your account. Sign out any you don't recognize.
+      </p>
+
+      {sessions === null ? (
+        <p className="text-sm text-secondary-500 dark:text-secondary-400 mb-3">Loading sessions...</p>
+      ) : (
+        <ul className="divide-y divide-secondary-200 dark:divide-secondary-700 border border-secondary-200 dark:border-secondary-700 rounded-lg mb-3">
+          {sessions.map(session => {
+            const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Monitor;
+            return (
+              <li key={session.id} className="flex items-center gap-3 px-3 py-2">
+                <DeviceIcon className="w-5 h-5 flex-shrink-0 text-secondary-500 dark:text-secondary-400" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-secondary-900 dark:text-white truncate" title={session.userAgent}>
+                    {describeDevice(session.userAgent)}
+                    {session.current && (
+                      <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                    {session.ip || 'Unknown IP'} · {session.current ? 'Active now' : `Last active ${formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRevoke(session)}
+                  disabled={working}
+                  className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg disabled:opacity-50"
+                >
+                  Sign out
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-end">
+        <button
+          onClick={handleRevokeAll}
+          disabled={working || !sessions}
+          className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white rounded-lg transition-colors text-sm font-semibold"
+        >
+          <LogOut className="w-4 h-4" />
+          Sign out everywhere
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarDays, Copy, RefreshCw, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { CalendarFeed } from '../../types';
+import dataService from '../../services/dataService';
+
+// Subscribe link for the user's assigned tasks in external calendar apps
+export default function CalendarFeedSettings() {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    dataService.getCalendarFeed()
+      .then(setFeed)
+      .catch(error => console.error('Failed to load calendar feed:', error));
+  }, []);
+
+  const handleCreate = async () => {
+    if (feed?.active && !window.confirm('Calendar apps using the current link will stop updating. Create a new link?')) return;
+    setWorking(true);
+    try {
+      setFeed(await dataService.createCalendarFeed());
+    } catch (error) {
+      console.error('Failed to create calendar feed:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!window.confirm('Turn off the calendar feed? Calendar apps using the link will stop updating.')) return;
+    setWorking(true);
+    try {
+      await dataService.revokeCalendarFeed();
+      setFeed({ active: false });
+      toast.success('Calendar feed turned off');
+    } catch (error) {
+      console.error('Failed to revoke calendar feed:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feed?.url) return;
+    await navigator.clipboard.writeText(feed.url);
+    toast.success('Feed link copied to clipboard');
+  };
+
+  return (
+    <div className="mb-6 pb-6 border-b border-secondary-200 dark:border-secondary-700">
+      <div className="flex items-center gap-2 mb-4">
+        <CalendarDays className="w-4 h-4 text-primary-600 dark:text-primary-400" />
+        <h2 className="text-base font-semibold text-secondary-900 dark:text-white">Calendar Feed</h2>
+      </div>
+      <p className="text-sm text-secondary-600 dark:text-secondary-400 mb-3">
+        Subscribe to your assigned tasks from Google Calendar, Outlook or Apple Calendar.
+        Anyone with the link can see your tasks, so keep it private.
+      </p>
+
+      {feed?.url && (
+        <div className="mb-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={feed.url}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 min-w-0 px-3 py-2 bg-secondary-50 dark:bg-secondary-800 border border-secondary-300 dark:border-secondary-600 rounded-lg text-secondary-900 dark:text-white text-xs font-mono"
+            />
+            <button
+              onClick={handleCopy}
+              className="p-2 rounded-lg bg-secondary-100 dark:bg-secondary-700 text-secondary-700 dark:text-secondary-300 hover:bg-secondary-200 dark:hover:bg-secondary-600"
+              title="Copy link"
+            >
+              <Copy className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-xs text-amber-700 dark:text-amber-300 mt-1">
+            Copy the link now; it won't be shown again.
+          </p>
+        </div>
+      )}
+
+      {feed?.active && !feed.url && (
+        <p className="text-sm text-secondary-700 dark:text-secondary-300 mb-3">
+          Feed link active{feed.createdAt ? ` since ${format(new Date(feed.createdAt), 'MMM d, yyyy')}` : ''}.
+          Reset it to get a new link.
+        </p>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        {feed?.active && (
+          <button
+            onClick={handleRevoke}
+            disabled={working}
+            className="flex items-center gap-2 px-3 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            Turn off
+          </button>
+        )}
+        <button
+          onClick={handleCreate}
+          disabled={working || !feed}
+          className="flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:bg-primary-400 text-white rounded-lg transition-colors text-sm font-semibold"
+        >
+          {feed?.active ? <RefreshCw className="w-4 h-4" /> : <CalendarDays className="w-4 h-4" />}
+          {feed?.active ? 'Reset link' : 'Create feed link'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -13,6 +13,10 @@ import {
   X
 } from 'lucide-react';
 import { useApp } from '../../context/AppContext';
+import { getRoleBadge } from '../../utils/permissions';
+import CalendarFeedSettings from './CalendarFeedSettings';
+import ActiveSessionsSettings from './ActiveSessionsSettings';
+import TwoFactorSettings from './TwoFactorSettings';
 
 export default function SettingsPage() {
   const { i18n } = useTranslation();
@@ -26,7 +30,8 @@ export default function SettingsPage() {
     updateUserStatus,
     updateUserProfile,
     requestNotificationPermission,
-    closeModal
+    closeModal,
+    roles
   } = useApp();
 
   const [profileForm, setProfileForm] = useState({
@@ -253,9 +258,9 @@ export default function SettingsPage() {
                     <p className="font-medium text-secondary-900 dark:text-white">Desktop Notifications</p>
                     <div className="flex items-center gap-2">
                       <p className="text-sm text-secondary-500 dark:text-secondary-400">{currentUser.email}</p>
-                      {currentUser.role === 'manager' && (
+                      {getRoleBadge(currentUser, roles) && (
                         <span className="px-2 py-0.5 bg-primary-100 dark:bg-primary-900 text-primary-700 dark:text-primary-300 text-xs rounded-full">
-                          Manager
+                          {getRoleBadge(currentUser, roles)}
                         </span>
                       )}
                     </div>
@@ -289,14 +294,20 @@ export default function SettingsPage() {
             </div>
           </div>
 
+          <CalendarFeedSettings />
+
+          <TwoFactorSettings />
+
+          <ActiveSessionsSettings />
+
           {/* Account Info */}
           <div className="mb-6">
             <h2 className="text-base font-semibold text-secondary-900 dark:text-white mb-4">Account Information</h2>
             <div className="space-y-3">
               <div className="flex justify-between items-center">
                 <span className="text-secondary-600 dark:text-secondary-400">Role</span>
-                <span className="font-medium text-secondary-900 dark:text-white capitalize">
-                  {currentUser.role}
+                <span className="font-medium text-secondary-900 dark:text-white">
+                  {roles.find(role => role.key === currentUser.role)?.name ?? currentUser.role}
                 </span>
               </div>
               <div className="flex justify-between items-center">
@@ -0,0 +1,201 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { KeyRound, ShieldCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useApp } from '../../context/AppContext';
+import { SecurityPolicy, TwoFactorStatus } from '../../types';
+import dataService from '../../services/dataService';
+import TwoFactorEnrolment from '../Auth/TwoFactorEnrolment';
+import RecoveryCodes from '../Auth/RecoveryCodes';
+
+type CodeAction = 'regenerate' | 'disable';
+
+// Two-factor authentication for the signed-in user; with security.manage, also whether it's required for managers
+export default function TwoFactorSettings() {
+  const { hasPermission } = useApp();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [policy, setPolicy] = useState<SecurityPolicy | null>(null);
+  const [enrolling, setEnrolling] = useState(false);
+  const [action, setAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState('');
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const canManageSecurity = hasPermission('security.manage');
+
+  const loadStatus = () => {
+    dataService.getTwoFactorStatus()
+      .then(setStatus)
+      .catch(error => console.error('Failed to load two-factor status:', error));
+  };
+
+  useEffect(() => {
+    loadStatus();
+    if (canManageSecurity) {
+      dataService.getSecurityPolicy()
+        .then(setPolicy)
+        .catch(error => console.error('Failed to load security policy:', error));
+    }
+  }, [canManageSecurity]);
+
+  const handleEnrolled = () => {
+    setEnrolling(false);
+    loadStatus();
+    toast.success('Two-factor authentication is on');
+  };
+
+  const handleCodeAction = async (e: FormEvent) => {
+    e.preventDefault();
+    setWorking(true);
+    try {
+      if (action === 'regenerate') {
+        setNewCodes(await dataService.regenerateRecoveryCodes(code));
+      } else {
+        // Recovery codes have a dash; app codes are six digits
+        await dataService.disableTwoFactor(/^\d{6}$/.test(code) ? { code } : { recoveryCode: code });
+        toast.success('Two-factor authentication turned off');
+      }
+      setAction(null);
+      setCode('');
+      loadStatus();
+    } catch (error) {
+      console.error('Two-factor update failed:', error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handlePolicyChange = async (requireManagerTwoFactor: boolean) => {
+    try {
+      setPolicy(await dataService.updateSecurityPolicy({ requireManagerTwoFactor }));
+      loadStatus();
+    } catch (error) {
+      console.error('Failed to update security policy:', error);
+    }
+  };
+
+  return (
+    <div className="mb-6 pb-6 border-b border-secondary-200 dark:border-secondary-700">
+      <div className="flex items-center gap-2 mb-4">
+        <ShieldCheck className="w-4 h-4 text-primary-600 dark:text-primary-400" />
+        <h2 className="text-base font-semibold text-secondary-900 dark:text-white">Two-Factor Authentication</h2>
+      </div>
+
+      {status?.required && !status.enabled && (
+        <p className="p-3 mb-3 text-sm text-amber-800 dark:text-amber-200 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800 rounded-lg">
+          Two-factor authentication is required for your role. Set it up now, or you'll be asked to at your next sign-in.
+        </p>
+      )}
+
+      {newCodes ? (
+        <div className="space-y-3">
+          <RecoveryCodes codes={newCodes} />
+          <div className="flex justify-end">
+            <button
+              onClick={() => setNewCodes(null)}
+              className="px-4 py-2 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg font-semibold"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      ) : enrolling ? (
+        <TwoFactorEnrolment onDone={handleEnrolled} onCancel={() => setEnrolling(false)} />
+      ) : status?.enabled ? (
+        <>
+          <p className="text-sm text-secondary-700 dark:text-secondary-300 mb-3">
+            On{status.enabledAt ? ` since ${format(new Date(status.enabledAt), 'MMM d, yyyy')}` : ''}.
+            {' '}{status.recoveryCodesRemaining} recovery {status.recoveryCodesRemaining === 1 ? 'code' : 'codes'} left.
+          </p>
+
+          {action ? (
+            <form onSubmit={handleCodeAction} className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                autoFocus
+                autoComplete="one-time-code"
+                placeholder={action === 'regenerate' ? 'Code from your app' : 'App or recovery code'}
+                value={code}
+                onChange={(e) => setCode(e.target.value.trim())}
+                className="flex-1 min-w-[10rem] px-3 py-2 text-sm font-mono bg-white dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
+              />
+              <button
+                type="button"
+                onClick={() => {
+                  setAction(null);
+                  setCode('');
+                }}
+                className="px-3 py-2 text-sm text-secondary-700 dark:text-secondary-300 hover:bg-secondary-100 dark:hover:bg-secondary-700 rounded-lg"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={working || !code}
+                className={`px-4 py-2 text-sm text-white rounded-lg font-semibold disabled:opacity-50 ${
+                  action === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-primary-600 hover:bg-primary-700'
+                }`}
+              >
+                {action === 'disable' ? 'Turn off' : 'Create new codes'}
+              </button>
+            </form>
+          ) : (
+            <div className="flex items-center justify-end gap-2">
+              {!status.required && (
+                <button
+                  onClick={() => setAction('disable')}
+                  className="px-3 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg"
+                >
+                  Turn off
+                </button>
+              )}
+              <button
+                onClick={() => setAction('regenerate')}
+                className="flex items-center gap-2 px-4 py-2 text-sm bg-secondary-100 dark:bg-secondary-700 text-secondary-700 dark:text-secondary-300 rounded-lg hover:bg-secondary-200 dark:hover:bg-secondary-600"
+              >
+                <KeyRound className="w-4 h-4" />
+                New recovery codes
+              </button>
+            </div>
+          )}
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-secondary-600 dark:text-secondary-400 mb-3">
+            Ask for a code from an authenticator app when signing in, in addition to your password.
+          </p>
+          <div className="flex justify-end">
+            <button
+              onClick={() => setEnrolling(true)}
+              disabled={!status}
+              className="flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:bg-primary-400 text-white rounded-lg transition-colors text-sm font-semibold"
+            >
+              <ShieldCheck className="w-4 h-4" />
+              Set up
+            </button>
+          </div>
+        </>
+      )}
+
+      {canManageSecurity && policy && (
+        <label className="flex items-start gap-3 mt-4 pt-4 border-t border-secondary-100 dark:border-secondary-800 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={policy.requireManagerTwoFactor}
+            disabled={!status?.enabled && !policy.requireManagerTwoFactor}
+            onChange={(e) => handlePolicyChange(e.target.checked)}
+            className="mt-1 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+          />
+          <span className="text-sm">
+            <span className="block font-medium text-secondary-900 dark:text-white">Require for admin roles</span>
+            <span className="text-secondary-600 dark:text-secondary-400">
+              {status?.enabled || policy.requireManagerTwoFactor
+                ? 'Anyone whose role can approve or manage members, edit roles, oversee or delete chats, manage trash, read the audit log or change security settings has to set it up at their next sign-in.'
+                : 'Turn it on for your own account first.'}
+            </span>
+          </span>
+        </label>
+      )}
+    </div>
+  );
+}
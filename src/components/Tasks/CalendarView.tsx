@@ -1,11 +1,14 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Calendar, dateFnsLocalizer } from 'react-big-calendar';
-import { format, parse, startOfWeek, getDay } from 'date-fns';
+import { format, parse, startOfWeek, endOfWeek, startOfMonth, endOfMonth, getDay } from 'date-fns';
 import { enUS } from 'date-fns/locale';
 import 'react-big-calendar/lib/css/react-big-calendar.css';
 import './CalendarView.css';
 import { Task, CalendarEvent } from '../../types';
-import { CalendarDays, Clock, Users, Tag, AlertTriangle } from 'lucide-react';
+import { CalendarDays, Tag, AlertTriangle, Phone, Video, Download, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useApp } from '../../context/AppContext';
+import dataService from '../../services/dataService';
 
 const locales = {
   'en': enUS,
@@ -19,6 +22,16 @@ const localizer = dateFnsLocalizer({
   locales,
 });
 
+// Team roles that can open a team's calendar; managers can open any
+const CALENDAR_ROLES = ['lead', 'admin'];
+
+const PRIORITY_COLORS: Record<string, string> = {
+  urgent: '#dc2626',
+  high: '#ef4444',
+  medium: '#f59e0b',
+  low: '#10b981',
+};
+
 interface CalendarViewProps {
   tasks: Task[];
   onTaskClick: (task: Task) => void;
@@ -26,89 +39,203 @@ interface CalendarViewProps {
 }
 
 const CalendarView: React.FC<CalendarViewProps> = ({ tasks, onTaskClick, onCreateTask }) => {
-  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const { currentUser, users, teams, hasPermission } = useApp();
   const [view, setView] = useState<'month' | 'week' | 'day'>('month');
+  const [range, setRange] = useState(() => ({
+    start: startOfWeek(startOfMonth(new Date())),
+    end: endOfWeek(endOfMonth(new Date())),
+  }));
+  // Empty for the current user's own tasks, otherwise the team whose calendar is shown
+  const [calendarTeamId, setCalendarTeamId] = useState('');
+  const [selectedMemberIds, setSelectedMemberIds] = useState<string[]>([]);
+  const [showCalls, setShowCalls] = useState(false);
+  const [remoteEvents, setRemoteEvents] = useState<CalendarEvent[]>([]);
+  const [importing, setImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-  useEffect(() => {
-    const calendarEvents = tasks.map(task => ({
+  const canManageTasks = hasPermission('tasks.manage');
+  const viewableTeams = useMemo(() => teams.filter(team =>
+    canManageTasks ||
+    team.createdBy === currentUser?.id ||
+    team.members.some(member => member.userId === currentUser?.id && CALENDAR_ROLES.includes(member.role))
+  ), [teams, currentUser?.id, canManageTasks]);
+  const calendarTeam = viewableTeams.find(team => team.id === calendarTeamId);
+
+  // Own tasks come from the already filtered task list so they follow search, filters and live updates
+  const taskEvents = useMemo(() => tasks.map(task => {
+    const team = teams.find(t => t.id === task.teamId);
+    return {
       id: task.id,
       title: task.title,
       start: new Date(task.dueDate),
       end: new Date(task.dueDate),
       resource: task,
-      className: getTaskClassName(task),
-      backgroundColor: task.priority === 'high' ? '#ef4444' : task.priority === 'medium' ? '#f59e0b' : '#10b981',
-      borderColor: (() => {
-        if (task.status === 'completed') return '#10b981';
-        if (new Date(task.dueDate) < new Date()) return '#ef4444';
-        return '#3b82f6';
-      })(),
+      backgroundColor: team?.color || PRIORITY_COLORS[task.priority] || '#6b7280',
+      borderColor: PRIORITY_COLORS[task.priority] || '#6b7280',
       extendedProps: {
-        priority: task.priority,
+        type: 'task',
         status: task.status,
+        priority: task.priority,
+        description: task.description,
+        team: team ? { id: team.id, name: team.name, color: team.color } : null,
       }
-    } as CalendarEvent));
-    setEvents(calendarEvents);
-  }, [tasks]);
-
-  const getTaskClassName = (task: Task): string => {
-    const priorityClasses: Record<string, string> = {
-      high: 'bg-red-500',
-      medium: 'bg-yellow-500',
-      low: 'bg-green-500',
-      urgent: 'bg-red-600',
-    };
-    
-    const statusClasses: Record<string, string> = {
-      pending: 'border-l-4 border-yellow-400',
-      'in-progress': 'border-l-4 border-blue-400',
-      in_progress: 'border-l-4 border-blue-400',
-      completed: 'border-l-4 border-green-400',
-      cancelled: 'border-l-4 border-gray-400',
+    } as CalendarEvent;
+  }), [tasks, teams]);
+
+  // Team calendars and call history come from the server for the visible range
+  useEffect(() => {
+    if (!calendarTeamId && !showCalls) {
+      setRemoteEvents([]);
+      return;
+    }
+    let cancelled = false;
+    dataService.getCalendarEvents({
+      start: range.start.toISOString(),
+      end: range.end.toISOString(),
+      ...(calendarTeamId
+        ? { scope: 'team', teamId: calendarTeamId, userIds: selectedMemberIds, include: showCalls ? ['tasks', 'calls'] : ['tasks'] }
+        : { scope: 'user', include: ['calls'] }),
+    })
+      .then(result => {
+        if (!cancelled) {
+          setRemoteEvents(result.map(event => ({ ...event, start: new Date(event.start), end: new Date(event.end) })));
+        }
+      })
+      .catch(error => console.error('Failed to load calendar events:', error));
+    return () => {
+      cancelled = true;
     };
+  }, [calendarTeamId, selectedMemberIds.join(','), showCalls, range.start.getTime(), range.end.getTime(), tasks]);
 
-    return `${priorityClasses[task.priority] || 'bg-gray-500'} ${statusClasses[task.status] || ''} text-white rounded p-1`;
-  };
+  const events = calendarTeamId ? remoteEvents : [...taskEvents, ...remoteEvents];
+
+  const legendTeams = useMemo(() => {
+    const seen = new Map<string, { name: string; color: string }>();
+    events.forEach(event => {
+      const team = event.extendedProps.team;
+      if (team) seen.set(team.id, team);
+    });
+    return [...seen.values()];
+  }, [events]);
+
+  const isOverdue = (event: CalendarEvent) =>
+    event.extendedProps.type === 'task' &&
+    event.end < new Date() &&
+    event.extendedProps.status !== 'completed' &&
+    event.extendedProps.status !== 'cancelled';
 
-  const eventStyleGetter = (event: any) => {
-    const task = event.resource as Task;
-    const isOverdue = new Date(task.dueDate) < new Date() && task.status !== 'completed';
-    
+  const eventStyleGetter = (event: CalendarEvent) => {
+    const overdue = isOverdue(event);
     return {
-      className: `${getTaskClassName(task)} ${isOverdue ? 'animate-pulse' : ''}`,
+      className: `text-white rounded p-1 ${overdue ? 'animate-pulse' : ''}`,
       style: {
-        backgroundColor: isOverdue ? '#ef4444' : undefined,
+        backgroundColor: overdue ? '#ef4444' : event.backgroundColor,
         border: 'none',
+        borderLeft: `4px solid ${event.borderColor}`,
         borderRadius: '4px',
         padding: '2px 4px',
         fontSize: '12px',
         fontWeight: '500',
+        opacity: event.extendedProps.status === 'cancelled' ? 0.5 : 1,
       }
     };
   };
 
-  const handleEventClick = (event: any) => {
-    onTaskClick(event.resource);
+  const handleEventClick = async (event: CalendarEvent) => {
+    if (event.extendedProps.type !== 'task') return;
+    if (event.resource) {
+      onTaskClick(event.resource);
+      return;
+    }
+    // Team members' tasks aren't necessarily loaded
+    const loaded = tasks.find(task => task.id === event.id);
+    if (loaded) {
+      onTaskClick(loaded);
+      return;
+    }
+    try {
+      const response = await dataService.getTask(event.id);
+      if (response.success) onTaskClick(response.data);
+    } catch (error) {
+      console.error('Failed to open task:', error);
+    }
   };
 
-  const handleSelectSlot = ({ start }: { start: Date }) => {
-            // Add logic to create a new task on the selected date
+  const handleRangeChange = (next: Date[] | { start: Date; end: Date }) => {
+    if (Array.isArray(next)) {
+      setRange({ start: next[0], end: new Date(next[next.length - 1].getTime() + 24 * 60 * 60 * 1000 - 1) });
+    } else {
+      setRange({ start: next.start, end: next.end });
+    }
+  };
+
+  const toggleMember = (userId: string) => {
+    setSelectedMemberIds(prev => prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]);
+  };
+
+  // Downloads the current user's tasks in the visible range
+  const handleExport = async () => {
+    try {
+      const blob = await dataService.exportTasksIcs({ start: range.start.toISOString(), end: range.end.toISOString() });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `tasks-${format(range.start, 'yyyy-MM-dd')}.ics`;
+      link.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export calendar:', error);
+    }
+  };
+
+  // Imported tasks are assigned to the current user, in the open team calendar's team if there is one
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImporting(true);
+    try {
+      const result = await dataService.importTasksIcs(await file.text(), calendarTeamId || undefined);
+      const summary = `Imported ${result.created} task${result.created === 1 ? '' : 's'}`;
+      if (result.skipped.length > 0) {
+        toast(`${summary}; skipped ${result.skipped.length} without a title or date`);
+      } else {
+        toast.success(summary);
+      }
+    } catch (error) {
+      console.error('Failed to import calendar:', error);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleSelectSlot = () => {
     onCreateTask();
   };
 
-  const CustomEvent = ({ event }: { event: any }) => {
-    const task = event.resource as Task;
-    const isOverdue = new Date(task.dueDate) < new Date() && task.status !== 'completed';
-    
+  const CustomEvent = ({ event }: { event: CalendarEvent }) => {
+    if (event.extendedProps.type === 'call') {
+      const CallIcon = event.extendedProps.callType === 'video' ? Video : Phone;
+      return (
+        <div className="flex items-center gap-1 p-1" title={event.extendedProps.participantNames?.join(', ')}>
+          <CallIcon className="w-3 h-3 flex-shrink-0" />
+          <span className="font-medium text-xs truncate">{event.title}</span>
+        </div>
+      );
+    }
+
     return (
       <div className="flex flex-col p-1">
         <div className="flex items-center justify-between">
-          <span className="font-medium text-xs truncate">{task.title}</span>
-          {isOverdue && <AlertTriangle className="w-3 h-3 text-white" />}
+          <span className="font-medium text-xs truncate">{event.title}</span>
+          {isOverdue(event) && <AlertTriangle className="w-3 h-3 text-white" />}
         </div>
         <div className="flex items-center gap-1 mt-1">
           <Tag size={10} />
-          <span className="text-xs capitalize">{task.priority}</span>
+          <span className="text-xs capitalize">{event.extendedProps.priority}</span>
+          {calendarTeamId && event.extendedProps.assignedTo && (
+            <span className="text-xs truncate opacity-90">· {event.extendedProps.assignedTo.name}</span>
+          )}
         </div>
       </div>
     );
@@ -196,8 +323,110 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, onTaskClick, onCreat
   };
 
   return (
-    <div className="h-full bg-gray-50 p-6">
-      <div className="bg-white rounded-lg shadow-sm h-full">
+    <div className="h-full bg-gray-50 p-6 flex gap-4">
+      {/* Calendar scope, member filter and legend */}
+      <aside className="w-60 flex-shrink-0 self-start space-y-5 p-4 bg-white rounded-lg shadow-sm">
+        <div>
+          <label className="block text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Calendar</label>
+          <select
+            value={calendarTeamId}
+            onChange={(e) => {
+              setCalendarTeamId(e.target.value);
+              setSelectedMemberIds([]);
+            }}
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">My tasks</option>
+            {viewableTeams.map(team => (
+              <option key={team.id} value={team.id}>{team.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {calendarTeam && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">Members</span>
+              {selectedMemberIds.length > 0 && (
+                <button onClick={() => setSelectedMemberIds([])} className="text-xs text-blue-600 hover:underline">
+                  Show all
+                </button>
+              )}
+            </div>
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+              {calendarTeam.members.map(member => {
+                const user = users.find(u => u.id === member.userId);
+                return (
+                  <label key={member.userId} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={selectedMemberIds.length === 0 || selectedMemberIds.includes(member.userId)}
+                      onChange={() => toggleMember(member.userId)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="truncate">{user?.name || 'Unknown user'}</span>
+                    {member.role !== 'member' && <span className="text-xs text-gray-400 capitalize">{member.role}</span>}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showCalls}
+            onChange={(e) => setShowCalls(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <Phone className="w-4 h-4 text-purple-500" />
+          Show calls
+        </label>
+
+        <div className="space-y-2">
+          <button
+            onClick={handleExport}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+            title="Download your tasks in this range as an .ics file"
+          >
+            <Download className="w-4 h-4" />
+            Export .ics
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={importing}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            title="Create tasks from the events in an .ics file"
+          >
+            <Upload className="w-4 h-4" />
+            {importing ? 'Importing...' : 'Import .ics'}
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+
+        {legendTeams.length > 0 && (
+          <div>
+            <span className="block text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Teams</span>
+            <div className="space-y-1">
+              {legendTeams.map(team => (
+                <div key={team.name} className="flex items-center gap-2 text-sm text-gray-700">
+                  <span className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: team.color }} />
+                  <span className="truncate">{team.name}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </aside>
+
+      <div className="flex-1 min-w-0 bg-white rounded-lg shadow-sm h-full">
         <Calendar
           localizer={localizer}
           events={events}
@@ -207,6 +436,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ tasks, onTaskClick, onCreat
           eventPropGetter={eventStyleGetter}
           onSelectEvent={handleEventClick}
           onSelectSlot={handleSelectSlot}
+          onRangeChange={handleRangeChange}
           selectable
           components={{
             toolbar: CustomToolbar,
@@ -10,25 +10,31 @@ import {
   AlertCircle
 } from 'lucide-react';
 import { useApp } from '../../context/AppContext';
+import { getDefaultRecurrence, toRecurrencePayload } from '../../utils/recurrence';
+import RecurrenceEditor from './RecurrenceEditor';
 
 interface CreateTaskModalProps {
   onClose: () => void;
+  initialValues?: { title?: string; description?: string };
+  // Creating from a chat message links the task to it and posts a card in that chat
+  sourceMessage?: { chatId: string; messageId: string };
 }
 
-export default function CreateTaskModal({ onClose }: CreateTaskModalProps) {
+export default function CreateTaskModal({ onClose, initialValues, sourceMessage }: CreateTaskModalProps) {
   const { users, teams, createTask, currentUser } = useApp();
   
   const [formData, setFormData] = useState({
-    title: '',
-    description: '',
+    title: initialValues?.title || '',
+    description: initialValues?.description || '',
     priority: 'medium' as 'low' | 'medium' | 'high' | 'urgent',
     dueDate: '',
     assignedTo: '',
     teamId: '',
     assignmentType: 'individual' as 'individual' | 'team',
     tags: [] as string[],
+    estimatedHours: '',
     isRecurring: false,
-    recurringPattern: 'weekly' as 'daily' | 'weekly' | 'monthly' | 'yearly'
+    recurrence: getDefaultRecurrence()
   });
   
   const [newTag, setNewTag] = useState('');
@@ -110,6 +116,14 @@ export default function CreateTaskModal({ onClose }: CreateTaskModalProps) {
         isRecurring: formData.isRecurring || false
       };
       
+      if (formData.estimatedHours !== '') {
+        taskData.estimatedHours = Number(formData.estimatedHours);
+      }
+      
+      if (sourceMessage) {
+        taskData.sourceMessage = sourceMessage;
+      }
+      
       // Handle assignment
       if (formData.assignmentType === 'individual') {
         taskData.assignedTo = formData.assignedTo;
@@ -118,9 +132,9 @@ export default function CreateTaskModal({ onClose }: CreateTaskModalProps) {
         taskData.teamId = formData.teamId;
       }
       
-      // Add recurring pattern if needed
-      if (formData.isRecurring && formData.recurringPattern) {
-        taskData.recurringPattern = formData.recurringPattern;
+      // Add the repeat rule if needed
+      if (formData.isRecurring) {
+        taskData.recurrence = toRecurrencePayload(formData.recurrence);
       }
       
       console.log('Final task data:', taskData);
@@ -146,7 +160,7 @@ export default function CreateTaskModal({ onClose }: CreateTaskModalProps) {
       {/* Header - Fixed */}
       <div className="flex items-center justify-between mb-4 pb-4 border-b border-secondary-200 dark:border-secondary-700 flex-shrink-0">
         <h2 className="text-xl font-bold text-secondary-900 dark:text-white">
-          Create New Task
+          {sourceMessage ? 'Create Task from Message' : 'Create New Task'}
         </h2>
         <button
           onClick={onClose}
@@ -229,6 +243,23 @@ export default function CreateTaskModal({ onClose }: CreateTaskModalProps) {
           </div>
         </div>
 
+        {/* Estimate */}
+        <div>
+          <label className="block text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-2">
+            Estimate (hours)
+          </label>
+          <input
+            type="number"
+            min="0"
+            max="10000"
+            step="0.25"
+            value={formData.estimatedHours}
+            onChange={(e) => handleInputChange('estimatedHours', e.target.value)}
+            placeholder="Optional"
+            className="w-full sm:w-1/2 px-3 py-2 bg-white dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
+          />
+        </div>
+
         {/* Assignment Type */}
         <div>
           <label className="block text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-2">
@@ -386,16 +417,11 @@ export default function CreateTaskModal({ onClose }: CreateTaskModalProps) {
           
           {formData.isRecurring && (
             <div className="mt-3">
-              <select
-                value={formData.recurringPattern}
-                onChange={(e) => handleInputChange('recurringPattern', e.target.value)}
-                className="w-full px-3 py-2 bg-white dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
-              >
-                <option value="daily">Daily</option>
-                <option value="weekly">Weekly</option>
-                <option value="monthly">Monthly</option>
-                <option value="yearly">Yearly</option>
-              </select>
+              <RecurrenceEditor
+                value={formData.recurrence}
+                onChange={(recurrence) => handleInputChange('recurrence', recurrence)}
+                dueDate={formData.dueDate}
+              />
             </div>
           )}
         </div>
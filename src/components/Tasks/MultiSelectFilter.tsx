@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown } from 'lucide-react';
+
+interface MultiSelectOption {
+  value: string;
+  label: string;
+}
+
+interface MultiSelectFilterProps {
+  label: string;
+  options: MultiSelectOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+// A filter button that opens a checklist; nothing checked means no filter
+export default function MultiSelectFilter({ label, options, selected, onChange }: MultiSelectFilterProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const toggle = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter(item => item !== value) : [...selected, value]);
+  };
+
+  const summary = selected.length === 0
+    ? `All ${label.toLowerCase()}`
+    : selected.length === 1
+      ? options.find(option => option.value === selected[0])?.label || selected[0]
+      : `${label}: ${selected.length}`;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1 px-3 py-1 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 ${
+          selected.length > 0
+            ? 'bg-primary-50 dark:bg-primary-900/30 border-primary-300 dark:border-primary-700 text-primary-700 dark:text-primary-300'
+            : 'bg-white dark:bg-secondary-800 border-secondary-200 dark:border-secondary-700 dark:text-white'
+        }`}
+      >
+        {summary}
+        <ChevronDown className="w-3 h-3" />
+      </button>
+      {isOpen && (
+        <div className="absolute z-20 mt-1 w-56 max-h-64 overflow-y-auto bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg shadow-lg py-1">
+          {options.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-secondary-500 dark:text-secondary-400">Nothing to filter by</p>
+          ) : (
+            options.map(option => (
+              <button
+                key={option.value}
+                onClick={() => toggle(option.value)}
+                className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left text-secondary-700 dark:text-secondary-300 hover:bg-secondary-100 dark:hover:bg-secondary-700"
+              >
+                <span className={`w-4 h-4 flex items-center justify-center border rounded ${
+                  selected.includes(option.value) ? 'bg-primary-600 border-primary-600 text-white' : 'border-secondary-300 dark:border-secondary-600'
+                }`}>
+                  {selected.includes(option.value) && <Check className="w-3 h-3" />}
+                </span>
+                <span className="truncate">{option.label}</span>
+              </button>
+            ))
+          )}
+          {selected.length > 0 && (
+            <button
+              onClick={() => onChange([])}
+              className="w-full px-3 py-1.5 text-sm text-left text-primary-600 dark:text-primary-400 border-t border-secondary-200 dark:border-secondary-700 hover:bg-secondary-100 dark:hover:bg-secondary-700"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
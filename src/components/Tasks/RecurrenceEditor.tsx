@@ -0,0 +1,191 @@
+import { format } from 'date-fns';
+import { TaskRecurrence } from '../../types';
+import { MONTH_WEEK_LABELS, WEEKDAY_NAMES, describeRecurrence } from '../../utils/recurrence';
+
+interface RecurrenceEditorProps {
+  value: TaskRecurrence;
+  onChange: (value: TaskRecurrence) => void;
+  // Due date of the first occurrence, as entered in the form
+  dueDate?: string;
+}
+
+type EndMode = 'never' | 'until' | 'count';
+
+const MONTH_WEEKS: NonNullable<TaskRecurrence['monthWeek']>[] = [1, 2, 3, 4, -1];
+
+const inputClass = 'px-3 py-2 bg-white dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white';
+
+// Repeat rule fields for a recurring task: interval, days, monthly position and when the series ends
+export default function RecurrenceEditor({ value, onChange, dueDate }: RecurrenceEditorProps) {
+  const due = dueDate ? new Date(dueDate) : null;
+  const dueWeekday = due && !Number.isNaN(due.getTime()) ? due.getDay() : undefined;
+  // A weekly rule without explicit days repeats on the due date's weekday
+  const weekdays = value.weekdays && value.weekdays.length > 0
+    ? value.weekdays
+    : value.frequency === 'weekly' && dueWeekday !== undefined ? [dueWeekday] : [];
+  const endMode: EndMode = value.until ? 'until' : value.count ? 'count' : 'never';
+
+  const update = (changes: Partial<TaskRecurrence>) => onChange({ ...value, ...changes });
+
+  const toggleWeekday = (day: number) => {
+    update({
+      weekdays: weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day].sort((a, b) => a - b)
+    });
+  };
+
+  const setEndMode = (mode: EndMode) => {
+    update({
+      until: mode === 'until' ? value.until || (dueDate ? `${dueDate.slice(0, 10)}T23:59:59` : undefined) : undefined,
+      count: mode === 'count' ? value.count || 10 : undefined
+    });
+  };
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg border border-secondary-200 dark:border-secondary-700 bg-secondary-50 dark:bg-secondary-800/50">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-secondary-700 dark:text-secondary-300">
+        <span>Repeat every</span>
+        <input
+          type="number"
+          min={1}
+          max={365}
+          value={value.interval}
+          onChange={(e) => update({ interval: Math.min(365, Math.max(1, parseInt(e.target.value) || 1)) })}
+          className={`${inputClass} w-20`}
+        />
+        <select
+          value={value.frequency}
+          onChange={(e) => update({ frequency: e.target.value as TaskRecurrence['frequency'], monthWeek: undefined, weekdays: [] })}
+          className={inputClass}
+        >
+          <option value="daily">{value.interval === 1 ? 'day' : 'days'}</option>
+          <option value="weekly">{value.interval === 1 ? 'week' : 'weeks'}</option>
+          <option value="monthly">{value.interval === 1 ? 'month' : 'months'}</option>
+          <option value="yearly">{value.interval === 1 ? 'year' : 'years'}</option>
+        </select>
+      </div>
+
+      {(value.frequency === 'weekly' || value.frequency === 'daily') && (
+        <div>
+          <p className="text-xs text-secondary-500 dark:text-secondary-400 mb-1.5">
+            {value.frequency === 'weekly' ? 'On' : 'Only on (leave empty for every day)'}
+          </p>
+          <div className="flex gap-1">
+            {WEEKDAY_NAMES.map((name, day) => {
+              const isSelected = weekdays.includes(day);
+              return (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() => toggleWeekday(day)}
+                  className={`w-8 h-8 rounded-full text-xs font-medium transition-colors ${
+                    isSelected
+                      ? 'bg-primary-600 text-white'
+                      : 'bg-white dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 text-secondary-600 dark:text-secondary-300 hover:bg-secondary-100 dark:hover:bg-secondary-700'
+                  }`}
+                  title={name}
+                >
+                  {name.charAt(0)}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {value.frequency === 'monthly' && (
+        <div className="space-y-2 text-sm text-secondary-700 dark:text-secondary-300">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={!value.monthWeek}
+              onChange={() => update({ monthWeek: undefined, weekdays: [] })}
+              className="text-primary-600 focus:ring-primary-500"
+            />
+            <span>On day {due && !Number.isNaN(due.getTime()) ? due.getDate() : '—'} of the month</span>
+          </label>
+          <label className="flex flex-wrap items-center gap-2">
+            <input
+              type="radio"
+              checked={!!value.monthWeek}
+              onChange={() => update({ monthWeek: 1, weekdays: [dueWeekday ?? 1] })}
+              className="text-primary-600 focus:ring-primary-500"
+            />
+            <span>On the</span>
+            <select
+              value={value.monthWeek || 1}
+              disabled={!value.monthWeek}
+              onChange={(e) => update({ monthWeek: parseInt(e.target.value) as TaskRecurrence['monthWeek'] })}
+              className={`${inputClass} disabled:opacity-50`}
+            >
+              {MONTH_WEEKS.map(week => (
+                <option key={week} value={week}>{MONTH_WEEK_LABELS[week]}</option>
+              ))}
+            </select>
+            <select
+              value={weekdays[0] ?? dueWeekday ?? 1}
+              disabled={!value.monthWeek}
+              onChange={(e) => update({ weekdays: [parseInt(e.target.value)] })}
+              className={`${inputClass} disabled:opacity-50`}
+            >
+              {WEEKDAY_NAMES.map((name, day) => (
+                <option key={name} value={day}>{name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      <div className="space-y-2 text-sm text-secondary-700 dark:text-secondary-300">
+        <p className="text-xs text-secondary-500 dark:text-secondary-400">Ends</p>
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            checked={endMode === 'never'}
+            onChange={() => setEndMode('never')}
+            className="text-primary-600 focus:ring-primary-500"
+          />
+          <span>Never</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            checked={endMode === 'until'}
+            onChange={() => setEndMode('until')}
+            className="text-primary-600 focus:ring-primary-500"
+          />
+          <span>On</span>
+          <input
+            type="date"
+            value={value.until ? format(new Date(value.until), 'yyyy-MM-dd') : ''}
+            disabled={endMode !== 'until'}
+            onChange={(e) => update({ until: e.target.value ? `${e.target.value}T23:59:59` : undefined })}
+            className={`${inputClass} disabled:opacity-50`}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            checked={endMode === 'count'}
+            onChange={() => setEndMode('count')}
+            className="text-primary-600 focus:ring-primary-500"
+          />
+          <span>After</span>
+          <input
+            type="number"
+            min={1}
+            max={1000}
+            value={value.count || ''}
+            disabled={endMode !== 'count'}
+            onChange={(e) => update({ count: Math.min(1000, Math.max(1, parseInt(e.target.value) || 1)) })}
+            className={`${inputClass} w-24 disabled:opacity-50`}
+          />
+          <span>occurrences</span>
+        </label>
+      </div>
+
+      <p className="text-xs font-medium text-primary-700 dark:text-primary-300">
+        {describeRecurrence(value, due && !Number.isNaN(due.getTime()) ? due : undefined)}
+      </p>
+    </div>
+  );
+}
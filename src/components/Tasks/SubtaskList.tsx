@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, ChevronDown, ChevronUp, Circle, Plus, XCircle } from 'lucide-react';
+import { useApp } from '../../context/AppContext';
+import { Task } from '../../types';
+import dataService from '../../services/dataService';
+import { getTaskAssigneeName } from '../../utils/tasks';
+
+interface SubtaskListProps {
+  task: Task;
+  canEdit: boolean;
+}
+
+// Subtasks of a task, with completion toggles, reordering and quick add
+export default function SubtaskList({ task, canEdit }: SubtaskListProps) {
+  const { users } = useApp();
+  const [subtasks, setSubtasks] = useState<Task[]>([]);
+  const [newTitle, setNewTitle] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  // The parent's subtask list or progress changes whenever a subtask is added, removed, reordered or finished
+  useEffect(() => {
+    let cancelled = false;
+    if (task.subtasks.length === 0) {
+      setSubtasks([]);
+      return;
+    }
+    dataService.getSubtasks(task.id)
+      .then(result => {
+        if (!cancelled) setSubtasks(result);
+      })
+      .catch(error => console.error('Failed to load subtasks:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [task.id, task.subtasks.join(','), task.progress]);
+
+  const handleToggle = async (subtask: Task) => {
+    if (subtask.status === 'cancelled') return;
+    const status = subtask.status === 'completed' ? 'pending' : 'completed';
+    setSubtasks(prev => prev.map(s => s.id === subtask.id ? { ...s, status } : s));
+    try {
+      await dataService.updateTask(subtask.id, { status });
+    } catch (error) {
+      console.error('Failed to update subtask:', error);
+      setSubtasks(prev => prev.map(s => s.id === subtask.id ? subtask : s));
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= subtasks.length) return;
+    const previous = subtasks;
+    const reordered = [...subtasks];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSubtasks(reordered);
+    try {
+      await dataService.reorderSubtasks(task.id, reordered.map(s => s.id));
+    } catch (error) {
+      console.error('Failed to reorder subtasks:', error);
+      setSubtasks(previous);
+    }
+  };
+
+  const handleAdd = async () => {
+    const title = newTitle.trim();
+    if (!title) return;
+    setIsAdding(true);
+    try {
+      const subtask = await dataService.createSubtask(task.id, { title });
+      setSubtasks(prev => [...prev, subtask]);
+      setNewTitle('');
+    } catch (error) {
+      console.error('Failed to create subtask:', error);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const completedCount = subtasks.filter(s => s.status === 'completed').length;
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-3">
+        Subtasks {subtasks.length > 0 && `(${completedCount}/${subtasks.length})`}
+      </h4>
+
+      {subtasks.length > 0 && (
+        <ul className="space-y-1 mb-3">
+          {subtasks.map((subtask, index) => (
+            <li
+              key={subtask.id}
+              className="group flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-secondary-50 dark:hover:bg-secondary-800"
+            >
+              <button
+                onClick={() => handleToggle(subtask)}
+                disabled={subtask.status === 'cancelled'}
+                className="flex-shrink-0"
+                title={subtask.status === 'completed' ? 'Mark as not done' : 'Mark as done'}
+              >
+                {subtask.status === 'completed' ? (
+                  <CheckCircle className="w-4 h-4 text-green-500" />
+                ) : subtask.status === 'cancelled' ? (
+                  <XCircle className="w-4 h-4 text-red-400" />
+                ) : (
+                  <Circle className="w-4 h-4 text-gray-400" />
+                )}
+              </button>
+              <span
+                className={`flex-1 min-w-0 truncate text-sm ${
+                  subtask.status === 'completed' || subtask.status === 'cancelled'
+                    ? 'line-through text-secondary-400 dark:text-secondary-500'
+                    : 'text-secondary-800 dark:text-secondary-200'
+                }`}
+              >
+                {subtask.title}
+              </span>
+              {subtask.subtasks.length > 0 && (
+                <span className="text-xs text-secondary-400">{subtask.progress}%</span>
+              )}
+              <span className="text-xs text-secondary-500 dark:text-secondary-400 truncate max-w-[8rem]">
+                {getTaskAssigneeName(subtask, users)}
+              </span>
+              <span className="text-xs text-secondary-400">
+                {new Date(subtask.dueDate).toLocaleDateString()}
+              </span>
+              {canEdit && (
+                <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0}
+                    className="p-0.5 rounded text-secondary-400 hover:text-secondary-600 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === subtasks.length - 1}
+                    className="p-0.5 rounded text-secondary-400 hover:text-secondary-600 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && task.status !== 'cancelled' && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="Add a subtask..."
+            className="flex-1 px-3 py-1.5 text-sm bg-white dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!newTitle.trim() || isAdding}
+            className="px-3 py-1.5 bg-secondary-100 dark:bg-secondary-700 text-secondary-700 dark:text-secondary-300 rounded-lg hover:bg-secondary-200 dark:hover:bg-secondary-600 disabled:opacity-50 transition-colors"
+            title="Add subtask"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
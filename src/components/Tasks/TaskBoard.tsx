@@ -0,0 +1,335 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Clock, ListTree, Settings2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useApp } from '../../context/AppContext';
+import { Task } from '../../types';
+import { getTaskAssigneeId, getTaskAssigneeName } from '../../utils/tasks';
+
+interface TaskBoardProps {
+  tasks: Task[];
+  onTaskClick: (task: Task) => void;
+}
+
+type TaskStatus = Task['status'];
+type Swimlane = 'none' | 'assignee' | 'team' | 'priority';
+
+interface BoardSettings {
+  swimlane: Swimlane;
+  // Most tasks a column should hold; a missing entry means no limit
+  wipLimits: Partial<Record<TaskStatus, number>>;
+}
+
+interface Lane {
+  key: string;
+  label: string;
+  tasks: Task[];
+}
+
+const COLUMNS: { status: TaskStatus; label: string; accent: string }[] = [
+  { status: 'pending', label: 'Pending', accent: 'bg-gray-400' },
+  { status: 'in-progress', label: 'In Progress', accent: 'bg-blue-500' },
+  { status: 'completed', label: 'Completed', accent: 'bg-green-500' },
+  { status: 'cancelled', label: 'Cancelled', accent: 'bg-red-500' },
+];
+
+const PRIORITIES: Task['priority'][] = ['urgent', 'high', 'medium', 'low'];
+
+const PRIORITY_COLORS: Record<Task['priority'], string> = {
+  urgent: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  high: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+  medium: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  low: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+};
+
+const NO_TEAM = 'no-team';
+const SETTINGS_KEY = 'iib-chat-task-board';
+const DEFAULT_SETTINGS: BoardSettings = { swimlane: 'none', wipLimits: {} };
+
+const loadSettings = (): BoardSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error('Failed to load board settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// Kanban view of tasks: a column per status, optional swimlanes, drag-and-drop to move cards
+export default function TaskBoard({ tasks, onTaskClick }: TaskBoardProps) {
+  const { users, teams, updateTask } = useApp();
+  const [settings, setSettings] = useState<BoardSettings>(loadSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Failed to save board settings:', error);
+    }
+  }, [settings]);
+
+  const lanes = useMemo((): Lane[] => {
+    switch (settings.swimlane) {
+      case 'assignee': {
+        const byAssignee = new Map<string, Lane>();
+        tasks.forEach(task => {
+          const key = getTaskAssigneeId(task);
+          const lane = byAssignee.get(key) || { key, label: getTaskAssigneeName(task, users) || 'Unknown', tasks: [] };
+          lane.tasks.push(task);
+          byAssignee.set(key, lane);
+        });
+        return [...byAssignee.values()].sort((a, b) => a.label.localeCompare(b.label));
+      }
+      case 'team': {
+        const teamLanes: Lane[] = teams.map(team => ({
+          key: team.id,
+          label: team.name,
+          tasks: tasks.filter(task => task.teamId === team.id),
+        }));
+        const withoutTeam = tasks.filter(task => !task.teamId || !teams.some(team => team.id === task.teamId));
+        return [...teamLanes.filter(lane => lane.tasks.length > 0), { key: NO_TEAM, label: 'No team', tasks: withoutTeam }]
+          .filter(lane => lane.tasks.length > 0);
+      }
+      case 'priority':
+        return PRIORITIES.map(priority => ({
+          key: priority,
+          label: priority.charAt(0).toUpperCase() + priority.slice(1),
+          tasks: tasks.filter(task => task.priority === priority),
+        }));
+      default:
+        return [{ key: 'all', label: '', tasks }];
+    }
+  }, [tasks, users, teams, settings.swimlane]);
+
+  const columnCounts = useMemo(() => {
+    const counts = {} as Record<TaskStatus, number>;
+    COLUMNS.forEach(({ status }) => {
+      counts[status] = tasks.filter(task => task.status === status).length;
+    });
+    return counts;
+  }, [tasks]);
+
+  const setWipLimit = (status: TaskStatus, value: string) => {
+    const limit = parseInt(value);
+    setSettings(prev => {
+      const wipLimits = { ...prev.wipLimits };
+      if (Number.isNaN(limit) || limit < 1) {
+        delete wipLimits[status];
+      } else {
+        wipLimits[status] = limit;
+      }
+      return { ...prev, wipLimits };
+    });
+  };
+
+  // Dropping into another swimlane also moves the card to that lane's assignee, team or priority
+  const getLaneChanges = (task: Task, laneKey: string): Record<string, unknown> => {
+    switch (settings.swimlane) {
+      case 'assignee':
+        return laneKey !== getTaskAssigneeId(task) ? { assignedTo: laneKey } : {};
+      case 'team': {
+        const teamId = laneKey === NO_TEAM ? null : laneKey;
+        return teamId !== (task.teamId || null) ? { teamId } : {};
+      }
+      case 'priority':
+        return laneKey !== task.priority ? { priority: laneKey } : {};
+      default:
+        return {};
+    }
+  };
+
+  const handleDrop = async (status: TaskStatus, laneKey: string) => {
+    const task = tasks.find(t => t.id === draggedTaskId);
+    setDraggedTaskId(null);
+    setDropTarget(null);
+    if (!task) return;
+
+    const changes: Record<string, unknown> = { ...getLaneChanges(task, laneKey) };
+    if (task.status !== status) {
+      const limit = settings.wipLimits[status];
+      if (limit && columnCounts[status] >= limit) {
+        toast.error(`${COLUMNS.find(c => c.status === status)?.label} is at its limit of ${limit} tasks`);
+        return;
+      }
+      changes.status = status;
+    }
+    if (Object.keys(changes).length === 0) return;
+
+    try {
+      await updateTask(task.id, changes, { silent: true });
+    } catch (error) {
+      // updateTask already rolled the card back and showed the error
+    }
+  };
+
+  const renderCard = (task: Task) => {
+    const isOverdue = new Date(task.dueDate) < new Date() && task.status !== 'completed' && task.status !== 'cancelled';
+    return (
+      <div
+        key={task.id}
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', task.id);
+          setDraggedTaskId(task.id);
+        }}
+        onDragEnd={() => {
+          setDraggedTaskId(null);
+          setDropTarget(null);
+        }}
+        onClick={() => onTaskClick(task)}
+        className={`p-3 bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg shadow-sm cursor-grab active:cursor-grabbing hover:shadow-md transition-shadow ${
+          draggedTaskId === task.id ? 'opacity-50' : ''
+        }`}
+      >
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <h4 className="text-sm font-medium text-secondary-900 dark:text-white break-words">{task.title}</h4>
+          <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${PRIORITY_COLORS[task.priority]}`}>
+            {task.priority}
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-secondary-500 dark:text-secondary-400">
+          <span className={`flex items-center gap-1 ${isOverdue ? 'text-red-600 dark:text-red-400' : ''}`}>
+            <Clock className="w-3 h-3" />
+            {new Date(task.dueDate).toLocaleDateString()}
+          </span>
+          {settings.swimlane !== 'assignee' && (
+            <span className="truncate max-w-[8rem]">{getTaskAssigneeName(task, users) || 'Unknown'}</span>
+          )}
+          {task.subtasks.length > 0 && (
+            <span className="flex items-center gap-1">
+              <ListTree className="w-3 h-3" />
+              {task.subtasks.length}
+            </span>
+          )}
+        </div>
+        {task.progress > 0 && task.status !== 'completed' && (
+          <div className="mt-2 w-full bg-secondary-200 dark:bg-secondary-700 rounded-full h-1">
+            <div className="bg-primary-600 h-1 rounded-full" style={{ width: `${task.progress}%` }} />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-secondary-600 dark:text-secondary-400">
+          Swimlanes
+          <select
+            value={settings.swimlane}
+            onChange={(e) => setSettings(prev => ({ ...prev, swimlane: e.target.value as Swimlane }))}
+            className="px-3 py-1 bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
+          >
+            <option value="none">None</option>
+            <option value="assignee">By assignee</option>
+            <option value="team">By team</option>
+            <option value="priority">By priority</option>
+          </select>
+        </label>
+        <div className="relative">
+          <button
+            onClick={() => setShowSettings(prev => !prev)}
+            className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm text-secondary-600 dark:text-secondary-400 hover:bg-secondary-100 dark:hover:bg-secondary-800"
+          >
+            <Settings2 className="w-4 h-4" />
+            WIP limits
+          </button>
+          {showSettings && (
+            <div className="absolute left-0 mt-1 w-56 p-3 space-y-2 bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg shadow-lg z-10">
+              {COLUMNS.map(({ status, label }) => (
+                <label key={status} className="flex items-center justify-between gap-2 text-sm text-secondary-700 dark:text-secondary-300">
+                  {label}
+                  <input
+                    type="number"
+                    min={1}
+                    value={settings.wipLimits[status] ?? ''}
+                    onChange={(e) => setWipLimit(status, e.target.value)}
+                    placeholder="None"
+                    className="w-20 px-2 py-1 bg-white dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded text-sm dark:text-white"
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Column headers */}
+      <div className="grid grid-cols-4 gap-3 min-w-[48rem]">
+        {COLUMNS.map(({ status, label, accent }) => {
+          const limit = settings.wipLimits[status];
+          const isOverLimit = !!limit && columnCounts[status] > limit;
+          const isAtLimit = !!limit && columnCounts[status] >= limit;
+          return (
+            <div
+              key={status}
+              className={`flex items-center justify-between px-3 py-2 rounded-lg ${
+                isOverLimit ? 'bg-red-50 dark:bg-red-900/30' : 'bg-secondary-100 dark:bg-secondary-800'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <span className={`w-2 h-2 rounded-full ${accent}`} />
+                <span className="text-sm font-semibold text-secondary-800 dark:text-secondary-200">{label}</span>
+              </div>
+              <span
+                className={`flex items-center gap-1 text-xs font-medium ${
+                  isAtLimit ? 'text-red-600 dark:text-red-400' : 'text-secondary-500 dark:text-secondary-400'
+                }`}
+                title={limit ? `WIP limit: ${limit}` : undefined}
+              >
+                {isOverLimit && <AlertTriangle className="w-3 h-3" />}
+                {columnCounts[status]}{limit ? ` / ${limit}` : ''}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Lanes */}
+      {lanes.map(lane => (
+        <div key={lane.key} className="space-y-2 min-w-[48rem]">
+          {lane.label && (
+            <h3 className="text-sm font-medium text-secondary-700 dark:text-secondary-300">
+              {lane.label} <span className="text-secondary-400">({lane.tasks.length})</span>
+            </h3>
+          )}
+          <div className="grid grid-cols-4 gap-3">
+            {COLUMNS.map(({ status }) => {
+              const cellKey = `${lane.key}:${status}`;
+              const cellTasks = lane.tasks.filter(task => task.status === status);
+              return (
+                <div
+                  key={status}
+                  onDragOver={(e) => {
+                    if (!draggedTaskId) return;
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = 'move';
+                    setDropTarget(cellKey);
+                  }}
+                  onDragLeave={() => setDropTarget(prev => prev === cellKey ? null : prev)}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop(status, lane.key);
+                  }}
+                  className={`min-h-[6rem] p-2 space-y-2 rounded-lg border-2 border-dashed transition-colors ${
+                    dropTarget === cellKey
+                      ? 'border-primary-400 bg-primary-50 dark:bg-primary-900/20'
+                      : 'border-transparent bg-secondary-50 dark:bg-secondary-900/50'
+                  }`}
+                >
+                  {cellTasks.map(renderCard)}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
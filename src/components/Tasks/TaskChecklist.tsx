@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Plus, X } from 'lucide-react';
+import { Task, TaskChecklistItem } from '../../types';
+import dataService from '../../services/dataService';
+
+interface TaskChecklistProps {
+  task: Task;
+  canEdit: boolean;
+}
+
+type ChecklistDraftItem = Omit<TaskChecklistItem, 'id'> & { id?: string };
+
+// A task's checklist; every change saves the whole list
+export default function TaskChecklist({ task, canEdit }: TaskChecklistProps) {
+  const [items, setItems] = useState<ChecklistDraftItem[]>(task.checklist || []);
+  const [newText, setNewText] = useState('');
+
+  // Follow changes made elsewhere (live updates, other tabs)
+  useEffect(() => {
+    setItems(task.checklist || []);
+  }, [task.checklist]);
+
+  const save = async (next: ChecklistDraftItem[]) => {
+    const previous = items;
+    setItems(next);
+    try {
+      await dataService.updateTaskChecklist(task.id, next);
+    } catch (error) {
+      console.error('Failed to update checklist:', error);
+      setItems(previous);
+    }
+  };
+
+  const handleAdd = () => {
+    const text = newText.trim();
+    if (!text) return;
+    setNewText('');
+    save([...items, { text, done: false }]);
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    save(reordered);
+  };
+
+  if (!canEdit && items.length === 0) return null;
+
+  const doneCount = items.filter(item => item.done).length;
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-3">
+        Checklist {items.length > 0 && `(${doneCount}/${items.length})`}
+      </h4>
+
+      {items.length > 0 && (
+        <ul className="space-y-1 mb-3">
+          {items.map((item, index) => (
+            <li
+              key={item.id || `new-${index}`}
+              className="group flex items-center gap-2 px-2 py-1 rounded-lg hover:bg-secondary-50 dark:hover:bg-secondary-800"
+            >
+              <input
+                type="checkbox"
+                checked={item.done}
+                disabled={!canEdit}
+                onChange={() => save(items.map((other, i) => i === index ? { ...other, done: !other.done } : other))}
+                className="rounded border-secondary-300 dark:border-secondary-600 text-primary-600 focus:ring-primary-500"
+              />
+              <span
+                className={`flex-1 min-w-0 break-words text-sm ${
+                  item.done ? 'line-through text-secondary-400 dark:text-secondary-500' : 'text-secondary-800 dark:text-secondary-200'
+                }`}
+              >
+                {item.text}
+              </span>
+              {canEdit && (
+                <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0}
+                    className="p-0.5 rounded text-secondary-400 hover:text-secondary-600 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === items.length - 1}
+                    className="p-0.5 rounded text-secondary-400 hover:text-secondary-600 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => save(items.filter((_, i) => i !== index))}
+                    className="p-0.5 rounded text-secondary-400 hover:text-red-600"
+                    title="Remove"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newText}
+            maxLength={200}
+            onChange={(e) => setNewText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="Add a checklist item..."
+            className="flex-1 px-3 py-1.5 text-sm bg-white dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!newText.trim()}
+            className="px-3 py-1.5 bg-secondary-100 dark:bg-secondary-700 text-secondary-700 dark:text-secondary-300 rounded-lg hover:bg-secondary-200 dark:hover:bg-secondary-600 disabled:opacity-50 transition-colors"
+            title="Add item"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { Lock, Plus, X } from 'lucide-react';
+import { useApp } from '../../context/AppContext';
+import { Task } from '../../types';
+import dataService from '../../services/dataService';
+
+interface TaskDependencyListProps {
+  task: Task;
+  canEdit: boolean;
+}
+
+type Relation = 'blockedBy' | 'blocks';
+
+const STATUS_CHIP_COLORS: Record<Task['status'], string> = {
+  pending: 'bg-amber-50 text-amber-800 border-amber-200 dark:bg-amber-900/30 dark:text-amber-200 dark:border-amber-800',
+  'in-progress': 'bg-blue-50 text-blue-800 border-blue-200 dark:bg-blue-900/30 dark:text-blue-200 dark:border-blue-800',
+  completed: 'bg-green-50 text-green-800 border-green-200 dark:bg-green-900/30 dark:text-green-200 dark:border-green-800',
+  cancelled: 'bg-secondary-50 text-secondary-500 border-secondary-200 dark:bg-secondary-800 dark:text-secondary-400 dark:border-secondary-700',
+};
+
+const isOpen = (task: Task) => task.status !== 'completed' && task.status !== 'cancelled';
+
+// Blocked-by and blocks links of a task, shown as status chips
+export default function TaskDependencyList({ task, canEdit }: TaskDependencyListProps) {
+  const { tasks } = useApp();
+  const [dependencies, setDependencies] = useState<Record<Relation, Task[]>>({ blockedBy: [], blocks: [] });
+  const [relation, setRelation] = useState<Relation>('blockedBy');
+  const [selectedId, setSelectedId] = useState('');
+
+  const blockedByIds = task.blockedBy || [];
+  const blocksIds = task.blocks || [];
+
+  useEffect(() => {
+    let cancelled = false;
+    if (blockedByIds.length === 0 && blocksIds.length === 0) {
+      setDependencies({ blockedBy: [], blocks: [] });
+      return;
+    }
+    dataService.getTaskDependencies(task.id)
+      .then(result => {
+        if (!cancelled) setDependencies(result);
+      })
+      .catch(error => console.error('Failed to load dependencies:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [task.id, blockedByIds.join(','), blocksIds.join(',')]);
+
+  // Statuses change without this task changing, so prefer the live copy where there is one
+  const withLiveStatus = (dependency: Task) => tasks.find(t => t.id === dependency.id) || dependency;
+  const blockers = dependencies.blockedBy.map(withLiveStatus);
+  const dependents = dependencies.blocks.map(withLiveStatus);
+  const openBlockerCount = blockers.filter(isOpen).length;
+
+  const candidates = tasks.filter(t =>
+    t.id !== task.id && !blockedByIds.includes(t.id) && !blocksIds.includes(t.id)
+  );
+
+  const save = async (changes: Partial<Record<Relation, string[]>>) => {
+    try {
+      await dataService.updateTaskDependencies(task.id, changes);
+    } catch (error) {
+      console.error('Failed to update dependencies:', error);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!selectedId) return;
+    const current = relation === 'blockedBy' ? blockedByIds : blocksIds;
+    await save({ [relation]: [...current, selectedId] });
+    setSelectedId('');
+  };
+
+  const handleRemove = (rel: Relation, id: string) => {
+    const current = rel === 'blockedBy' ? blockedByIds : blocksIds;
+    save({ [rel]: current.filter(other => other !== id) });
+  };
+
+  if (!canEdit && blockers.length === 0 && dependents.length === 0) return null;
+
+  const renderChips = (rel: Relation, items: Task[]) => (
+    <div className="flex flex-wrap gap-2">
+      {items.map(item => (
+        <span
+          key={item.id}
+          className={`inline-flex items-center gap-1.5 max-w-full px-2 py-1 rounded-full border text-xs ${STATUS_CHIP_COLORS[item.status]}`}
+          title={`${item.title} (${item.status})`}
+        >
+          <span className={`truncate max-w-[12rem] ${isOpen(item) ? '' : 'line-through'}`}>{item.title}</span>
+          <span className="capitalize opacity-75">{item.status}</span>
+          {canEdit && (
+            <button
+              onClick={() => handleRemove(rel, item.id)}
+              className="hover:text-red-600"
+              title="Remove dependency"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+
+  return (
+    <div>
+      <h4 className="flex items-center gap-2 text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-3">
+        Dependencies
+        {openBlockerCount > 0 && (
+          <span className="inline-flex items-center gap-1 text-xs font-normal text-amber-700 dark:text-amber-300">
+            <Lock className="w-3 h-3" />
+            Waiting on {openBlockerCount} task{openBlockerCount === 1 ? '' : 's'}
+          </span>
+        )}
+      </h4>
+
+      {blockers.length > 0 && (
+        <div className="mb-3">
+          <p className="text-xs text-secondary-500 dark:text-secondary-400 mb-1.5">Blocked by</p>
+          {renderChips('blockedBy', blockers)}
+        </div>
+      )}
+
+      {dependents.length > 0 && (
+        <div className="mb-3">
+          <p className="text-xs text-secondary-500 dark:text-secondary-400 mb-1.5">Blocks</p>
+          {renderChips('blocks', dependents)}
+        </div>
+      )}
+
+      {canEdit && candidates.length > 0 && (
+        <div className="flex gap-2">
+          <select
+            value={relation}
+            onChange={(e) => setRelation(e.target.value as Relation)}
+            className="px-3 py-1.5 text-sm bg-white dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
+          >
+            <option value="blockedBy">Blocked by</option>
+            <option value="blocks">Blocks</option>
+          </select>
+          <select
+            value={selectedId}
+            onChange={(e) => setSelectedId(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-1.5 text-sm bg-white dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
+          >
+            <option value="">Choose a task...</option>
+            {candidates.map(candidate => (
+              <option key={candidate.id} value={candidate.id}>{candidate.title}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleAdd}
+            disabled={!selectedId}
+            className="px-3 py-1.5 bg-secondary-100 dark:bg-secondary-700 text-secondary-700 dark:text-secondary-300 rounded-lg hover:bg-secondary-200 dark:hover:bg-secondary-600 disabled:opacity-50 transition-colors"
+            title="Add dependency"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,11 +12,19 @@ import {
   Circle,
   AlertCircle,
   XCircle,
-  Trash2
+  Trash2,
+  Repeat,
+  Timer
 } from 'lucide-react';
 import { useApp } from '../../context/AppContext';
-import { Task } from '../../types';
+import { Task, TaskEditScope } from '../../types';
+import { describeRecurrence, getDefaultRecurrence, toRecurrencePayload } from '../../utils/recurrence';
 import UserAvatar from '../UI/UserAvatar';
+import RecurrenceEditor from './RecurrenceEditor';
+import SubtaskList from './SubtaskList';
+import TaskChecklist from './TaskChecklist';
+import TaskDependencyList from './TaskDependencyList';
+import TaskTimeTracking from './TaskTimeTracking';
 
 interface TaskDetailModalProps {
   task: Task;
@@ -25,11 +33,18 @@ interface TaskDetailModalProps {
 }
 
 export default function TaskDetailModal({ task, onClose, onUpdate }: TaskDetailModalProps) {
-  const { currentUser, users, teams, updateTask, deleteTask, addTaskComment } = useApp();
+  const { currentUser, users, teams, tasks, updateTask, deleteTask, addTaskComment, jumpToMessage, hasPermission } = useApp();
+  // The prop is a snapshot from when the modal opened; subtasks, checklist and progress follow live updates
+  const liveTask = tasks.find(t => t.id === task.id) || task;
+  const hasCalculatedProgress = liveTask.subtasks.length > 0 || (liveTask.checklist?.length ?? 0) > 0;
   
   const [isEditing, setIsEditing] = useState(false);
   const [loading, setLoading] = useState(false);
   const [newComment, setNewComment] = useState('');
+  const [editScope, setEditScope] = useState<TaskEditScope>('occurrence');
+  const [showDeleteOptions, setShowDeleteOptions] = useState(false);
+  const initialRecurrence = task.recurrence || getDefaultRecurrence(task.recurringPattern);
+  const isSeries = task.isRecurring && !!task.seriesId;
   const [formData, setFormData] = useState({
     title: task.title,
     description: task.description || '',
@@ -38,7 +53,10 @@ export default function TaskDetailModal({ task, onClose, onUpdate }: TaskDetailM
     dueDate: new Date(task.dueDate).toISOString().slice(0, 16),
     assignedTo: task.assignedTo,
     teamId: task.teamId || '',
-    progress: task.progress
+    progress: task.progress,
+    estimatedHours: task.estimatedHours != null ? String(task.estimatedHours) : '',
+    isRecurring: task.isRecurring,
+    recurrence: initialRecurrence
   });
 
   const getStatusIcon = (status: string) => {
@@ -84,16 +102,47 @@ export default function TaskDetailModal({ task, onClose, onUpdate }: TaskDetailM
   const canEdit = () => {
     return task.assignedTo === currentUser?.id || 
            task.assignedBy === currentUser?.id || 
-           currentUser?.role === 'manager';
+           hasPermission('tasks.manage');
   };
 
+  // Repeat settings belong to the whole series, so they're only editable with that scope
+  const canEditRepeat = !isSeries || editScope === 'series';
+
   const handleSave = async () => {
+    if (formData.status === 'cancelled' && task.status !== 'cancelled' && liveTask.subtasks.length > 0 &&
+        !confirm('Cancelling this task also cancels its open subtasks. Continue?')) {
+      return;
+    }
     setLoading(true);
     try {
-      await updateTask(task.id, {
-        ...formData,
-        dueDate: new Date(formData.dueDate).toISOString()
-      });
+      const { isRecurring, recurrence, progress, estimatedHours, ...fields } = formData;
+      const estimate = estimatedHours === '' ? null : Number(estimatedHours);
+      const taskData: any = {
+        ...fields,
+        dueDate: new Date(formData.dueDate).toISOString(),
+        scope: editScope,
+        ...(hasCalculatedProgress ? {} : { progress }),
+        ...(estimate !== (task.estimatedHours ?? null) ? { estimatedHours: estimate } : {})
+      };
+      if (canEditRepeat) {
+        const rule = toRecurrencePayload(recurrence);
+        if (isRecurring !== task.isRecurring) {
+          taskData.isRecurring = isRecurring;
+        }
+        if (isRecurring && JSON.stringify(rule) !== JSON.stringify(toRecurrencePayload(initialRecurrence))) {
+          taskData.recurrence = rule;
+        }
+      }
+      try {
+        await updateTask(task.id, taskData);
+      } catch (error: any) {
+        // Someone who manages tasks can start a task whose blockers are still open
+        if (error.response?.status !== 409 || !hasPermission('tasks.manage') ||
+            !confirm(`${error.response.data.error}. Start it anyway?`)) {
+          throw error;
+        }
+        await updateTask(task.id, { ...taskData, overrideBlockers: true });
+      }
       setIsEditing(false);
       onUpdate();
     } catch (error) {
@@ -115,10 +164,15 @@ export default function TaskDetailModal({ task, onClose, onUpdate }: TaskDetailM
     }
   };
 
-  const handleDeleteTask = async () => {
-    if (confirm('Are you sure you want to delete this task?')) {
+  const handleDeleteTask = async (scope: TaskEditScope = 'occurrence') => {
+    const message = scope === 'series'
+      ? 'Delete every open occurrence of this task and stop it repeating?'
+      : liveTask.subtasks.length > 0
+        ? 'Are you sure you want to delete this task and its subtasks?'
+        : 'Are you sure you want to delete this task?';
+    if (confirm(message)) {
       try {
-        await deleteTask(task.id);
+        await deleteTask(task.id, scope);
         onClose();
       } catch (error) {
         console.error('Failed to delete task:', error);
@@ -142,12 +196,30 @@ export default function TaskDetailModal({ task, onClose, onUpdate }: TaskDetailM
             </button>
           )}
           {canEdit() && (
-            <button
-              onClick={handleDeleteTask}
-              className="p-2 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/20 text-secondary-600 dark:text-secondary-400 hover:text-red-600 dark:hover:text-red-400"
-            >
-              <Trash2 className="w-5 h-5" />
-            </button>
+            <div className="relative">
+              <button
+                onClick={() => isSeries ? setShowDeleteOptions(prev => !prev) : handleDeleteTask()}
+                className="p-2 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/20 text-secondary-600 dark:text-secondary-400 hover:text-red-600 dark:hover:text-red-400"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+              {showDeleteOptions && (
+                <div className="absolute right-0 mt-1 w-56 py-1 bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg shadow-lg z-10">
+                  <button
+                    onClick={() => handleDeleteTask('occurrence')}
+                    className="w-full px-3 py-2 text-left text-sm text-secondary-700 dark:text-secondary-300 hover:bg-secondary-100 dark:hover:bg-secondary-700"
+                  >
+                    Delete this occurrence
+                  </button>
+                  <button
+                    onClick={() => handleDeleteTask('series')}
+                    className="w-full px-3 py-2 text-left text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+                  >
+                    Delete the whole series
+                  </button>
+                </div>
+              )}
+            </div>
           )}
           <button
             onClick={onClose}
@@ -194,6 +266,18 @@ export default function TaskDetailModal({ task, onClose, onUpdate }: TaskDetailM
                 {task.description || 'No description provided'}
               </p>
             )}
+            {task.sourceMessage && (
+              <button
+                onClick={() => {
+                  onClose();
+                  jumpToMessage(task.sourceMessage!.chatId, task.sourceMessage!.messageId);
+                }}
+                className="flex items-center gap-1 mt-2 text-sm text-primary-600 dark:text-primary-400 hover:underline"
+              >
+                <MessageSquare className="w-4 h-4" />
+                View the chat message this task came from
+              </button>
+            )}
           </div>
 
           {/* Progress */}
@@ -201,7 +285,7 @@ export default function TaskDetailModal({ task, onClose, onUpdate }: TaskDetailM
             <label className="block text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-2">
               Progress
             </label>
-            {isEditing ? (
+            {isEditing && !hasCalculatedProgress ? (
               <div className="space-y-2">
                 <input
                   type="range"
@@ -222,16 +306,25 @@ export default function TaskDetailModal({ task, onClose, onUpdate }: TaskDetailM
                 <div className="w-full bg-secondary-200 dark:bg-secondary-700 rounded-full h-2">
                   <div 
                     className="bg-primary-600 h-2 rounded-full transition-all"
-                    style={{ width: `${task.progress}%` }}
+                    style={{ width: `${liveTask.progress}%` }}
                   />
                 </div>
                 <p className="text-sm text-secondary-500 dark:text-secondary-400">
-                  {task.progress}% complete
+                  {liveTask.progress}% complete
+                  {hasCalculatedProgress && ' · calculated from subtasks and checklist'}
                 </p>
               </div>
             )}
           </div>
 
+          <SubtaskList task={liveTask} canEdit={canEdit()} />
+
+          <TaskChecklist task={liveTask} canEdit={canEdit()} />
+
+          <TaskDependencyList task={liveTask} canEdit={canEdit()} />
+
+          <TaskTimeTracking task={liveTask} canLog={canEdit()} />
+
           {/* Comments */}
           <div>
             <h4 className="text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-3">
@@ -359,6 +452,32 @@ export default function TaskDetailModal({ task, onClose, onUpdate }: TaskDetailM
             )}
           </div>
 
+          {/* Estimate */}
+          {(isEditing || liveTask.estimatedHours != null) && (
+            <div>
+              <label className="block text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-2">
+                Estimate (hours)
+              </label>
+              {isEditing ? (
+                <input
+                  type="number"
+                  min="0"
+                  max="10000"
+                  step="0.25"
+                  value={formData.estimatedHours}
+                  onChange={(e) => setFormData(prev => ({ ...prev, estimatedHours: e.target.value }))}
+                  placeholder="Not estimated"
+                  className="w-full px-3 py-2 bg-white dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
+                />
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Timer className="w-4 h-4 text-secondary-400" />
+                  <span>{liveTask.estimatedHours}h estimated · {liveTask.loggedHours || 0}h logged</span>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Assigned To */}
           <div>
             <label className="block text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-2">
@@ -429,6 +548,56 @@ export default function TaskDetailModal({ task, onClose, onUpdate }: TaskDetailM
             </div>
           )}
 
+          {/* Repeat */}
+          {(task.isRecurring || isEditing) && (
+            <div>
+              <label className="block text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-2">
+                Repeat
+              </label>
+              {isEditing && canEditRepeat ? (
+                <div className="space-y-3">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={formData.isRecurring}
+                      onChange={(e) => setFormData(prev => ({ ...prev, isRecurring: e.target.checked }))}
+                      className="rounded border-secondary-300 dark:border-secondary-600 text-primary-600 focus:ring-primary-500"
+                    />
+                    <span className="text-sm text-secondary-700 dark:text-secondary-300">
+                      {isSeries ? 'Keep repeating' : 'Repeat this task'}
+                    </span>
+                  </label>
+                  {formData.isRecurring && (
+                    <RecurrenceEditor
+                      value={formData.recurrence}
+                      onChange={(recurrence) => setFormData(prev => ({ ...prev, recurrence }))}
+                      dueDate={formData.dueDate}
+                    />
+                  )}
+                </div>
+              ) : task.isRecurring ? (
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Repeat className="w-4 h-4 text-secondary-400" />
+                    <span className="text-sm">{describeRecurrence(initialRecurrence, task.recurrence?.startsOn || task.dueDate)}</span>
+                  </div>
+                  {task.occurrenceIndex && (
+                    <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                      Occurrence #{task.occurrenceIndex}{task.isLastOccurrence ? ' (last in the series)' : ''}
+                    </p>
+                  )}
+                  {isEditing && (
+                    <p className="text-xs text-secondary-500 dark:text-secondary-400">
+                      Edit the whole series to change how it repeats.
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-secondary-500 dark:text-secondary-400">Does not repeat</p>
+              )}
+            </div>
+          )}
+
           {/* Created Info */}
           <div className="pt-4 border-t border-secondary-200 dark:border-secondary-700">
             <p className="text-xs text-secondary-500 dark:text-secondary-400">
@@ -445,7 +614,35 @@ export default function TaskDetailModal({ task, onClose, onUpdate }: TaskDetailM
 
       {/* Action Buttons */}
       {isEditing && (
-        <div className="flex justify-end gap-3 pt-6 border-t border-secondary-200 dark:border-secondary-700">
+        <div className="flex flex-wrap items-center justify-end gap-3 pt-6 border-t border-secondary-200 dark:border-secondary-700">
+          {isSeries && (
+            <div className="mr-auto flex items-center gap-4 text-sm text-secondary-700 dark:text-secondary-300">
+              <span className="font-medium">Apply to:</span>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="editScope"
+                  checked={editScope === 'occurrence'}
+                  onChange={() => setEditScope('occurrence')}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                This occurrence
+              </label>
+              <label
+                className="flex items-center gap-2 cursor-pointer"
+                title="Title, description, priority, assignee, team and repeat settings also change on the other open occurrences"
+              >
+                <input
+                  type="radio"
+                  name="editScope"
+                  checked={editScope === 'series'}
+                  onChange={() => setEditScope('series')}
+                  className="text-primary-600 focus:ring-primary-500"
+                />
+                Whole series
+              </label>
+            </div>
+          )}
           <button
             onClick={() => setIsEditing(false)}
             className="px-4 py-2 bg-secondary-100 dark:bg-secondary-700 text-secondary-700 dark:text-secondary-300 rounded-lg hover:bg-secondary-200 dark:hover:bg-secondary-600 transition-colors"
@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { format, isToday } from 'date-fns';
+import { Play, Plus, Square, Timer, Trash2 } from 'lucide-react';
+import { useApp } from '../../context/AppContext';
+import { Task, TaskTimeEntry } from '../../types';
+import { formatDuration } from '../../utils/tasks';
+import dataService from '../../services/dataService';
+
+interface TaskTimeTrackingProps {
+  task: Task;
+  canLog: boolean;
+}
+
+const inputClassName = 'px-3 py-1.5 text-sm bg-white dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white';
+
+const getRunningTaskId = (taskId: unknown) =>
+  taskId && typeof taskId === 'object' ? (taskId as { id: string }).id : (taskId as string);
+
+// Logged vs. estimated hours, the current user's timer and the task's time entries
+export default function TaskTimeTracking({ task, canLog }: TaskTimeTrackingProps) {
+  const { currentUser, hasPermission } = useApp();
+  const [entries, setEntries] = useState<TaskTimeEntry[]>([]);
+  const [running, setRunning] = useState<{ taskId: string; startedAt: string } | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState({ hours: '', minutes: '', date: format(new Date(), 'yyyy-MM-dd'), note: '' });
+  const [saving, setSaving] = useState(false);
+
+  // Logged hours change whenever an entry does, here or elsewhere
+  useEffect(() => {
+    let cancelled = false;
+    dataService.getTaskTimeEntries(task.id)
+      .then(result => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch(error => console.error('Failed to load time entries:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [task.id, task.loggedHours]);
+
+  useEffect(() => {
+    if (!canLog) return;
+    dataService.getRunningTimer()
+      .then(entry => setRunning(entry ? { taskId: getRunningTaskId(entry.taskId), startedAt: entry.startedAt } : null))
+      .catch(error => console.error('Failed to load running timer:', error));
+  }, [canLog]);
+
+  const isRunningHere = running?.taskId === task.id;
+
+  useEffect(() => {
+    if (!isRunningHere) return;
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, [isRunningHere]);
+
+  const handleStart = async () => {
+    try {
+      const { entry } = await dataService.startTaskTimer(task.id);
+      setRunning({ taskId: task.id, startedAt: entry.startedAt });
+      setNow(Date.now());
+    } catch (error) {
+      console.error('Failed to start timer:', error);
+    }
+  };
+
+  const handleStop = async () => {
+    try {
+      await dataService.stopTaskTimer();
+      setRunning(null);
+    } catch (error) {
+      console.error('Failed to stop timer:', error);
+    }
+  };
+
+  const handleLog = async () => {
+    const minutes = (parseInt(form.hours, 10) || 0) * 60 + (parseInt(form.minutes, 10) || 0);
+    if (minutes <= 0) return;
+    // Time logged for today ends now; earlier days are placed at midday so they land on the right date
+    const day = new Date(`${form.date}T12:00`);
+    const date = isToday(day) ? new Date(Date.now() - minutes * 60 * 1000) : day;
+    setSaving(true);
+    try {
+      await dataService.logTaskTime(task.id, { minutes, date: date.toISOString(), note: form.note.trim() || undefined });
+      setForm(prev => ({ ...prev, hours: '', minutes: '', note: '' }));
+      setShowForm(false);
+    } catch (error) {
+      console.error('Failed to log time:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (entryId: string) => {
+    if (!confirm('Delete this time entry?')) return;
+    try {
+      await dataService.deleteTimeEntry(entryId);
+      setEntries(prev => prev.filter(entry => entry.id !== entryId));
+    } catch (error) {
+      console.error('Failed to delete time entry:', error);
+    }
+  };
+
+  const logged = task.loggedHours || 0;
+  const estimate = task.estimatedHours || 0;
+  const isOverEstimate = estimate > 0 && logged > estimate;
+  const finishedEntries = entries.filter(entry => !entry.isRunning);
+
+  if (!canLog && finishedEntries.length === 0 && !estimate) return null;
+
+  return (
+    <div>
+      <h4 className="flex items-center gap-2 text-sm font-medium text-secondary-700 dark:text-secondary-300 mb-3">
+        <Timer className="w-4 h-4" />
+        Time
+        <span className={`font-normal ${isOverEstimate ? 'text-red-600 dark:text-red-400' : 'text-secondary-500 dark:text-secondary-400'}`}>
+          {formatDuration(logged * 60)} logged{estimate > 0 && ` of ${formatDuration(estimate * 60)} estimated`}
+        </span>
+      </h4>
+
+      {estimate > 0 && (
+        <div className="w-full bg-secondary-200 dark:bg-secondary-700 rounded-full h-1.5 mb-3">
+          <div
+            className={`h-1.5 rounded-full transition-all ${isOverEstimate ? 'bg-red-500' : 'bg-primary-600'}`}
+            style={{ width: `${Math.min(100, (logged / estimate) * 100)}%` }}
+          />
+        </div>
+      )}
+
+      {canLog && (
+        <div className="flex items-center gap-2 mb-3">
+          {isRunningHere ? (
+            <button
+              onClick={handleStop}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors"
+            >
+              <Square className="w-4 h-4" />
+              Stop · {formatDuration((now - new Date(running!.startedAt).getTime()) / 60000)}
+            </button>
+          ) : (
+            <button
+              onClick={handleStart}
+              disabled={task.status === 'completed' || task.status === 'cancelled'}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+              title={running ? 'Stops the timer running on another task' : undefined}
+            >
+              <Play className="w-4 h-4" />
+              Start timer
+            </button>
+          )}
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm bg-secondary-100 dark:bg-secondary-700 text-secondary-700 dark:text-secondary-300 rounded-lg hover:bg-secondary-200 dark:hover:bg-secondary-600 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Log time
+          </button>
+        </div>
+      )}
+
+      {showForm && (
+        <div className="flex flex-wrap items-center gap-2 mb-3 p-3 bg-secondary-50 dark:bg-secondary-800 rounded-lg">
+          <input
+            type="number"
+            min="0"
+            max="24"
+            placeholder="h"
+            value={form.hours}
+            onChange={(e) => setForm(prev => ({ ...prev, hours: e.target.value }))}
+            className={`w-16 ${inputClassName}`}
+          />
+          <input
+            type="number"
+            min="0"
+            max="59"
+            placeholder="m"
+            value={form.minutes}
+            onChange={(e) => setForm(prev => ({ ...prev, minutes: e.target.value }))}
+            className={`w-16 ${inputClassName}`}
+          />
+          <input
+            type="date"
+            value={form.date}
+            max={format(new Date(), 'yyyy-MM-dd')}
+            onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))}
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            placeholder="Note (optional)"
+            maxLength={500}
+            value={form.note}
+            onChange={(e) => setForm(prev => ({ ...prev, note: e.target.value }))}
+            className={`flex-1 min-w-[8rem] ${inputClassName}`}
+          />
+          <button
+            onClick={handleLog}
+            disabled={saving || !(parseInt(form.hours, 10) > 0 || parseInt(form.minutes, 10) > 0)}
+            className="px-3 py-1.5 text-sm bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      )}
+
+      {finishedEntries.length > 0 && (
+        <ul className="space-y-1 max-h-48 overflow-y-auto">
+          {finishedEntries.map(entry => (
+            <li key={entry.id} className="group flex items-center gap-3 text-sm text-secondary-700 dark:text-secondary-300">
+              <span className="w-16 flex-shrink-0 font-medium">{formatDuration(entry.minutes)}</span>
+              <span className="w-20 flex-shrink-0 text-xs text-secondary-500 dark:text-secondary-400">
+                {format(new Date(entry.startedAt), 'MMM d')}
+              </span>
+              <span className="flex-1 min-w-0 truncate">
+                {entry.userId?.name || 'Unknown user'}
+                {entry.note && <span className="text-secondary-500 dark:text-secondary-400"> · {entry.note}</span>}
+              </span>
+              {entry.source === 'timer' && <Timer className="w-3 h-3 text-secondary-400" />}
+              {(entry.userId?.id === currentUser?.id || hasPermission('time.manage')) && (
+                <button
+                  onClick={() => handleDelete(entry.id)}
+                  className="opacity-0 group-hover:opacity-100 text-secondary-400 hover:text-red-600 transition-opacity"
+                  title="Delete entry"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,389 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { addDays, format, isSameDay, isWeekend, startOfWeek } from 'date-fns';
+import { AlertTriangle, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useApp } from '../../context/AppContext';
+import { Task } from '../../types';
+import { getTaskAssigneeId, getTaskAssigneeName } from '../../utils/tasks';
+
+interface TaskTimelineProps {
+  tasks: Task[];
+  onTaskClick: (task: Task) => void;
+}
+
+type GroupBy = 'assignee' | 'team';
+type Zoom = 'day' | 'week';
+
+interface DragState {
+  taskId: string;
+  // Moving shifts both dates; resizing moves only the due date
+  mode: 'move' | 'resize';
+  originX: number;
+  deltaDays: number;
+  moved: boolean;
+}
+
+type Row =
+  | { type: 'group'; key: string; label: string; top: number }
+  | { type: 'task'; key: string; task: Task; top: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HEADER_HEIGHT = 40;
+const GROUP_HEIGHT = 28;
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 20;
+const LABEL_WIDTH = 224;
+
+const ZOOMS: Record<Zoom, { dayWidth: number; days: number }> = {
+  day: { dayWidth: 40, days: 35 },
+  week: { dayWidth: 14, days: 119 },
+};
+
+const BAR_COLORS: Record<Task['status'], string> = {
+  pending: 'bg-amber-400 dark:bg-amber-500',
+  'in-progress': 'bg-blue-500',
+  completed: 'bg-green-500',
+  cancelled: 'bg-secondary-300 dark:bg-secondary-600',
+};
+
+const isClosed = (task: Task) => task.status === 'completed' || task.status === 'cancelled';
+
+// Start and due date of a task; a start after the due date is drawn as a zero-length bar
+const getSpan = (task: Task) => {
+  const due = new Date(task.dueDate);
+  const start = new Date(task.startDate || task.dueDate);
+  return { start: start > due ? due : start, due };
+};
+
+// Tasks as start→due bars on a shared time axis, grouped by assignee or team
+export default function TaskTimeline({ tasks, onTaskClick }: TaskTimelineProps) {
+  const { users, teams, updateTask } = useApp();
+  const [groupBy, setGroupBy] = useState<GroupBy>('assignee');
+  const [zoom, setZoom] = useState<Zoom>('day');
+  const [rangeStart, setRangeStart] = useState(() => addDays(startOfWeek(new Date(), { weekStartsOn: 1 }), -7));
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const { dayWidth, days } = ZOOMS[zoom];
+  const chartWidth = dayWidth * days;
+  const today = new Date();
+
+  const x = (date: Date) => ((date.getTime() - rangeStart.getTime()) / DAY_MS) * dayWidth;
+
+  const rows = useMemo((): Row[] => {
+    const groups = new Map<string, { label: string; tasks: Task[] }>();
+    tasks.forEach(task => {
+      let key: string;
+      let label: string;
+      if (groupBy === 'team') {
+        const team = teams.find(t => t.id === task.teamId);
+        key = team ? team.id : 'no-team';
+        label = team ? team.name : 'No team';
+      } else {
+        key = getTaskAssigneeId(task);
+        label = getTaskAssigneeName(task, users) || 'Unknown';
+      }
+      const group = groups.get(key) || { label, tasks: [] };
+      group.tasks.push(task);
+      groups.set(key, group);
+    });
+
+    const result: Row[] = [];
+    let top = 0;
+    [...groups.entries()]
+      .sort(([, a], [, b]) => a.label.localeCompare(b.label))
+      .forEach(([key, group]) => {
+        result.push({ type: 'group', key: `group:${key}`, label: group.label, top });
+        top += GROUP_HEIGHT;
+        group.tasks
+          .sort((a, b) => getSpan(a).start.getTime() - getSpan(b).start.getTime())
+          .forEach(task => {
+            result.push({ type: 'task', key: task.id, task, top });
+            top += ROW_HEIGHT;
+          });
+      });
+    return result;
+  }, [tasks, users, teams, groupBy]);
+
+  const bodyHeight = rows.length > 0 ? rows[rows.length - 1].top + (rows[rows.length - 1].type === 'group' ? GROUP_HEIGHT : ROW_HEIGHT) : 0;
+
+  // Dates a task is drawn with, including an in-progress drag
+  const getDisplaySpan = (task: Task) => {
+    const span = getSpan(task);
+    if (!drag || drag.taskId !== task.id || drag.deltaDays === 0) return span;
+    if (drag.mode === 'move') {
+      return { start: addDays(span.start, drag.deltaDays), due: addDays(span.due, drag.deltaDays) };
+    }
+    const due = addDays(span.due, drag.deltaDays);
+    return { start: span.start, due: due < span.start ? span.start : due };
+  };
+
+  const finishDrag = async (state: DragState) => {
+    const task = tasks.find(t => t.id === state.taskId);
+    if (!task) return;
+    if (!state.moved) {
+      if (state.mode === 'move') onTaskClick(task);
+      return;
+    }
+    if (state.deltaDays === 0) return;
+
+    const span = getSpan(task);
+    const changes = state.mode === 'move'
+      ? { startDate: addDays(span.start, state.deltaDays).toISOString(), dueDate: addDays(span.due, state.deltaDays).toISOString() }
+      : { dueDate: new Date(Math.max(addDays(span.due, state.deltaDays).getTime(), span.start.getTime())).toISOString() };
+    try {
+      await updateTask(task.id, changes, { silent: true });
+    } catch (error) {
+      // updateTask rolls the bar back and reports the error
+    }
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+    const handleMove = (e: MouseEvent) => {
+      const current = dragRef.current;
+      if (!current) return;
+      const dx = e.clientX - current.originX;
+      const next = { ...current, deltaDays: Math.round(dx / dayWidth), moved: current.moved || Math.abs(dx) > 3 };
+      dragRef.current = next;
+      setDrag(next);
+    };
+    const handleUp = () => {
+      const current = dragRef.current;
+      dragRef.current = null;
+      setDrag(null);
+      if (current) finishDrag(current);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [drag?.taskId, dayWidth]);
+
+  const startDrag = (e: React.MouseEvent, task: Task, mode: DragState['mode']) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const state = { taskId: task.id, mode, originX: e.clientX, deltaDays: 0, moved: false };
+    dragRef.current = state;
+    setDrag(state);
+  };
+
+  // Arrow from the end of each blocker's bar to the start of the task it blocks
+  const arrows = useMemo(() => {
+    const rowById = new Map<string, Extract<Row, { type: 'task' }>>();
+    rows.forEach(row => {
+      if (row.type === 'task') rowById.set(row.task.id, row);
+    });
+    const paths: { key: string; d: string }[] = [];
+    rowById.forEach(row => {
+      (row.task.blockedBy || []).forEach(blockerId => {
+        const blockerRow = rowById.get(blockerId);
+        if (!blockerRow) return;
+        const x1 = Math.max(x(getDisplaySpan(blockerRow.task).due), x(getDisplaySpan(blockerRow.task).start) + 6);
+        const y1 = blockerRow.top + ROW_HEIGHT / 2;
+        const x2 = x(getDisplaySpan(row.task).start);
+        const y2 = row.top + ROW_HEIGHT / 2;
+        paths.push({ key: `${blockerId}-${row.task.id}`, d: `M ${x1} ${y1} H ${x1 + 8} V ${y2} H ${x2 - 2}` });
+      });
+    });
+    return paths;
+  }, [rows, drag, rangeStart, dayWidth]);
+
+  const dayList = Array.from({ length: days }, (_, i) => addDays(rangeStart, i));
+  const todayX = x(today);
+
+  const shiftRange = (direction: -1 | 1) => {
+    setRangeStart(prev => addDays(prev, direction * (zoom === 'day' ? 7 : 28)));
+  };
+
+  const renderBar = (task: Task) => {
+    const { start, due } = getDisplaySpan(task);
+    const left = x(start);
+    const width = Math.max(x(due) - left, 6);
+    if (left + width < 0 || left > chartWidth) return null;
+
+    const isOverdue = due < today && !isClosed(task);
+    const isDragging = drag?.taskId === task.id;
+    return (
+      <div
+        onMouseDown={(e) => startDrag(e, task, 'move')}
+        className={`group absolute flex items-center rounded cursor-grab select-none ${BAR_COLORS[task.status]} ${
+          isOverdue ? 'ring-2 ring-red-500' : ''
+        } ${isDragging ? 'opacity-75 cursor-grabbing shadow-lg' : 'hover:shadow-md'}`}
+        style={{ left, width, top: (ROW_HEIGHT - BAR_HEIGHT) / 2, height: BAR_HEIGHT }}
+        title={`${task.title}: ${format(start, 'MMM d')} → ${format(due, 'MMM d')}${isOverdue ? ' (overdue)' : ''}`}
+      >
+        {isOverdue && <AlertTriangle className="flex-shrink-0 w-3 h-3 ml-1 text-white" />}
+        {width > 48 && (
+          <span className="px-1.5 text-xs font-medium text-white truncate">{task.title}</span>
+        )}
+        <div
+          onMouseDown={(e) => startDrag(e, task, 'resize')}
+          className="absolute right-0 top-0 h-full w-2 rounded-r cursor-ew-resize bg-black/0 group-hover:bg-black/20"
+          title="Drag to change the due date"
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setRangeStart(addDays(startOfWeek(new Date(), { weekStartsOn: 1 }), -7))}
+            className="px-3 py-1 rounded-lg text-sm font-medium bg-primary-600 text-white hover:bg-primary-700"
+          >
+            Today
+          </button>
+          <button onClick={() => shiftRange(-1)} className="p-1 rounded-lg hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400">
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <button onClick={() => shiftRange(1)} className="p-1 rounded-lg hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400">
+            <ChevronRight className="w-5 h-5" />
+          </button>
+          <span className="ml-2 text-sm font-medium text-secondary-700 dark:text-secondary-300">
+            {format(rangeStart, 'MMM d')} – {format(addDays(rangeStart, days - 1), 'MMM d, yyyy')}
+          </span>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-secondary-600 dark:text-secondary-400">
+          Group by
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+            className="px-3 py-1 bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
+          >
+            <option value="assignee">Assignee</option>
+            <option value="team">Team</option>
+          </select>
+        </label>
+        <div className="flex bg-secondary-100 dark:bg-secondary-800 rounded-lg p-1">
+          {(['day', 'week'] as Zoom[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setZoom(option)}
+              className={`px-3 py-0.5 rounded-md text-sm font-medium transition-colors ${
+                zoom === option
+                  ? 'bg-white text-primary-600 shadow-sm'
+                  : 'text-secondary-600 dark:text-secondary-400 hover:text-secondary-800 dark:hover:text-secondary-200'
+              }`}
+            >
+              {option === 'day' ? 'Days' : 'Weeks'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {tasks.length === 0 ? (
+        <p className="py-8 text-center text-secondary-600 dark:text-secondary-400">No tasks to show</p>
+      ) : (
+        <div className="flex border border-secondary-200 dark:border-secondary-700 rounded-lg bg-white dark:bg-secondary-900 overflow-hidden">
+          {/* Labels */}
+          <div className="flex-shrink-0 border-r border-secondary-200 dark:border-secondary-700" style={{ width: LABEL_WIDTH }}>
+            <div style={{ height: HEADER_HEIGHT }} className="border-b border-secondary-200 dark:border-secondary-700" />
+            {rows.map(row => row.type === 'group' ? (
+              <div
+                key={row.key}
+                style={{ height: GROUP_HEIGHT }}
+                className="flex items-center px-3 text-xs font-semibold uppercase tracking-wide text-secondary-500 dark:text-secondary-400 bg-secondary-50 dark:bg-secondary-800"
+              >
+                <span className="truncate">{row.label}</span>
+              </div>
+            ) : (
+              <button
+                key={row.key}
+                onClick={() => onTaskClick(row.task)}
+                style={{ height: ROW_HEIGHT }}
+                className="flex items-center w-full px-3 text-left text-sm text-secondary-800 dark:text-secondary-200 hover:bg-secondary-50 dark:hover:bg-secondary-800"
+              >
+                <span className={`truncate ${isClosed(row.task) ? 'line-through text-secondary-400' : ''}`}>{row.task.title}</span>
+              </button>
+            ))}
+          </div>
+
+          {/* Chart */}
+          <div className="flex-1 overflow-x-auto">
+            <div className="relative" style={{ width: chartWidth }}>
+              {/* Date header */}
+              <div className="flex border-b border-secondary-200 dark:border-secondary-700" style={{ height: HEADER_HEIGHT }}>
+                {dayList.map(day => {
+                  const showLabel = zoom === 'day' || day.getDay() === 1;
+                  return (
+                    <div
+                      key={day.toISOString()}
+                      style={{ width: dayWidth }}
+                      className={`flex-shrink-0 flex flex-col justify-center overflow-visible whitespace-nowrap text-[10px] leading-tight text-secondary-500 dark:text-secondary-400 ${
+                        zoom === 'day' ? 'items-center' : ''
+                      } ${isSameDay(day, today) ? 'font-bold text-primary-600 dark:text-primary-400' : ''}`}
+                    >
+                      {showLabel && (zoom === 'day' ? (
+                        <>
+                          <span>{format(day, day.getDate() === 1 || isSameDay(day, rangeStart) ? 'MMM' : 'EEEEE')}</span>
+                          <span className="text-xs">{format(day, 'd')}</span>
+                        </>
+                      ) : (
+                        <span className="pl-0.5 border-l border-secondary-300 dark:border-secondary-600">{format(day, 'MMM d')}</span>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Rows */}
+              <div className="relative" style={{ height: bodyHeight }}>
+                {zoom === 'day' && dayList.map((day, i) => isWeekend(day) && (
+                  <div
+                    key={day.toISOString()}
+                    className="absolute top-0 bottom-0 bg-secondary-50 dark:bg-secondary-800/40"
+                    style={{ left: i * dayWidth, width: dayWidth }}
+                  />
+                ))}
+
+                {rows.map(row => (
+                  <div
+                    key={row.key}
+                    className={`absolute left-0 right-0 ${
+                      row.type === 'group' ? 'bg-secondary-50/70 dark:bg-secondary-800/70' : 'border-b border-secondary-100 dark:border-secondary-800'
+                    }`}
+                    style={{ top: row.top, height: row.type === 'group' ? GROUP_HEIGHT : ROW_HEIGHT }}
+                  >
+                    {row.type === 'task' && renderBar(row.task)}
+                  </div>
+                ))}
+
+                <svg className="absolute inset-0 pointer-events-none" width={chartWidth} height={bodyHeight}>
+                  <defs>
+                    <marker id="timeline-arrow" viewBox="0 0 6 6" refX="5" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+                      <path d="M 0 0 L 6 3 L 0 6 z" className="fill-secondary-500" />
+                    </marker>
+                  </defs>
+                  {arrows.map(arrow => (
+                    <path
+                      key={arrow.key}
+                      d={arrow.d}
+                      fill="none"
+                      strokeWidth={1.5}
+                      className="stroke-secondary-500"
+                      markerEnd="url(#timeline-arrow)"
+                    />
+                  ))}
+                </svg>
+
+                {todayX >= 0 && todayX <= chartWidth && (
+                  <div
+                    className="absolute top-0 bottom-0 w-0.5 bg-red-500 pointer-events-none"
+                    style={{ left: todayX }}
+                    title="Today"
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
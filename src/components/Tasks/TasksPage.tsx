@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import TeamManagement from './TeamManagement';
 import { 
   Plus, 
@@ -15,17 +15,69 @@ import {
   MoreVertical,
   Edit,
   Trash2,
-  MessageSquare
+  MessageSquare,
+  ChevronDown,
+  ChevronRight,
+  ListTree,
+  Bookmark,
+  Save
 } from 'lucide-react';
 import { useApp } from '../../context/AppContext';
-import { Task, Team } from '../../types';
+import { Task, TaskDueFilter, TaskFilters, TaskSort, TaskViewMode } from '../../types';
+import {
+  EMPTY_TASK_FILTERS,
+  TASK_DUE_LABELS,
+  TASK_SORT_LABELS,
+  countActiveFilters,
+  filterTasks,
+  sortTasks
+} from '../../utils/tasks';
 import UserAvatar from '../UI/UserAvatar';
 import Modal from '../UI/Modal';
 import CreateTaskModal from './CreateTaskModal';
 import TaskDetailModal from './TaskDetailModal';
 import CalendarView from './CalendarView';
+import TaskBoard from './TaskBoard';
+import TaskTimeline from './TaskTimeline';
 import TaskStats from './TaskStats';
 import TaskDashboard from './TaskDashboard';
+import MultiSelectFilter from './MultiSelectFilter';
+
+const selectClassName = 'px-3 py-1 bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white';
+
+const VIEW_MODE_LABELS: Record<TaskViewMode, string> = {
+  dashboard: 'Dashboard',
+  list: 'List',
+  board: 'Board',
+  timeline: 'Timeline',
+  calendar: 'Calendar'
+};
+
+/**
+ * Group tasks under their parents for the list view, children in the parent's subtask order.
+ * A task whose parent isn't in the list (filtered out, or not visible to this user) shows at the top level.
+ */
+const buildTaskTree = (tasks: Task[]) => {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const childrenByParent = new Map<string, Task[]>();
+  const rootTasks: Task[] = [];
+
+  tasks.forEach(task => {
+    const parent = task.parentTaskId ? byId.get(task.parentTaskId) : undefined;
+    if (!parent) {
+      rootTasks.push(task);
+      return;
+    }
+    childrenByParent.set(parent.id, [...(childrenByParent.get(parent.id) || []), task]);
+  });
+
+  childrenByParent.forEach((children, parentId) => {
+    const order = byId.get(parentId)!.subtasks;
+    children.sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id));
+  });
+
+  return { rootTasks, childrenByParent };
+};
 
 export default function TasksPage() {
   const { 
@@ -36,27 +88,34 @@ export default function TasksPage() {
     setCurrentScreen,
     fetchTasks,
     fetchTeams,
-    deleteTask
+    deleteTask,
+    taskQuery,
+    taskViews,
+    setTaskQuery,
+    createTaskView,
+    updateTaskView,
+    deleteTaskView
   } = useApp();
 
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [showTaskDetail, setShowTaskDetail] = useState(false);
-  const [filters, setFilters] = useState({
-    status: '',
-    priority: '',
-    assignedTo: '',
-    teamId: ''
-  });
-  const [searchQuery, setSearchQuery] = useState('');
-  const [viewMode, setViewMode] = useState<'dashboard' | 'list' | 'calendar'>('dashboard');
   const [showTeamManagement, setShowTeamManagement] = useState(false);
+  const [collapsedTaskIds, setCollapsedTaskIds] = useState<Set<string>>(new Set());
+  const [viewName, setViewName] = useState<string | null>(null);
+
+  // Filters, sort and layout live in the app state so they survive leaving the page
+  const { filters, sort, viewMode, viewId } = taskQuery;
+  const activeView = taskViews.find(view => view.id === viewId);
+
+  const setFilters = (changes: Partial<TaskFilters>) => setTaskQuery({ filters: { ...filters, ...changes } });
+  const setViewMode = (mode: TaskViewMode) => setTaskQuery({ viewMode: mode });
 
   // Debounced fetch functions to prevent rapid calls
   const debouncedFetchTasks = useCallback(() => {
     const timeoutId = setTimeout(() => {
       fetchTasks();
-    }, 100);
+    }, 300);
     return () => clearTimeout(timeoutId);
   }, [fetchTasks]);
 
@@ -68,21 +127,56 @@ export default function TasksPage() {
   }, [fetchTeams]);
 
   useEffect(() => {
-    debouncedFetchTasks();
-    debouncedFetchTeams();
+    return debouncedFetchTeams();
   }, []); // Only run once on mount
 
-  const filteredTasks = tasks.filter(task => {
-    const matchesSearch = task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         task.description?.toLowerCase().includes(searchQuery.toLowerCase());
-    
-    const matchesStatus = !filters.status || task.status === filters.status;
-    const matchesPriority = !filters.priority || task.priority === filters.priority;
-    const matchesAssignedTo = !filters.assignedTo || task.assignedTo === filters.assignedTo;
-    const matchesTeam = !filters.teamId || task.teamId === filters.teamId;
+  // The server does the filtering, so refetch whenever the filters or sort change
+  const queryKey = JSON.stringify({ filters, sort });
+  useEffect(() => {
+    return debouncedFetchTasks();
+  }, [queryKey]);
+
+  // Loaded tasks are filtered again here so edits and socket updates follow the current filters
+  const filteredTasks = useMemo(
+    () => sortTasks(filterTasks(tasks, filters, currentUser?.id), sort),
+    [tasks, filters, sort, currentUser?.id]
+  );
 
-    return matchesSearch && matchesStatus && matchesPriority && matchesAssignedTo && matchesTeam;
-  });
+  const tagOptions = useMemo(() => {
+    const tags = new Set(filters.tags);
+    tasks.forEach(task => task.tags?.forEach(tag => tags.add(tag)));
+    return [...tags].sort().map(tag => ({ value: tag, label: tag }));
+  }, [tasks, filters.tags]);
+
+  const activeFilterCount = countActiveFilters(filters);
+  const isViewChanged = !!activeView && JSON.stringify({ filters: { ...EMPTY_TASK_FILTERS, ...activeView.filters }, sort: activeView.sort, viewMode: activeView.viewMode })
+    !== JSON.stringify({ filters, sort, viewMode });
+
+  const handleSaveView = async () => {
+    if (!viewName?.trim()) return;
+    const view = await createTaskView(viewName.trim());
+    if (view) setViewName(null);
+  };
+
+  const handleDeleteView = async () => {
+    if (activeView && confirm(`Delete the saved view "${activeView.name}"?`)) {
+      await deleteTaskView(activeView.id);
+    }
+  };
+
+  const { rootTasks, childrenByParent } = useMemo(() => buildTaskTree(filteredTasks), [filteredTasks]);
+
+  const toggleCollapsed = (taskId: string) => {
+    setCollapsedTaskIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -130,18 +224,149 @@ export default function TasksPage() {
   };
 
   const handleDeleteTask = async (taskId: string) => {
-    if (confirm('Are you sure you want to delete this task?')) {
+    const subtaskCount = tasks.find(task => task.id === taskId)?.subtasks.length || 0;
+    const message = subtaskCount > 0
+      ? `Are you sure you want to delete this task and its ${subtaskCount} subtask${subtaskCount === 1 ? '' : 's'}?`
+      : 'Are you sure you want to delete this task?';
+    if (confirm(message)) {
       await deleteTask(taskId);
     }
   };
 
+  // One card in the list view, followed by its subtasks
+  const renderTaskRow = (task: Task, depth: number): React.ReactNode => {
+    const assignedUser = getAssignedUser(task.assignedTo);
+    const team = task.teamId ? getTeam(task.teamId) : null;
+    const overdue = isOverdue(task.dueDate);
+    const children = childrenByParent.get(task.id) || [];
+    const isCollapsed = collapsedTaskIds.has(task.id);
+
+    return (
+      <div key={task.id} className="space-y-2" style={depth > 0 ? { marginLeft: `${depth * 1.5}rem` } : undefined}>
+        <div
+          className="bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg p-4 hover:shadow-md transition-shadow cursor-pointer"
+          onClick={() => handleTaskClick(task)}
+        >
+          <div className="flex items-start justify-between">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 mb-2">
+                {children.length > 0 && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggleCollapsed(task.id);
+                    }}
+                    className="p-0.5 -ml-1 rounded hover:bg-secondary-100 dark:hover:bg-secondary-700 text-secondary-400"
+                    title={isCollapsed ? 'Show subtasks' : 'Hide subtasks'}
+                  >
+                    {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                  </button>
+                )}
+                {getStatusIcon(task.status)}
+                <h3 className="font-medium text-secondary-900 dark:text-white truncate">
+                  {task.title}
+                </h3>
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${getPriorityColor(task.priority)}`}>
+                  {task.priority}
+                </span>
+                {overdue && task.status !== 'completed' && (
+                  <span className="px-2 py-1 bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200 rounded-full text-xs font-medium">
+                    Overdue
+                  </span>
+                )}
+              </div>
+            
+              {task.description && (
+                <p className="text-sm text-secondary-600 dark:text-secondary-400 mb-3 line-clamp-2">
+                  {task.description}
+                </p>
+              )}
+
+              <div className="flex items-center gap-4 text-sm text-secondary-500 dark:text-secondary-400">
+                <div className="flex items-center gap-1">
+                  <Clock className="w-4 h-4" />
+                  <span>Due {new Date(task.dueDate).toLocaleDateString()}</span>
+                </div>
+              
+                <div className="flex items-center gap-1">
+                  <User className="w-4 h-4" />
+                  <span>{assignedUser?.name || 'Unknown'}</span>
+                </div>
+
+                {task.teamId && (
+                  <div className="flex items-center gap-1">
+                    <Users className="w-4 h-4" />
+                    <span>{team?.name || 'Unknown Team'}</span>
+                  </div>
+                )}
+
+                {team && (
+                  <div className="flex items-center gap-1">
+                    <Users className="w-4 h-4" />
+                    <span>{team.name}</span>
+                  </div>
+                )}
+
+                {task.subtasks.length > 0 && (
+                  <div className="flex items-center gap-1">
+                    <ListTree className="w-4 h-4" />
+                    <span>{task.subtasks.length} subtask{task.subtasks.length === 1 ? '' : 's'}</span>
+                  </div>
+                )}
+
+                {task.comments.length > 0 && (
+                  <div className="flex items-center gap-1">
+                    <MessageSquare className="w-4 h-4" />
+                    <span>{task.comments.length}</span>
+                  </div>
+                )}
+              </div>
+
+              {task.progress > 0 && (
+                <div className="mt-3">
+                  <div className="flex items-center justify-between text-xs text-secondary-500 dark:text-secondary-400 mb-1">
+                    <span>Progress</span>
+                    <span>{task.progress}%</span>
+                  </div>
+                  <div className="w-full bg-secondary-200 dark:bg-secondary-700 rounded-full h-2">
+                    <div 
+                      className="bg-primary-600 h-2 rounded-full transition-all"
+                      style={{ width: `${task.progress}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-1 ml-4">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleTaskClick(task);
+                }}
+                className="p-1 rounded hover:bg-secondary-100 dark:hover:bg-secondary-700 text-secondary-400 hover:text-secondary-600 dark:hover:text-secondary-300"
+              >
+                <Edit className="w-4 h-4" />
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDeleteTask(task.id);
+                }}
+                className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/20 text-secondary-400 hover:text-red-600 dark:hover:text-red-400"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+        {!isCollapsed && children.map(child => renderTaskRow(child, depth + 1))}
+      </div>
+    );
+  };
+
   const clearFilters = () => {
-    setFilters({
-      status: '',
-      priority: '',
-      assignedTo: '',
-      teamId: ''
-    });
+    setFilters(EMPTY_TASK_FILTERS);
   };
 
   return (
@@ -156,9 +381,11 @@ export default function TasksPage() {
             <XCircle className="w-5 h-5" />
           </button>
           <div>
-            <h1 className="text-xl font-bold text-secondary-900 dark:text-white">Task Management</h1>
+            <h1 className="text-xl font-bold text-secondary-900 dark:text-white">
+              {activeView ? activeView.name : 'Task Management'}
+            </h1>
             <p className="text-sm text-secondary-600 dark:text-secondary-400">
-              Manage and track your tasks
+              {activeView ? 'Saved view' : 'Manage and track your tasks'}
             </p>
           </div>
         </div>
@@ -171,36 +398,19 @@ export default function TasksPage() {
             Manage Teams
           </button>
           <div className="flex bg-secondary-100 dark:bg-secondary-800 rounded-lg p-1">
-            <button
-              onClick={() => setViewMode('dashboard')}
-              className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
-                viewMode === 'dashboard'
-                  ? 'bg-white text-primary-600 shadow-sm'
-                  : 'text-secondary-600 dark:text-secondary-400 hover:text-secondary-800 dark:hover:text-secondary-200'
-              }`}
-            >
-              Dashboard
-            </button>
-            <button
-              onClick={() => setViewMode('list')}
-              className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
-                viewMode === 'list'
-                  ? 'bg-white text-primary-600 shadow-sm'
-                  : 'text-secondary-600 dark:text-secondary-400 hover:text-secondary-800 dark:hover:text-secondary-200'
-              }`}
-            >
-              List
-            </button>
-            <button
-              onClick={() => setViewMode('calendar')}
-              className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
-                viewMode === 'calendar'
-                  ? 'bg-white text-primary-600 shadow-sm'
-                  : 'text-secondary-600 dark:text-secondary-400 hover:text-secondary-800 dark:hover:text-secondary-200'
-              }`}
-            >
-              Calendar
-            </button>
+            {(Object.keys(VIEW_MODE_LABELS) as TaskViewMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                  viewMode === mode
+                    ? 'bg-white text-primary-600 shadow-sm'
+                    : 'text-secondary-600 dark:text-secondary-400 hover:text-secondary-800 dark:hover:text-secondary-200'
+                }`}
+              >
+                {VIEW_MODE_LABELS[mode]}
+              </button>
+            ))}
           </div>
           <button
             onClick={() => setShowCreateModal(true)}
@@ -221,66 +431,153 @@ export default function TasksPage() {
             <input
               type="text"
               placeholder="Search tasks..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              value={filters.q}
+              onChange={(e) => setFilters({ q: e.target.value })}
               className="w-full pl-10 pr-4 py-2 bg-secondary-50 dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
             />
           </div>
 
           {/* Filters */}
-          <div className="flex flex-wrap gap-2">
-            <select
-              value={filters.status}
-              onChange={(e) => setFilters({ ...filters, status: e.target.value })}
-              className="px-3 py-1 bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
-            >
-              <option value="">All Status</option>
-              <option value="pending">Pending</option>
-              <option value="in-progress">In Progress</option>
-              <option value="completed">Completed</option>
-              <option value="cancelled">Cancelled</option>
-            </select>
+          <div className="flex flex-wrap items-center gap-2">
+            <MultiSelectFilter
+              label="Statuses"
+              options={[
+                { value: 'pending', label: 'Pending' },
+                { value: 'in-progress', label: 'In Progress' },
+                { value: 'completed', label: 'Completed' },
+                { value: 'cancelled', label: 'Cancelled' }
+              ]}
+              selected={filters.status}
+              onChange={(status) => setFilters({ status: status as Task['status'][] })}
+            />
 
-            <select
-              value={filters.priority}
-              onChange={(e) => setFilters({ ...filters, priority: e.target.value })}
-              className="px-3 py-1 bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
-            >
-              <option value="">All Priorities</option>
-              <option value="urgent">Urgent</option>
-              <option value="high">High</option>
-              <option value="medium">Medium</option>
-              <option value="low">Low</option>
-            </select>
+            <MultiSelectFilter
+              label="Priorities"
+              options={[
+                { value: 'urgent', label: 'Urgent' },
+                { value: 'high', label: 'High' },
+                { value: 'medium', label: 'Medium' },
+                { value: 'low', label: 'Low' }
+              ]}
+              selected={filters.priority}
+              onChange={(priority) => setFilters({ priority: priority as Task['priority'][] })}
+            />
+
+            <MultiSelectFilter
+              label="Users"
+              options={[
+                { value: 'me', label: 'Me' },
+                ...users.filter(user => user.id !== currentUser?.id).map(user => ({ value: user.id, label: user.name }))
+              ]}
+              selected={filters.assignedTo}
+              onChange={(assignedTo) => setFilters({ assignedTo })}
+            />
+
+            <MultiSelectFilter
+              label="Teams"
+              options={teams.map(team => ({ value: team.id, label: team.name }))}
+              selected={filters.teamId}
+              onChange={(teamId) => setFilters({ teamId })}
+            />
+
+            <MultiSelectFilter
+              label="Tags"
+              options={tagOptions}
+              selected={filters.tags}
+              onChange={(tags) => setFilters({ tags })}
+            />
 
             <select
-              value={filters.assignedTo}
-              onChange={(e) => setFilters({ ...filters, assignedTo: e.target.value })}
-              className="px-3 py-1 bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
+              value={filters.due}
+              onChange={(e) => setFilters({ due: e.target.value as TaskDueFilter })}
+              className={selectClassName}
             >
-              <option value="">All Users</option>
-              {users.map(user => (
-                <option key={user.id} value={user.id}>{user.name}</option>
+              <option value="">Any due date</option>
+              {Object.entries(TASK_DUE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
               ))}
             </select>
 
             <select
-              value={filters.teamId}
-              onChange={(e) => setFilters({ ...filters, teamId: e.target.value })}
-              className="px-3 py-1 bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
+              value={sort}
+              onChange={(e) => setTaskQuery({ sort: e.target.value as TaskSort })}
+              className={selectClassName}
+              title="Sort by"
             >
-              <option value="">All Teams</option>
-              {teams.map(team => (
-                <option key={team.id} value={team.id}>{team.name}</option>
+              {Object.entries(TASK_SORT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>Sort: {label}</option>
               ))}
             </select>
 
             <button
               onClick={clearFilters}
-              className="px-3 py-1 bg-secondary-100 dark:bg-secondary-700 text-secondary-700 dark:text-secondary-300 rounded-lg text-sm hover:bg-secondary-200 dark:hover:bg-secondary-600 transition-colors"
+              disabled={activeFilterCount === 0}
+              className="px-3 py-1 bg-secondary-100 dark:bg-secondary-700 text-secondary-700 dark:text-secondary-300 rounded-lg text-sm hover:bg-secondary-200 dark:hover:bg-secondary-600 transition-colors disabled:opacity-50"
             >
               Clear
             </button>
+
+            {/* Saved views */}
+            <div className="flex items-center gap-2 ml-auto">
+              {viewName !== null ? (
+                <>
+                  <input
+                    type="text"
+                    autoFocus
+                    placeholder="View name, e.g. My urgent this week"
+                    maxLength={60}
+                    value={viewName}
+                    onChange={(e) => setViewName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleSaveView();
+                      if (e.key === 'Escape') setViewName(null);
+                    }}
+                    className={`w-64 ${selectClassName}`}
+                  />
+                  <button
+                    onClick={handleSaveView}
+                    disabled={!viewName.trim()}
+                    className="px-3 py-1 bg-primary-600 hover:bg-primary-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => setViewName(null)}
+                    className="px-3 py-1 text-secondary-600 dark:text-secondary-400 rounded-lg text-sm hover:bg-secondary-100 dark:hover:bg-secondary-700"
+                  >
+                    Cancel
+                  </button>
+                </>
+              ) : (
+                <>
+                  {activeView && isViewChanged && (
+                    <button
+                      onClick={() => updateTaskView(activeView.id, { filters, sort, viewMode })}
+                      className="flex items-center gap-1 px-3 py-1 bg-primary-600 hover:bg-primary-700 text-white rounded-lg text-sm transition-colors"
+                    >
+                      <Save className="w-4 h-4" />
+                      Update view
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setViewName('')}
+                    className="flex items-center gap-1 px-3 py-1 bg-secondary-100 dark:bg-secondary-700 text-secondary-700 dark:text-secondary-300 rounded-lg text-sm hover:bg-secondary-200 dark:hover:bg-secondary-600 transition-colors"
+                  >
+                    <Bookmark className="w-4 h-4" />
+                    {activeView ? 'Save as new view' : 'Save view'}
+                  </button>
+                  {activeView && (
+                    <button
+                      onClick={handleDeleteView}
+                      className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/20 text-secondary-400 hover:text-red-600 dark:hover:text-red-400"
+                      title="Delete saved view"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -289,14 +586,14 @@ export default function TasksPage() {
       <div className="flex-1 overflow-y-auto p-4">
         {viewMode === 'dashboard' ? (
           <TaskDashboard
-            tasks={tasks}
+            tasks={filteredTasks}
             teams={teams}
             onTaskClick={handleTaskClick}
             onCreateTask={() => setShowCreateModal(true)}
           />
         ) : viewMode === 'list' ? (
           <>
-            <TaskStats tasks={tasks} />
+            <TaskStats tasks={filteredTasks} />
             <div className="space-y-3">
             {filteredTasks.length === 0 ? (
               <div className="text-center py-8">
@@ -307,123 +604,23 @@ export default function TasksPage() {
                   No tasks found
                 </h3>
                 <p className="text-secondary-600 dark:text-secondary-400">
-                  {searchQuery || Object.values(filters).some(f => f) 
+                  {activeFilterCount > 0
                     ? 'Try adjusting your search or filters'
                     : 'Create your first task to get started'
                   }
                 </p>
               </div>
             ) : (
-              filteredTasks.map(task => {
-                const assignedUser = getAssignedUser(task.assignedTo);
-                const team = task.teamId ? getTeam(task.teamId) : null;
-                const overdue = isOverdue(task.dueDate);
-
-                return (
-                  <div
-                    key={task.id}
-                    className="bg-white dark:bg-secondary-800 border border-secondary-200 dark:border-secondary-700 rounded-lg p-4 hover:shadow-md transition-shadow cursor-pointer"
-                    onClick={() => handleTaskClick(task)}
-                  >
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-2 mb-2">
-                          {getStatusIcon(task.status)}
-                          <h3 className="font-medium text-secondary-900 dark:text-white truncate">
-                            {task.title}
-                          </h3>
-                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${getPriorityColor(task.priority)}`}>
-                            {task.priority}
-                          </span>
-                          {overdue && task.status !== 'completed' && (
-                            <span className="px-2 py-1 bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200 rounded-full text-xs font-medium">
-                              Overdue
-                            </span>
-                          )}
-                        </div>
-                        
-                        {task.description && (
-                          <p className="text-sm text-secondary-600 dark:text-secondary-400 mb-3 line-clamp-2">
-                            {task.description}
-                          </p>
-                        )}
-
-                        <div className="flex items-center gap-4 text-sm text-secondary-500 dark:text-secondary-400">
-                          <div className="flex items-center gap-1">
-                            <Clock className="w-4 h-4" />
-                            <span>Due {new Date(task.dueDate).toLocaleDateString()}</span>
-                          </div>
-                          
-                          <div className="flex items-center gap-1">
-                            <User className="w-4 h-4" />
-                            <span>{assignedUser?.name || 'Unknown'}</span>
-                          </div>
-
-                          {task.teamId && (
-                            <div className="flex items-center gap-1">
-                              <Users className="w-4 h-4" />
-                              <span>{team?.name || 'Unknown Team'}</span>
-                            </div>
-                          )}
-
-                          {team && (
-                            <div className="flex items-center gap-1">
-                              <Users className="w-4 h-4" />
-                              <span>{team.name}</span>
-                            </div>
-                          )}
-
-                          {task.comments.length > 0 && (
-                            <div className="flex items-center gap-1">
-                              <MessageSquare className="w-4 h-4" />
-                              <span>{task.comments.length}</span>
-                            </div>
-                          )}
-                        </div>
-
-                        {task.progress > 0 && (
-                          <div className="mt-3">
-                            <div className="flex items-center justify-between text-xs text-secondary-500 dark:text-secondary-400 mb-1">
-                              <span>Progress</span>
-                              <span>{task.progress}%</span>
-                            </div>
-                            <div className="w-full bg-secondary-200 dark:bg-secondary-700 rounded-full h-2">
-                              <div 
-                                className="bg-primary-600 h-2 rounded-full transition-all"
-                                style={{ width: `${task.progress}%` }}
-                              />
-                            </div>
-                          </div>
-                        )}
-                      </div>
-
-                      <div className="flex items-center gap-1 ml-4">
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleTaskClick(task);
-                          }}
-                          className="p-1 rounded hover:bg-secondary-100 dark:hover:bg-secondary-700 text-secondary-400 hover:text-secondary-600 dark:hover:text-secondary-300"
-                        >
-                          <Edit className="w-4 h-4" />
-                        </button>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleDeleteTask(task.id);
-                          }}
-                          className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/20 text-secondary-400 hover:text-red-600 dark:hover:text-red-400"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
-                      </div>
-                    </div>
-                  </div>
-                );
-              })
+              rootTasks.map(task => renderTaskRow(task, 0))
             )}
           </div>
           </>
+        ) : viewMode === 'board' ? (
+          <div className="overflow-x-auto">
+            <TaskBoard tasks={filteredTasks} onTaskClick={handleTaskClick} />
+          </div>
+        ) : viewMode === 'timeline' ? (
+          <TaskTimeline tasks={filteredTasks} onTaskClick={handleTaskClick} />
         ) : viewMode === 'calendar' ? (
           <CalendarView
             tasks={filteredTasks}
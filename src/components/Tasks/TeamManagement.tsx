@@ -41,7 +41,8 @@ export default function TeamManagement({ onClose }: TeamManagementProps) {
     deleteTeam, 
     addTeamMember, 
     removeTeamMember,
-    updateUserRole 
+    updateUserRole,
+    roles
   } = useApp();
 
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -55,7 +56,7 @@ export default function TeamManagement({ onClose }: TeamManagementProps) {
   });
 
   const [searchQuery, setSearchQuery] = useState('');
-  const [filterRole, setFilterRole] = useState<'all' | 'manager' | 'employee'>('all');
+  const [filterRole, setFilterRole] = useState('all');
 
   const filteredUsers = users.filter(user => {
     const matchesSearch = user.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -314,12 +315,13 @@ export default function TeamManagement({ onClose }: TeamManagementProps) {
               />
               <select
                 value={filterRole}
-                onChange={(e) => setFilterRole(e.target.value as any)}
+                onChange={(e) => setFilterRole(e.target.value)}
                 className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
               >
                 <option value="all">All Roles</option>
-                <option value="manager">Managers</option>
-                <option value="employee">Employees</option>
+                {roles.map(role => (
+                  <option key={role.key} value={role.key}>{role.name}</option>
+                ))}
               </select>
             </div>
           </div>
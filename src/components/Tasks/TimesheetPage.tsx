@@ -0,0 +1,234 @@
+import { useEffect, useMemo, useState } from 'react';
+import { addDays, addWeeks, format, isSameDay, isToday, startOfWeek } from 'date-fns';
+import { ArrowLeft, ChevronLeft, ChevronRight, Clock, RefreshCw, Square } from 'lucide-react';
+import { useApp } from '../../context/AppContext';
+import { TimesheetEntry } from '../../types';
+import { formatDuration } from '../../utils/tasks';
+import dataService from '../../services/dataService';
+import { logger } from '../../utils/logger';
+
+interface TimesheetRow {
+  key: string;
+  title: string;
+  estimatedHours?: number | null;
+  loggedHours?: number;
+  // Minutes per day of the week, Monday first
+  days: number[];
+  total: number;
+}
+
+const formatCell = (minutes: number) => (minutes > 0 ? formatDuration(minutes) : '');
+
+// A user's logged time for one week, by task and day. Managers can open anyone's timesheet.
+export default function TimesheetPage() {
+  const { currentUser, users, setCurrentScreen, hasPermission } = useApp();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [userId, setUserId] = useState(currentUser?.id || '');
+  const [entries, setEntries] = useState<TimesheetEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(Date.now());
+
+  const canViewOthers = hasPermission('time.manage');
+  const days = useMemo(() => Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)), [weekStart]);
+
+  const fetchTimesheet = async () => {
+    setLoading(true);
+    try {
+      const result = await dataService.getTimesheet({
+        start: weekStart.toISOString(),
+        end: addWeeks(weekStart, 1).toISOString(),
+        ...(userId && userId !== currentUser?.id ? { userId } : {})
+      });
+      setEntries(result);
+    } catch (error) {
+      logger.error('Failed to load timesheet', { error: (error as Error).message }, 'TimesheetPage');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTimesheet();
+  }, [weekStart.getTime(), userId]);
+
+  const running = entries.find(entry => entry.isRunning);
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, [running?.id]);
+
+  const rows = useMemo(() => {
+    const byTask = new Map<string, TimesheetRow>();
+    entries.filter(entry => !entry.isRunning).forEach(entry => {
+      const key = entry.taskId?.id || 'deleted';
+      const row = byTask.get(key) || {
+        key,
+        title: entry.taskId?.title || 'Deleted task',
+        estimatedHours: entry.taskId?.estimatedHours,
+        loggedHours: entry.taskId?.loggedHours,
+        days: Array(7).fill(0),
+        total: 0
+      };
+      const dayIndex = days.findIndex(day => isSameDay(day, new Date(entry.startedAt)));
+      if (dayIndex >= 0) row.days[dayIndex] += entry.minutes;
+      row.total += entry.minutes;
+      byTask.set(key, row);
+    });
+    return [...byTask.values()].sort((a, b) => b.total - a.total);
+  }, [entries, days]);
+
+  const dayTotals = days.map((_, i) => rows.reduce((sum, row) => sum + row.days[i], 0));
+  const weekTotal = dayTotals.reduce((sum, minutes) => sum + minutes, 0);
+
+  const handleStop = async () => {
+    try {
+      await dataService.stopTaskTimer();
+      fetchTimesheet();
+    } catch (error) {
+      logger.error('Failed to stop timer', { error: (error as Error).message }, 'TimesheetPage');
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col bg-white dark:bg-secondary-900 h-screen overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between p-6 border-b border-secondary-200 dark:border-secondary-700">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => setCurrentScreen('tasks')}
+            className="p-2 rounded-lg hover:bg-secondary-100 dark:hover:bg-secondary-800 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-secondary-900 dark:text-white">Timesheet</h1>
+            <p className="text-sm text-secondary-600 dark:text-secondary-400">
+              {format(weekStart, 'MMM d')} – {format(addDays(weekStart, 6), 'MMM d, yyyy')} · {formatDuration(weekTotal)} logged
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {canViewOthers && (
+            <select
+              value={userId}
+              onChange={(e) => setUserId(e.target.value)}
+              className="px-3 py-2 bg-white dark:bg-secondary-900 border border-secondary-300 dark:border-secondary-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 dark:text-white"
+            >
+              {users.map(user => (
+                <option key={user.id} value={user.id}>{user.id === currentUser?.id ? `${user.name} (you)` : user.name}</option>
+              ))}
+            </select>
+          )}
+          <div className="flex items-center">
+            <button
+              onClick={() => setWeekStart(prev => addWeeks(prev, -1))}
+              className="p-2 rounded-lg hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400"
+              title="Previous week"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}
+              className="px-3 py-1.5 text-sm rounded-lg hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-700 dark:text-secondary-300"
+            >
+              This week
+            </button>
+            <button
+              onClick={() => setWeekStart(prev => addWeeks(prev, 1))}
+              className="p-2 rounded-lg hover:bg-secondary-100 dark:hover:bg-secondary-800 text-secondary-600 dark:text-secondary-400"
+              title="Next week"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+          <button
+            onClick={fetchTimesheet}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        {running && (
+          <div className="flex items-center justify-between p-3 bg-primary-50 dark:bg-primary-900/30 border border-primary-200 dark:border-primary-800 rounded-lg">
+            <div className="flex items-center gap-2 text-sm text-primary-700 dark:text-primary-300">
+              <Clock className="w-4 h-4 animate-pulse" />
+              Timer running on <span className="font-medium">{running.taskId?.title || 'a deleted task'}</span>
+              · {formatDuration((now - new Date(running.startedAt).getTime()) / 60000)}
+            </div>
+            {(!userId || userId === currentUser?.id) && (
+              <button
+                onClick={handleStop}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors"
+              >
+                <Square className="w-4 h-4" />
+                Stop
+              </button>
+            )}
+          </div>
+        )}
+
+        {!loading && rows.length === 0 ? (
+          <div className="flex flex-col items-center justify-center p-8 text-secondary-500 dark:text-secondary-400">
+            <Clock className="w-16 h-16 mb-4 opacity-50" />
+            <p className="text-lg font-medium">No time logged this week</p>
+            <p className="text-sm">Start a timer or log time from a task's details</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto border border-secondary-200 dark:border-secondary-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-secondary-50 dark:bg-secondary-800 text-secondary-600 dark:text-secondary-400">
+                <tr>
+                  <th className="text-left font-medium px-4 py-2">Task</th>
+                  {days.map(day => (
+                    <th
+                      key={day.toISOString()}
+                      className={`text-right font-medium px-3 py-2 w-20 ${isToday(day) ? 'text-primary-600 dark:text-primary-400' : ''}`}
+                    >
+                      {format(day, 'EEE d')}
+                    </th>
+                  ))}
+                  <th className="text-right font-medium px-4 py-2 w-24">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-secondary-200 dark:divide-secondary-700 text-secondary-800 dark:text-secondary-200">
+                {rows.map(row => (
+                  <tr key={row.key}>
+                    <td className="px-4 py-2">
+                      <div className="truncate max-w-xs font-medium" title={row.title}>{row.title}</div>
+                      {row.estimatedHours != null && (
+                        <div className={`text-xs ${(row.loggedHours || 0) > row.estimatedHours ? 'text-red-600 dark:text-red-400' : 'text-secondary-500 dark:text-secondary-400'}`}>
+                          {row.loggedHours || 0}h of {row.estimatedHours}h estimated in total
+                        </div>
+                      )}
+                    </td>
+                    {row.days.map((minutes, i) => (
+                      <td key={i} className="text-right px-3 py-2 tabular-nums">{formatCell(minutes)}</td>
+                    ))}
+                    <td className="text-right px-4 py-2 font-medium tabular-nums">{formatDuration(row.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-secondary-50 dark:bg-secondary-800 font-semibold text-secondary-900 dark:text-white">
+                <tr>
+                  <td className="px-4 py-2">Total</td>
+                  {dayTotals.map((minutes, i) => (
+                    <td key={i} className="text-right px-3 py-2 tabular-nums">{formatCell(minutes)}</td>
+                  ))}
+                  <td className="text-right px-4 py-2 tabular-nums">{formatDuration(weekTotal)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
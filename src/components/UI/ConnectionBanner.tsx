@@ -0,0 +1,31 @@
+import { WifiOff, Loader2 } from 'lucide-react';
+import { useApp } from '../../context/AppContext';
+
+export default function ConnectionBanner() {
+  const { connectionStatus } = useApp();
+
+  if (connectionStatus === 'connected') return null;
+
+  const isReconnecting = connectionStatus === 'reconnecting';
+
+  return (
+    <div
+      role="status"
+      className={`flex items-center justify-center gap-2 px-4 py-1.5 text-sm font-medium text-white ${
+        isReconnecting ? 'bg-amber-500' : 'bg-red-600'
+      }`}
+    >
+      {isReconnecting ? (
+        <>
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Reconnecting… Messages you send will be delivered once you're back online.
+        </>
+      ) : (
+        <>
+          <WifiOff className="w-4 h-4" />
+          Disconnected. Refresh the page to reconnect.
+        </>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { Camera, Edit2, Save, X } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 export default function UserProfile() {
-  const { currentUser, updateUserProfile } = useApp();
+  const { currentUser, updateUserProfile, roles } = useApp();
   const [isEditing, setIsEditing] = useState(false);
   const [name, setName] = useState(currentUser?.name || '');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -90,7 +90,7 @@ export default function UserProfile() {
       <p className="text-secondary-600 dark:text-secondary-400 mb-2">{currentUser.email}</p>
       
       <span className="px-3 py-1 bg-primary-100 dark:bg-primary-900 text-primary-700 dark:text-primary-300 rounded-full text-sm font-medium mb-4">
-        {currentUser.role === 'manager' ? 'Manager' : 'Employee'}
+        {roles.find(role => role.key === currentUser.role)?.name ?? currentUser.role}
       </span>
 
       <div className="flex items-center gap-2 text-secondary-500 dark:text-secondary-400 mb-4">
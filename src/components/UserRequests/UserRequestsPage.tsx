@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Users, Check, X, Clock, ArrowLeft, UserPlus } from 'lucide-react';
+import { Users, Check, X, Clock, ArrowLeft, UserPlus, MailCheck } from 'lucide-react';
 import { format, parseISO, isValid } from 'date-fns';
 import { useApp } from '../../context/AppContext';
 
@@ -102,8 +102,13 @@ export default function UserRequestsPage() {
                           <h3 className="text-lg font-semibold text-secondary-900 dark:text-white">
                             {user.name}
                           </h3>
-                          <p className="text-secondary-600 dark:text-secondary-400">
+                          <p className="flex items-center gap-2 text-secondary-600 dark:text-secondary-400">
                             {user.email}
+                            {user.emailVerifiedAt && (
+                              <span title="Email address confirmed">
+                                <MailCheck className="w-4 h-4 text-green-600 dark:text-green-400" />
+                              </span>
+                            )}
                           </p>
                         </div>
                       </div>
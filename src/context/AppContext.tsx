@@ -1,25 +1,41 @@
-import React, { createContext, useContext, useReducer, useEffect, useState, ReactNode, useCallback } from 'react';
-import { AppState, User, Chat, Message, PendingUser, UserSettings, FileUpload, SearchResult, BroadcastMessage, AppScreen } from '../types';
+import React, { createContext, useContext, useReducer, useEffect, useState, useRef, ReactNode, useCallback } from 'react';
+import { AppState, User, Chat, Message, PendingUser, UserSettings, FileUpload, SearchResult, BroadcastMessage, AppScreen, ThreadReplyEvent, MessageDeletedEvent, MentionEvent, MessagePagination, ConnectionStatus, SyncEvent, PinnedMessage, ScheduledMessage, Task, TaskCard, TaskEditScope, TaskQueryState, TaskView, TwoFactorChallenge, Permission, Role, RoleInput } from '../types';
 import dataService from '../services/dataService';
 import { webrtcService } from '../services/webrtcService';
 import { toast } from 'react-hot-toast';
 import { playNotificationSound } from '../services/audioService';
 import { logger } from '../utils/logger';
+import { DEFAULT_TASK_QUERY, EMPTY_TASK_FILTERS, getTaskQueryParams, getTaskAssigneeName } from '../utils/tasks';
+import { userHasPermission } from '../utils/permissions';
+import {
+  OutboxEntry,
+  generateClientMessageId,
+  saveOutboxEntry,
+  removeOutboxEntry,
+  getOutboxEntries,
+  toPendingMessage
+} from '../services/outboxService';
 
 const dataServiceAPI = dataService;
 
 interface AppContextValue extends AppState {
   // Authentication
-  login: (email: string, password: string) => Promise<boolean>;
+  login: (email: string, password: string) => Promise<boolean | TwoFactorChallenge>;
+  // Second login step; throws with the server's error when the code is wrong or the challenge expired
+  loginWithSecondFactor: (challengeToken: string, factor: { code?: string; recoveryCode?: string }) => Promise<void>;
+  // Finish a login that enrolled in two-factor authentication on the way
+  completeEnrolmentLogin: (session: { user: User; token: string }) => Promise<void>;
   logout: () => void;
   register: (name: string, email: string, password: string, isManager?: boolean) => Promise<boolean>;
   
   // Chat functionality
-  sendMessage: (chatId: string, content: string, type?: 'text' | 'file' | 'announcement', file?: FileUpload) => Promise<void>;
+  sendMessage: (chatId: string, content: string, type?: 'text' | 'file' | 'announcement', file?: FileUpload, mentions?: string[]) => Promise<void>;
   uploadFile: (file: File) => Promise<FileUpload>;
   editMessage: (chatId: string, messageId: string, newContent: string) => Promise<void>;
   deleteMessage: (chatId: string, messageId: string) => Promise<void>;
   addReaction: (chatId: string, messageId: string, emoji: string) => Promise<void>;
+  retryMessage: (chatId: string, clientMessageId: string) => void;
+  discardMessage: (chatId: string, clientMessageId: string) => void;
   
   // Navigation
   setActiveChat: (chatId: string | null) => void;
@@ -45,8 +61,16 @@ interface AppContextValue extends AppState {
   getPendingUsersCount: () => number;
   
   // Member management
-  updateUserRole: (userId: string, newRole: 'manager' | 'employee') => Promise<void>;
+  updateUserRole: (userId: string, newRole: string) => Promise<void>;
   removeUser: (userId: string) => Promise<void>;
+  resetUserTwoFactor: (userId: string) => Promise<void>;
+  unlockUser: (userId: string) => Promise<void>;
+
+  // Roles and permissions
+  hasPermission: (permission: Permission) => boolean;
+  // Creates a role when key is null
+  saveRole: (key: string | null, role: RoleInput) => Promise<Role>;
+  deleteRole: (key: string) => Promise<void>;
   
   // Direct chat management
   createDirectChat: (otherUserId: string) => Promise<void>;
@@ -71,6 +95,27 @@ interface AppContextValue extends AppState {
   cancelReply: () => void;
   replyingTo: Message | null;
 
+  // Threads
+  openThread: (message: Message) => Promise<void>;
+  closeThread: () => void;
+  sendThreadReply: (content: string, mentions?: string[]) => Promise<void>;
+
+  // Message history
+  loadOlderMessages: (chatId: string) => Promise<void>;
+  loadNewerMessages: (chatId: string) => Promise<void>;
+  jumpToMessage: (chatId: string, messageId: string) => Promise<void>;
+  jumpToLatest: (chatId: string) => Promise<void>;
+  clearHighlightedMessage: () => void;
+
+  // Pinned messages
+  pinMessage: (chatId: string, messageId: string) => Promise<void>;
+  unpinMessage: (chatId: string, messageId: string) => Promise<void>;
+
+  // Scheduled messages
+  scheduleMessage: (chatId: string, content: string, scheduledFor: Date, options?: { type?: 'text' | 'announcement'; isUrgent?: boolean; mentions?: string[] }) => Promise<boolean>;
+  updateScheduledMessage: (id: string, updates: Partial<Pick<ScheduledMessage, 'content' | 'scheduledFor' | 'isUrgent' | 'mentions'>>) => Promise<boolean>;
+  cancelScheduledMessage: (id: string) => Promise<void>;
+
   // Typing indicator
   typingUsers: { [chatId: string]: string[] };
 
@@ -90,9 +135,15 @@ interface AppContextValue extends AppState {
   fetchTasks: () => Promise<void>;
   fetchTeams: () => Promise<void>;
   createTask: (taskData: any) => Promise<void>;
-  updateTask: (taskId: string, taskData: any) => Promise<void>;
-  deleteTask: (taskId: string) => Promise<void>;
+  updateTask: (taskId: string, taskData: any, options?: { silent?: boolean }) => Promise<void>;
+  deleteTask: (taskId: string, scope?: TaskEditScope) => Promise<void>;
   addTaskComment: (taskId: string, content: string) => Promise<void>;
+  // Filters, sort and layout of the task page, and the views saved from them
+  setTaskQuery: (changes: Partial<TaskQueryState>) => void;
+  openTaskView: (viewId: string | null) => void;
+  createTaskView: (name: string) => Promise<TaskView | null>;
+  updateTaskView: (viewId: string, updates: Partial<Pick<TaskView, 'name' | 'filters' | 'sort' | 'viewMode'>>) => Promise<void>;
+  deleteTaskView: (viewId: string) => Promise<void>;
   
   // Team Management
   createTeam: (teamData: any) => Promise<void>;
@@ -114,8 +165,31 @@ type AppAction =
   | { type: 'SET_STATE'; payload: Partial<AppState> }
   | { type: 'ADD_MESSAGE'; payload: { chatId: string; message: Message } }
   | { type: 'UPDATE_MESSAGE'; payload: { chatId: string; message: Message } }
-  | { type: 'REMOVE_MESSAGE'; payload: { chatId: string; messageId: string } }
+  | { type: 'REMOVE_MESSAGE'; payload: MessageDeletedEvent }
   | { type: 'SET_TYPING_USERS'; payload: { chatId: string; users: string[] } }
+  | { type: 'SET_ACTIVE_THREAD'; payload: Message | null }
+  | { type: 'SET_THREAD_MESSAGES'; payload: { threadId: string; messages: Message[] } }
+  | { type: 'ADD_THREAD_REPLY'; payload: ThreadReplyEvent }
+  | { type: 'SET_CHAT_HISTORY'; payload: { chatId: string; messages: Message[]; pagination: MessagePagination } }
+  | { type: 'PREPEND_MESSAGES'; payload: { chatId: string; messages: Message[]; pagination: MessagePagination } }
+  | { type: 'APPEND_MESSAGES'; payload: { chatId: string; messages: Message[]; pagination: MessagePagination } }
+  | { type: 'SET_HIGHLIGHTED_MESSAGE'; payload: string | null }
+  | { type: 'SET_PINNED_MESSAGES'; payload: { chatId: string; pins: PinnedMessage[] } }
+  | { type: 'ADD_PINNED_MESSAGE'; payload: { chatId: string; pin: PinnedMessage } }
+  | { type: 'REMOVE_PINNED_MESSAGE'; payload: { chatId: string; messageId: string } }
+  | { type: 'SET_SCHEDULED_MESSAGES'; payload: ScheduledMessage[] }
+  | { type: 'UPSERT_SCHEDULED_MESSAGE'; payload: ScheduledMessage }
+  | { type: 'RESTORE_CHAT'; payload: Chat }
+  | { type: 'RESET_CHAT_MESSAGES'; payload: { chatId: string; chat: Chat } }
+  | { type: 'CONFIRM_MESSAGE'; payload: { chatId: string; clientMessageId: string; message: Message } }
+  | { type: 'SET_MESSAGE_SEND_STATUS'; payload: { chatId: string; clientMessageId: string; status: 'pending' | 'failed' } }
+  | { type: 'REMOVE_PENDING_MESSAGE'; payload: { chatId: string; clientMessageId: string } }
+  | { type: 'ADD_TASK'; payload: { task: Task; createdBy?: string } }
+  | { type: 'UPDATE_TASK'; payload: Task }
+  | { type: 'REMOVE_TASK'; payload: string }
+  | { type: 'UPDATE_TASK_CARDS'; payload: { taskId: string; changes: Partial<TaskCard> } }
+  | { type: 'APPLY_SYNC_EVENTS'; payload: SyncEvent[] }
+  | { type: 'SET_CONNECTION_STATUS'; payload: ConnectionStatus }
   | { type: 'MARK_MESSAGES_READ'; payload: { chatId: string; readerId: string; messageIds: string[] } }
   | { type: 'OPEN_MODAL'; payload: React.ReactNode }
   | { type: 'CLOSE_MODAL' }
@@ -143,6 +217,19 @@ const getInitialTheme = (): boolean => {
   return window.matchMedia('(prefers-color-scheme: dark)').matches;
 };
 
+const EMPTY_PAGINATION: MessagePagination = {
+  limit: 50,
+  hasMoreBefore: false,
+  hasMoreAfter: false,
+  beforeCursor: null,
+  afterCursor: null
+};
+
+// Outbox retry backoff: 1s, 2s, 4s... capped, then the message is marked failed.
+// Sends that fail while offline don't count; they wait for the reconnect instead.
+const OUTBOX_MAX_ATTEMPTS = 6;
+const OUTBOX_MAX_RETRY_DELAY = 30000;
+
 const initialState: AppState = {
   loading: true,
   currentUser: null,
@@ -151,6 +238,13 @@ const initialState: AppState = {
   chats: [],
   messages: {},
   activeChat: null,
+  activeThread: null,
+  threadMessages: {},
+  messagePagination: {},
+  highlightedMessageId: null,
+  pinnedMessages: {},
+  scheduledMessages: [],
+  connectionStatus: 'connected',
   currentScreen: 'chat',
   darkMode: getInitialTheme(),
   notifications: {
@@ -169,7 +263,11 @@ const initialState: AppState = {
   tasks: [],
   teams: [],
   activeTask: null,
-  calendarEvents: []
+  calendarEvents: [],
+  taskViews: [],
+  taskQuery: DEFAULT_TASK_QUERY,
+  roles: [],
+  permissionCatalog: []
 };
 
 function appReducer(state: AppState, action: AppAction): AppState {
@@ -180,21 +278,58 @@ function appReducer(state: AppState, action: AppAction): AppState {
       const { chatId, message } = action.payload;
       const chatMessages = state.messages[chatId] || [];
       if (chatMessages.some(m => m.id === message.id)) return state; // Avoid duplicates
+      // Our own message echoed back by the server replaces its optimistic copy
+      if (message.clientMessageId && chatMessages.some(m => m.sendStatus && m.clientMessageId === message.clientMessageId)) {
+        return {
+          ...state,
+          messages: {
+            ...state.messages,
+            [chatId]: chatMessages.map(m => m.sendStatus && m.clientMessageId === message.clientMessageId ? message : m)
+          }
+        };
+      }
+      // Viewing an older window (after a jump): new messages are picked up when returning to latest
+      if (state.messagePagination[chatId]?.hasMoreAfter) return state;
       const newMessages = { ...state.messages, [chatId]: [...chatMessages, message] };
       return { ...state, messages: newMessages };
     }
     case 'UPDATE_MESSAGE': {
       const { chatId, message: updatedMessage } = action.payload;
+      const pins = state.pinnedMessages[chatId];
       return {
         ...state,
         messages: {
           ...state.messages,
           [chatId]: state.messages[chatId]?.map(msg => msg.id === updatedMessage.id ? updatedMessage : msg) || []
-        }
+        },
+        pinnedMessages: pins?.some(pin => pin.messageId === updatedMessage.id)
+          ? { ...state.pinnedMessages, [chatId]: pins.map(pin => pin.messageId === updatedMessage.id ? { ...pin, message: updatedMessage } : pin) }
+          : state.pinnedMessages
       };
     }
     case 'REMOVE_MESSAGE': {
-      const { chatId, messageId } = action.payload;
+      const { chatId, messageId, threadId } = action.payload;
+      // Thread replies aren't in the main timeline; only the thread and its root change
+      if (threadId) {
+        const { threadReplyCount, threadLastReplyAt, threadParticipants } = action.payload;
+        const summary = { threadReplyCount, threadLastReplyAt, threadParticipants };
+        const replies = state.threadMessages[threadId];
+        return {
+          ...state,
+          threadMessages: replies
+            ? {
+                ...state.threadMessages,
+                [threadId]: replies.map(msg => msg.id === messageId ? { ...msg, isDeleted: true, content: 'This message was deleted.' } : msg)
+              }
+            : state.threadMessages,
+          messages: {
+            ...state.messages,
+            [chatId]: state.messages[chatId]?.map(msg => msg.id === threadId ? { ...msg, ...summary } : msg) || []
+          },
+          activeThread: state.activeThread?.id === threadId ? { ...state.activeThread, ...summary } : state.activeThread
+        };
+      }
+
       const updatedMessages = state.messages[chatId]?.map(msg =>
         msg.id === messageId ? { ...msg, isDeleted: true, content: 'This message was deleted.' } : msg
       ) || [];
@@ -224,6 +359,184 @@ function appReducer(state: AppState, action: AppAction): AppState {
         messages: { ...state.messages, [chatId]: updatedMessages }
       };
     }
+    case 'SET_ACTIVE_THREAD':
+      return { ...state, activeThread: action.payload };
+    case 'SET_THREAD_MESSAGES':
+      return { ...state, threadMessages: { ...state.threadMessages, [action.payload.threadId]: action.payload.messages } };
+    case 'ADD_THREAD_REPLY': {
+      const { chatId, threadId, message, threadReplyCount, threadLastReplyAt, threadParticipants } = action.payload;
+      const summary = { threadReplyCount, threadLastReplyAt, threadParticipants };
+      const replies = state.threadMessages[threadId];
+      return {
+        ...state,
+        // Only extend threads that were already loaded; others are fetched when opened
+        threadMessages: replies && !replies.some(m => m.id === message.id)
+          ? { ...state.threadMessages, [threadId]: [...replies, message] }
+          : state.threadMessages,
+        messages: {
+          ...state.messages,
+          [chatId]: state.messages[chatId]?.map(msg => msg.id === threadId ? { ...msg, ...summary } : msg) || []
+        },
+        activeThread: state.activeThread?.id === threadId ? { ...state.activeThread, ...summary } : state.activeThread
+      };
+    }
+    case 'SET_CHAT_HISTORY': {
+      const { chatId, messages, pagination } = action.payload;
+      // Unsent outbox messages aren't on the server yet, so keep them after the fresh page
+      const unsent = (state.messages[chatId] || []).filter(m => m.sendStatus);
+      return {
+        ...state,
+        messages: { ...state.messages, [chatId]: [...messages, ...unsent] },
+        messagePagination: { ...state.messagePagination, [chatId]: pagination }
+      };
+    }
+    case 'PREPEND_MESSAGES': {
+      const { chatId, messages, pagination } = action.payload;
+      const existing = state.messages[chatId] || [];
+      const current = state.messagePagination[chatId] || EMPTY_PAGINATION;
+      const older = messages.filter(m => !existing.some(e => e.id === m.id));
+      return {
+        ...state,
+        messages: { ...state.messages, [chatId]: [...older, ...existing] },
+        messagePagination: {
+          ...state.messagePagination,
+          [chatId]: { ...current, hasMoreBefore: pagination.hasMoreBefore, beforeCursor: pagination.beforeCursor || current.beforeCursor }
+        }
+      };
+    }
+    case 'APPEND_MESSAGES': {
+      const { chatId, messages, pagination } = action.payload;
+      const existing = state.messages[chatId] || [];
+      const current = state.messagePagination[chatId] || EMPTY_PAGINATION;
+      const newer = messages.filter(m => !existing.some(e => e.id === m.id));
+      return {
+        ...state,
+        messages: { ...state.messages, [chatId]: [...existing, ...newer] },
+        messagePagination: {
+          ...state.messagePagination,
+          [chatId]: { ...current, hasMoreAfter: pagination.hasMoreAfter, afterCursor: pagination.afterCursor || current.afterCursor }
+        }
+      };
+    }
+    case 'SET_HIGHLIGHTED_MESSAGE':
+      return { ...state, highlightedMessageId: action.payload };
+    case 'SET_PINNED_MESSAGES':
+      return { ...state, pinnedMessages: { ...state.pinnedMessages, [action.payload.chatId]: action.payload.pins } };
+    case 'ADD_PINNED_MESSAGE': {
+      const { chatId, pin } = action.payload;
+      const pins = state.pinnedMessages[chatId];
+      // Pins are only tracked for chats whose pins were loaded
+      if (!pins || pins.some(p => p.messageId === pin.messageId)) return state;
+      return { ...state, pinnedMessages: { ...state.pinnedMessages, [chatId]: [pin, ...pins] } };
+    }
+    case 'REMOVE_PINNED_MESSAGE': {
+      const { chatId, messageId } = action.payload;
+      const pins = state.pinnedMessages[chatId];
+      if (!pins) return state;
+      return { ...state, pinnedMessages: { ...state.pinnedMessages, [chatId]: pins.filter(p => p.messageId !== messageId) } };
+    }
+    case 'SET_SCHEDULED_MESSAGES':
+      return { ...state, scheduledMessages: action.payload };
+    case 'UPSERT_SCHEDULED_MESSAGE': {
+      const scheduled = action.payload;
+      const others = state.scheduledMessages.filter(m => m.id !== scheduled.id);
+      // Sent and cancelled messages drop out of the list
+      if (scheduled.status === 'sent' || scheduled.status === 'cancelled') {
+        return { ...state, scheduledMessages: others };
+      }
+      return {
+        ...state,
+        scheduledMessages: [...others, scheduled].sort(
+          (a, b) => new Date(a.scheduledFor).getTime() - new Date(b.scheduledFor).getTime()
+        )
+      };
+    }
+    case 'CONFIRM_MESSAGE': {
+      const { chatId, clientMessageId, message } = action.payload;
+      const chatMessages = state.messages[chatId] || [];
+      const alreadyReceived = chatMessages.some(m => m.id === message.id);
+      return {
+        ...state,
+        messages: {
+          ...state.messages,
+          [chatId]: alreadyReceived
+            ? chatMessages.filter(m => !(m.sendStatus && m.clientMessageId === clientMessageId))
+            : chatMessages.map(m => m.sendStatus && m.clientMessageId === clientMessageId ? message : m)
+        }
+      };
+    }
+    case 'SET_MESSAGE_SEND_STATUS': {
+      const { chatId, clientMessageId, status } = action.payload;
+      return {
+        ...state,
+        messages: {
+          ...state.messages,
+          [chatId]: state.messages[chatId]?.map(m => m.sendStatus && m.clientMessageId === clientMessageId ? { ...m, sendStatus: status } : m) || []
+        }
+      };
+    }
+    case 'REMOVE_PENDING_MESSAGE': {
+      const { chatId, clientMessageId } = action.payload;
+      return {
+        ...state,
+        messages: {
+          ...state.messages,
+          [chatId]: state.messages[chatId]?.filter(m => !(m.sendStatus && m.clientMessageId === clientMessageId)) || []
+        }
+      };
+    }
+    case 'RESTORE_CHAT':
+      if (state.chats.some(chat => chat.id === action.payload.id)) return state;
+      return { ...state, chats: [action.payload, ...state.chats] };
+    case 'RESET_CHAT_MESSAGES': {
+      // Drop what's loaded so the chat's history and pins are fetched again
+      const { chatId, chat: updated } = action.payload;
+      const messages = { ...state.messages };
+      const messagePagination = { ...state.messagePagination };
+      const pinnedMessages = { ...state.pinnedMessages };
+      delete messages[chatId];
+      delete messagePagination[chatId];
+      delete pinnedMessages[chatId];
+      return {
+        ...state,
+        messages,
+        messagePagination,
+        pinnedMessages,
+        chats: state.chats.map(chat => chat.id === chatId ? { ...chat, lastMessage: updated.lastMessage } : chat)
+      };
+    }
+    case 'ADD_TASK': {
+      const { task, createdBy } = action.payload;
+      const assignee = task.assignedTo as unknown as { id?: string } | undefined;
+      const isVisible = assignee?.id === state.currentUser?.id
+        || userHasPermission(state.currentUser, state.roles, 'tasks.manage')
+        || createdBy === state.currentUser?.id;
+      if (!isVisible || state.tasks.some(t => t.id === task.id)) return state;
+      return { ...state, tasks: [...state.tasks, task] };
+    }
+    case 'UPDATE_TASK':
+      return { ...state, tasks: state.tasks.map(t => t.id === action.payload.id ? action.payload : t) };
+    case 'REMOVE_TASK':
+      return { ...state, tasks: state.tasks.filter(t => t.id !== action.payload) };
+    case 'UPDATE_TASK_CARDS': {
+      // Cards live in whichever chats the task was created from; leave other chats untouched
+      const { taskId, changes } = action.payload;
+      const messages = { ...state.messages };
+      let changed = false;
+      Object.entries(state.messages).forEach(([chatId, chatMessages]) => {
+        if (!chatMessages.some(msg => msg.taskCard?.taskId === taskId)) return;
+        changed = true;
+        messages[chatId] = chatMessages.map(msg =>
+          msg.taskCard?.taskId === taskId ? { ...msg, taskCard: { ...msg.taskCard, ...changes } } : msg
+        );
+      });
+      return changed ? { ...state, messages } : state;
+    }
+    case 'APPLY_SYNC_EVENTS':
+      // Replayed events may overlap ones already received live, so each must apply idempotently
+      return action.payload.reduce(applySyncEvent, state);
+    case 'SET_CONNECTION_STATUS':
+      return { ...state, connectionStatus: action.payload };
     case 'SET_LOADING':
       return { ...state, loading: action.payload };
     case 'SET_TYPING_USERS': {
@@ -263,7 +576,8 @@ function appReducer(state: AppState, action: AppAction): AppState {
     case 'SET_MESSAGES':
       return { ...state, messages: action.payload };
     case 'SET_ACTIVE_CHAT':
-      return { ...state, activeChat: action.payload };
+      // A thread panel belongs to its chat, so switching chats closes it
+      return { ...state, activeChat: action.payload, activeThread: null };
     case 'SET_PENDING_USERS':
       return { ...state, pendingUsers: action.payload };
     case 'UPDATE_USER':
@@ -335,9 +649,107 @@ function appReducer(state: AppState, action: AppAction): AppState {
   }
 }
 
+// What a chat task card shows of a task from a task:updated event
+const toTaskCardChanges = (task: Task, state: AppState): Partial<TaskCard> => ({
+  title: task.title,
+  status: task.status,
+  priority: task.priority,
+  dueDate: new Date(task.dueDate).toISOString(),
+  assigneeName: getTaskAssigneeName(task, state.users) || null
+});
+
+const getMentionTitle = ({ chatName, mentionType, message }: MentionEvent) =>
+  mentionType === 'user'
+    ? `${message.senderName} mentioned you in ${chatName}`
+    : `${message.senderName} notified @${mentionType} in ${chatName}`;
+
+function applySyncEvent(state: AppState, { event, payload }: SyncEvent): AppState {
+  switch (event) {
+    case 'receive-message': {
+      const message = payload as Message;
+      const chatId = message.chatId!;
+      if (state.messages[chatId]?.some(m => m.id === message.id)) return state;
+      const next = appReducer(state, { type: 'ADD_MESSAGE', payload: { chatId, message } });
+      return {
+        ...next,
+        chats: next.chats.map(chat => chat.id === chatId ? {
+          ...chat,
+          lastMessage: {
+            content: message.content,
+            senderId: message.senderId,
+            senderName: message.senderName,
+            timestamp: message.timestamp
+          },
+          unreadCount: message.senderId !== state.currentUser?.id && chatId !== state.activeChat
+            ? (chat.unreadCount || 0) + 1
+            : chat.unreadCount || 0
+        } : chat)
+      };
+    }
+    case 'messageUpdated':
+      return appReducer(state, { type: 'UPDATE_MESSAGE', payload: { chatId: payload.chatId, message: payload } });
+    case 'messageDeleted':
+      return appReducer(state, { type: 'REMOVE_MESSAGE', payload });
+    case 'thread:reply':
+      return appReducer(state, { type: 'ADD_THREAD_REPLY', payload });
+    case 'chat-cleared':
+      return {
+        ...state,
+        messages: { ...state.messages, [payload.chatId]: [] },
+        pinnedMessages: { ...state.pinnedMessages, [payload.chatId]: [] },
+        chats: state.chats.map(chat => chat.id === payload.chatId ? { ...chat, lastMessage: undefined } : chat)
+      };
+    case 'chat-deleted': {
+      const messages = { ...state.messages };
+      delete messages[payload.chatId];
+      return {
+        ...state,
+        messages,
+        chats: state.chats.filter(chat => chat.id !== payload.chatId),
+        activeChat: state.activeChat === payload.chatId ? null : state.activeChat
+      };
+    }
+    case 'chat-restored':
+      return appReducer(state, { type: 'RESTORE_CHAT', payload });
+    case 'chat-messages-restored':
+      return appReducer(state, { type: 'RESET_CHAT_MESSAGES', payload });
+    case 'message:pinned':
+      return appReducer(state, { type: 'ADD_PINNED_MESSAGE', payload: { chatId: payload.chatId, pin: payload.pin } });
+    case 'message:unpinned':
+      return appReducer(state, { type: 'REMOVE_PINNED_MESSAGE', payload: { chatId: payload.chatId, messageId: payload.messageId } });
+    case 'task:created':
+      return appReducer(state, { type: 'ADD_TASK', payload: { task: payload.task, createdBy: payload.createdBy } });
+    case 'task:updated':
+      return appReducer(
+        appReducer(state, { type: 'UPDATE_TASK', payload: payload.task }),
+        { type: 'UPDATE_TASK_CARDS', payload: { taskId: payload.task.id, changes: toTaskCardChanges(payload.task, state) } }
+      );
+    case 'task:deleted':
+      return appReducer(
+        appReducer(state, { type: 'REMOVE_TASK', payload: payload.taskId }),
+        { type: 'UPDATE_TASK_CARDS', payload: { taskId: payload.taskId, changes: { isDeleted: true } } }
+      );
+    default:
+      return state;
+  }
+}
+
 export function AppProvider({ children }: { children: ReactNode }) {
   const [state, dispatch] = useReducer(appReducer, initialState);
   const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  // Latest history request per chat, so a slow response can't overwrite a newer one
+  const historyRequestRef = useRef<{ [chatId: string]: number }>({});
+  const pendingHistoryRef = useRef<Set<string>>(new Set());
+  // Outbox state lives in refs so socket and timer callbacks never see stale values
+  const outboxRef = useRef<Map<string, OutboxEntry>>(new Map());
+  const outboxTimersRef = useRef<Map<string, number>>(new Map());
+  const outboxInFlightRef = useRef<Set<string>>(new Set());
+  // Sequence number of the last server event applied; null until the socket first connects
+  const lastSyncSeqRef = useRef<number | null>(null);
+  // Events that arrived live while a sync request was out, so the replay skips them
+  const liveSeqsDuringSyncRef = useRef<Set<number> | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
 
   // Refactor socket listeners to be more robust
   useEffect(() => {
@@ -404,9 +816,65 @@ export function AppProvider({ children }: { children: ReactNode }) {
         logger.socket('Handling updated message', { messageId: message.id, chatId: message.chatId }, 'AppContext');
         dispatch({ type: 'UPDATE_MESSAGE', payload: { chatId: message.chatId!, message } });
       };
-      const deletedHandler = ({ messageId, chatId }: { messageId: string, chatId: string }) => {
-        logger.socket('Handling deleted message', { messageId, chatId }, 'AppContext');
-        dispatch({ type: 'REMOVE_MESSAGE', payload: { chatId, messageId } });
+      const deletedHandler = (payload: MessageDeletedEvent) => {
+        logger.socket('Handling deleted message', { messageId: payload.messageId, chatId: payload.chatId }, 'AppContext');
+        dispatch({ type: 'REMOVE_MESSAGE', payload });
+      };
+      
+      const messagePinnedHandler = ({ chatId, pin }: { chatId: string; pin: PinnedMessage }) => {
+        logger.socket('Handling pinned message', { messageId: pin.messageId, chatId });
+        dispatch({ type: 'ADD_PINNED_MESSAGE', payload: { chatId, pin } });
+      };
+
+      const messageUnpinnedHandler = ({ chatId, messageId }: { chatId: string; messageId: string }) => {
+        logger.socket('Handling unpinned message', { messageId, chatId });
+        dispatch({ type: 'REMOVE_PINNED_MESSAGE', payload: { chatId, messageId } });
+      };
+      
+      const scheduledMessageHandler = (scheduled: ScheduledMessage) => {
+        logger.socket('Handling scheduled message update', { scheduledMessageId: scheduled.id, status: scheduled.status });
+        const wasListed = stateRef.current.scheduledMessages.some(m => m.id === scheduled.id && m.status !== 'failed');
+        dispatch({ type: 'UPSERT_SCHEDULED_MESSAGE', payload: scheduled });
+        if (wasListed && scheduled.status === 'failed') {
+          toast.error(`A scheduled message couldn't be sent: ${scheduled.failureReason || 'unknown error'}`);
+        }
+      };
+      
+      const threadReplyHandler = (payload: ThreadReplyEvent) => {
+        logger.socket('Handling thread reply', { messageId: payload.message.id, threadId: payload.threadId });
+        dispatch({ type: 'ADD_THREAD_REPLY', payload });
+      };
+      
+      // Mentions always notify, even when the chat is not open
+      const mentionHandler = (mention: MentionEvent) => {
+        const { chatId, mentionType, message } = mention;
+        logger.socket('Handling mention', { messageId: message.id, chatId, mentionType });
+        const title = getMentionTitle(mention);
+        const isVisible = chatId === state.activeChat && document.hasFocus();
+
+        if (!isVisible) {
+          toast(title, { icon: '@', duration: 5000 });
+        }
+
+        if (state.notifications.granted && !document.hasFocus()) {
+          try {
+            // Shares the chat tag so it replaces the generic new-message notification
+            const notification = new Notification(title, {
+              body: message.content.length > 100 ? message.content.substring(0, 100) + '...' : message.content,
+              icon: '/favicon.ico',
+              tag: `chat-${chatId}`,
+              requireInteraction: false
+            });
+            setTimeout(() => notification.close(), 5000);
+            notification.onclick = () => {
+              window.focus();
+              setActiveChat(chatId);
+              notification.close();
+            };
+          } catch (error) {
+            console.warn('Failed to show mention notification:', error);
+          }
+        }
       };
       
       const userTypingHandler = ({ chatId, userName }: { chatId: string, userName: string }) => {
@@ -456,10 +924,22 @@ export function AppProvider({ children }: { children: ReactNode }) {
         }
       };
 
+      const chatRestoredHandler = (chat: Chat) => {
+        logger.socket('Handling restored chat', { chatId: chat.id });
+        dispatch({ type: 'RESTORE_CHAT', payload: chat });
+      };
+
+      const chatMessagesRestoredHandler = ({ chatId, chat }: { chatId: string; chat: Chat }) => {
+        logger.socket('Handling restored chat messages', { chatId });
+        dispatch({ type: 'RESET_CHAT_MESSAGES', payload: { chatId, chat } });
+        reloadOpenChat(chatId);
+      };
+
       const chatClearedHandler = ({ chatId }: { chatId: string }) => {
         console.log('🧹 Chat cleared:', chatId);
         // Clear messages from state
         dispatch({ type: 'SET_MESSAGES', payload: { ...state.messages, [chatId]: [] } });
+        dispatch({ type: 'SET_PINNED_MESSAGES', payload: { chatId, pins: [] } });
         
         // Update chat's last message
         const updatedChats = state.chats.map(chat => 
@@ -474,27 +954,22 @@ export function AppProvider({ children }: { children: ReactNode }) {
       const taskCreatedHandler = ({ task, createdBy }: { task: any; createdBy: string }) => {
         logger.info('Handling task created', { taskId: task.id, createdBy, currentUserId: state.currentUser?.id, tasksCount: state.tasks.length }, 'AppContext');
         
-        // Only add if not already in the list and if it's assigned to current user or user is manager
+        // Only add if not already in the list and if it's assigned to current user or they manage tasks
         const isAssignedToCurrentUser = task.assignedTo?.id === state.currentUser?.id;
-        const isManager = state.currentUser?.role === 'manager';
+        const canManageTasks = userHasPermission(state.currentUser, state.roles, 'tasks.manage');
         const isCreator = createdBy === state.currentUser?.id;
         
         logger.debug('Task visibility check', {
           isAssignedToCurrentUser,
-          isManager,
+          canManageTasks,
           isCreator,
           taskAssignedTo: task.assignedTo?.id,
           currentUserId: state.currentUser?.id
         }, 'AppContext');
         
-        if (isAssignedToCurrentUser || isManager || isCreator) {
-          const existingTask = state.tasks.find(t => t.id === task.id);
-          if (!existingTask) {
-            logger.debug('Adding new task to state', { taskId: task.id }, 'AppContext');
-            dispatch({ type: 'SET_STATE', payload: { tasks: [...state.tasks, task] } });
-          } else {
-            logger.debug('Task already exists in state', { taskId: task.id }, 'AppContext');
-          }
+        if (isAssignedToCurrentUser || canManageTasks || isCreator) {
+          // The reducer skips tasks already in the list
+          dispatch({ type: 'ADD_TASK', payload: { task, createdBy } });
         } else {
           logger.debug('Task not visible to current user', { taskId: task.id }, 'AppContext');
         }
@@ -502,14 +977,14 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
       const taskUpdatedHandler = ({ task, updatedBy }: { task: any; updatedBy: string }) => {
         logger.info('Handling task updated', { taskId: task.id, updatedBy }, 'AppContext');
-        const updatedTasks = state.tasks.map(t => t.id === task.id ? task : t);
-        dispatch({ type: 'SET_STATE', payload: { tasks: updatedTasks } });
+        dispatch({ type: 'UPDATE_TASK', payload: task });
+        dispatch({ type: 'UPDATE_TASK_CARDS', payload: { taskId: task.id, changes: toTaskCardChanges(task, stateRef.current) } });
       };
 
       const taskDeletedHandler = ({ taskId, deletedBy }: { taskId: string; deletedBy: string }) => {
         logger.info('Handling task deleted', { taskId, deletedBy }, 'AppContext');
-        const updatedTasks = state.tasks.filter(t => t.id !== taskId);
-        dispatch({ type: 'SET_STATE', payload: { tasks: updatedTasks } });
+        dispatch({ type: 'REMOVE_TASK', payload: taskId });
+        dispatch({ type: 'UPDATE_TASK_CARDS', payload: { taskId, changes: { isDeleted: true } } });
       };
 
       const taskAssignedHandler = ({ task, assignedBy }: { task: any; assignedBy: string }) => {
@@ -518,7 +993,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
         // Show notification for assigned task
         if (task.assignedTo?.id === state.currentUser?.id && assignedBy !== state.currentUser?.id) {
           logger.info('Showing task assignment notification', { taskId: task.id }, 'AppContext');
-          toast.info(`You have been assigned a new task: ${task.title}`);
+          toast(`You have been assigned a new task: ${task.title}`);
         } else {
           logger.debug('Task assignment notification not shown', {
             taskAssignedTo: task.assignedTo?.id,
@@ -529,31 +1004,55 @@ export function AppProvider({ children }: { children: ReactNode }) {
         }
       };
 
+      const taskUnblockedHandler = ({ task, unblockedBy }: { task: any; unblockedBy: string }) => {
+        logger.info('Handling task unblocked', { taskId: task.id, unblockedBy }, 'AppContext');
+        if (unblockedBy !== state.currentUser?.id) {
+          toast.success(`"${task.title}" is no longer blocked and can be started`);
+        }
+      };
+
       // Remove existing listeners first
       socket.off('receive-message');
       socket.off('messageUpdated');
       socket.off('messageDeleted');
+      socket.off('message:pinned');
+      socket.off('message:unpinned');
+      socket.off('scheduled-message:updated');
+      socket.off('thread:reply');
+      socket.off('mention');
       socket.off('user-typing');
       socket.off('user-stop-typing');
       socket.off('messagesRead');
       socket.off('global-broadcast');
       socket.off('chat-deleted');
       socket.off('chat-cleared');
+      socket.off('chat-restored');
+      socket.off('chat-messages-restored');
       socket.off('task:created');
       socket.off('task:updated');
       socket.off('task:deleted');
       socket.off('task:assigned');
+      socket.off('task:unblocked');
+      socket.off('roles:updated');
 
       // Add new listeners
       socket.on('receive-message', messageHandler);
       socket.on('messageUpdated', updatedHandler);
       socket.on('messageDeleted', deletedHandler);
+      socket.on('message:pinned', messagePinnedHandler);
+      socket.on('message:unpinned', messageUnpinnedHandler);
+      socket.on('scheduled-message:updated', scheduledMessageHandler);
+      socket.on('thread:reply', threadReplyHandler);
+      socket.on('mention', mentionHandler);
+      socket.on('connect', flushOutbox);
       socket.on('user-typing', userTypingHandler);
       socket.on('user-stop-typing', userStopTypingHandler);
       socket.on('messagesRead', messagesReadHandler);
       socket.on('global-broadcast', broadcastHandler);
       socket.on('chat-deleted', chatDeletedHandler);
       socket.on('chat-cleared', chatClearedHandler);
+      socket.on('chat-restored', chatRestoredHandler);
+      socket.on('chat-messages-restored', chatMessagesRestoredHandler);
       
       // Task event listeners
       logger.debug('Setting up task event listeners', {}, 'AppContext');
@@ -561,24 +1060,181 @@ export function AppProvider({ children }: { children: ReactNode }) {
       socket.on('task:updated', taskUpdatedHandler);
       socket.on('task:deleted', taskDeletedHandler);
       socket.on('task:assigned', taskAssignedHandler);
+      socket.on('task:unblocked', taskUnblockedHandler);
+      socket.on('roles:updated', loadRoles);
 
       return () => {
         socket.off('receive-message', messageHandler);
         socket.off('messageUpdated', updatedHandler);
         socket.off('messageDeleted', deletedHandler);
+        socket.off('message:pinned', messagePinnedHandler);
+        socket.off('message:unpinned', messageUnpinnedHandler);
+        socket.off('scheduled-message:updated', scheduledMessageHandler);
+        socket.off('thread:reply', threadReplyHandler);
+        socket.off('mention', mentionHandler);
+        socket.off('connect', flushOutbox);
         socket.off('user-typing', userTypingHandler);
         socket.off('user-stop-typing', userStopTypingHandler);
         socket.off('messagesRead', messagesReadHandler);
         socket.off('global-broadcast', broadcastHandler);
         socket.off('chat-deleted', chatDeletedHandler);
         socket.off('chat-cleared', chatClearedHandler);
+        socket.off('chat-restored', chatRestoredHandler);
+        socket.off('chat-messages-restored', chatMessagesRestoredHandler);
         socket.off('task:created', taskCreatedHandler);
         socket.off('task:updated', taskUpdatedHandler);
         socket.off('task:deleted', taskDeletedHandler);
         socket.off('task:assigned', taskAssignedHandler);
+        socket.off('task:unblocked', taskUnblockedHandler);
+        socket.off('roles:updated', loadRoles);
       };
     }
-  }, [state.currentUser?.id, state.chats, state.messages]);
+  }, [state.currentUser?.id, state.chats, state.messages, state.activeChat]);
+
+  const trackLiveSeq = (seq: number) => {
+    if (liveSeqsDuringSyncRef.current) {
+      liveSeqsDuringSyncRef.current.add(seq);
+    } else if (lastSyncSeqRef.current !== null) {
+      lastSyncSeqRef.current = Math.max(lastSyncSeqRef.current, seq);
+    }
+  };
+
+  // Replayed notifications get one toast per kind, rather than one per missed event
+  const notifyMissedEvents = (events: SyncEvent[]) => {
+    const mentions = events.filter(e => e.event === 'mention').map(e => e.payload as MentionEvent);
+    if (mentions.length === 1) {
+      toast(getMentionTitle(mentions[0]), { icon: '@', duration: 5000 });
+    } else if (mentions.length > 1) {
+      toast(`You were mentioned ${mentions.length} times while offline`, { icon: '@', duration: 5000 });
+    }
+
+    const currentUserId = stateRef.current.currentUser?.id;
+    const assigned = events
+      .filter(e => e.event === 'task:assigned' && e.payload.task.assignedTo?.id === currentUserId && e.payload.assignedBy !== currentUserId)
+      .map(e => e.payload.task);
+    if (assigned.length === 1) {
+      toast(`You have been assigned a new task: ${assigned[0].title}`);
+    } else if (assigned.length > 1) {
+      toast(`You have been assigned ${assigned.length} new tasks`);
+    }
+
+    const unblocked = events
+      .filter(e => e.event === 'task:unblocked' && e.payload.unblockedBy !== currentUserId)
+      .map(e => e.payload.task);
+    if (unblocked.length === 1) {
+      toast.success(`"${unblocked[0].title}" is no longer blocked and can be started`);
+    } else if (unblocked.length > 1) {
+      toast.success(`${unblocked.length} of your tasks are no longer blocked and can be started`);
+    }
+  };
+
+  // Catch up on events missed while the socket was down
+  const syncMissedEvents = async () => {
+    const liveSeqs = new Set<number>();
+    liveSeqsDuringSyncRef.current = liveSeqs;
+    try {
+      if (lastSyncSeqRef.current === null) {
+        const { latestSeq } = await dataServiceAPI.getSync();
+        lastSyncSeqRef.current = Math.max(latestSeq, ...liveSeqs);
+        return;
+      }
+
+      const { latestSeq, events: recorded, resetRequired } = await dataServiceAPI.getSync(lastSyncSeqRef.current);
+      const events = recorded.filter(e => !liveSeqs.has(e.seq));
+      if (resetRequired) {
+        // Too far behind to replay, so reload what's on screen instead
+        const [chats, tasks] = await Promise.all([
+          dataServiceAPI.getChats(),
+          dataServiceAPI.getTasks(getTaskQueryParams(stateRef.current.taskQuery))
+        ]);
+        dispatch({ type: 'SET_CHATS', payload: Array.isArray(chats) ? chats : [] });
+        dispatch({ type: 'SET_STATE', payload: { tasks: Array.isArray(tasks?.data) ? tasks.data : [] } });
+        const { activeChat } = stateRef.current;
+        if (activeChat) {
+          await replaceChatHistory(activeChat);
+        }
+      } else if (events.length > 0) {
+        logger.socket('Replaying missed events', { count: events.length });
+        dispatch({ type: 'APPLY_SYNC_EVENTS', payload: events });
+        notifyMissedEvents(events);
+        const { activeChat } = stateRef.current;
+        if (activeChat && events.some(e => e.event === 'chat-messages-restored' && e.payload.chatId === activeChat)) {
+          await reloadOpenChat(activeChat);
+        }
+      }
+      lastSyncSeqRef.current = Math.max(latestSeq, ...liveSeqs);
+    } catch (error) {
+      logger.error('Failed to sync missed events', { error: (error as Error).message }, 'AppContext');
+    } finally {
+      if (liveSeqsDuringSyncRef.current === liveSeqs) {
+        liveSeqsDuringSyncRef.current = null;
+      }
+    }
+  };
+
+  useEffect(() => {
+    lastSyncSeqRef.current = null;
+    if (!state.currentUser?.id) return;
+
+    const stopTrackingSeq = dataServiceAPI.onSyncSeq(trackLiveSeq);
+    const stopWatchingStatus = dataServiceAPI.onConnectionStatusChange(status => {
+      dispatch({ type: 'SET_CONNECTION_STATUS', payload: status });
+      if (status === 'connected') {
+        syncMissedEvents();
+      }
+    });
+    return () => {
+      stopTrackingSeq();
+      stopWatchingStatus();
+    };
+  }, [state.currentUser?.id]);
+
+  useEffect(() => {
+    if (!state.currentUser?.id) return;
+
+    dataServiceAPI.getScheduledMessages().then(scheduledMessages => {
+      dispatch({ type: 'SET_SCHEDULED_MESSAGES', payload: scheduledMessages });
+    }).catch(error => {
+      logger.error('Failed to load scheduled messages', { error: error.message }, 'AppContext');
+    });
+  }, [state.currentUser?.id]);
+
+  useEffect(() => {
+    if (!state.currentUser?.id) return;
+
+    dataServiceAPI.getTaskViews().then(taskViews => {
+      dispatch({ type: 'SET_STATE', payload: { taskViews } });
+    }).catch(error => {
+      logger.error('Failed to load task views', { error: error.message }, 'AppContext');
+    });
+  }, [state.currentUser?.id]);
+
+  // Reloaded whenever a role changes, since that can change what the current user may do
+  const loadRoles = () => {
+    dataServiceAPI.getRoles().then(({ roles, permissions }) => {
+      dispatch({ type: 'SET_STATE', payload: { roles, permissionCatalog: permissions } });
+    }).catch(error => {
+      logger.error('Failed to load roles', { error: error.message }, 'AppContext');
+    });
+  };
+
+  // Restore messages left in the outbox by a previous session, then retry them
+  useEffect(() => {
+    const userId = state.currentUser?.id;
+    if (!userId) return;
+
+    getOutboxEntries(userId).then(entries => {
+      entries.forEach(entry => {
+        if (outboxRef.current.has(entry.clientMessageId)) return;
+        outboxRef.current.set(entry.clientMessageId, entry);
+        dispatch({ type: 'ADD_MESSAGE', payload: { chatId: entry.chatId, message: toPendingMessage(entry) } });
+      });
+      flushOutbox();
+    });
+
+    window.addEventListener('online', flushOutbox);
+    return () => window.removeEventListener('online', flushOutbox);
+  }, [state.currentUser?.id]);
 
   // Load initial data on mount
   useEffect(() => {
@@ -607,11 +1263,12 @@ export function AppProvider({ children }: { children: ReactNode }) {
               
               // Token is valid, proceed to load data
               try {
-                const [users, chats, tasks, teams] = await Promise.all([
+                const [users, chats, tasks, teams, roleCatalog] = await Promise.all([
                   dataServiceAPI.getUsers(),
                   dataServiceAPI.getChats(),
                   dataServiceAPI.getTasks(),
-                  dataServiceAPI.getTeams()
+                  dataServiceAPI.getTeams(),
+                  dataServiceAPI.getRoles()
                 ]);
                 
                 // Ensure arrays are always returned
@@ -622,7 +1279,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
                 
                 dispatch({ type: 'SET_USERS', payload: safeUsers });
                 dispatch({ type: 'SET_CHATS', payload: safeChats });
-                dispatch({ type: 'SET_STATE', payload: { tasks: safeTasks, teams: safeTeams } });
+                dispatch({ type: 'SET_STATE', payload: { tasks: safeTasks, teams: safeTeams, roles: roleCatalog.roles, permissionCatalog: roleCatalog.permissions } });
                 
                 // Add default messages for default chats
                 const defaultMessages: { [chatId: string]: Message[] } = {};
@@ -665,8 +1322,8 @@ export function AppProvider({ children }: { children: ReactNode }) {
                   dispatch({ type: 'SET_ACTIVE_CHAT', payload: firstChat.id });
                 }
                 
-                // Load pending users if manager
-                if (user.role === 'manager') {
+                // Load pending users if they may approve them
+                if (userHasPermission(user, roleCatalog.roles, 'users.approve')) {
                   try {
                     const pendingUsers = await dataServiceAPI.getPendingUsers();
                     dispatch({ type: 'SET_PENDING_USERS', payload: pendingUsers });
@@ -723,66 +1380,84 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   }, [state.darkMode]);
 
-  const login = async (email: string, password: string): Promise<boolean> => {
+  // Everything after the session is started: the user, then the data the app opens with
+  const finishLogin = async (user: User) => {
+    // Set current user immediately
+    dispatch({ type: 'SET_CURRENT_USER', payload: user });
+    
+    // Load additional data after successful login
     try {
-      const loginResult = await dataServiceAPI.login(email, password);
-      if (!loginResult || !loginResult.user) {
-        console.error('Login failed: Invalid response');
-        return false;
-      }
+      const [users, chats, tasks, teams, roleCatalog] = await Promise.all([
+        dataServiceAPI.getUsers(),
+        dataServiceAPI.getChats(),
+        dataServiceAPI.getTasks(),
+        dataServiceAPI.getTeams(),
+        dataServiceAPI.getRoles()
+      ]);
       
-      const { user } = loginResult;
+      // Ensure arrays are always returned
+      const safeUsers = Array.isArray(users) ? users : [];
+      const safeChats = Array.isArray(chats) ? chats : [];
+      const safeTasks = Array.isArray(tasks?.data) ? tasks.data : [];
+      const safeTeams = Array.isArray(teams?.data) ? teams.data : [];
       
-      // Set current user immediately
-      dispatch({ type: 'SET_CURRENT_USER', payload: user });
+      dispatch({ type: 'SET_USERS', payload: safeUsers });
+      dispatch({ type: 'SET_CHATS', payload: safeChats });
+      dispatch({ type: 'SET_STATE', payload: { tasks: safeTasks, teams: safeTeams, roles: roleCatalog.roles, permissionCatalog: roleCatalog.permissions } });
       
-      // Load additional data after successful login
-      try {
-        const [users, chats, tasks, teams] = await Promise.all([
-          dataServiceAPI.getUsers(),
-          dataServiceAPI.getChats(),
-          dataServiceAPI.getTasks(),
-          dataServiceAPI.getTeams()
-        ]);
-        
-        // Ensure arrays are always returned
-        const safeUsers = Array.isArray(users) ? users : [];
-        const safeChats = Array.isArray(chats) ? chats : [];
-        const safeTasks = Array.isArray(tasks?.data) ? tasks.data : [];
-        const safeTeams = Array.isArray(teams?.data) ? teams.data : [];
-        
-        dispatch({ type: 'SET_USERS', payload: safeUsers });
-        dispatch({ type: 'SET_CHATS', payload: safeChats });
-        dispatch({ type: 'SET_STATE', payload: { tasks: safeTasks, teams: safeTeams } });
-        
-        // Select the first chat automatically
-        if (safeChats.length > 0) {
-          const generalChat = safeChats.find(c => c.type === 'general');
-          const firstChat = generalChat || safeChats[0];
-          dispatch({ type: 'SET_ACTIVE_CHAT', payload: firstChat.id });
-        }
-        
-        // Load pending users if manager
-        if (user.role === 'manager') {
-          try {
-            const pendingUsers = await dataServiceAPI.getPendingUsers();
-            dispatch({ type: 'SET_PENDING_USERS', payload: pendingUsers });
-          } catch (error) {
-            console.warn('Failed to load pending users:', error);
-          }
+      // Select the first chat automatically
+      if (safeChats.length > 0) {
+        const generalChat = safeChats.find(c => c.type === 'general');
+        const firstChat = generalChat || safeChats[0];
+        dispatch({ type: 'SET_ACTIVE_CHAT', payload: firstChat.id });
+      }
+      
+      // Load pending users if they may approve them
+      if (userHasPermission(user, roleCatalog.roles, 'users.approve')) {
+        try {
+          const pendingUsers = await dataServiceAPI.getPendingUsers();
+          dispatch({ type: 'SET_PENDING_USERS', payload: pendingUsers });
+        } catch (error) {
+          console.warn('Failed to load pending users:', error);
         }
-      } catch (error) {
-        console.warn('Failed to load additional data after login:', error);
-        // Don't fail the login if data loading fails
+      }
+    } catch (error) {
+      console.warn('Failed to load additional data after login:', error);
+      // Don't fail the login if data loading fails
+    }
+  };
+
+  const login = async (email: string, password: string): Promise<boolean | TwoFactorChallenge> => {
+    try {
+      const loginResult = await dataServiceAPI.login(email, password);
+      if (loginResult && 'challenge' in loginResult) {
+        return loginResult.challenge;
+      }
+      if (!loginResult || !loginResult.user) {
+        console.error('Login failed: Invalid response');
+        return false;
       }
       
+      await finishLogin(loginResult.user);
       return true;
-    } catch (error) {
+    } catch (error: any) {
       console.error('Login failed:', error);
+      // A locked account gets its own message rather than "invalid credentials"
+      if (error.response?.data?.code === 'ACCOUNT_LOCKED') throw error;
       return false;
     }
   };
 
+  const loginWithSecondFactor = async (challengeToken: string, factor: { code?: string; recoveryCode?: string }) => {
+    const { user } = await dataServiceAPI.verifyTwoFactorLogin(challengeToken, factor);
+    await finishLogin(user);
+  };
+
+  const completeEnrolmentLogin = async (session: { user: User; token: string }) => {
+    const { user } = await dataServiceAPI.startSession(session.user, session.token);
+    await finishLogin(user);
+  };
+
   const register = async (name: string, email: string, password: string, isManager: boolean = false): Promise<boolean> => {
     try {
       const result = await dataServiceAPI.register({ name, email, password, isManager });
@@ -812,48 +1487,142 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const clearSessionState = () => {
+    dispatch({ type: 'SET_CURRENT_USER', payload: null });
+    dispatch({ type: 'SET_ACTIVE_CHAT', payload: null });
+    dispatch({ type: 'SET_CURRENT_SCREEN', payload: 'chat' });
+    dispatch({ type: 'SET_USERS', payload: [] });
+    dispatch({ type: 'SET_CHATS', payload: [] });
+    dispatch({ type: 'SET_MESSAGES', payload: {} });
+    dispatch({ type: 'SET_STATE', payload: { tasks: [], teams: [], pinnedMessages: {}, scheduledMessages: [], taskViews: [], taskQuery: DEFAULT_TASK_QUERY, roles: [], permissionCatalog: [] } });
+  };
+
   const logout = async () => {
     try {
       await dataServiceAPI.logout();
-      
-      dispatch({ type: 'SET_CURRENT_USER', payload: null });
-      dispatch({ type: 'SET_ACTIVE_CHAT', payload: null });
-      dispatch({ type: 'SET_CURRENT_SCREEN', payload: 'chat' });
-      dispatch({ type: 'SET_USERS', payload: [] });
-      dispatch({ type: 'SET_CHATS', payload: [] });
-      dispatch({ type: 'SET_MESSAGES', payload: {} });
-      dispatch({ type: 'SET_STATE', payload: { tasks: [], teams: [] } });
+      clearSessionState();
     } catch (error) {
       console.error('Logout failed:', error);
     }
   };
 
+  // Signed out from another device, or the session could no longer be refreshed
+  useEffect(() => {
+    if (!state.currentUser?.id) return;
+    return dataServiceAPI.onSessionEnded(clearSessionState);
+  }, [state.currentUser?.id]);
+
   const cancelReply = () => {
     setReplyingTo(null);
   };
 
-  const sendMessage = async (chatId: string, content: string, type: 'text' | 'file' | 'announcement' = 'text') => {
-    if (!state.currentUser) return;
+  const deliverOutboxEntry = async (entry: OutboxEntry) => {
+    const { clientMessageId, chatId } = entry;
+    if (outboxInFlightRef.current.has(clientMessageId)) return;
+    window.clearTimeout(outboxTimersRef.current.get(clientMessageId));
+    outboxTimersRef.current.delete(clientMessageId);
+    outboxInFlightRef.current.add(clientMessageId);
 
     try {
-      // Send message via API
-      await dataServiceAPI.sendMessage({
+      const message = await dataServiceAPI.sendMessage({
         chatId,
-        content,
-        type,
+        content: entry.content,
+        type: entry.type,
         isUrgent: false,
-        replyTo: replyingTo?.id
-      });
+        replyTo: entry.replyTo,
+        mentions: entry.mentions
+      }, clientMessageId);
 
-      // The socket event will handle the state update, but we clear the reply state now
-      setReplyingTo(null);
+      outboxRef.current.delete(clientMessageId);
+      await removeOutboxEntry(clientMessageId);
+      dispatch({ type: 'CONFIRM_MESSAGE', payload: { chatId, clientMessageId, message } });
+    } catch (error: any) {
+      // A discarded message may fail after the user deleted it
+      if (!outboxRef.current.has(clientMessageId)) return;
 
-    } catch (error) {
-      console.error('Failed to send message:', error);
-      toast.error("Couldn't send message. Please try again.");
+      // No response while offline: keep it pending and let the reconnect flush send it
+      const isOffline = !navigator.onLine || stateRef.current.connectionStatus !== 'connected';
+      if (!error.response && isOffline) {
+        logger.info('Message send paused until reconnect', { clientMessageId, chatId }, 'AppContext');
+        return;
+      }
+
+      const status = error.response?.status;
+      const attempts = entry.attempts + 1;
+      // Other client errors won't succeed on retry
+      const isRejected = status >= 400 && status < 500 && status !== 408 && status !== 429;
+      const failed = isRejected || attempts >= OUTBOX_MAX_ATTEMPTS;
+      const updated: OutboxEntry = { ...entry, attempts, status: failed ? 'failed' : 'pending' };
+
+      outboxRef.current.set(clientMessageId, updated);
+      await saveOutboxEntry(updated);
+
+      if (failed) {
+        logger.warn('Message send failed', { clientMessageId, chatId, status, attempts }, 'AppContext');
+        dispatch({ type: 'SET_MESSAGE_SEND_STATUS', payload: { chatId, clientMessageId, status: 'failed' } });
+      } else {
+        const delay = Math.min(1000 * 2 ** (attempts - 1), OUTBOX_MAX_RETRY_DELAY);
+        outboxTimersRef.current.set(clientMessageId, window.setTimeout(() => deliverOutboxEntry(updated), delay));
+      }
+    } finally {
+      outboxInFlightRef.current.delete(clientMessageId);
     }
   };
 
+  // Retry pending messages straight away (on reconnect), restarting their backoff
+  const flushOutbox = () => {
+    outboxRef.current.forEach(entry => {
+      if (entry.status === 'pending') {
+        deliverOutboxEntry({ ...entry, attempts: 0 });
+      }
+    });
+  };
+
+  const sendMessage = async (chatId: string, content: string, type: 'text' | 'file' | 'announcement' = 'text', _file?: FileUpload, mentions: string[] = []) => {
+    if (!state.currentUser) return;
+
+    const entry: OutboxEntry = {
+      clientMessageId: generateClientMessageId(),
+      chatId,
+      senderId: state.currentUser.id,
+      senderName: state.currentUser.name,
+      content,
+      type,
+      replyTo: replyingTo?.id,
+      mentions,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      status: 'pending'
+    };
+
+    // Show the message immediately; the server's copy replaces it once delivered
+    outboxRef.current.set(entry.clientMessageId, entry);
+    dispatch({ type: 'ADD_MESSAGE', payload: { chatId, message: toPendingMessage(entry) } });
+    setReplyingTo(null);
+
+    await saveOutboxEntry(entry);
+    await deliverOutboxEntry(entry);
+  };
+
+  const retryMessage = (chatId: string, clientMessageId: string) => {
+    const entry = outboxRef.current.get(clientMessageId);
+    if (!entry) return;
+
+    const updated: OutboxEntry = { ...entry, attempts: 0, status: 'pending' };
+    outboxRef.current.set(clientMessageId, updated);
+    saveOutboxEntry(updated);
+    dispatch({ type: 'SET_MESSAGE_SEND_STATUS', payload: { chatId, clientMessageId, status: 'pending' } });
+    deliverOutboxEntry(updated);
+  };
+
+  const discardMessage = (chatId: string, clientMessageId: string) => {
+    window.clearTimeout(outboxTimersRef.current.get(clientMessageId));
+    outboxTimersRef.current.delete(clientMessageId);
+    outboxRef.current.delete(clientMessageId);
+    removeOutboxEntry(clientMessageId);
+    dispatch({ type: 'REMOVE_PENDING_MESSAGE', payload: { chatId, clientMessageId } });
+  };
+
   const uploadFile = async (file: File): Promise<FileUpload> => {
     return new Promise((resolve) => {
       const fileUpload: FileUpload = {
@@ -914,6 +1683,97 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const pinMessage = async (chatId: string, messageId: string) => {
+    try {
+      const pin = await dataServiceAPI.pinMessage(chatId, messageId);
+      // Also arrives via socket; the reducer ignores the duplicate
+      dispatch({ type: 'ADD_PINNED_MESSAGE', payload: { chatId, pin } });
+    } catch (error) {
+      logger.error('Failed to pin message', { error: (error as Error).message, chatId, messageId }, 'AppContext');
+      toast.error("Couldn't pin message. Please try again.");
+    }
+  };
+
+  const unpinMessage = async (chatId: string, messageId: string) => {
+    try {
+      await dataServiceAPI.unpinMessage(chatId, messageId);
+      dispatch({ type: 'REMOVE_PINNED_MESSAGE', payload: { chatId, messageId } });
+    } catch (error) {
+      logger.error('Failed to unpin message', { error: (error as Error).message, chatId, messageId }, 'AppContext');
+      toast.error("Couldn't unpin message. Please try again.");
+    }
+  };
+
+  const scheduleMessage = async (
+    chatId: string,
+    content: string,
+    scheduledFor: Date,
+    options: { type?: 'text' | 'announcement'; isUrgent?: boolean; mentions?: string[] } = {}
+  ) => {
+    try {
+      const scheduled = await dataServiceAPI.scheduleMessage({ chatId, content, scheduledFor, ...options });
+      dispatch({ type: 'UPSERT_SCHEDULED_MESSAGE', payload: scheduled });
+      return true;
+    } catch (error) {
+      logger.error('Failed to schedule message', { error: (error as Error).message, chatId }, 'AppContext');
+      return false;
+    }
+  };
+
+  const updateScheduledMessage = async (
+    id: string,
+    updates: Partial<Pick<ScheduledMessage, 'content' | 'scheduledFor' | 'isUrgent' | 'mentions'>>
+  ) => {
+    try {
+      const scheduled = await dataServiceAPI.updateScheduledMessage(id, updates);
+      dispatch({ type: 'UPSERT_SCHEDULED_MESSAGE', payload: scheduled });
+      return true;
+    } catch (error) {
+      logger.error('Failed to update scheduled message', { error: (error as Error).message, id }, 'AppContext');
+      return false;
+    }
+  };
+
+  const cancelScheduledMessage = async (id: string) => {
+    try {
+      const scheduled = await dataServiceAPI.cancelScheduledMessage(id);
+      dispatch({ type: 'UPSERT_SCHEDULED_MESSAGE', payload: scheduled });
+    } catch (error) {
+      logger.error('Failed to cancel scheduled message', { error: (error as Error).message, id }, 'AppContext');
+    }
+  };
+
+  const openThread = async (message: Message) => {
+    if (!message.chatId) return;
+    dispatch({ type: 'SET_ACTIVE_THREAD', payload: message });
+    
+    try {
+      const { root, replies } = await dataServiceAPI.getThread(message.chatId, message.id);
+      dispatch({ type: 'SET_ACTIVE_THREAD', payload: root });
+      dispatch({ type: 'SET_THREAD_MESSAGES', payload: { threadId: root.id, messages: replies } });
+    } catch (error) {
+      logger.error('Failed to load thread', { error: (error as Error).message, messageId: message.id }, 'AppContext');
+      toast.error("Couldn't load thread. Please try again.");
+    }
+  };
+
+  const closeThread = () => {
+    dispatch({ type: 'SET_ACTIVE_THREAD', payload: null });
+  };
+
+  const sendThreadReply = async (content: string, mentions: string[] = []) => {
+    const root = state.activeThread;
+    if (!state.currentUser || !root?.chatId) return;
+
+    try {
+      await dataServiceAPI.sendThreadReply(root.chatId, root.id, content, mentions);
+      // The thread:reply socket event will handle the state update
+    } catch (error) {
+      console.error('Failed to send thread reply:', error);
+      toast.error("Couldn't send reply. Please try again.");
+    }
+  };
+
   const addReaction = async (chatId: string, messageId: string, emoji: string) => {
     if (!state.currentUser) return;
     
@@ -950,25 +1810,111 @@ export function AppProvider({ children }: { children: ReactNode }) {
     if (chatId) {
       markChatAsRead(chatId);
       
-      // Join the chat room in Socket.IO
-      const socket = dataServiceAPI.getSocket();
-      if (socket) {
-        socket.emit('join-chat', chatId);
-        logger.socket('Joined chat room', { chatId }, 'AppContext');
-      }
+      // Join the chat room in Socket.IO (rejoined automatically after a reconnect)
+      dataServiceAPI.joinChat(chatId);
       
-      // Load messages for this chat if not loaded
-      if (!state.messages[chatId]) {
-        dataServiceAPI.getMessages(chatId).then(messages => {
-          dispatch({ type: 'SET_MESSAGES', payload: { ...state.messages, [chatId]: messages } });
+      // Load messages for this chat if not loaded (it may only hold placeholders or unsent messages)
+      if (!state.messagePagination[chatId]) {
+        const requestId = (historyRequestRef.current[chatId] || 0) + 1;
+        historyRequestRef.current[chatId] = requestId;
+        dataServiceAPI.getMessages(chatId).then(({ messages, pagination }) => {
+          if (historyRequestRef.current[chatId] !== requestId) return;
+          dispatch({ type: 'SET_CHAT_HISTORY', payload: { chatId, messages, pagination } });
         }).catch(error => {
           logger.error('Failed to load messages', { error: error.message, chatId }, 'AppContext');
           // Set empty array to prevent loading again
-          dispatch({ type: 'SET_MESSAGES', payload: { ...state.messages, [chatId]: [] } });
+          dispatch({ type: 'SET_CHAT_HISTORY', payload: { chatId, messages: [], pagination: EMPTY_PAGINATION } });
         });
       }
+
+      if (!state.pinnedMessages[chatId]) {
+        dataServiceAPI.getPinnedMessages(chatId).then(pins => {
+          dispatch({ type: 'SET_PINNED_MESSAGES', payload: { chatId, pins } });
+        }).catch(error => {
+          logger.error('Failed to load pinned messages', { error: error.message, chatId }, 'AppContext');
+        });
+      }
+    }
+  }, [state.messages, state.messagePagination, state.pinnedMessages]);
+
+  // Load a page of history in one direction; concurrent requests for the same page are ignored
+  const loadMessagePage = async (chatId: string, direction: 'before' | 'after') => {
+    const pagination = state.messagePagination[chatId];
+    const cursor = direction === 'before' ? pagination?.beforeCursor : pagination?.afterCursor;
+    const hasMore = direction === 'before' ? pagination?.hasMoreBefore : pagination?.hasMoreAfter;
+    const key = `${chatId}:${direction}`;
+    if (!cursor || !hasMore || pendingHistoryRef.current.has(key)) return;
+
+    pendingHistoryRef.current.add(key);
+    const requestId = historyRequestRef.current[chatId];
+    try {
+      const page = await dataServiceAPI.getMessages(chatId, { [direction]: cursor });
+      if (historyRequestRef.current[chatId] !== requestId) return;
+      dispatch({ type: direction === 'before' ? 'PREPEND_MESSAGES' : 'APPEND_MESSAGES', payload: { chatId, ...page } });
+    } catch (error) {
+      logger.error('Failed to load message history', { error: (error as Error).message, chatId, direction }, 'AppContext');
+      toast.error("Couldn't load messages. Please try again.");
+    } finally {
+      pendingHistoryRef.current.delete(key);
+    }
+  };
+
+  const loadOlderMessages = (chatId: string) => loadMessagePage(chatId, 'before');
+
+  const loadNewerMessages = (chatId: string) => loadMessagePage(chatId, 'after');
+
+  // Replace the chat's loaded messages with a fresh window (latest page, or one around a message)
+  const replaceChatHistory = async (chatId: string, around?: string) => {
+    const requestId = (historyRequestRef.current[chatId] || 0) + 1;
+    historyRequestRef.current[chatId] = requestId;
+    const { messages, pagination } = await dataServiceAPI.getMessages(chatId, around ? { around } : {});
+    if (historyRequestRef.current[chatId] !== requestId) return false;
+    dispatch({ type: 'SET_CHAT_HISTORY', payload: { chatId, messages, pagination } });
+    return true;
+  };
+
+  // After a chat's messages come back from the trash; other chats reload when next opened
+  const reloadOpenChat = async (chatId: string) => {
+    if (stateRef.current.activeChat !== chatId) return;
+    try {
+      await replaceChatHistory(chatId);
+      const pins = await dataServiceAPI.getPinnedMessages(chatId);
+      dispatch({ type: 'SET_PINNED_MESSAGES', payload: { chatId, pins } });
+    } catch (error) {
+      logger.error('Failed to reload restored chat', { error: (error as Error).message, chatId }, 'AppContext');
+    }
+  };
+
+  const jumpToMessage = async (chatId: string, messageId: string) => {
+    dispatch({ type: 'SET_CURRENT_SCREEN', payload: 'chat' });
+    if (state.activeChat !== chatId) {
+      setActiveChat(chatId);
+    }
+
+    try {
+      if (!state.messages[chatId]?.some(m => m.id === messageId)) {
+        const applied = await replaceChatHistory(chatId, messageId);
+        if (!applied) return;
+      }
+      dispatch({ type: 'SET_HIGHLIGHTED_MESSAGE', payload: messageId });
+    } catch (error) {
+      logger.error('Failed to jump to message', { error: (error as Error).message, chatId, messageId }, 'AppContext');
+      toast.error("Couldn't find that message.");
     }
-  }, [state.messages]);
+  };
+
+  const jumpToLatest = async (chatId: string) => {
+    try {
+      await replaceChatHistory(chatId);
+    } catch (error) {
+      logger.error('Failed to load latest messages', { error: (error as Error).message, chatId }, 'AppContext');
+      toast.error("Couldn't load messages. Please try again.");
+    }
+  };
+
+  const clearHighlightedMessage = () => {
+    dispatch({ type: 'SET_HIGHLIGHTED_MESSAGE', payload: null });
+  };
 
   const setCurrentScreen = (screen: AppScreen) => {
     dispatch({ type: 'SET_CURRENT_SCREEN', payload: screen });
@@ -1142,7 +2088,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
     return state.pendingUsers.length;
   };
   
-  const updateUserRole = async (userId: string, newRole: 'manager' | 'employee') => {
+  const updateUserRole = async (userId: string, newRole: string) => {
     try {
       const user = state.users.find(u => u.id === userId);
       if (user && user.email !== 'admin@app.com') { // Prevent changing admin role
@@ -1168,6 +2114,41 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
   
+  const resetUserTwoFactor = async (userId: string) => {
+    try {
+      const updatedUser = await dataServiceAPI.resetUserTwoFactor(userId);
+      dispatch({ type: 'UPDATE_USER', payload: updatedUser });
+    } catch (error) {
+      console.error('Failed to reset two-factor authentication:', error);
+    }
+  };
+
+  const unlockUser = async (userId: string) => {
+    try {
+      const updatedUser = await dataServiceAPI.unlockUser(userId);
+      dispatch({ type: 'UPDATE_USER', payload: updatedUser });
+    } catch (error) {
+      console.error('Failed to unlock account:', error);
+    }
+  };
+
+  const hasPermission = (permission: Permission) => userHasPermission(state.currentUser, state.roles, permission);
+
+  const saveRole = async (key: string | null, role: RoleInput) => {
+    const saved = key ? await dataServiceAPI.updateRole(key, role) : await dataServiceAPI.createRole(role);
+    const roles = stateRef.current.roles;
+    dispatch({
+      type: 'SET_STATE',
+      payload: { roles: key ? roles.map(item => (item.key === key ? saved : item)) : [...roles, saved] }
+    });
+    return saved;
+  };
+
+  const deleteRole = async (key: string) => {
+    await dataServiceAPI.deleteRole(key);
+    dispatch({ type: 'SET_STATE', payload: { roles: stateRef.current.roles.filter(role => role.key !== key) } });
+  };
+
   const createDirectChat = async (otherUserId: string) => {
     if (!state.currentUser) return;
     
@@ -1233,7 +2214,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
   };
 
   const loadOverseenChats = async () => {
-    if (state.currentUser?.role !== 'manager') return;
+    if (!hasPermission('chats.oversee')) return;
     try {
       const chats = await dataServiceAPI.getDirectChatsForOversight();
       dispatch({ type: 'SET_OVERSEEN_CHATS', payload: chats });
@@ -1243,7 +2224,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
   };
 
   const loadMessagesForOversight = async (chatId: string) => {
-    if (state.currentUser?.role !== 'manager') return;
+    if (!hasPermission('chats.oversee')) return;
     try {
       const messages = await dataServiceAPI.getMessagesForOversight(chatId);
       dispatch({ type: 'SET_OVERSEEN_MESSAGES', payload: { chatId, messages } });
@@ -1277,7 +2258,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
   };
 
   const deleteChat = async (chatId: string) => {
-    if (!state.currentUser || state.currentUser.role !== 'manager') return;
+    if (!hasPermission('chats.delete')) return;
     
     try {
       await dataServiceAPI.deleteChat(chatId);
@@ -1301,7 +2282,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
   };
 
   const clearChatMessages = async (chatId: string) => {
-    if (!state.currentUser || state.currentUser.role !== 'manager') return;
+    if (!hasPermission('chats.delete')) return;
     
     try {
       const result = await dataServiceAPI.clearChatMessages(chatId);
@@ -1327,7 +2308,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
   // Task Management Functions
   const fetchTasks = async () => {
     try {
-      const response = await dataServiceAPI.getTasks();
+      const response = await dataServiceAPI.getTasks(getTaskQueryParams(stateRef.current.taskQuery));
       if (response.success) {
         dispatch({ type: 'SET_STATE', payload: { tasks: response.data } });
       }
@@ -1351,6 +2332,67 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const setTaskQuery = (changes: Partial<TaskQueryState>) => {
+    dispatch({ type: 'SET_STATE', payload: { taskQuery: { ...stateRef.current.taskQuery, ...changes } } });
+  };
+
+  // Show a saved view on the task page, or clear back to the default with null
+  const openTaskView = (viewId: string | null) => {
+    const view = viewId ? stateRef.current.taskViews.find(item => item.id === viewId) : undefined;
+    const taskQuery: TaskQueryState = view
+      ? { filters: { ...EMPTY_TASK_FILTERS, ...view.filters }, sort: view.sort, viewMode: view.viewMode, viewId: view.id }
+      : DEFAULT_TASK_QUERY;
+    dispatch({ type: 'SET_STATE', payload: { taskQuery } });
+    setCurrentScreen('tasks');
+  };
+
+  // Save the task page's current filters, sort and layout under a name
+  const createTaskView = async (name: string) => {
+    const { filters, sort, viewMode } = stateRef.current.taskQuery;
+    try {
+      const view = await dataServiceAPI.createTaskView({ name, filters, sort, viewMode });
+      dispatch({
+        type: 'SET_STATE',
+        payload: { taskViews: [...stateRef.current.taskViews, view], taskQuery: { ...stateRef.current.taskQuery, viewId: view.id } }
+      });
+      toast.success(`Saved view "${view.name}"`);
+      return view;
+    } catch (error) {
+      logger.error('Failed to save task view', { error: (error as Error).message }, 'AppContext');
+      return null;
+    }
+  };
+
+  const updateTaskView = async (viewId: string, updates: Partial<Pick<TaskView, 'name' | 'filters' | 'sort' | 'viewMode'>>) => {
+    try {
+      const view = await dataServiceAPI.updateTaskView(viewId, updates);
+      dispatch({
+        type: 'SET_STATE',
+        payload: { taskViews: stateRef.current.taskViews.map(item => (item.id === viewId ? view : item)) }
+      });
+      toast.success(`Updated view "${view.name}"`);
+    } catch (error) {
+      logger.error('Failed to update task view', { error: (error as Error).message, viewId }, 'AppContext');
+    }
+  };
+
+  // The page keeps showing the deleted view's filters, just no longer as a saved view
+  const deleteTaskView = async (viewId: string) => {
+    try {
+      await dataServiceAPI.deleteTaskView(viewId);
+      const { taskViews, taskQuery } = stateRef.current;
+      dispatch({
+        type: 'SET_STATE',
+        payload: {
+          taskViews: taskViews.filter(item => item.id !== viewId),
+          taskQuery: taskQuery.viewId === viewId ? { ...taskQuery, viewId: null } : taskQuery
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to delete task view', { error: (error as Error).message, viewId }, 'AppContext');
+    }
+  };
+
   const createTask = async (taskData: any) => {
     try {
       const response = await dataServiceAPI.createTask(taskData);
@@ -1365,26 +2407,34 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const updateTask = async (taskId: string, taskData: any) => {
+  // Applied to the list straight away and rolled back if the server rejects it
+  const updateTask = async (taskId: string, taskData: any, options: { silent?: boolean } = {}) => {
+    const previous = stateRef.current.tasks.find(task => task.id === taskId);
+    if (previous) {
+      const { scope, overrideBlockers, ...changes } = taskData;
+      dispatch({ type: 'UPDATE_TASK', payload: { ...previous, ...changes } });
+    }
     try {
       const response = await dataServiceAPI.updateTask(taskId, taskData);
       if (response.success) {
-        const updatedTasks = state.tasks.map(task => 
-          task.id === taskId ? response.data : task
-        );
-        dispatch({ type: 'SET_STATE', payload: { tasks: updatedTasks } });
-        toast.success('Task updated successfully');
+        dispatch({ type: 'UPDATE_TASK', payload: response.data });
+        if (!options.silent) {
+          toast.success('Task updated successfully');
+        }
       }
     } catch (error) {
       console.error('Failed to update task:', error);
+      if (previous) {
+        dispatch({ type: 'UPDATE_TASK', payload: previous });
+      }
       toast.error('Failed to update task');
       throw error;
     }
   };
 
-  const deleteTask = async (taskId: string) => {
+  const deleteTask = async (taskId: string, scope?: TaskEditScope) => {
     try {
-      await dataServiceAPI.deleteTask(taskId);
+      await dataServiceAPI.deleteTask(taskId, scope);
       const updatedTasks = state.tasks.filter(task => task.id !== taskId);
       dispatch({ type: 'SET_STATE', payload: { tasks: updatedTasks } });
       toast.success('Task deleted successfully');
@@ -1537,6 +2587,8 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const contextValue: AppContextValue = {
     ...state,
     login,
+    loginWithSecondFactor,
+    completeEnrolmentLogin,
     logout,
     register,
     sendMessage,
@@ -1544,11 +2596,26 @@ export function AppProvider({ children }: { children: ReactNode }) {
     editMessage,
     deleteMessage,
     addReaction,
+    retryMessage,
+    discardMessage,
     setActiveChat,
     setCurrentScreen,
     setReplyingTo: setReplyingTo,
     cancelReply,
     replyingTo,
+    openThread,
+    closeThread,
+    sendThreadReply,
+    loadOlderMessages,
+    loadNewerMessages,
+    jumpToMessage,
+    jumpToLatest,
+    clearHighlightedMessage,
+    pinMessage,
+    unpinMessage,
+    scheduleMessage,
+    updateScheduledMessage,
+    cancelScheduledMessage,
     toggleDarkMode,
     updateUserSettings,
     updateUserProfile,
@@ -1562,6 +2629,11 @@ export function AppProvider({ children }: { children: ReactNode }) {
     getPendingUsersCount,
     updateUserRole,
     removeUser,
+    resetUserTwoFactor,
+    unlockUser,
+    hasPermission,
+    saveRole,
+    deleteRole,
     createDirectChat,
     createGroupChat,
     isModalOpen: state.isModalOpen,
@@ -1582,6 +2654,11 @@ export function AppProvider({ children }: { children: ReactNode }) {
     deleteChat,
     clearChatMessages,
     fetchTasks,
+    setTaskQuery,
+    openTaskView,
+    createTaskView,
+    updateTaskView,
+    deleteTaskView,
     fetchTeams,
     createTask,
     updateTask,
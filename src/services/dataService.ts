@@ -1,8 +1,9 @@
 import axios, { AxiosResponse } from 'axios';
 import { io, Socket } from 'socket.io-client';
 import toast from 'react-hot-toast';
-import { User, Chat, Message, PendingUser, UserSettings, CallHistory } from '../types';
+import { User, Chat, Message, PendingUser, UserSettings, CallHistory, MessageHistoryOptions, MessagePagination, ConnectionStatus, SyncResult, PinnedMessage, ScheduledMessage, MessageRevision, TrashItem, Task, TaskEditScope, TaskChecklistItem, TaskDependencies, CalendarEvent, CalendarEventQuery, CalendarFeed, CalendarImportResult, TimeEntry, TaskTimeEntry, TimesheetEntry, TimeReport, TaskView, AuthSession, TwoFactorChallenge, TwoFactorStatus, TwoFactorEnrolment, SecurityPolicy, RoleCatalog, RoleInput, Role } from '../types';
 import { logger } from '../utils/logger';
+import { describeDevice } from '../utils/devices';
 
 // API Configuration - Get the current hostname for external access
 const getCurrentHost = () => {
@@ -32,6 +33,8 @@ const SOCKET_URL = SERVER_BASE_URL;
 const api = axios.create({
   baseURL: API_BASE_URL,
   timeout: 15000,
+  // Sends the refresh cookie, which is scoped to /api/auth
+  withCredentials: true,
   headers: {
     'Content-Type': 'application/json',
   },
@@ -40,6 +43,134 @@ const api = axios.create({
 // Socket.io instance
 let socket: Socket | null = null;
 
+// Chat rooms to rejoin after a reconnect
+const joinedChats = new Set<string>();
+
+const connectionListeners = new Set<(status: ConnectionStatus) => void>();
+
+const setConnectionStatus = (status: ConnectionStatus) => {
+  connectionListeners.forEach(listener => listener(status));
+};
+
+export const onConnectionStatusChange = (listener: (status: ConnectionStatus) => void): (() => void) => {
+  connectionListeners.add(listener);
+  return () => {
+    connectionListeners.delete(listener);
+  };
+};
+
+// Sequence numbers of recorded events as they arrive live, see /api/sync
+const syncSeqListeners = new Set<(seq: number) => void>();
+
+export const onSyncSeq = (listener: (seq: number) => void): (() => void) => {
+  syncSeqListeners.add(listener);
+  return () => {
+    syncSeqListeners.delete(listener);
+  };
+};
+
+const sessionEndedListeners = new Set<() => void>();
+
+// Called when this device is signed out without the user asking: the session was ended
+// elsewhere, or its refresh token was rejected
+export const onSessionEnded = (listener: () => void): (() => void) => {
+  sessionEndedListeners.add(listener);
+  return () => {
+    sessionEndedListeners.delete(listener);
+  };
+};
+
+// ==================== ACCESS TOKEN REFRESH ====================
+
+let refreshPromise: Promise<string | null> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+const AUTH_ENDPOINTS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout'];
+const isAuthEndpoint = (url?: string) => !!url && AUTH_ENDPOINTS.some(endpoint => url.includes(endpoint));
+// Login screens show these errors next to the form, so the interceptor doesn't toast them
+const INLINE_ERROR_ENDPOINTS = ['/auth/login', '/auth/2fa/verify', '/auth/verify-email', '/auth/forgot-password', '/auth/reset-password'];
+const showsInlineErrors = (url?: string) => !!url && INLINE_ERROR_ENDPOINTS.some(endpoint => url.includes(endpoint));
+
+const getTokenExpiry = (token: string): number | null => {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+const clearStoredSession = () => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+  localStorage.removeItem('token');
+  localStorage.removeItem('user');
+};
+
+const endSession = (message: string, notify: (message: string) => unknown = toast.error) => {
+  if (!getStoredToken()) return;
+  clearStoredSession();
+  disconnectSocket();
+  notify(message);
+  sessionEndedListeners.forEach(listener => listener());
+};
+
+// Renew a minute before the access token runs out, so neither requests nor the socket see it expire
+const scheduleTokenRefresh = (token: string) => {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  const expiresAt = getTokenExpiry(token);
+  if (!expiresAt) return;
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    refreshAccessToken()
+      .then(newToken => {
+        if (!newToken) endSession('Session expired. Please login again.');
+      })
+      .catch(() => {
+        // Offline; the next request or reconnect tries again
+      });
+  }, Math.max(expiresAt - Date.now() - 60 * 1000, 5 * 1000));
+};
+
+// The socket keeps its connection and just takes the new token; one from another session needs a new connection
+const reauthenticateSocket = (token: string) => {
+  if (!socket?.connected) return;
+  socket.emit('reauthenticate', { token }, (result?: { success: boolean }) => {
+    if (!result?.success) {
+      socket?.disconnect().connect();
+    }
+  });
+};
+
+/**
+ * Trade the refresh cookie for a new access token. Resolves to null when the server turns
+ * the cookie down and rejects when it can't be reached. Callers share one request, since
+ * every refresh replaces the cookie.
+ */
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = axios.post(`${API_BASE_URL}/auth/refresh`, null, { withCredentials: true, timeout: 15000 })
+      .then(response => {
+        const { token } = response.data;
+        localStorage.setItem('token', token);
+        scheduleTokenRefresh(token);
+        reauthenticateSocket(token);
+        return token as string;
+      })
+      .catch(error => {
+        if (!error.response) throw error;
+        logger.warn('Token refresh rejected', { status: error.response.status });
+        return null;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
 // Request interceptor to add auth token
 api.interceptors.request.use(
   (config) => {
@@ -58,7 +189,23 @@ api.interceptors.request.use(
 // Response interceptor for error handling
 api.interceptors.response.use(
   (response: AxiosResponse) => response,
-  (error) => {
+  async (error) => {
+    const config = error.config;
+    // An expired access token is renewed once, then the request is sent again
+    if (error.response?.status === 401 && config && !config._retried && !isAuthEndpoint(config.url) && getStoredToken()) {
+      config._retried = true;
+      try {
+        const token = await refreshAccessToken();
+        if (token) {
+          config.headers.Authorization = `Bearer ${token}`;
+          return api(config);
+        }
+      } catch {
+        // Offline; keep the session and report the original error
+        return Promise.reject(error);
+      }
+    }
+
     logger.error('API Error', { 
       url: error.config?.url, 
       method: error.config?.method,
@@ -66,13 +213,12 @@ api.interceptors.response.use(
       message: error.message 
     });
     
-    if (error.response?.status === 401) {
+    if (!error.response && error.config?.headers?.['Idempotency-Key']) {
+      // Outbox sends are retried automatically, so going offline isn't an error worth a toast
+    } else if (error.response?.status === 401) {
       // Only clear session if it's not the login endpoint
       if (!error.config?.url?.includes('/auth/login')) {
-        localStorage.removeItem('token');
-        localStorage.removeItem('user');
-        // Don't force redirect, let the app handle it naturally
-        toast.error('Session expired. Please login again.');
+        endSession('Session expired. Please login again.');
       }
     } else if (error.response?.status === 403) {
       toast.error('Access denied.');
@@ -80,7 +226,7 @@ api.interceptors.response.use(
       toast.error('Server error. Please try again later.');
     } else if (error.response?.data?.error) {
       // Don't show toast for login errors, let the component handle it
-      if (!error.config?.url?.includes('/auth/login')) {
+      if (!showsInlineErrors(error.config?.url)) {
         toast.error(error.response.data.error);
       }
     } else if (error.code === 'ECONNABORTED') {
@@ -145,51 +291,102 @@ export const connectSocket = (userId: string): Promise<Socket> => {
       }
 
       socket = io(API_BASE_URL.replace('/api', ''), {
-        auth: {
-          token: token
-        },
+        // Read the token on every (re)connect so a refreshed token is picked up
+        auth: (cb) => cb({ token: getStoredToken() }),
         transports: ['websocket', 'polling'],
         timeout: 10000,
-        forceNew: true,
+        reconnection: true,
+        reconnectionAttempts: Infinity,
+        reconnectionDelay: 1000,
+        reconnectionDelayMax: 10000,
         // Add additional security headers
         extraHeaders: {
           'Authorization': `Bearer ${token}`
         }
       });
 
+      // Recorded events carry { seq } after their payload
+      socket.onAny((_event: string, _payload: unknown, meta?: { seq?: number | null }) => {
+        if (typeof meta?.seq === 'number') {
+          const { seq } = meta;
+          syncSeqListeners.forEach(listener => listener(seq));
+        }
+      });
+
       socket.on('connect', () => {
         logger.socket('Socket connected successfully', { socketId: socket?.id });
         
         // Join user room for personal notifications - server will validate this
         if (socket) {
           socket.emit('join-user', userId);
+          // Rooms are per connection, so rejoin the chats we were in
+          joinedChats.forEach(chatId => socket?.emit('join-chat', chatId));
+          setConnectionStatus('connected');
           resolve(socket);
         }
       });
 
-      socket.on('connect_error', (error) => {
+      socket.io.on('reconnect_attempt', (attempt) => {
+        logger.socket('Socket reconnecting', { attempt });
+        setConnectionStatus('reconnecting');
+      });
+
+      socket.io.on('reconnect_failed', () => {
+        logger.socket('Socket reconnection failed');
+        setConnectionStatus('disconnected');
+      });
+
+      socket.on('connect_error', async (error) => {
         logger.error('Socket connection error', { error: error.message });
         // Handle authentication errors specifically
         if (error.message.includes('Authentication error')) {
-          localStorage.removeItem('token');
-          localStorage.removeItem('user');
-          toast.error('Authentication failed. Please login again.');
+          // Usually the access token expired while disconnected; socket.io won't retry a rejected handshake itself
+          try {
+            if (await refreshAccessToken()) {
+              socket?.connect();
+              return;
+            }
+            endSession('Authentication failed. Please login again.');
+          } catch {
+            setConnectionStatus('reconnecting');
+            setTimeout(() => socket?.connect(), 5000);
+          }
         }
         reject(error);
       });
 
       socket.on('disconnect', (reason) => {
         logger.socket('Socket disconnected', { reason });
+        if (reason === 'io client disconnect') {
+          setConnectionStatus('disconnected');
+          return;
+        }
+        // The server closed the connection, which socket.io doesn't retry on its own
+        if (reason === 'io server disconnect') {
+          socket?.connect();
+        }
+        setConnectionStatus('reconnecting');
       });
 
       socket.on('error', (error) => {
         console.error('Socket error:', error);
-        // Handle authentication errors
-        if (error.toString().includes('Authentication')) {
-          localStorage.removeItem('token');
-          localStorage.removeItem('user');
-          toast.error('Session expired. Please login again.');
-        }
+      });
+
+      // The server refused an event because the access token ran out before the timer renewed it
+      socket.on('auth:expired', () => {
+        refreshAccessToken().catch(() => {});
+      });
+
+      socket.on('session:revoked', () => {
+        endSession('This session was signed out.');
+      });
+
+      // Someone signed in to this account from a device or IP address it hasn't used recently
+      socket.on('security:new-login', (data: { ip: string; userAgent: string }) => {
+        toast(
+          `New sign-in from ${describeDevice(data.userAgent)} (${data.ip}). If this wasn't you, sign it out in Settings and change your password.`,
+          { icon: '🔐', duration: 15000 }
+        );
       });
 
       socket.on('receive-message', (message) => {
@@ -204,6 +401,14 @@ export const connectSocket = (userId: string): Promise<Socket> => {
         logger.socket('Message deleted via socket', { messageId: data.messageId, chatId: data.chatId });
       });
 
+      socket.on('thread:reply', (data) => {
+        logger.socket('Thread reply via socket', { threadId: data.threadId, chatId: data.chatId });
+      });
+
+      socket.on('mention', (data) => {
+        logger.socket('Mentioned via socket', { chatId: data.chatId, mentionType: data.mentionType });
+      });
+
     } catch (error) {
       console.error('Socket connection failed:', error);
       reject(error);
@@ -215,6 +420,7 @@ export const disconnectSocket = (): void => {
   if (socket) {
     socket.disconnect();
     socket = null;
+    joinedChats.clear();
     logger.socket('Socket disconnected');
   }
 };
@@ -222,6 +428,7 @@ export const disconnectSocket = (): void => {
 export const getSocket = (): Socket | null => socket;
 
 export const joinChat = (chatId: string): void => {
+  joinedChats.add(chatId);
   if (socket?.connected) {
     socket.emit('join-chat', chatId);
     logger.socket('Joined chat', { chatId });
@@ -229,6 +436,7 @@ export const joinChat = (chatId: string): void => {
 };
 
 export const leaveChat = (chatId: string): void => {
+  joinedChats.delete(chatId);
   if (socket?.connected) {
     socket.emit('leave-chat', chatId);
     logger.socket('Left chat', { chatId });
@@ -255,15 +463,14 @@ export const emitStopTyping = (chatId: string): void => {
 
 // ==================== AUTHENTICATION ====================
 
-export const login = async (email: string, password: string): Promise<{ user: User; token: string }> => {
-  const response = await api.post('/auth/login', { email, password });
-  const { user, token } = response.data;
-  
+// Keep a finished login's token and user, and connect the socket
+export const startSession = async (user: any, token: string): Promise<{ user: User; token: string }> => {
   // Process user data to fix avatar URL
   const processedUser = processUserData(user);
   
   localStorage.setItem('token', token);
   localStorage.setItem('user', JSON.stringify(processedUser));
+  scheduleTokenRefresh(token);
   
   // Connect socket after successful login
   try {
@@ -275,6 +482,26 @@ export const login = async (email: string, password: string): Promise<{ user: Us
   return { user: processedUser, token };
 };
 
+// Accounts with two-factor authentication get a challenge back instead of a session
+export const login = async (email: string, password: string): Promise<{ user: User; token: string } | { challenge: TwoFactorChallenge }> => {
+  const response = await api.post('/auth/login', { email, password });
+  const { user, token, twoFactorRequired, twoFactorSetupRequired, challengeToken } = response.data;
+  
+  if (twoFactorRequired || twoFactorSetupRequired) {
+    return { challenge: { type: twoFactorRequired ? 'verify' : 'setup', challengeToken } };
+  }
+  
+  return startSession(user, token);
+};
+
+export const verifyTwoFactorLogin = async (
+  challengeToken: string,
+  factor: { code?: string; recoveryCode?: string }
+): Promise<{ user: User; token: string }> => {
+  const response = await api.post('/auth/2fa/verify', { challengeToken, ...factor });
+  return startSession(response.data.user, response.data.token);
+};
+
 export const register = async (userData: {
   name: string;
   email: string;
@@ -295,6 +522,27 @@ export const register = async (userData: {
   }
 };
 
+// The server replies the same way whether or not the address has an account
+export const requestPasswordReset = async (email: string): Promise<string> => {
+  const response = await api.post('/auth/forgot-password', { email });
+  return response.data.message;
+};
+
+export const resetPassword = async (token: string, password: string): Promise<string> => {
+  const response = await api.post('/auth/reset-password', { token, password });
+  return response.data.message;
+};
+
+export const verifyEmail = async (token: string): Promise<string> => {
+  const response = await api.post('/auth/verify-email', { token });
+  return response.data.message;
+};
+
+export const resendVerificationEmail = async (email: string): Promise<string> => {
+  const response = await api.post('/auth/verify-email/resend', { email });
+  return response.data.message;
+};
+
 export const logout = async (): Promise<void> => {
   return withToast(
     async () => {
@@ -305,8 +553,7 @@ export const logout = async (): Promise<void> => {
         console.warn('Logout API call failed:', error);
       }
       
-      localStorage.removeItem('token');
-      localStorage.removeItem('user');
+      clearStoredSession();
       disconnectSocket();
     },
     'Logging out...',
@@ -315,6 +562,131 @@ export const logout = async (): Promise<void> => {
   );
 };
 
+export const getSessions = async (): Promise<AuthSession[]> => {
+  const response = await api.get('/auth/sessions');
+  return response.data.data;
+};
+
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  await api.delete(`/auth/sessions/${sessionId}`);
+};
+
+// Ends this session too, so the user is signed out here as well
+export const revokeAllSessions = async (): Promise<void> => {
+  await api.delete('/auth/sessions');
+  endSession('Signed out on all devices.', toast.success);
+};
+
+// ==================== TWO-FACTOR AUTHENTICATION ====================
+
+export const getTwoFactorStatus = async (): Promise<TwoFactorStatus> => {
+  const response = await api.get('/auth/2fa');
+  return response.data.data;
+};
+
+// Signed in, or mid-login with the challenge token when the security policy requires enrolling
+export const setupTwoFactor = async (challengeToken?: string): Promise<TwoFactorEnrolment> => {
+  const response = await api.post('/auth/2fa/setup', challengeToken ? { challengeToken } : {});
+  return response.data.data;
+};
+
+// Mid-login the response also carries the new session, to start once the recovery codes are saved
+export const enableTwoFactor = async (
+  code: string,
+  challengeToken?: string
+): Promise<{ recoveryCodes: string[]; session?: { user: User; token: string } }> => {
+  const response = await api.post('/auth/2fa/enable', { code, challengeToken });
+  if (challengeToken) {
+    const { recoveryCodes, user, token } = response.data;
+    return { recoveryCodes, session: { user, token } };
+  }
+  return response.data.data;
+};
+
+export const regenerateRecoveryCodes = async (code: string): Promise<string[]> => {
+  const response = await api.post('/auth/2fa/recovery-codes', { code });
+  return response.data.data.recoveryCodes;
+};
+
+export const disableTwoFactor = async (factor: { code?: string; recoveryCode?: string }): Promise<void> => {
+  await api.delete('/auth/2fa', { data: factor });
+};
+
+export const resetUserTwoFactor = async (userId: string): Promise<User> => {
+  return withToast(
+    async () => {
+      const response = await api.post(`/users/${userId}/2fa/reset`);
+      return response.data.data;
+    },
+    'Resetting two-factor authentication...',
+    'Two-factor authentication reset',
+    'Failed to reset two-factor authentication'
+  );
+};
+
+export const unlockUser = async (userId: string): Promise<User> => {
+  return withToast(
+    async () => {
+      const response = await api.post(`/users/${userId}/unlock`);
+      return response.data.data;
+    },
+    'Unlocking account...',
+    'Account unlocked',
+    'Failed to unlock account'
+  );
+};
+
+export const getSecurityPolicy = async (): Promise<SecurityPolicy> => {
+  const response = await api.get('/security/policy');
+  return response.data.data;
+};
+
+export const updateSecurityPolicy = async (policy: SecurityPolicy): Promise<SecurityPolicy> => {
+  const response = await api.put('/security/policy', policy);
+  return response.data.data;
+};
+
+// Every role and the permissions a role can have
+export const getRoles = async (): Promise<RoleCatalog> => {
+  const response = await api.get('/roles');
+  return response.data.data;
+};
+
+export const createRole = async (role: RoleInput): Promise<Role> => {
+  return withToast(
+    async () => {
+      const response = await api.post('/roles', role);
+      return response.data.data;
+    },
+    'Creating role...',
+    'Role created',
+    'Failed to create role'
+  );
+};
+
+export const updateRole = async (key: string, role: RoleInput): Promise<Role> => {
+  return withToast(
+    async () => {
+      const response = await api.put(`/roles/${key}`, role);
+      return response.data.data;
+    },
+    'Saving role...',
+    'Role saved',
+    'Failed to save role'
+  );
+};
+
+export const deleteRole = async (key: string): Promise<void> => {
+  return withToast(
+    async () => {
+      await api.delete(`/roles/${key}`);
+    },
+    'Deleting role...',
+    'Role deleted',
+    'Failed to delete role'
+  );
+};
+
 // Removed createAdmin function for security reasons
 // Admin accounts should be created through secure server initialization
 
@@ -365,7 +737,7 @@ export const updateUser = async (userId: string, updates: Partial<User>): Promis
   );
 };
 
-export const updateUserRole = async (userId: string, role: 'manager' | 'employee'): Promise<User> => {
+export const updateUserRole = async (userId: string, role: string): Promise<User> => {
   return withToast(
     async () => {
       const response = await api.patch(`/users/${userId}/role`, { role });
@@ -470,11 +842,51 @@ export const createGroupChat = async (name: string, participants: string[]): Pro
   });
 };
 
+// ==================== SCHEDULED MESSAGES ====================
+
+export const getScheduledMessages = async (): Promise<ScheduledMessage[]> => {
+  const response = await api.get('/scheduled-messages');
+  return response.data.data;
+};
+
+export const scheduleMessage = async (data: {
+  chatId: string;
+  content: string;
+  scheduledFor: Date;
+  type?: 'text' | 'announcement';
+  isUrgent?: boolean;
+  mentions?: string[];
+}): Promise<ScheduledMessage> => {
+  const response = await api.post('/scheduled-messages', data);
+  return response.data.data;
+};
+
+export const updateScheduledMessage = async (
+  id: string,
+  updates: Partial<Pick<ScheduledMessage, 'content' | 'scheduledFor' | 'isUrgent' | 'mentions'>>
+): Promise<ScheduledMessage> => {
+  const response = await api.put(`/scheduled-messages/${id}`, updates);
+  return response.data.data;
+};
+
+export const cancelScheduledMessage = async (id: string): Promise<ScheduledMessage> => {
+  const response = await api.delete(`/scheduled-messages/${id}`);
+  return response.data.data;
+};
+
+// ==================== SYNC ====================
+
+// Events missed since `since`; without it only the current sequence number is returned
+export const getSync = async (since?: number): Promise<SyncResult> => {
+  const response = await api.get('/sync', { params: since === undefined ? {} : { since } });
+  return response.data.data;
+};
+
 // ==================== MESSAGE MANAGEMENT ====================
 
-export const getMessages = async (chatId: string, page = 1, limit = 50): Promise<Message[]> => {
-  const response = await api.get(`/messages/${chatId}?page=${page}&limit=${limit}`);
-  return response.data;
+export const getMessages = async (chatId: string, options: MessageHistoryOptions = {}): Promise<{ messages: Message[]; pagination: MessagePagination }> => {
+  const response = await api.get(`/chats/${chatId}/messages`, { params: options });
+  return { messages: response.data.data, pagination: response.data.pagination };
 };
 
 export const sendMessage = async (messageData: {
@@ -483,9 +895,14 @@ export const sendMessage = async (messageData: {
   type?: 'text' | 'file' | 'announcement';
   isUrgent?: boolean;
   replyTo?: string;
-}): Promise<Message> => {
-  const response = await api.post('/messages', messageData);
-  return response.data;
+  mentions?: string[];
+}, clientMessageId?: string): Promise<Message> => {
+  const { chatId, ...body } = messageData;
+  // The idempotency key lets the outbox retry without creating duplicates
+  const response = await api.post(`/chats/${chatId}/messages`, body, {
+    headers: clientMessageId ? { 'Idempotency-Key': clientMessageId } : undefined
+  });
+  return response.data.data;
 };
 
 export const editMessage = async (chatId: string, messageId: string, content: string): Promise<Message> => {
@@ -498,6 +915,36 @@ export const deleteMessage = async (chatId: string, messageId: string): Promise<
   return response.data.data;
 };
 
+export const getMessageRevisions = async (chatId: string, messageId: string): Promise<{ messageId: string; revisions: MessageRevision[] }> => {
+  const response = await api.get(`/chats/${chatId}/messages/${messageId}/revisions`);
+  return response.data.data;
+};
+
+export const getPinnedMessages = async (chatId: string): Promise<PinnedMessage[]> => {
+  const response = await api.get(`/chats/${chatId}/pins`);
+  return response.data.data;
+};
+
+export const pinMessage = async (chatId: string, messageId: string): Promise<PinnedMessage> => {
+  const response = await api.post(`/chats/${chatId}/messages/${messageId}/pin`);
+  return response.data.data;
+};
+
+export const unpinMessage = async (chatId: string, messageId: string): Promise<{ chatId: string; messageId: string }> => {
+  const response = await api.delete(`/chats/${chatId}/messages/${messageId}/pin`);
+  return response.data.data;
+};
+
+export const getThread = async (chatId: string, messageId: string): Promise<{ root: Message; replies: Message[] }> => {
+  const response = await api.get(`/chats/${chatId}/messages/${messageId}/thread`);
+  return response.data.data;
+};
+
+export const sendThreadReply = async (chatId: string, threadId: string, content: string, mentions: string[] = []): Promise<Message> => {
+  const response = await api.post(`/chats/${chatId}/messages/${threadId}/thread`, { content, mentions });
+  return response.data.data;
+};
+
 export const markMessagesAsRead = async (chatId: string, messageIds: string[]): Promise<void> => {
   await api.post(`/chats/${chatId}/messages/read`, { messageIds });
 };
@@ -788,15 +1235,15 @@ export const initializeDataService = async (): Promise<void> => {
     const token = getStoredToken();
     
     if (user && token) {
-      // Verify token is still valid
+      scheduleTokenRefresh(token);
+      // Verify token is still valid; an expired one is refreshed on the way
       const isValid = await healthCheck();
       if (isValid) {
         await connectSocket(user.id);
         logger.info('DataService initialized successfully');
       } else {
         // Token is invalid, clear storage
-        localStorage.removeItem('token');
-        localStorage.removeItem('user');
+        clearStoredSession();
         logger.warn('Invalid token, cleared storage');
       }
     }
@@ -870,8 +1317,8 @@ export const getDirectChatsForOversight = async (): Promise<Chat[]> => {
   return response.data.data;
 };
 
-export const getMessagesForOversight = async (chatId: string, page = 1, limit = 50): Promise<Message[]> => {
-  const response = await api.get(`/chats/oversee/${chatId}/messages?page=${page}&limit=${limit}`);
+export const getMessagesForOversight = async (chatId: string, options: MessageHistoryOptions = {}): Promise<Message[]> => {
+  const response = await api.get(`/chats/oversee/${chatId}/messages`, { params: options });
   return response.data.data;
 };
 
@@ -896,13 +1343,14 @@ export const clearAuditLogs = async (): Promise<void> => {
 
 // ==================== TASK MANAGEMENT ====================
 
-export const getTasks = async (): Promise<any> => {
+// `params` narrows the list; see getTaskQueryParams for the filters and sort it takes
+export const getTasks = async (params?: Record<string, string>): Promise<any> => {
   const maxRetries = 3;
   let lastError: any;
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      const response = await api.get('/tasks');
+      const response = await api.get('/tasks', { params });
       return response.data;
     } catch (error) {
       lastError = error;
@@ -949,9 +1397,9 @@ export const updateTask = async (taskId: string, taskData: any): Promise<any> =>
   }
 };
 
-export const deleteTask = async (taskId: string): Promise<void> => {
+export const deleteTask = async (taskId: string, scope: TaskEditScope = 'occurrence'): Promise<void> => {
   try {
-    await api.delete(`/tasks/${taskId}`);
+    await api.delete(`/tasks/${taskId}`, { params: scope === 'series' ? { scope } : undefined });
   } catch (error) {
     console.error('Failed to delete task:', error);
     throw error;
@@ -968,18 +1416,142 @@ export const addTaskComment = async (taskId: string, content: string): Promise<a
   }
 };
 
-export const getCalendarEvents = async (start?: string, end?: string): Promise<any> => {
-  try {
-    const params = new URLSearchParams();
-    if (start) params.append('start', start);
-    if (end) params.append('end', end);
-    
-    const response = await api.get(`/tasks/calendar/events?${params.toString()}`);
-    return response.data;
-  } catch (error) {
-    console.error('Failed to fetch calendar events:', error);
-    throw error;
-  }
+export const getSubtasks = async (taskId: string): Promise<Task[]> => {
+  const response = await api.get(`/tasks/${taskId}/subtasks`);
+  return response.data.data;
+};
+
+export const createSubtask = async (taskId: string, subtask: { title: string; assignedTo?: string; dueDate?: string }): Promise<Task> => {
+  const response = await api.post(`/tasks/${taskId}/subtasks`, subtask);
+  return response.data.data;
+};
+
+export const reorderSubtasks = async (taskId: string, subtaskIds: string[]): Promise<Task> => {
+  const response = await api.put(`/tasks/${taskId}/subtasks/order`, { subtaskIds });
+  return response.data.data;
+};
+
+// Saves the whole checklist; progress is recalculated from it on the server
+export const updateTaskChecklist = async (taskId: string, checklist: Omit<TaskChecklistItem, 'id'>[]): Promise<Task> => {
+  const response = await api.put(`/tasks/${taskId}`, { checklist });
+  return response.data.data;
+};
+
+export const getTaskDependencies = async (taskId: string): Promise<TaskDependencies> => {
+  const response = await api.get(`/tasks/${taskId}/dependencies`);
+  return response.data.data;
+};
+
+// Replaces either list; the server keeps the other side of each link in step and rejects cycles
+export const updateTaskDependencies = async (taskId: string, dependencies: { blockedBy?: string[]; blocks?: string[] }): Promise<Task> => {
+  const response = await api.put(`/tasks/${taskId}`, dependencies);
+  return response.data.data;
+};
+
+export const getTaskTimeEntries = async (taskId: string): Promise<TaskTimeEntry[]> => {
+  const response = await api.get(`/tasks/${taskId}/time-entries`);
+  return response.data.data;
+};
+
+// `date` is the day the time was spent; defaults to now
+export const logTaskTime = async (taskId: string, entry: { minutes: number; date?: string; note?: string }): Promise<TaskTimeEntry> => {
+  const response = await api.post(`/tasks/${taskId}/time-entries`, entry);
+  return response.data.data;
+};
+
+export const updateTimeEntry = async (entryId: string, changes: { minutes?: number; date?: string; note?: string }): Promise<TaskTimeEntry> => {
+  const response = await api.put(`/time-entries/${entryId}`, changes);
+  return response.data.data;
+};
+
+export const deleteTimeEntry = async (entryId: string): Promise<void> => {
+  await api.delete(`/time-entries/${entryId}`);
+};
+
+// Starting a timer stops the one running on any other task, which comes back as `stopped`
+export const startTaskTimer = async (taskId: string): Promise<{ entry: TimeEntry; stopped: TimeEntry | null }> => {
+  const response = await api.post(`/tasks/${taskId}/timer`);
+  return response.data.data;
+};
+
+export const stopTaskTimer = async (): Promise<TimeEntry> => {
+  const response = await api.post('/time-entries/running/stop');
+  return response.data.data;
+};
+
+export const getRunningTimer = async (): Promise<TimesheetEntry | null> => {
+  const response = await api.get('/time-entries/running');
+  return response.data.data;
+};
+
+// Managers can read another user's timesheet with `userId`
+export const getTimesheet = async (query: { start: string; end: string; userId?: string }): Promise<TimesheetEntry[]> => {
+  const response = await api.get('/time-entries', { params: query });
+  return response.data.data;
+};
+
+export const getTimeReport = async (query: { start: string; end: string; teamId?: string }): Promise<TimeReport> => {
+  const response = await api.get('/time-entries/report', { params: query });
+  return response.data.data;
+};
+
+export const getTaskViews = async (): Promise<TaskView[]> => {
+  const response = await api.get('/task-views');
+  return response.data.data;
+};
+
+export const createTaskView = async (view: Pick<TaskView, 'name' | 'filters' | 'sort' | 'viewMode'>): Promise<TaskView> => {
+  const response = await api.post('/task-views', view);
+  return response.data.data;
+};
+
+export const updateTaskView = async (viewId: string, updates: Partial<Pick<TaskView, 'name' | 'filters' | 'sort' | 'viewMode'>>): Promise<TaskView> => {
+  const response = await api.put(`/task-views/${viewId}`, updates);
+  return response.data.data;
+};
+
+export const deleteTaskView = async (viewId: string): Promise<void> => {
+  await api.delete(`/task-views/${viewId}`);
+};
+
+// Events for a user's or a team's calendar; tasks by default, call history with `include: ['calls']`
+export const getCalendarEvents = async (query: CalendarEventQuery = {}): Promise<CalendarEvent[]> => {
+  const params = new URLSearchParams();
+  if (query.start) params.append('start', query.start);
+  if (query.end) params.append('end', query.end);
+  if (query.scope) params.append('scope', query.scope);
+  if (query.userId) params.append('userId', query.userId);
+  if (query.teamId) params.append('teamId', query.teamId);
+  if (query.userIds && query.userIds.length > 0) params.append('userIds', query.userIds.join(','));
+  if (query.include) params.append('include', query.include.join(','));
+
+  const response = await api.get(`/tasks/calendar/events?${params.toString()}`);
+  return response.data.data;
+};
+
+export const getCalendarFeed = async (): Promise<CalendarFeed> => {
+  const response = await api.get('/calendar/feed');
+  return response.data.data;
+};
+
+// Creating a feed link replaces the previous one, so apps subscribed to the old URL stop updating
+export const createCalendarFeed = async (): Promise<CalendarFeed> => {
+  const response = await api.post('/calendar/feed');
+  return { active: true, ...response.data.data };
+};
+
+export const revokeCalendarFeed = async (): Promise<void> => {
+  await api.delete('/calendar/feed');
+};
+
+export const exportTasksIcs = async (query: { start?: string; end?: string; component?: 'event' | 'todo' } = {}): Promise<Blob> => {
+  const response = await api.get('/calendar/export', { params: query, responseType: 'blob' });
+  return response.data;
+};
+
+export const importTasksIcs = async (ics: string, teamId?: string): Promise<CalendarImportResult> => {
+  const response = await api.post('/calendar/import', { ics, teamId });
+  return response.data.data;
 };
 
 // ==================== TEAM MANAGEMENT ====================
@@ -1182,6 +1754,20 @@ export const clearChatMessages = async (chatId: string): Promise<{ deletedCount:
   );
 };
 
+export const getTrash = async (): Promise<{ items: TrashItem[]; retentionDays: number }> => {
+  const response = await api.get('/trash');
+  return response.data.data;
+};
+
+export const restoreTrashItem = async (trashItemId: string): Promise<Chat> => {
+  const response = await api.post(`/trash/${trashItemId}/restore`);
+  return response.data.data;
+};
+
+export const purgeTrashItem = async (trashItemId: string): Promise<void> => {
+  await api.delete(`/trash/${trashItemId}`);
+};
+
 // Export functions for dataService
 export default {
   // Socket functions
@@ -1190,14 +1776,40 @@ export default {
   getSocket,
   joinChat,
   leaveChat,
+  onConnectionStatusChange,
+  onSyncSeq,
+  onSessionEnded,
+  refreshAccessToken,
   emitTyping,
   emitStartTyping,
   emitStopTyping,
 
   // Auth functions
   login,
+  startSession,
+  verifyTwoFactorLogin,
   register,
   logout,
+  getSessions,
+  revokeSession,
+  revokeAllSessions,
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+  resetUserTwoFactor,
+  unlockUser,
+  requestPasswordReset,
+  resetPassword,
+  verifyEmail,
+  resendVerificationEmail,
+  getSecurityPolicy,
+  updateSecurityPolicy,
+  getRoles,
+  createRole,
+  updateRole,
+  deleteRole,
   getCurrentUser,
   
   // User functions
@@ -1218,9 +1830,20 @@ export default {
   createDirectChat,
   createGroupChat,
   getMessages,
+  getSync,
   sendMessage,
   editMessage,
   deleteMessage,
+  getMessageRevisions,
+  getPinnedMessages,
+  pinMessage,
+  unpinMessage,
+  getScheduledMessages,
+  scheduleMessage,
+  updateScheduledMessage,
+  cancelScheduledMessage,
+  getThread,
+  sendThreadReply,
   markMessagesAsRead,
   getDirectChatsForOversight,
   getMessagesForOversight,
@@ -1255,7 +1878,31 @@ export default {
   updateTask,
   deleteTask,
   addTaskComment,
+  getSubtasks,
+  createSubtask,
+  reorderSubtasks,
+  updateTaskChecklist,
+  getTaskDependencies,
+  updateTaskDependencies,
+  getTaskTimeEntries,
+  logTaskTime,
+  updateTimeEntry,
+  deleteTimeEntry,
+  startTaskTimer,
+  stopTaskTimer,
+  getRunningTimer,
+  getTimesheet,
+  getTimeReport,
+  getTaskViews,
+  createTaskView,
+  updateTaskView,
+  deleteTaskView,
   getCalendarEvents,
+  getCalendarFeed,
+  createCalendarFeed,
+  revokeCalendarFeed,
+  exportTasksIcs,
+  importTasksIcs,
   
   // Team functions
   getTeams,
@@ -1277,6 +1924,9 @@ export default {
   // Chat management functions
   deleteChat,
   clearChatMessages,
+  getTrash,
+  restoreTrashItem,
+  purgeTrashItem,
   
   // Helper functions
   isUserOnline,
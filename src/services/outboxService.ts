@@ -0,0 +1,103 @@
+import { Message } from '../types';
+import { logger } from '../utils/logger';
+
+const DB_NAME = 'iib-chat-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'messages';
+
+export interface OutboxEntry {
+  clientMessageId: string;
+  chatId: string;
+  senderId: string;
+  senderName: string;
+  content: string;
+  type: 'text' | 'file' | 'announcement';
+  replyTo?: string;
+  mentions: string[];
+  createdAt: string;
+  attempts: number;
+  status: 'pending' | 'failed';
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'clientMessageId' });
+        store.createIndex('senderId', 'senderId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const generateClientMessageId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+export const saveOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+  try {
+    await runTransaction('readwrite', store => store.put(entry));
+  } catch (error) {
+    // The in-memory retry still works when IndexedDB is unavailable (e.g. private mode)
+    logger.warn('Failed to persist outbox entry', { error: (error as Error).message }, 'Outbox');
+  }
+};
+
+export const removeOutboxEntry = async (clientMessageId: string): Promise<void> => {
+  try {
+    await runTransaction('readwrite', store => store.delete(clientMessageId));
+  } catch (error) {
+    logger.warn('Failed to remove outbox entry', { error: (error as Error).message }, 'Outbox');
+  }
+};
+
+export const getOutboxEntries = async (senderId: string): Promise<OutboxEntry[]> => {
+  try {
+    const entries = await runTransaction<OutboxEntry[]>('readonly', store => store.index('senderId').getAll(senderId));
+    return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    logger.warn('Failed to read outbox', { error: (error as Error).message }, 'Outbox');
+    return [];
+  }
+};
+
+// The optimistic message shown in the timeline until the server confirms it
+export const toPendingMessage = (entry: OutboxEntry): Message => ({
+  id: entry.clientMessageId,
+  clientMessageId: entry.clientMessageId,
+  chatId: entry.chatId,
+  senderId: entry.senderId,
+  senderName: entry.senderName,
+  content: entry.content,
+  type: entry.type,
+  timestamp: new Date(entry.createdAt),
+  replyTo: entry.replyTo,
+  mentions: entry.mentions,
+  reactions: [],
+  readBy: [],
+  sendStatus: entry.status
+});
@@ -3,16 +3,101 @@ export interface User {
   name: string;
   email: string;
   password?: string; // For admin account
-  role: 'manager' | 'employee';
+  role: string; // Key of a Role
   avatar?: string;
   status: 'online' | 'offline' | 'away' | 'busy';
   lastSeen: Date;
   isApproved?: boolean;
   registeredAt?: Date;
+  twoFactor?: {
+    enabled: boolean;
+    enabledAt?: string | null;
+  };
+  // The account is locked after failed sign-in attempts while lockedUntil is in the future
+  loginSecurity?: {
+    lockedUntil: string | null;
+  };
 }
 
 export type UserStatus = 'online' | 'offline' | 'away' | 'busy';
 
+// Returned by the password step of login when a second factor is needed.
+// 'verify': enter a code; 'setup': the security policy requires enrolling first.
+export interface TwoFactorChallenge {
+  type: 'verify' | 'setup';
+  challengeToken: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  // The security policy requires it for this user's role
+  required: boolean;
+}
+
+export interface TwoFactorEnrolment {
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL
+  qrCode: string;
+}
+
+export interface SecurityPolicy {
+  requireManagerTwoFactor: boolean;
+}
+
+// Mirrors the permission list on the server (services/permissionService.js)
+export type Permission =
+  | 'users.approve'
+  | 'users.manage'
+  | 'roles.manage'
+  | 'chats.oversee'
+  | 'chats.delete'
+  | 'chats.moderate'
+  | 'trash.manage'
+  | 'broadcast.send'
+  | 'teams.manage'
+  | 'tasks.manage'
+  | 'time.manage'
+  | 'stats.view'
+  | 'audit.view'
+  | 'security.manage';
+
+export interface PermissionInfo {
+  key: Permission;
+  label: string;
+  description: string;
+}
+
+export interface Role {
+  key: string;
+  name: string;
+  description: string;
+  permissions: Permission[];
+  // Built-in roles can't be deleted, and the manager role always has every permission
+  isSystem: boolean;
+  userCount: number;
+}
+
+export type RoleInput = Pick<Role, 'name' | 'description' | 'permissions'>;
+
+export interface RoleCatalog {
+  roles: Role[];
+  permissions: PermissionInfo[];
+}
+
+// A device the user is signed in on
+export interface AuthSession {
+  id: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
 export interface PendingUser {
   id: string;
   name: string;
@@ -21,6 +106,8 @@ export interface PendingUser {
   role: 'employee';
   requestedAt: Date;
   status: 'pending' | 'approved' | 'rejected';
+  // Missing on requests made before addresses were confirmed by email
+  emailVerifiedAt?: string | null;
 }
 
 export interface Message {
@@ -30,7 +117,7 @@ export interface Message {
   senderName: string;
   content: string;
   timestamp: Date;
-  type: 'text' | 'file' | 'announcement';
+  type: 'text' | 'file' | 'announcement' | 'task';
   fileUrl?: string;
   fileName?: string;
   fileType?: string;
@@ -41,12 +128,118 @@ export interface Message {
   replyTo?: string;
   replyToContent?: string;
   replyToSender?: string;
+  threadId?: string;
+  threadReplyCount?: number;
+  threadLastReplyAt?: Date;
+  threadParticipants?: string[];
+  mentions?: string[];
+  broadcastMention?: BroadcastMention | null;
+  // Set on task messages, the card for a task created from this chat
+  taskCard?: TaskCard | null;
+  // Set on optimistic messages from the outbox until the server confirms them
+  clientMessageId?: string;
+  sendStatus?: 'pending' | 'failed';
   readBy: {
     userId: string;
     readAt: Date;
   }[];
 }
 
+export interface TaskCard {
+  taskId: string;
+  title: string;
+  status: Task['status'];
+  priority: Task['priority'];
+  dueDate: string;
+  assigneeName: string | null;
+  isDeleted: boolean;
+}
+
+export interface ThreadReplyEvent {
+  chatId: string;
+  threadId: string;
+  message: Message;
+  threadReplyCount: number;
+  threadLastReplyAt: Date;
+  threadParticipants: string[];
+}
+
+// Deleting a thread reply also carries the thread's updated summary
+export interface MessageDeletedEvent {
+  chatId: string;
+  messageId: string;
+  threadId?: string;
+  threadReplyCount?: number;
+  threadLastReplyAt?: Date;
+  threadParticipants?: string[];
+}
+
+export type BroadcastMention = 'channel' | 'here';
+
+export interface MessageRevision {
+  version: number;
+  content: string;
+  createdAt: Date;
+}
+
+export interface ScheduledMessage {
+  id: string;
+  chatId: string;
+  senderId: string;
+  content: string;
+  type: 'text' | 'announcement';
+  isUrgent: boolean;
+  mentions: string[];
+  scheduledFor: Date;
+  status: 'pending' | 'sending' | 'sent' | 'cancelled' | 'failed';
+  sentMessageId?: string | null;
+  failureReason?: string | null;
+}
+
+export interface PinnedMessage {
+  messageId: string;
+  pinnedBy: string;
+  pinnedAt: Date;
+  message: Message;
+}
+
+export interface MessageHistoryOptions {
+  before?: string;
+  after?: string;
+  around?: string;
+  limit?: number;
+}
+
+export type ConnectionStatus = 'connected' | 'reconnecting' | 'disconnected';
+
+// A socket event recorded by the server, replayed after a reconnect
+export interface SyncEvent {
+  seq: number;
+  event: string;
+  payload: any;
+}
+
+export interface SyncResult {
+  latestSeq: number;
+  events: SyncEvent[];
+  resetRequired: boolean;
+}
+
+export interface MessagePagination {
+  limit: number;
+  hasMoreBefore: boolean;
+  hasMoreAfter: boolean;
+  beforeCursor: string | null;
+  afterCursor: string | null;
+}
+
+export interface MentionEvent {
+  chatId: string;
+  chatName: string;
+  mentionType: 'user' | BroadcastMention;
+  message: Message;
+}
+
 export interface LinkPreviewData {
   ogTitle?: string;
   ogDescription?: string;
@@ -78,10 +271,25 @@ export interface Chat {
   };
   unreadCount: number;
   isArchived: boolean;
+  createdBy?: string;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+// A deleted chat or the messages of a cleared chat, restorable until it expires
+export interface TrashItem {
+  id: string;
+  type: 'chat' | 'messages';
+  chatId: string;
+  chatName: string;
+  chatType?: Chat['type'];
+  messageCount: number;
+  deletedBy: string;
+  deletedByName: string;
+  deletedAt: Date;
+  expiresAt: Date;
+}
+
 export interface NotificationSettings {
   enabled: boolean;
   granted: boolean;
@@ -104,11 +312,14 @@ export type AppScreen =
   | 'profile'
   | 'admin-dashboard'
   | 'audit-log'
+  | 'trash'
   | 'search-results'
   | 'start-chat'
   | 'tasks'
+  | 'timesheet'
   | 'teams'
-  | 'calendar';
+  | 'calendar'
+  | 'roles';
 
 export interface AppState {
   loading: boolean;
@@ -118,6 +329,13 @@ export interface AppState {
   chats: Chat[];
   messages: { [chatId: string]: Message[] };
   activeChat: string | null;
+  activeThread: Message | null;
+  threadMessages: { [threadId: string]: Message[] };
+  messagePagination: { [chatId: string]: MessagePagination };
+  highlightedMessageId: string | null;
+  pinnedMessages: { [chatId: string]: PinnedMessage[] };
+  scheduledMessages: ScheduledMessage[];
+  connectionStatus: ConnectionStatus;
   currentScreen: AppScreen;
   darkMode: boolean;
   notifications: NotificationSettings;
@@ -133,6 +351,10 @@ export interface AppState {
   teams: Team[];
   activeTask: Task | null;
   calendarEvents: CalendarEvent[];
+  taskViews: TaskView[];
+  taskQuery: TaskQueryState;
+  roles: Role[];
+  permissionCatalog: PermissionInfo[];
 }
 
 export interface FileUpload {
@@ -180,12 +402,134 @@ export interface Task {
   progress: number;
   isRecurring: boolean;
   recurringPattern?: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  recurrence?: TaskRecurrence;
+  // Occurrences of a recurring task share the first occurrence's id
+  seriesId?: string;
+  occurrenceIndex?: number;
+  nextOccurrenceId?: string | null;
+  isLastOccurrence?: boolean;
   parentTaskId?: string;
+  // Subtask ids, in display order
   subtasks: string[];
+  checklist?: TaskChecklistItem[];
+  // Ids of tasks that must be finished before this one starts, and of the tasks waiting on it
+  blockedBy?: string[];
+  blocks?: string[];
+  estimatedHours?: number | null;
+  // Sum of the task's finished time entries
+  loggedHours?: number;
+  // The chat message the task was created from
+  sourceMessage?: { chatId: string; messageId: string };
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface TaskRecurrence {
+  frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval: number;
+  // 0 = Sunday; the days a weekly rule falls on, or the only days a daily rule uses
+  weekdays?: number[];
+  // Monthly on the nth weekday (-1 = last) instead of the same day of the month
+  monthWeek?: 1 | 2 | 3 | 4 | -1;
+  startsOn?: string;
+  // Occurrence the rule counts from; set when the rule is edited mid-series
+  startIndex?: number;
+  until?: string;
+  count?: number;
+}
+
+export interface TaskChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+export interface TaskDependencies {
+  blockedBy: Task[];
+  blocks: Task[];
+}
+
+// Whether an edit to a recurring task touches one occurrence or every open one in the series
+export type TaskEditScope = 'occurrence' | 'series';
+
+// Time spent on a task; a running timer has `isRunning` set and no minutes yet
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  userId: string;
+  startedAt: string;
+  endedAt: string | null;
+  minutes: number;
+  note: string;
+  source: 'timer' | 'manual';
+  isRunning: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A task's entries come with who logged them
+export interface TaskTimeEntry extends Omit<TimeEntry, 'userId'> {
+  userId: Pick<User, 'id' | 'name' | 'email' | 'avatar'>;
+}
+
+// Timesheet entries come with their task (null if it was deleted)
+export interface TimesheetEntry extends Omit<TimeEntry, 'taskId'> {
+  taskId: Pick<Task, 'id' | 'title' | 'status' | 'priority' | 'teamId' | 'tags' | 'estimatedHours' | 'loggedHours'> | null;
+}
+
+export interface TimeReportRow {
+  id: string | null;
+  name: string;
+  hours: number;
+  entries: number;
+}
+
+export interface TimeReport {
+  start: string;
+  end: string;
+  totalHours: number;
+  entries: number;
+  byTeam: TimeReportRow[];
+  byUser: TimeReportRow[];
+  byTag: TimeReportRow[];
+}
+
+export type TaskDueFilter = '' | 'overdue' | 'today' | 'this-week' | 'next-7-days';
+
+// A leading '-' sorts descending
+export type TaskSort = 'dueDate' | '-dueDate' | '-priority' | '-createdAt' | '-updatedAt' | 'title';
+
+export type TaskViewMode = 'dashboard' | 'list' | 'board' | 'timeline' | 'calendar';
+
+export interface TaskFilters {
+  status: Task['status'][];
+  priority: Task['priority'][];
+  // User ids, or 'me' for the current user
+  assignedTo: string[];
+  teamId: string[];
+  tags: string[];
+  q: string;
+  due: TaskDueFilter;
+}
+
+// What the task page is showing; `viewId` is the saved view it came from, if any
+export interface TaskQueryState {
+  filters: TaskFilters;
+  sort: TaskSort;
+  viewMode: TaskViewMode;
+  viewId: string | null;
+}
+
+export interface TaskView {
+  id: string;
+  name: string;
+  filters: TaskFilters;
+  sort: TaskSort;
+  viewMode: TaskViewMode;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface TaskAttachment {
   filename: string;
   originalName: string;
@@ -227,10 +571,40 @@ export interface CalendarEvent {
   backgroundColor: string;
   borderColor: string;
   extendedProps: {
+    type: 'task' | 'call';
     status: string;
-    priority: string;
+    priority?: string;
     description?: string;
+    assignedTo?: { id: string; name: string } | null;
+    team?: { id: string; name: string; color: string } | null;
+    callType?: 'audio' | 'video';
+    participantNames?: string[];
+    duration?: number;
   };
+  // Only set on events built from loaded tasks
+  resource?: Task;
+}
+
+export interface CalendarEventQuery {
+  start?: string;
+  end?: string;
+  scope?: 'user' | 'team';
+  userId?: string;
+  teamId?: string;
+  userIds?: string[];
+  include?: ('tasks' | 'calls')[];
+}
+
+// `url` is only returned when a feed link is created; the server keeps just a hash of its token
+export interface CalendarFeed {
+  active: boolean;
+  createdAt?: string | null;
+  url?: string;
+}
+
+export interface CalendarImportResult {
+  created: number;
+  skipped: { title: string; reason: string }[];
 }
 
 export interface CallHistory {
@@ -0,0 +1,126 @@
+export type HighlightTokenType = 'keyword' | 'string' | 'comment' | 'number' | 'plain';
+
+export interface HighlightToken {
+  type: HighlightTokenType;
+  text: string;
+}
+
+interface LanguageDefinition {
+  keywords: string[];
+  // Regex sources, tried before strings so quotes inside comments are ignored
+  comments: string[];
+}
+
+const C_LIKE_COMMENTS = ['\\/\\/[^\\n]*', '\\/\\*[\\s\\S]*?\\*\\/'];
+const HASH_COMMENTS = ['#[^\\n]*'];
+
+const JAVASCRIPT: LanguageDefinition = {
+  keywords: [
+    'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else',
+    'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof',
+    'interface', 'let', 'new', 'null', 'of', 'return', 'switch', 'this', 'throw', 'true', 'try', 'type',
+    'typeof', 'undefined', 'var', 'void', 'while', 'yield'
+  ],
+  comments: C_LIKE_COMMENTS,
+};
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+  javascript: JAVASCRIPT,
+  typescript: JAVASCRIPT,
+  python: {
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+      'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None', 'not', 'or',
+      'pass', 'raise', 'return', 'True', 'try', 'while', 'with', 'yield'
+    ],
+    comments: HASH_COMMENTS,
+  },
+  java: {
+    keywords: [
+      'abstract', 'boolean', 'break', 'case', 'catch', 'char', 'class', 'const', 'continue', 'default', 'do',
+      'double', 'else', 'enum', 'extends', 'false', 'final', 'finally', 'float', 'for', 'if', 'implements',
+      'import', 'int', 'interface', 'long', 'new', 'null', 'package', 'private', 'protected', 'public', 'return',
+      'static', 'struct', 'switch', 'this', 'throw', 'throws', 'true', 'try', 'using', 'var', 'void', 'while'
+    ],
+    comments: C_LIKE_COMMENTS,
+  },
+  go: {
+    keywords: [
+      'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'false', 'for', 'func', 'go',
+      'if', 'import', 'interface', 'map', 'nil', 'package', 'range', 'return', 'select', 'struct', 'switch',
+      'true', 'type', 'var'
+    ],
+    comments: C_LIKE_COMMENTS,
+  },
+  sql: {
+    keywords: [
+      'and', 'as', 'by', 'create', 'delete', 'desc', 'from', 'group', 'having', 'insert', 'into', 'join', 'left',
+      'limit', 'not', 'null', 'on', 'or', 'order', 'select', 'set', 'table', 'update', 'values', 'where'
+    ],
+    comments: ['--[^\\n]*'],
+  },
+  bash: {
+    keywords: ['case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'exit', 'export', 'fi', 'for', 'function', 'if', 'in', 'then', 'while'],
+    comments: HASH_COMMENTS,
+  },
+  json: {
+    keywords: ['true', 'false', 'null'],
+    comments: [],
+  },
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  c: 'java',
+  cpp: 'java',
+  'c++': 'java',
+  cs: 'java',
+  csharp: 'java',
+  kotlin: 'java',
+  golang: 'go',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+};
+
+const STRING_PATTERN = '"(?:[^"\\\\\\n]|\\\\.)*"|\'(?:[^\'\\\\\\n]|\\\\.)*\'|`(?:[^`\\\\]|\\\\.)*`';
+const NUMBER_PATTERN = '\\b\\d+(?:\\.\\d+)?\\b';
+const WORD_PATTERN = '[A-Za-z_$][\\w$]*';
+
+/**
+ * Split code into tokens for a lightweight, regex-based highlight.
+ * Unknown languages come back as a single plain token.
+ */
+export const highlightCode = (code: string, language: string): HighlightToken[] => {
+  const definition = LANGUAGES[LANGUAGE_ALIASES[language] || language];
+  if (!definition) return [{ type: 'plain', text: code }];
+
+  const keywords = new Set(language === 'sql' ? definition.keywords.map(k => k.toLowerCase()) : definition.keywords);
+  const comment = definition.comments.length > 0 ? definition.comments.join('|') : '(?!)';
+  const regex = new RegExp(`(${comment})|(${STRING_PATTERN})|(${NUMBER_PATTERN})|(${WORD_PATTERN})`, 'g');
+
+  const tokens: HighlightToken[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(code)) !== null) {
+    if (match.index > lastIndex) {
+      tokens.push({ type: 'plain', text: code.slice(lastIndex, match.index) });
+    }
+    const [text, isComment, isString, isNumber] = match;
+    let type: HighlightTokenType = 'plain';
+    if (isComment) type = 'comment';
+    else if (isString) type = 'string';
+    else if (isNumber) type = 'number';
+    else if (keywords.has(language === 'sql' ? text.toLowerCase() : text)) type = 'keyword';
+    tokens.push({ type, text });
+    lastIndex = match.index + text.length;
+  }
+  if (lastIndex < code.length) {
+    tokens.push({ type: 'plain', text: code.slice(lastIndex) });
+  }
+  return tokens;
+};
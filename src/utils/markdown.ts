@@ -0,0 +1,329 @@
+/**
+ * The Markdown subset supported in messages: **bold**, *italic*, ~~strikethrough~~, `inline code`,
+ * fenced code blocks, bullet and numbered lists, > block quotes and auto-linked URLs.
+ * Parsing produces a tree that is rendered as React elements, so message content never reaches the DOM as HTML.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'strike'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; text: string };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'codeBlock'; language: string; code: string }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] }
+  | { type: 'quote'; children: BlockNode[] };
+
+export type MarkdownFormat =
+  | 'bold'
+  | 'italic'
+  | 'strike'
+  | 'code'
+  | 'codeBlock'
+  | 'bulletList'
+  | 'numberedList'
+  | 'quote';
+
+export interface FormatResult {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const FENCE_REGEX = /^\s*```\s*([\w+#.-]*)\s*$/;
+const QUOTE_REGEX = /^\s*>\s?(.*)$/;
+const BULLET_REGEX = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED_REGEX = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+// Quotes inside quotes are allowed, but not without limit
+const MAX_QUOTE_DEPTH = 3;
+
+type InlineRule = {
+  type: 'code' | 'link' | 'strong' | 'strike' | 'em';
+  regex: RegExp;
+  // Characters matched before the node itself (a boundary the pattern had to check)
+  prefixGroup?: number;
+  contentGroup: number;
+};
+
+// Tried at every position; the earliest match wins, and on a tie the rule listed first
+const INLINE_RULES: InlineRule[] = [
+  { type: 'code', regex: /`([^`\n]+)`/, contentGroup: 1 },
+  { type: 'link', regex: /(?:https?:\/\/|www\.)[^\s<>]+/i, contentGroup: 0 },
+  { type: 'strong', regex: /\*\*(?=\S)([\s\S]*?\S)\*\*/, contentGroup: 1 },
+  { type: 'strike', regex: /~~(?=\S)([\s\S]*?\S)~~/, contentGroup: 1 },
+  { type: 'em', regex: /\*(?=[^\s*])([^*\n]*?[^\s*])\*/, contentGroup: 1 },
+  // Underscores only count at word boundaries, so snake_case stays as typed
+  { type: 'em', regex: /(^|[^\w])_(?=[^\s_])([^_\n]*?[^\s_])_(?!\w)/, prefixGroup: 1, contentGroup: 2 },
+];
+
+// Punctuation that usually ends a sentence rather than the URL it follows
+const TRAILING_URL_PUNCTUATION = /[.,:;!?'")\]]+$/;
+// Only http(s) links are rendered; anything else stays plain text
+const VALID_URL = /^(?:https?:\/\/|www\.)[^\s<>.][^\s<>]*$/i;
+
+const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let rest = text;
+
+  while (rest.length > 0) {
+    let best: { rule: InlineRule; match: RegExpExecArray; start: number } | null = null;
+    for (const rule of INLINE_RULES) {
+      const match = rule.regex.exec(rest);
+      if (!match) continue;
+      const start = match.index + (rule.prefixGroup ? match[rule.prefixGroup].length : 0);
+      if (!best || start < best.start) {
+        best = { rule, match, start };
+      }
+    }
+
+    if (!best) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+
+    const { rule, match, start } = best;
+    let raw = match[0].slice(start - match.index);
+    if (start > 0) {
+      nodes.push({ type: 'text', text: rest.slice(0, start) });
+    }
+
+    if (rule.type === 'link') {
+      const url = raw.replace(TRAILING_URL_PUNCTUATION, '');
+      if (VALID_URL.test(url)) {
+        raw = url;
+        nodes.push({ type: 'link', href: /^www\./i.test(url) ? `https://${url}` : url, text: url });
+      } else {
+        nodes.push({ type: 'text', text: raw });
+      }
+    } else if (rule.type === 'code') {
+      nodes.push({ type: 'code', text: match[rule.contentGroup] });
+    } else {
+      nodes.push({ type: rule.type, children: parseInline(match[rule.contentGroup]) });
+    }
+
+    rest = rest.slice(start + raw.length);
+  }
+
+  return nodes;
+};
+
+const parseBlocks = (lines: string[], depth: number): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+      paragraph = [];
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const fence = FENCE_REGEX.exec(line);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE_REGEX.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence (an unclosed block runs to the end of the message)
+      blocks.push({ type: 'codeBlock', language: fence[1].toLowerCase(), code: code.join('\n') });
+      continue;
+    }
+
+    if (depth < MAX_QUOTE_DEPTH && QUOTE_REGEX.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_REGEX.test(lines[i])) {
+        quoted.push(QUOTE_REGEX.exec(lines[i])![1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+
+    const bullet = BULLET_REGEX.exec(line);
+    const numbered = bullet ? null : NUMBERED_REGEX.exec(line);
+    if (bullet || numbered) {
+      flushParagraph();
+      const ordered = Boolean(numbered);
+      const itemRegex = ordered ? NUMBERED_REGEX : BULLET_REGEX;
+      const items: InlineNode[][] = [];
+      let match: RegExpExecArray | null;
+      while (i < lines.length && (match = itemRegex.exec(lines[i]))) {
+        items.push(parseInline(ordered ? match[2] : match[1]));
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, start: numbered ? parseInt(numbered[1], 10) : 1, items });
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+    i++;
+  }
+
+  flushParagraph();
+  return blocks;
+};
+
+export const parseMarkdown = (content: string): BlockNode[] => {
+  return parseBlocks(content.replace(/\r\n?/g, '\n').split('\n'), 0);
+};
+
+const inlineToText = (nodes: InlineNode[]): string => nodes.map(node => {
+  if (node.type === 'text' || node.type === 'code' || node.type === 'link') return node.text;
+  return inlineToText(node.children);
+}).join('');
+
+/**
+ * Message content without Markdown syntax, for one-line previews (reply quotes, pinned bar, chat list).
+ */
+export const stripMarkdown = (content: string): string => {
+  const blockToText = (block: BlockNode): string => {
+    switch (block.type) {
+      case 'paragraph':
+        return inlineToText(block.children);
+      case 'codeBlock':
+        return block.code;
+      case 'list':
+        return block.items.map(inlineToText).join(' ');
+      case 'quote':
+        return block.children.map(blockToText).join(' ');
+    }
+  };
+  return parseMarkdown(content).map(blockToText).join(' ').replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * What the server's `sanitizeInput` middleware (server/middleware/security.js) will store for this text.
+ * The preview uses it so what you see is what gets sent.
+ */
+export const applyServerSanitization = (text: string): string => {
+  return text
+    .replace(/<script[^>]*>.*?<\/script>/gi, '')
+    .replace(/<[^>]*>/g, '')
+    .replace(/javascript:/gi, '')
+    .replace(/on\w+\s*=/gi, '')
+    .trim();
+};
+
+const INLINE_MARKERS: Partial<Record<MarkdownFormat, string>> = {
+  bold: '**',
+  italic: '*',
+  strike: '~~',
+  code: '`',
+};
+
+const LINE_PREFIXES: Partial<Record<MarkdownFormat, (index: number) => string>> = {
+  bulletList: () => '- ',
+  numberedList: (index) => `${index + 1}. `,
+  quote: () => '> ',
+};
+
+const LINE_PREFIX_PATTERNS: Partial<Record<MarkdownFormat, RegExp>> = {
+  bulletList: /^[-*+] /,
+  numberedList: /^\d{1,9}[.)] /,
+  quote: /^> ?/,
+};
+
+/**
+ * Apply a formatting command to the composer text at the current selection.
+ * Inline formats wrap the selection (or unwrap it if already wrapped); line formats toggle a prefix on every selected line.
+ */
+export const applyFormat = (text: string, selectionStart: number, selectionEnd: number, format: MarkdownFormat): FormatResult => {
+  const selected = text.slice(selectionStart, selectionEnd);
+
+  const marker = INLINE_MARKERS[format];
+  if (marker) {
+    const before = text.slice(0, selectionStart);
+    const after = text.slice(selectionEnd);
+    if (before.endsWith(marker) && after.startsWith(marker)) {
+      return {
+        text: before.slice(0, -marker.length) + selected + after.slice(marker.length),
+        selectionStart: selectionStart - marker.length,
+        selectionEnd: selectionEnd - marker.length,
+      };
+    }
+    return {
+      text: before + marker + selected + marker + after,
+      selectionStart: selectionStart + marker.length,
+      selectionEnd: selectionEnd + marker.length,
+    };
+  }
+
+  if (format === 'codeBlock') {
+    const before = text.slice(0, selectionStart);
+    const after = text.slice(selectionEnd);
+    const open = `${before && !before.endsWith('\n') ? '\n' : ''}\`\`\`\n`;
+    const close = `\n\`\`\`${after && !after.startsWith('\n') ? '\n' : ''}`;
+    return {
+      text: before + open + selected + close + after,
+      selectionStart: before.length + open.length,
+      selectionEnd: before.length + open.length + selected.length,
+    };
+  }
+
+  // Line formats work on whole lines, from the start of the first selected line to the end of the last
+  const lineStart = text.lastIndexOf('\n', selectionStart - 1) + 1;
+  const nextBreak = text.indexOf('\n', selectionEnd);
+  const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+  const lines = text.slice(lineStart, lineEnd).split('\n');
+  const pattern = LINE_PREFIX_PATTERNS[format]!;
+  const prefix = LINE_PREFIXES[format]!;
+
+  const isApplied = lines.every(line => pattern.test(line));
+  const updated = lines
+    .map((line, index) => isApplied ? line.replace(pattern, '') : prefix(index) + line)
+    .join('\n');
+
+  return {
+    text: text.slice(0, lineStart) + updated + text.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + updated.length,
+  };
+};
+
+export interface ShortcutEvent {
+  key: string;
+  code: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+}
+
+// Ctrl (or Cmd) with: B, I, E; with Shift: X, C, 8, 7, 9
+const SHORTCUTS: { code: string; shift: boolean; format: MarkdownFormat }[] = [
+  { code: 'KeyB', shift: false, format: 'bold' },
+  { code: 'KeyI', shift: false, format: 'italic' },
+  { code: 'KeyE', shift: false, format: 'code' },
+  { code: 'KeyX', shift: true, format: 'strike' },
+  { code: 'KeyC', shift: true, format: 'codeBlock' },
+  { code: 'Digit8', shift: true, format: 'bulletList' },
+  { code: 'Digit7', shift: true, format: 'numberedList' },
+  { code: 'Digit9', shift: true, format: 'quote' },
+];
+
+export const getFormatShortcut = (event: ShortcutEvent): MarkdownFormat | null => {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+  const shortcut = SHORTCUTS.find(s => s.code === event.code && s.shift === event.shiftKey);
+  return shortcut ? shortcut.format : null;
+};
+
+export const getShortcutLabel = (format: MarkdownFormat): string | null => {
+  const shortcut = SHORTCUTS.find(s => s.format === format);
+  if (!shortcut) return null;
+  const key = shortcut.code.replace(/^(Key|Digit)/, '');
+  return `Ctrl+${shortcut.shift ? 'Shift+' : ''}${key}`;
+};
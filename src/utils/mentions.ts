@@ -0,0 +1,89 @@
+import { BroadcastMention, User } from '../types';
+
+export const BROADCAST_MENTIONS: BroadcastMention[] = ['channel', 'here'];
+
+export interface MentionQuery {
+  query: string;
+  start: number;
+}
+
+export type MentionSuggestion =
+  | { type: 'user'; user: User }
+  | { type: 'broadcast'; name: BroadcastMention };
+
+export interface MentionSegment {
+  text: string;
+  isMention: boolean;
+  isSelf?: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Find the `@query` being typed right before the caret, if any.
+ */
+export const getMentionQuery = (text: string, caret: number): MentionQuery | null => {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+};
+
+export const getMentionSuggestions = (
+  query: string,
+  candidates: User[],
+  includeBroadcast: boolean,
+  limit = 6
+): MentionSuggestion[] => {
+  const normalized = query.toLowerCase();
+  const broadcast: MentionSuggestion[] = includeBroadcast
+    ? BROADCAST_MENTIONS.filter(name => name.startsWith(normalized)).map(name => ({ type: 'broadcast', name }))
+    : [];
+  const people: MentionSuggestion[] = candidates
+    .filter(user => user.name.toLowerCase().includes(normalized))
+    .sort((a, b) => Number(!a.name.toLowerCase().startsWith(normalized)) - Number(!b.name.toLowerCase().startsWith(normalized)))
+    .map(user => ({ type: 'user', user }));
+
+  return [...people, ...broadcast].slice(0, limit);
+};
+
+/**
+ * Split message content into plain and mention segments for highlighting.
+ * Only names of users stored in the message's `mentions` are treated as mentions.
+ */
+export const splitMentionSegments = (
+  content: string,
+  mentionedUsers: User[],
+  broadcastMention?: BroadcastMention | null,
+  currentUserId?: string
+): MentionSegment[] => {
+  const names = mentionedUsers.map(user => user.name);
+  if (broadcastMention) names.push(broadcastMention);
+  if (names.length === 0) return [{ text: content, isMention: false }];
+
+  // Longest names first so "Ann Lee" wins over "Ann"
+  const pattern = names
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  const regex = new RegExp(`@(${pattern})(?![\\w])`, 'g');
+  const selfName = mentionedUsers.find(user => user.id === currentUserId)?.name;
+
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(content)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ text: content.slice(lastIndex, match.index), isMention: false });
+    }
+    segments.push({
+      text: match[0],
+      isMention: true,
+      isSelf: match[1] === selfName || match[1] === broadcastMention
+    });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < content.length) {
+    segments.push({ text: content.slice(lastIndex), isMention: false });
+  }
+  return segments;
+};
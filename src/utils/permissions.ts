@@ -0,0 +1,25 @@
+import { Chat, Permission, Role, User } from '../types';
+
+// Like the server, the manager role always has every permission, even before the roles have loaded
+export const MANAGER_ROLE = 'manager';
+
+export const userHasPermission = (user: User | null, roles: Role[], permission: Permission): boolean => {
+  if (!user) return false;
+  if (user.role === MANAGER_ROLE) return true;
+  return roles.find(role => role.key === user.role)?.permissions.includes(permission) ?? false;
+};
+
+// Name to show next to someone: the manager and any role with permissions, not plain members
+export const getRoleBadge = (user: User | null | undefined, roles: Role[]): string | null => {
+  if (!user) return null;
+  const role = roles.find(item => item.key === user.role);
+  if (user.role === MANAGER_ROLE) return role?.name ?? 'Manager';
+  return role && role.permissions.length > 0 ? role.name : null;
+};
+
+// Mirrors the server: moderators and chat admins (the creator, or either side of a direct chat)
+export const canManagePins = (chat: Chat | undefined, user: User | null, roles: Role[]): boolean => {
+  if (!chat || !user) return false;
+  if (userHasPermission(user, roles, 'chats.moderate')) return true;
+  return chat.type === 'direct' ? chat.participants.includes(user.id) : chat.createdBy === user.id;
+};
@@ -0,0 +1,78 @@
+import { format } from 'date-fns';
+import { TaskRecurrence } from '../types';
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const MONTH_WEEK_LABELS: Record<NonNullable<TaskRecurrence['monthWeek']>, string> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  [-1]: 'last',
+};
+
+const UNITS: Record<TaskRecurrence['frequency'], string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year',
+};
+
+const WEEKDAYS_MON_TO_FRI = [1, 2, 3, 4, 5];
+
+export const getDefaultRecurrence = (frequency: TaskRecurrence['frequency'] = 'weekly'): TaskRecurrence => ({
+  frequency,
+  interval: 1,
+  weekdays: [],
+});
+
+const listWeekdays = (weekdays: number[]) => {
+  if (weekdays.length === 5 && WEEKDAYS_MON_TO_FRI.every(day => weekdays.includes(day))) return 'weekdays';
+  const names = [...weekdays].sort((a, b) => a - b).map(day => WEEKDAY_NAMES[day]);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+};
+
+/**
+ * A one-line summary of a repeat rule, e.g. "Every 2 weeks on Monday and Wednesday, 10 times".
+ * `firstDue` fills in what the rule leaves implicit (the weekday or day of the month it repeats on).
+ */
+export const describeRecurrence = (rule: TaskRecurrence, firstDue?: Date | string): string => {
+  const interval = rule.interval || 1;
+  const unit = UNITS[rule.frequency];
+  const start = firstDue ? new Date(firstDue) : rule.startsOn ? new Date(rule.startsOn) : null;
+  const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : null;
+
+  let text = interval === 1
+    ? { daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly', yearly: 'Yearly' }[rule.frequency]
+    : `Every ${interval} ${unit}s`;
+
+  if (rule.frequency === 'daily' && weekdays) {
+    text += `, ${listWeekdays(weekdays)} only`;
+  } else if (rule.frequency === 'weekly' && (weekdays || start)) {
+    text += ` on ${listWeekdays(weekdays || [start!.getDay()])}`;
+  } else if (rule.frequency === 'monthly' && rule.monthWeek) {
+    const weekday = weekdays ? weekdays[0] : start?.getDay();
+    if (weekday !== undefined) text += ` on the ${MONTH_WEEK_LABELS[rule.monthWeek]} ${WEEKDAY_NAMES[weekday]}`;
+  } else if (rule.frequency === 'monthly' && start) {
+    text += ` on day ${start.getDate()}`;
+  } else if (rule.frequency === 'yearly' && start) {
+    text += ` on ${format(start, 'MMMM d')}`;
+  }
+
+  if (rule.until) {
+    text += `, until ${format(new Date(rule.until), 'MMM d, yyyy')}`;
+  } else if (rule.count) {
+    text += rule.count === 1 ? ', once' : `, ${rule.count} times`;
+  }
+  return text;
+};
+
+// The rule as the API expects it: only the fields that apply to its frequency
+export const toRecurrencePayload = (rule: TaskRecurrence): TaskRecurrence => ({
+  frequency: rule.frequency,
+  interval: rule.interval || 1,
+  weekdays: rule.frequency === 'daily' || rule.frequency === 'weekly' || rule.monthWeek ? rule.weekdays || [] : [],
+  ...(rule.frequency === 'monthly' && rule.monthWeek ? { monthWeek: rule.monthWeek } : {}),
+  ...(rule.until ? { until: new Date(rule.until).toISOString() } : {}),
+  ...(!rule.until && rule.count ? { count: rule.count } : {}),
+});
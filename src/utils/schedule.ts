@@ -0,0 +1,18 @@
+import { addDays, addHours, format, nextMonday, setHours, startOfDay, startOfHour } from 'date-fns';
+
+export interface ScheduleSuggestion {
+  label: string;
+  date: Date;
+}
+
+const atNineAm = (day: Date) => setHours(startOfDay(day), 9);
+
+// Quick picks for the schedule-send menu
+export const getScheduleSuggestions = (now: Date = new Date()): ScheduleSuggestion[] => [
+  { label: 'In 3 hours', date: startOfHour(addHours(now, 3)) },
+  { label: 'Tomorrow at 9:00 AM', date: atNineAm(addDays(now, 1)) },
+  { label: 'Monday at 9:00 AM', date: atNineAm(nextMonday(now)) }
+];
+
+// Value for <input type="datetime-local">, which works in local time without seconds
+export const toDateTimeInputValue = (date: Date): string => format(date, "yyyy-MM-dd'T'HH:mm");
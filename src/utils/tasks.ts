@@ -0,0 +1,146 @@
+import { Message, Task, TaskDueFilter, TaskFilters, TaskQueryState, TaskSort, User } from '../types';
+import { stripMarkdown } from './markdown';
+
+// The API populates assignedTo with the user, but edits made locally hold just the id
+export const getTaskAssigneeId = (task: Task): string => {
+  const assignee = task.assignedTo as unknown;
+  if (assignee && typeof assignee === 'object') {
+    const { id, _id } = assignee as { id?: string; _id?: string };
+    return id || _id || '';
+  }
+  return (assignee as string) || '';
+};
+
+export const getTaskAssigneeName = (task: Task, users: User[]): string | undefined => {
+  const assignee = task.assignedTo as unknown;
+  if (assignee && typeof assignee === 'object' && 'name' in assignee) return (assignee as { name: string }).name;
+  const assigneeId = getTaskAssigneeId(task);
+  return users.find(user => user.id === assigneeId)?.name;
+};
+
+// "1h 30m" for a number of minutes
+export const formatDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest}m`;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+};
+
+const MAX_DRAFT_TITLE_LENGTH = 100;
+
+// Title and description for a task created from a chat message: the first line becomes the title
+export const getTaskDraftFromMessage = (message: Message): { title: string; description: string } => {
+  const firstLine = message.content.split('\n').map(line => stripMarkdown(line)).find(Boolean) || '';
+  const title = firstLine.length > MAX_DRAFT_TITLE_LENGTH ? `${firstLine.slice(0, MAX_DRAFT_TITLE_LENGTH - 1)}…` : firstLine;
+  return { title, description: message.content };
+};
+
+export const EMPTY_TASK_FILTERS: TaskFilters = {
+  status: [],
+  priority: [],
+  assignedTo: [],
+  teamId: [],
+  tags: [],
+  q: '',
+  due: ''
+};
+
+export const DEFAULT_TASK_QUERY: TaskQueryState = {
+  filters: EMPTY_TASK_FILTERS,
+  sort: 'dueDate',
+  viewMode: 'dashboard',
+  viewId: null
+};
+
+export const TASK_SORT_LABELS: Record<TaskSort, string> = {
+  dueDate: 'Due date',
+  '-dueDate': 'Due date (latest first)',
+  '-priority': 'Priority',
+  '-createdAt': 'Newest',
+  '-updatedAt': 'Recently updated',
+  title: 'Title'
+};
+
+export const TASK_DUE_LABELS: Record<Exclude<TaskDueFilter, ''>, string> = {
+  overdue: 'Overdue',
+  today: 'Due today',
+  'this-week': 'Due this week',
+  'next-7-days': 'Due in the next 7 days'
+};
+
+const LIST_FILTERS = ['status', 'priority', 'assignedTo', 'teamId', 'tags'] as const;
+
+export const countActiveFilters = (filters: TaskFilters): number =>
+  LIST_FILTERS.filter(key => filters[key].length > 0).length + (filters.q.trim() ? 1 : 0) + (filters.due ? 1 : 0);
+
+// Query parameters for GET /tasks; lists go comma-separated
+export const getTaskQueryParams = ({ filters, sort }: Pick<TaskQueryState, 'filters' | 'sort'>): Record<string, string> => {
+  const params: Record<string, string> = { sort };
+  LIST_FILTERS.forEach(key => {
+    if (filters[key].length > 0) params[key] = filters[key].join(',');
+  });
+  if (filters.q.trim()) params.q = filters.q.trim();
+  if (filters.due) params.due = filters.due;
+  return params;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Matches the server's ranges: weeks start on Monday and "overdue" leaves out finished tasks
+const matchesDue = (task: Task, due: TaskDueFilter, now: Date): boolean => {
+  if (!due) return true;
+  const dueAt = new Date(task.dueDate).getTime();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  switch (due) {
+    case 'overdue':
+      return dueAt < now.getTime() && task.status !== 'completed' && task.status !== 'cancelled';
+    case 'today':
+      return dueAt >= today && dueAt < today + DAY_MS;
+    case 'this-week': {
+      const monday = today - ((now.getDay() + 6) % 7) * DAY_MS;
+      return dueAt >= monday && dueAt < monday + 7 * DAY_MS;
+    }
+    case 'next-7-days':
+      return dueAt >= now.getTime() && dueAt < today + 8 * DAY_MS;
+  }
+};
+
+/**
+ * Apply task filters to loaded tasks, the way GET /tasks does, so tasks that arrive over the socket
+ * or change locally drop in and out of the current view without a refetch.
+ */
+export const filterTasks = (tasks: Task[], filters: TaskFilters, currentUserId?: string): Task[] => {
+  const now = new Date();
+  const assignees = filters.assignedTo.map(id => (id === 'me' ? currentUserId : id));
+  const terms = filters.q.trim().toLowerCase().split(/\s+/).filter(Boolean);
+
+  return tasks.filter(task => {
+    if (filters.status.length > 0 && !filters.status.includes(task.status)) return false;
+    if (filters.priority.length > 0 && !filters.priority.includes(task.priority)) return false;
+    if (assignees.length > 0 && !assignees.includes(getTaskAssigneeId(task))) return false;
+    if (filters.teamId.length > 0 && !(task.teamId && filters.teamId.includes(task.teamId))) return false;
+    if (filters.tags.length > 0 && !task.tags?.some(tag => filters.tags.includes(tag))) return false;
+    if (terms.length > 0) {
+      const text = `${task.title} ${task.description || ''}`.toLowerCase();
+      if (!terms.some(term => text.includes(term))) return false;
+    }
+    return matchesDue(task, filters.due, now);
+  });
+};
+
+const PRIORITY_ORDER: Task['priority'][] = ['urgent', 'high', 'medium', 'low'];
+
+const byTime = (key: 'dueDate' | 'createdAt' | 'updatedAt') => (task: Task) => new Date(task[key]).getTime();
+
+export const sortTasks = (tasks: Task[], sort: TaskSort): Task[] => {
+  const due = byTime('dueDate');
+  const compare: Record<TaskSort, (a: Task, b: Task) => number> = {
+    dueDate: (a, b) => due(a) - due(b),
+    '-dueDate': (a, b) => due(b) - due(a),
+    '-priority': (a, b) => PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority) || due(a) - due(b),
+    '-createdAt': (a, b) => byTime('createdAt')(b) - byTime('createdAt')(a),
+    '-updatedAt': (a, b) => byTime('updatedAt')(b) - byTime('updatedAt')(a),
+    title: (a, b) => a.title.localeCompare(b.title) || due(a) - due(b)
+  };
+  return [...tasks].sort(compare[sort]);
+};